@@ -0,0 +1,43 @@
+#!/usr/bin/env bun
+/**
+ * Rota la master key de las alcancías digitales sin cambiar claves ni direcciones.
+ *
+ *   STARKNET_MASTER_KEY=<actual> STARKNET_MASTER_KEY_NEW=<nueva> bun run rotate-keys
+ *
+ * Usa la misma base de datos que el agente (POSTGRES_URL o PGLITE_DATA_DIR). Al terminar,
+ * reemplaza STARKNET_MASTER_KEY por la nueva llave antes de volver a iniciar el agente.
+ */
+
+import { stringToUuid } from '@elizaos/core';
+import { createDatabaseAdapter } from '@elizaos/plugin-sql';
+import { character } from '../src/character.ts';
+import { loadKeyringFromEnv, parseMasterKey } from '../src/services/key-encryption.ts';
+import { PersistentTelegramStarknetStore } from '../src/services/telegram-starknet.ts';
+
+async function rotate() {
+  const keyring = loadKeyringFromEnv();
+  if (!keyring) throw new Error('STARKNET_MASTER_KEY is required');
+  const newMasterKey = parseMasterKey(process.env.STARKNET_MASTER_KEY_NEW);
+  if (!newMasterKey) throw new Error('STARKNET_MASTER_KEY_NEW is required');
+
+  const agentId = character.id ?? stringToUuid(character.name);
+  const adapter = createDatabaseAdapter(
+    { dataDir: process.env.PGLITE_DATA_DIR, postgresUrl: process.env.POSTGRES_URL },
+    agentId
+  );
+  await adapter.init();
+
+  try {
+    const store = new PersistentTelegramStarknetStore(keyring);
+    const { loaded } = await store.attach(adapter, keyring);
+    const rotated = await store.rotateMasterKey(newMasterKey);
+    console.log(`✓ Rotated ${rotated} of ${loaded} stored accounts`);
+  } finally {
+    await adapter.close();
+  }
+}
+
+rotate().catch((error) => {
+  console.error('✗ Rotation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
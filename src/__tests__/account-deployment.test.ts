@@ -0,0 +1,148 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import {
+  SponsorBudgetStore,
+  deployAccountWithFunding,
+  describeDeployment,
+  sponsorConfig,
+  type DeploymentDriver,
+  type SponsorTreasury,
+} from '../services/account-deployment';
+import { createMemoryCacheBackend } from '../services/storage';
+
+const ADDRESS = '0x0123';
+const FEE = 1_000n;
+
+/** Cuenta falsa: registra lo que se hizo en la red. */
+function fakeAccount({ deployed = false, balance = 0n, failDeploy = false } = {}) {
+  const log: string[] = [];
+  const state = { deployed, balance };
+  const driver: DeploymentDriver = {
+    address: ADDRESS,
+    isDeployed: async () => state.deployed,
+    balanceWei: async () => state.balance,
+    estimateDeployFeeWei: async () => FEE,
+    deploy: async (maxFee) => {
+      log.push(`deploy:${maxFee}`);
+      if (failDeploy) throw new Error('validate failed');
+      state.deployed = true;
+      return '0xdeploy';
+    },
+    waitForTransaction: async (hash) => void log.push(`wait:${hash}`),
+  };
+  const treasury: SponsorTreasury = {
+    fund: async (to, amount) => {
+      log.push(`fund:${to}:${amount}`);
+      state.balance += amount;
+      return '0xfund';
+    },
+    estimateDeployForFeeWei: async () => 1_500n,
+    deployFor: async (maxFee) => {
+      log.push(`udc:${maxFee}`);
+      state.deployed = true;
+      return '0xudc';
+    },
+  };
+  return { driver, treasury, log, state };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('deployAccountWithFunding', () => {
+  it('does nothing for an account that is already deployed', async () => {
+    const { driver, log } = fakeAccount({ deployed: true });
+    expect(await deployAccountWithFunding(driver)).toEqual({ state: 'deployed', address: ADDRESS });
+    expect(log).toEqual([]);
+  });
+
+  it('stays counterfactual and reports the missing fee when unfunded', async () => {
+    const { driver, log } = fakeAccount({ balance: 400n });
+    const result = await deployAccountWithFunding(driver, { entityId: 'maria' });
+    expect(result).toEqual({ state: 'counterfactual', address: ADDRESS, feeWei: FEE, missingWei: 600n });
+    expect(log).toEqual([]);
+    expect(describeDeployment(result)).toContain('Deposita ETH');
+  });
+
+  it('deploys with the estimated max fee when funded', async () => {
+    const { driver, log } = fakeAccount({ balance: FEE });
+    const submitted: string[] = [];
+    const result = await deployAccountWithFunding(driver, { onSubmitted: (hash) => submitted.push(hash) });
+    expect(result).toMatchObject({ state: 'deployed', txHash: '0xdeploy', feeWei: FEE });
+    expect(log).toEqual([`deploy:${FEE}`, 'wait:0xdeploy']);
+    expect(submitted).toEqual(['0xdeploy']);
+  });
+
+  it('reports funded when the deploy itself fails', async () => {
+    const { driver } = fakeAccount({ balance: FEE, failDeploy: true });
+    const result = await deployAccountWithFunding(driver);
+    expect(result.state).toBe('funded');
+    expect('error' in result && result.error?.message).toBe('validate failed');
+  });
+
+  it('tops up from the treasury within the per-user budget', async () => {
+    const budget = new SponsorBudgetStore();
+    const { driver, treasury, log } = fakeAccount({ balance: 300n });
+    const sponsor = { mode: 'fund' as const, budgetPerUserWei: 1_000n };
+    const result = await deployAccountWithFunding(driver, { entityId: 'maria', sponsor, treasury, budget });
+    expect(result).toMatchObject({ state: 'deployed', sponsoredWei: 700n });
+    expect(log).toEqual([`fund:${ADDRESS}:700`, 'wait:0xfund', `deploy:${FEE}`, 'wait:0xdeploy']);
+    expect(budget.remainingWei('maria', 1_000n)).toBe(300n);
+
+    // Una segunda alcancía del mismo usuario ya no cabe en lo que queda
+    const second = fakeAccount();
+    expect((await deployAccountWithFunding(second.driver, { entityId: 'maria', sponsor, treasury: second.treasury, budget })).state).toBe(
+      'counterfactual'
+    );
+    expect(second.log).toEqual([]);
+  });
+
+  it('lets the treasury deploy the account through the UDC', async () => {
+    const budget = new SponsorBudgetStore();
+    const { driver, treasury, log } = fakeAccount();
+    const result = await deployAccountWithFunding(driver, {
+      entityId: 'juan',
+      sponsor: { mode: 'deploy', budgetPerUserWei: 2_000n },
+      treasury,
+      budget,
+    });
+    expect(result).toMatchObject({ state: 'deployed', txHash: '0xudc', sponsoredWei: 1_500n });
+    expect(log).toEqual(['udc:1500', 'wait:0xudc']);
+    expect(describeDeployment(result)).toContain('por nuestra cuenta');
+  });
+});
+
+describe('sponsor configuration', () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('needs a treasury account to sponsor', () => {
+    process.env.ALCANCIA_DEPLOY_SPONSOR = 'fund';
+    delete process.env.STARKNET_ADDRESS;
+    expect(sponsorConfig().mode).toBe('off');
+    process.env.STARKNET_ADDRESS = '0x1';
+    process.env.STARKNET_PRIVATE_KEY = '0x2';
+    process.env.ALCANCIA_SPONSOR_BUDGET_ETH = '0.01';
+    expect(sponsorConfig()).toEqual({ mode: 'fund', budgetPerUserWei: 10n ** 16n });
+  });
+
+  it('persists what each user has spent', async () => {
+    const backend = createMemoryCacheBackend();
+    const budget = new SponsorBudgetStore();
+    await budget.attach(backend);
+    budget.charge('maria', 700n);
+    await budget.flush();
+
+    const reopened = new SponsorBudgetStore();
+    await reopened.attach(backend);
+    expect(reopened.spentWei('maria')).toBe(700n);
+  });
+});
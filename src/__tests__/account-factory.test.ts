@@ -0,0 +1,160 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import { CallData, ec, hash, type RpcProvider } from 'starknet';
+import { ACCOUNT_FACTORIES, accountVariantFromEnv, deriveAccount, findAccountDerivation } from '../services/account-factory';
+import {
+  PersistentTelegramStarknetStore,
+  computeSmartAccountDetails,
+  deployInvisibleAccount,
+  deploySmartAccountIfPossible,
+} from '../services/telegram-starknet';
+import { LocalKeySigner } from '../services/signers';
+import { createKeyring, parseMasterKey } from '../services/key-encryption';
+import { createMemoryCacheBackend } from '../services/storage';
+
+/**
+ * Vectores fijos: si cambian, las alcancías existentes quedarían con otra dirección.
+ * Se calcularon una vez con starknet.js (deployer 0, salt = clave pública).
+ */
+const GOLDEN = [
+  {
+    privateKey: '0x1',
+    publicKey: '0x1ef15c18599971b7beced415a40f0c7deacfd9b0d1819e03d723d8bc943cfca',
+    oz: '0x2b5cea709ab25612f9d014a3312f1c6dbd988add3bf396c1866db1b03b09194',
+    argent: '0x5a9939e8ec299610d6662878119e3fbffd98d9064e2d288ecdb1be4d61ca16d',
+    braavos: '0x260565660443aa1bd7b49040bc600b36e3dd82c4dd8d06ee1a77b4dc595bae7',
+  },
+  {
+    privateKey: '0x2b4d6e8f0a1c3e5f7092b4d6e8f0a1c3e5f7092b4d6e8f0a1c3e5f7092b4d6e',
+    publicKey: '0x4b1d64633dcd11624c659b14380e106b744e28a464a56ecd1bcaaebb719bab',
+    oz: '0x51df70abb128ce5e31c9c4cd0b46dd195f9e5f736479c4e757c6fcd2c95cb45',
+    argent: '0x2e8179ca4ad2136f76e8da7fedfdc0908d270b67415e929b49003aa1b4988f8',
+    braavos: '0x24c0d51c32c23128fdf08630713c6ad48539d1f5dfdb5a077965e408aff8fae',
+  },
+] as const;
+
+const saved = { ...process.env };
+
+beforeEach(() => {
+  delete process.env.STARKNET_ACCOUNT_VARIANT;
+  delete process.env.STARKNET_ACCOUNT_CLASS_HASH;
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.env = { ...saved };
+  mock.restore();
+});
+
+describe('account factory golden vectors', () => {
+  for (const vector of GOLDEN) {
+    it(`pins the addresses derived from ${vector.privateKey.slice(0, 10)}`, () => {
+      expect(ec.starkCurve.getStarkKey(vector.privateKey)).toBe(vector.publicKey);
+      expect(deriveAccount(vector.publicKey, { variant: 'oz' }).address).toBe(vector.oz);
+      expect(deriveAccount(vector.publicKey, { variant: 'argent' }).address).toBe(vector.argent);
+      expect(deriveAccount(vector.publicKey, { variant: 'braavos' }).address).toBe(vector.braavos);
+    });
+  }
+
+  it('builds the constructor calldata each contract expects', () => {
+    const { publicKey } = GOLDEN[0];
+    const felt = BigInt(publicKey).toString();
+    expect(deriveAccount(publicKey, { variant: 'oz' }).constructorCalldata).toEqual([felt]);
+    expect(deriveAccount(publicKey, { variant: 'argent' }).constructorCalldata).toEqual([felt, '0']);
+    expect(deriveAccount(publicKey, { variant: 'braavos' })).toMatchObject({
+      classHash: ACCOUNT_FACTORIES.braavos.defaultClassHash,
+      constructorCalldata: [felt],
+      addressSalt: publicKey,
+    });
+  });
+});
+
+describe('account variant configuration', () => {
+  it('reads the variant and class hash override from the environment', () => {
+    expect(accountVariantFromEnv()).toBe('oz');
+    process.env.STARKNET_ACCOUNT_VARIANT = 'Argent';
+    expect(accountVariantFromEnv()).toBe('argent');
+    process.env.STARKNET_ACCOUNT_VARIANT = 'ledger';
+    expect(accountVariantFromEnv()).toBe('oz');
+    process.env.STARKNET_ACCOUNT_VARIANT = 'braavos';
+    expect(accountVariantFromEnv()).toBe('oz');
+
+    process.env.STARKNET_ACCOUNT_VARIANT = 'argent';
+    process.env.STARKNET_ACCOUNT_CLASS_HASH = '0x123';
+    const derived = deriveAccount(GOLDEN[0].publicKey);
+    expect(derived.classHash).toBe('0x123');
+    expect(derived.address).not.toBe(GOLDEN[0].argent);
+  });
+
+  it('computes the same address the store shows and the deploy uses', () => {
+    process.env.STARKNET_ACCOUNT_VARIANT = 'argent';
+    expect(computeSmartAccountDetails(GOLDEN[1].publicKey)).toMatchObject({
+      variant: 'argent',
+      precalculatedAddress: GOLDEN[1].argent,
+    });
+  });
+
+  it('does not try to deploy a Braavos account nor hand out its address', async () => {
+    const provider = {
+      getClassHashAt: async () => {
+        throw new Error('no network calls expected');
+      },
+    } as unknown as RpcProvider;
+    const derivation = deriveAccount(GOLDEN[0].publicKey, { variant: 'braavos' });
+    const result = await deploySmartAccountIfPossible(new LocalKeySigner('golden-0', (use) => use(GOLDEN[0].privateKey)), { provider, derivation });
+    expect(result.address).toBeUndefined();
+    expect(result.error?.message).toBe('braavos accounts cannot be deployed by the agent');
+  });
+});
+
+describe('accounts stored before the Argent calldata change', () => {
+  const CLASS_HASH = ACCOUNT_FACTORIES.argent.defaultClassHash;
+  /** Como se calculaba antes: constructor con la clave pública sola */
+  const legacyArgentAddress = (publicKey: string) =>
+    hash.calculateContractAddressFromHash(publicKey, CLASS_HASH, CallData.compile({ publicKey }), 0);
+
+  it('recognizes the derivation that produced a stored address', () => {
+    const { publicKey } = GOLDEN[0];
+    expect(findAccountDerivation(publicKey, GOLDEN[0].argent, { variant: 'argent' })?.constructorCalldata).toHaveLength(2);
+    const legacy = findAccountDerivation(publicKey, legacyArgentAddress(publicKey), { variant: 'argent' });
+    expect(legacy).toMatchObject({ address: legacyArgentAddress(publicKey), constructorCalldata: [BigInt(publicKey).toString()] });
+    expect(findAccountDerivation(publicKey, '0x1234', { variant: 'argent' })).toBeUndefined();
+  });
+
+  it('keeps the stored address and deploys it with the calldata that produced it', async () => {
+    process.env.STARKNET_ACCOUNT_VARIANT = 'argent';
+    const keyring = createKeyring(parseMasterKey('88'.repeat(32))!);
+    const backend = createMemoryCacheBackend();
+    const before = new PersistentTelegramStarknetStore(keyring);
+    await before.attach(backend, keyring);
+    before.ensureAccountForEntityId('old-argent');
+    await before.flush();
+    const publicKey = before.withPrivateKey('old-argent', (key) => '0x' + ec.starkCurve.getStarkKey(key).replace(/^0x/, ''));
+    const oldAddress = legacyArgentAddress(publicKey);
+    const key = 'telegram-starknet:account:old-argent';
+    await backend.setCache(key, { ...(await backend.getCache<object>(key)), accountAddressHex: oldAddress });
+
+    const after = new PersistentTelegramStarknetStore(keyring);
+    await after.attach(backend, keyring);
+    expect(after.getAccountByEntityId('old-argent')).toMatchObject({ accountAddressHex: oldAddress, derivation: { variant: 'argent' } });
+
+    const checked: string[] = [];
+    const provider = {
+      getClassHashAt: async (address: string) => {
+        checked.push(address);
+        return CLASS_HASH;
+      },
+    } as unknown as RpcProvider;
+    await deployInvisibleAccount('old-argent', {
+      store: after,
+      deploy: (signer, options) => deploySmartAccountIfPossible(signer, { ...options, provider }),
+    });
+    expect(checked).toEqual([oldAddress]);
+    expect(after.getAccountByEntityId('old-argent')).toMatchObject({ accountAddressHex: oldAddress, lifecycle: { state: 'deployed' } });
+
+    const reopened = new PersistentTelegramStarknetStore(keyring);
+    await reopened.attach(backend, keyring);
+    expect(reopened.getAccountByEntityId('old-argent')?.derivation?.constructorCalldata).toEqual([BigInt(publicKey).toString()]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import {
+  STALE_DEPLOY_MS,
+  canStartDeploy,
+  describeLifecycle,
+  initialLifecycle,
+  transitionLifecycle,
+} from '../services/account-lifecycle';
+import { PersistentTelegramStarknetStore, deployInvisibleAccount, type deploySmartAccountIfPossible } from '../services/telegram-starknet';
+import { createKeyring, parseMasterKey } from '../services/key-encryption';
+import { createMemoryCacheBackend } from '../services/storage';
+
+type DeployResult = Awaited<ReturnType<typeof deploySmartAccountIfPossible>>;
+
+const keyring = createKeyring(parseMasterKey('22'.repeat(32))!);
+const ADDRESS = '0x0123';
+
+/** Despliegue falso: devuelve los resultados en orden y avisa el hash como lo haría la red. */
+function scriptedDeploy(...results: Array<DeployResult & { submitted?: string }>): typeof deploySmartAccountIfPossible {
+  return async (_signer, options) => {
+    const next = results.shift()!;
+    if (next.submitted) options?.onSubmitted?.(next.submitted);
+    return next;
+  };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('account lifecycle transitions', () => {
+  it('records timestamps, tx hash and last error', () => {
+    const derived = initialLifecycle(1);
+    const waiting = transitionLifecycle(derived, 'awaiting_funds', { nowMs: 2, missingFeeWei: 500n });
+    expect(waiting).toEqual({ state: 'awaiting_funds', changedAtMs: 2, lastAttemptAtMs: 2, missingFeeWei: '500' });
+    const failed = transitionLifecycle(transitionLifecycle(waiting, 'deploying', { nowMs: 3, txHash: '0xd' }), 'failed', {
+      nowMs: 4,
+      error: 'reverted',
+    });
+    expect(failed).toMatchObject({ state: 'failed', changedAtMs: 4, deployTxHash: '0xd', lastError: 'reverted' });
+    expect(transitionLifecycle(failed, 'deployed', { nowMs: 5 })).toMatchObject({ state: 'deployed', deployedAtMs: 5 });
+    expect(describeLifecycle(waiting)).toContain('~0.0000000000000005 ETH');
+  });
+
+  it('rejects transitions out of deployed', () => {
+    const deployed = transitionLifecycle(initialLifecycle(1), 'deployed', { nowMs: 2 });
+    expect(() => transitionLifecycle(deployed, 'failed')).toThrow('Invalid account transition: deployed -> failed');
+    expect(() => transitionLifecycle(deployed, 'deploying')).toThrow();
+  });
+
+  it('lets a stuck deploy be retried only after a while', () => {
+    const deploying = transitionLifecycle(initialLifecycle(0), 'deploying', { nowMs: 1_000 });
+    expect(canStartDeploy(deploying, 2_000)).toEqual({ ok: false, reason: 'in_progress' });
+    expect(canStartDeploy(deploying, 1_000 + STALE_DEPLOY_MS)).toEqual({ ok: true });
+  });
+});
+
+describe('deployInvisibleAccount', () => {
+  it('waits for funds, then resumes and deploys', async () => {
+    const store = new PersistentTelegramStarknetStore(keyring);
+    store.ensureAccountForEntityId('maria');
+    const deploy = scriptedDeploy(
+      {
+        address: ADDRESS,
+        state: 'counterfactual',
+        deployment: { state: 'counterfactual', address: ADDRESS, feeWei: 1_000n, missingWei: 1_000n },
+        error: new Error('Account not funded'),
+      },
+      {
+        address: ADDRESS,
+        txHash: '0xdeploy',
+        state: 'deployed',
+        deployment: { state: 'deployed', address: ADDRESS, txHash: '0xdeploy', feeWei: 1_000n },
+        submitted: '0xdeploy',
+      }
+    );
+
+    const first = await deployInvisibleAccount('maria', { store, deploy });
+    expect(first.status === 'attempted' && first.account.lifecycle).toMatchObject({ state: 'awaiting_funds', missingFeeWei: '1000' });
+    expect(store.getAccountByEntityId('maria')?.accountAddressHex).toBe(ADDRESS);
+
+    const submitted: string[] = [];
+    const second = await deployInvisibleAccount('maria', { store, deploy, onSubmitted: (hash) => submitted.push(hash) });
+    expect(second.account?.lifecycle).toMatchObject({ state: 'deployed', deployTxHash: '0xdeploy' });
+    expect(submitted).toEqual(['0xdeploy']);
+
+    expect(await deployInvisibleAccount('maria', { store, deploy })).toMatchObject({ status: 'skipped', reason: 'deployed' });
+  });
+
+  it('marks a failed attempt and keeps the state when there is no RPC', async () => {
+    const store = new PersistentTelegramStarknetStore(keyring);
+    store.ensureAccountForEntityId('juan');
+    await deployInvisibleAccount('juan', { store, deploy: scriptedDeploy({ error: new Error('Missing STARKNET_RPC_URL') }) });
+    expect(store.getAccountByEntityId('juan')?.lifecycle.state).toBe('derived');
+
+    await deployInvisibleAccount('juan', {
+      store,
+      deploy: scriptedDeploy({
+        address: ADDRESS,
+        state: 'funded',
+        deployment: { state: 'funded', address: ADDRESS, feeWei: 1n, error: new Error('Account validation failed\nstack') },
+        error: new Error('Account validation failed\nstack'),
+        submitted: '0xbad',
+      }),
+    });
+    expect(store.getAccountByEntityId('juan')?.lifecycle).toMatchObject({
+      state: 'failed',
+      deployTxHash: '0xbad',
+      lastError: 'Account validation failed',
+    });
+  });
+
+  it('persists the lifecycle and loads old records as derived', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(keyring);
+    await store.attach(backend, keyring);
+    store.ensureAccountForEntityId('ana');
+    store.transitionAccount('ana', 'awaiting_funds', { missingFeeWei: 7n });
+    await store.flush();
+
+    const reopened = new PersistentTelegramStarknetStore(keyring);
+    await reopened.attach(backend, keyring);
+    expect(reopened.getAccountByEntityId('ana')?.lifecycle).toMatchObject({ state: 'awaiting_funds', missingFeeWei: '7' });
+
+    // Registro anterior a los estados: se carga como 'derived'
+    const stored = await backend.getCache<Record<string, unknown>>('telegram-starknet:account:ana');
+    await backend.setCache('telegram-starknet:account:ana', { ...stored, lifecycle: undefined });
+    const legacy = new PersistentTelegramStarknetStore(keyring);
+    await legacy.attach(backend, keyring);
+    expect(legacy.getAccountByEntityId('ana')?.lifecycle.state).toBe('derived');
+  });
+});
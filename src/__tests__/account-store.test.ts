@@ -0,0 +1,152 @@
+import { describe, expect, it, beforeAll, spyOn } from 'bun:test';
+import { logger } from '@elizaos/core';
+import { ec } from 'starknet';
+import { PersistentTelegramStarknetStore, computeSmartAccountDetails, getAccountSigner } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+import {
+  createEphemeralKeyring,
+  createKeyring,
+  decryptSecret,
+  encryptSecret,
+  openSecret,
+  parseMasterKey,
+  rewrapSecret,
+  sealSecret,
+} from '../services/key-encryption';
+
+const masterKey = parseMasterKey('11'.repeat(32))!;
+const keyring = createKeyring(masterKey);
+
+beforeAll(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+describe('key encryption', () => {
+  it('parses hex, base64 and passphrase master keys into 32 bytes', () => {
+    expect(parseMasterKey('0x' + 'ab'.repeat(32))?.length).toBe(32);
+    expect(parseMasterKey(Buffer.alloc(32, 7).toString('base64'))?.length).toBe(32);
+    expect(parseMasterKey('una frase larga de respaldo')?.length).toBe(32);
+    expect(parseMasterKey('  ')).toBeUndefined();
+  });
+
+  it('round-trips and rejects ciphertext moved to another owner', () => {
+    const secret = encryptSecret(masterKey, '0x1234', 'entity-a');
+    expect(secret.ct).not.toContain('1234');
+    expect(decryptSecret(masterKey, secret, 'entity-a')).toBe('0x1234');
+    expect(() => decryptSecret(masterKey, secret, 'entity-b')).toThrow();
+  });
+
+  it('re-wraps the data key without touching the secret ciphertext', () => {
+    const oldRing = createKeyring(masterKey);
+    const sealed = sealSecret(oldRing, '0xabc', 'entity-a');
+
+    const newRing = createKeyring(parseMasterKey('33'.repeat(32))!, [masterKey]);
+    const rewrapped = rewrapSecret(newRing, sealed, 'entity-a');
+    expect(rewrapped.kekId).toBe(newRing.current.id);
+    expect(rewrapped.secret).toEqual(sealed.secret);
+    expect(openSecret(createKeyring(parseMasterKey('33'.repeat(32))!), rewrapped, 'entity-a')).toBe('0xabc');
+    expect(() => openSecret(oldRing, rewrapped, 'entity-a')).toThrow();
+  });
+});
+
+describe('PersistentTelegramStarknetStore', () => {
+  it('persists accounts with the private key encrypted at rest', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(keyring);
+    await store.attach(backend, keyring);
+
+    const account = store.ensureAccountForEntityId('entity-1');
+    await store.flush();
+
+    const privateKeyHex = store.withPrivateKey('entity-1', (key) => key);
+    const raw = await backend.getCache<any>('telegram-starknet:account:entity-1');
+    expect(raw).toBeDefined();
+    expect(JSON.stringify(raw)).not.toContain(privateKeyHex.slice(2));
+    expect(JSON.stringify(account)).not.toContain(privateKeyHex.slice(2));
+    expect(await backend.getCache<string[]>('telegram-starknet:accounts')).toEqual(['entity-1']);
+  });
+
+  it('restores keys and addresses after a restart', async () => {
+    const backend = createMemoryCacheBackend();
+    const first = new PersistentTelegramStarknetStore(keyring);
+    await first.attach(backend, keyring);
+    first.ensureAccountForEntityId('entity-2');
+    const createdKey = first.withPrivateKey('entity-2', (key) => key);
+    first.setAccountAddress('entity-2', '0x0123');
+    await first.flush();
+
+    const second = new PersistentTelegramStarknetStore(keyring);
+    const result = await second.attach(backend, keyring);
+    expect(result.loaded).toBe(1);
+    const restored = second.getAccountByEntityId('entity-2');
+    expect(second.withPrivateKey('entity-2', (key) => key)).toBe(createdKey);
+    expect(restored?.accountAddressHex).toBe('0x0123');
+  });
+
+  it('uses the counterfactual account address, never the public key', async () => {
+    const store = new PersistentTelegramStarknetStore(keyring);
+    const account = store.ensureAccountForEntityId('entity-address');
+    const publicKey = await getAccountSigner('entity-address', store).getPublicKey();
+    expect(account.accountAddressHex).toBe(computeSmartAccountDetails(publicKey)!.precalculatedAddress);
+    expect(BigInt(account.accountAddressHex!)).not.toBe(BigInt(publicKey));
+  });
+
+  it('replaces a stored public key with the real address on attach', async () => {
+    const backend = createMemoryCacheBackend();
+    const first = new PersistentTelegramStarknetStore(keyring);
+    await first.attach(backend, keyring);
+    first.ensureAccountForEntityId('entity-pubkey');
+    const publicKey = first.withPrivateKey('entity-pubkey', (key) => ec.starkCurve.getStarkKey(key));
+    first.setAccountAddress('entity-pubkey', publicKey);
+    await first.flush();
+
+    const second = new PersistentTelegramStarknetStore(keyring);
+    const result = await second.attach(backend, keyring);
+    expect(result.readdressed).toBe(1);
+    const expected = computeSmartAccountDetails(publicKey)!.precalculatedAddress;
+    expect(second.getAccountByEntityId('entity-pubkey')?.accountAddressHex).toBe(expected);
+    expect((await backend.getCache<any>('telegram-starknet:account:entity-pubkey')).accountAddressHex).toBe(expected);
+  });
+
+  it('migrates accounts created in memory before attaching', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(createEphemeralKeyring());
+    store.ensureAccountForEntityId('early');
+    const earlyKey = store.withPrivateKey('early', (key) => key);
+
+    const result = await store.attach(backend, keyring);
+    expect(result.migrated).toBe(1);
+
+    const reloaded = new PersistentTelegramStarknetStore(keyring);
+    await reloaded.attach(backend, keyring);
+    expect(reloaded.withPrivateKey('early', (key) => key)).toBe(earlyKey);
+  });
+
+  it('keeps unreadable records in the index when the master key is wrong', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(keyring);
+    await store.attach(backend, keyring);
+    store.ensureAccountForEntityId('locked');
+    await store.flush();
+
+    const wrongKeyring = createKeyring(parseMasterKey('22'.repeat(32))!);
+    const other = new PersistentTelegramStarknetStore(wrongKeyring);
+    const result = await other.attach(backend, wrongKeyring);
+    expect(result.loaded).toBe(0);
+    other.ensureAccountForEntityId('fresh');
+    await other.flush();
+
+    expect(await backend.getCache<string[]>('telegram-starknet:accounts')).toEqual(['locked', 'fresh']);
+  });
+
+  it('stays in memory only without a master key', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(createEphemeralKeyring());
+    await store.attach(backend, createEphemeralKeyring());
+    store.ensureAccountForEntityId('volatile');
+    await store.flush();
+    expect(await backend.getCache('telegram-starknet:accounts')).toBeUndefined();
+  });
+});
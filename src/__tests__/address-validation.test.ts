@@ -0,0 +1,131 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { getChecksumAddress, RpcError } from 'starknet';
+import plugin from '../plugin';
+import {
+  ADDRESS_BOUND,
+  checkRecipient,
+  contractDeployment,
+  isContractNotFound,
+  validateStarknetAddress,
+} from '../services/address-validation';
+import { parseTransferRequest } from '../services/transfer-parser';
+import { builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+
+const tokens = builtinTokens();
+const STRK = tokens.find((t) => t.symbol === 'STRK')!;
+const FRIEND = '0x4d41';
+
+/** getClassHashAt simulado: contrato desplegado, inexistente o red caída. */
+function fakeClassHashes(deployed: string[], { down = false } = {}) {
+  return {
+    getClassHashAt: async (address: string) => {
+      if (down) throw new Error('fetch failed');
+      if (deployed.includes(normalizeTokenAddress(address))) return '0xc1a55';
+      throw new RpcError({ code: 20, message: 'Contract not found' }, 'starknet_getClassHashAt', { contract_address: address });
+    },
+  };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('validateStarknetAddress', () => {
+  it('normalizes felts inside the address range', () => {
+    expect(validateStarknetAddress(' 0x04D41 ')).toEqual({ valid: true, address: normalizeTokenAddress(FRIEND) });
+    expect(validateStarknetAddress('0x' + (ADDRESS_BOUND - 1n).toString(16))).toMatchObject({ valid: true });
+  });
+
+  it('rejects malformed, reserved and out-of-range values', () => {
+    const reason = (raw: string) => {
+      const result = validateStarknetAddress(raw);
+      return result.valid ? undefined : result.reason;
+    };
+    expect(reason('0xz1')).toBe('La dirección 0xz1 no es válida en Starknet: debe empezar con 0x y llevar solo dígitos hexadecimales.');
+    expect(reason('0x' + '1'.repeat(65))).toContain('tiene más de 64 dígitos');
+    expect(reason('0x0')).toContain('es una dirección reservada del sistema');
+    expect(reason('0x1')).toContain('es una dirección reservada del sistema');
+    expect(reason('0x' + ADDRESS_BOUND.toString(16))).toContain('está fuera del rango de direcciones');
+  });
+
+  it('checks the checksum of mixed-case addresses', () => {
+    const checksummed = getChecksumAddress('0x90591d9fa3efc87067d95a643f8455e0b8190eb8cb7bfd39e4fb7571fdf');
+    expect(validateStarknetAddress(checksummed)).toMatchObject({ valid: true });
+    // Sin los ceros de relleno también vale
+    expect(validateStarknetAddress('0x' + checksummed.slice(2).replace(/^0+/, ''))).toMatchObject({ valid: true });
+    expect(validateStarknetAddress(checksummed.toUpperCase().replace('0X', '0x'))).toMatchObject({ valid: true });
+    const tampered = checksummed.replace(/[a-f]/, (c) => c.toUpperCase());
+    expect(validateStarknetAddress(tampered)).toMatchObject({ valid: false });
+
+    const parsed = parseTransferRequest(`envía 1 STRK a ${tampered}`, {}, tokens);
+    expect(parsed.status === 'incomplete' && parsed.problems[0]).toContain('las mayúsculas no coinciden con su checksum');
+  });
+});
+
+describe('isContractNotFound', () => {
+  it('reads the RPC error code, not the message text', () => {
+    expect(isContractNotFound(new RpcError({ code: 20, message: 'Contract not found' }, 'starknet_getClassHashAt', {}))).toBe(true);
+    expect(isContractNotFound({ code: 20, message: 'Contract not found' })).toBe(true);
+    expect(isContractNotFound(new RpcError({ code: 24, message: 'Block not found' }, 'starknet_getClassHashAt', { block_id: 20 }))).toBe(false);
+    expect(isContractNotFound(new Error('Transfer of 20 STRK failed at block 20 (port 20)'))).toBe(false);
+    expect(isContractNotFound('20')).toBe(false);
+  });
+});
+
+describe('checkRecipient', () => {
+  it('blocks the own account and token contracts', async () => {
+    expect(await checkRecipient(FRIEND, { ownAddress: '0x04d41', tokens })).toEqual({
+      problems: ['Esa es la dirección de tu propia alcancía; enviarte a ti mismo solo gastaría la comisión.'],
+      warnings: [],
+    });
+    expect((await checkRecipient(STRK.address, { tokens })).problems).toEqual([
+      'Esa es la dirección del contrato del token STRK, no una alcancía: lo que se envíe ahí se pierde.',
+    ]);
+  });
+
+  it('warns when nothing is deployed at the address', async () => {
+    const provider = fakeClassHashes([normalizeTokenAddress(FRIEND)]);
+    expect(await contractDeployment(provider, FRIEND)).toBe('deployed');
+    expect(await contractDeployment(provider, '0x5')).toBe('not_deployed');
+    expect(await contractDeployment(fakeClassHashes([], { down: true }), '0x5')).toBe('unknown');
+
+    expect(await checkRecipient(FRIEND, { tokens, provider })).toEqual({ problems: [], warnings: [] });
+    const fresh = await checkRecipient('0x5', { tokens, provider });
+    expect(fresh.warnings[0]).toStartWith('⚠️ En esa dirección todavía no hay una cuenta activa.');
+    expect(await checkRecipient('0x5', { tokens, provider: fakeClassHashes([], { down: true }) })).toEqual({ problems: [], warnings: [] });
+  });
+});
+
+describe('recipient checks in the transfer flow', () => {
+  it('refuses to send to the own account or a token contract', async () => {
+    const entityId = 'address-check-user';
+    const own = telegramStarknetStore.ensureAccountForEntityId(entityId).accountAddressHex!;
+    const action = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    const replies: string[] = [];
+    const send = (id: string, text: string) =>
+      action.handler(
+        { actions: [] } as unknown as IAgentRuntime,
+        { id, entityId, roomId: 'room-address-check', content: { text, source: 'telegram' } } as unknown as Memory,
+        undefined,
+        {},
+        async (content: Content) => {
+          replies.push(content.text ?? '');
+          return [];
+        },
+        []
+      );
+
+    await send('msg-address-1', `envía 1 STRK a ${own}`);
+    expect(replies.at(-1)).toBe('Esa es la dirección de tu propia alcancía; enviarte a ti mismo solo gastaría la comisión.');
+    await send('msg-address-2', `envía 1 STRK a ${STRK.address}`);
+    expect(replies.at(-1)).toBe('Esa es la dirección del contrato del token STRK, no una alcancía: lo que se envíe ahí se pierde.');
+  });
+});
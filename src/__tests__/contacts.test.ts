@@ -0,0 +1,167 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  ContactStore,
+  UsernameDirectory,
+  contactNameProblem,
+  contactStore,
+  parseContactCommand,
+  recipientResolver,
+  usernameDirectory,
+} from '../services/contacts';
+import { parseTransferRequest } from '../services/transfer-parser';
+import { builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+
+const tokens = builtinTokens();
+const MAMA = '0x' + 'abc'.padStart(64, '0');
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('parseContactCommand', () => {
+  it('saves an address or a username under the name after "como"', () => {
+    expect(parseContactCommand('guarda 0xabc como mamá')).toEqual({ kind: 'save', name: 'mamá', address: MAMA });
+    expect(parseContactCommand('Agrega a @Maria como "Mary" en mis contactos')).toEqual({ kind: 'save', name: 'Mary', username: 'maria' });
+    expect(parseContactCommand('guarda 0xdef', ['mama'])).toEqual({ kind: 'invalid', reason: '¿Con qué nombre lo guardo? Por ejemplo: "guarda 0x… como mamá".' });
+    expect(parseContactCommand('cambia a mamá a 0xdef', ['mama'])).toMatchObject({ kind: 'save', name: 'mama' });
+  });
+
+  it('finds the contact to rename, delete or show', () => {
+    const names = ['mama', 'tio juan'];
+    expect(parseContactCommand('renombra a mamá como mami', names)).toEqual({ kind: 'rename', from: 'mama', to: 'mami' });
+    expect(parseContactCommand('cambia el nombre de tío Juan a Juanito', names)).toEqual({ kind: 'rename', from: 'tio juan', to: 'Juanito' });
+    expect(parseContactCommand('borra a mamá de mis contactos', names)).toEqual({ kind: 'delete', name: 'mama' });
+    expect(parseContactCommand('elimina el contacto pepe', names)).toEqual({ kind: 'delete' });
+    expect(parseContactCommand('contacto tío juan', names)).toEqual({ kind: 'show', name: 'tio juan' });
+    expect(parseContactCommand('mis contactos', names)).toEqual({ kind: 'list' });
+  });
+
+  it('rejects names that would read as an amount, a token or an address', () => {
+    expect(contactNameProblem('mamá', tokens)).toBeUndefined();
+    expect(contactNameProblem('STRK', tokens)).toBe('"STRK" es el nombre de un token; elige otro para no confundir tus envíos.');
+    expect(contactNameProblem('cinco', tokens)).toBe('El nombre de un contacto no puede ser un número.');
+    expect(contactNameProblem('@maria', tokens)).toBe('Ponle un nombre sin @ ni 0x, como "mamá" o "tío Juan".');
+  });
+});
+
+describe('ContactStore', () => {
+  it('updates the destination when a name is saved again and keeps names unique', () => {
+    const store = new ContactStore();
+    expect(store.save('maria', { name: 'Mamá', address: MAMA }, 1).status).toBe('created');
+    expect(store.save('maria', { name: 'mama', username: '@Lupita' }, 2)).toMatchObject({
+      status: 'updated',
+      contact: { name: 'Mamá', key: 'mama', username: 'lupita', updatedAtMs: 2 },
+    });
+    expect(store.get('maria', 'MAMÁ')?.address).toBeUndefined();
+    store.save('maria', { name: 'Papá', address: MAMA });
+    expect(store.rename('maria', 'papa', 'mamá')).toMatchObject({ status: 'taken' });
+    expect(store.rename('maria', 'papa', 'Papi')).toMatchObject({ status: 'renamed', contact: { name: 'Papi', key: 'papi' } });
+    expect(store.remove('maria', 'papi')?.name).toBe('Papi');
+    expect(store.names('maria')).toEqual(['mama']);
+    expect(store.list('luis')).toEqual([]);
+  });
+
+  it('persists contacts and usernames across restarts', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new ContactStore();
+    const directory = new UsernameDirectory();
+    await before.attach(backend);
+    await directory.attach(backend);
+    before.save('maria', { name: 'mamá', address: MAMA });
+    directory.remember('lupita-id', '@Lupita');
+    await before.flush();
+    await directory.flush();
+
+    const after = new ContactStore();
+    expect(await after.attach(backend)).toEqual({ loaded: 1 });
+    expect(after.get('maria', 'mama')?.address).toBe(MAMA);
+    const restored = new UsernameDirectory();
+    await restored.attach(backend);
+    expect(restored.lookup('lupita')).toBe('lupita-id');
+  });
+
+  it('forgets the old username when a user changes it', () => {
+    const directory = new UsernameDirectory();
+    directory.remember('lupita-id', 'lupita');
+    directory.remember('lupita-id', 'lupe');
+    expect(directory.lookup('lupita')).toBeUndefined();
+    expect(directory.usernameOf('lupita-id')).toBe('lupe');
+  });
+});
+
+describe('recipientResolver', () => {
+  const contacts = new ContactStore();
+  contacts.save('maria', { name: 'mamá', address: MAMA });
+  contacts.save('maria', { name: 'Lupe', username: 'lupita' });
+  const usernames = new UsernameDirectory();
+  usernames.remember('lupita-id', 'lupita');
+  usernames.remember('nuevo-id', 'nuevo');
+  const accounts = {
+    getAccountByEntityId: (entityId: string) =>
+      entityId === 'lupita-id' ? ({ accountAddressHex: '0x123' } as ReturnType<typeof telegramStarknetStore.getAccountByEntityId>) : undefined,
+  };
+  const resolver = recipientResolver('maria', { contacts, usernames, accounts });
+
+  it('sends to a saved contact or to another user by @username', () => {
+    const toMama = parseTransferRequest('envía 5 STRK a mamá', {}, tokens, resolver);
+    expect(toMama).toMatchObject({ status: 'complete', intent: { recipient: { kind: 'address', address: MAMA, label: 'mamá' } } });
+    const toLupe = parseTransferRequest('manda 1 USDC a @lupita', {}, tokens, resolver);
+    expect(toLupe).toMatchObject({ status: 'complete', intent: { recipient: { address: normalizeTokenAddress('0x123'), label: '@lupita' } } });
+    expect(parseTransferRequest('manda 1 USDC a lupe', {}, tokens, resolver)).toMatchObject({ intent: { recipient: { label: 'Lupe' } } });
+  });
+
+  it('explains why a username cannot receive yet', () => {
+    const unknown = parseTransferRequest('envía 1 STRK a @pepe', {}, tokens, resolver);
+    expect(unknown.status === 'incomplete' && unknown.problems).toEqual([
+      'No conozco a @pepe: pídele que me escriba una vez, o compárteme su dirección 0x….',
+    ]);
+    const noAccount = parseTransferRequest('envía 1 STRK a @nuevo', {}, tokens, resolver);
+    expect(noAccount.status === 'incomplete' && noAccount.problems).toEqual(['@nuevo todavía no tiene alcancía; pídele que me escriba "crear alcancía".']);
+  });
+});
+
+describe('contacts in the chat flow', () => {
+  const say = (id: string, entityId: string, text: string) =>
+    ({ id, entityId, roomId: `room-${entityId}`, content: { text, source: 'telegram' } }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+  const runtime = { actions: [] } as unknown as IAgentRuntime;
+
+  it('sends to @maria and to a saved alias', async () => {
+    telegramStarknetStore.ensureAccountForEntityId('contacts-pablo');
+    const maria = telegramStarknetStore.ensureAccountForEntityId('contacts-maria');
+    usernameDirectory.remember('contacts-maria', 'maria');
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const mariaAddress = normalizeTokenAddress(maria.accountAddressHex!);
+
+    await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, say('msg-contacts-1', 'contacts-pablo', 'envía 0.01 ETH a @maria'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith(`Vas a enviar:\n• Monto: 0.01 ETH\n• Destino: @maria (${mariaAddress})`);
+
+    const contacts = action('MANAGE_CONTACTS');
+    await contacts.handler(runtime, say('msg-contacts-2', 'contacts-pablo', 'guarda 0xabc como mamá'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe(`📒 Guardé a mamá: ${MAMA}.\nYa puedes decir "envía 10 STRK a mamá".`);
+    await contacts.handler(runtime, say('msg-contacts-3', 'contacts-pablo', 'guarda 0xabc1 como ETH'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('"ETH" es el nombre de un token; elige otro para no confundir tus envíos.');
+
+    await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, say('msg-contacts-4', 'contacts-pablo', 'envía 2 STRK a mamá'), undefined, {}, callback, []);
+    // Reemplaza el envío a @maria que seguía sin confirmar
+    expect(replies.at(-1)).toContain(`Vas a enviar:\n• Monto: 2 STRK\n• Destino: mamá (${MAMA})`);
+
+    await contacts.handler(runtime, say('msg-contacts-5', 'contacts-pablo', 'borra a mamá de mis contactos'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Borré a mamá de tus contactos.');
+    expect(contactStore.list('contacts-pablo')).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import { DepositWatcher, describeDeposit, type Deposit } from '../services/deposit-watcher';
+import { NotificationTargetStore, sendNotification } from '../services/notification-targets';
+import { TransactionHistoryStore, fetchDepositEvents, fetchTransferEvents } from '../services/transaction-history';
+import { TokenRegistry, builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { createMemoryCacheBackend } from '../services/storage';
+import { fakeChain, type RawTransfer } from './utils/fake-chain';
+import { createFakeClock } from './utils/fake-clock';
+
+const MARIA = normalizeTokenAddress('0xa11ce');
+const JUAN = normalizeTokenAddress('0x1ba');
+const BOB = normalizeTokenAddress('0xb0b');
+const [ETH, , USDC] = builtinTokens();
+const ACCOUNTS = [
+  { entityId: 'maria', address: MARIA },
+  { entityId: 'juan', address: JUAN },
+];
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+function setup(events: RawTransfer[], notify?: (deposit: Deposit) => Promise<void>) {
+  const { provider, chain } = fakeChain(events);
+  const history = new TransactionHistoryStore();
+  const notices: Array<{ entityId: string; text: string }> = [];
+  const watcher = new DepositWatcher(
+    provider,
+    notify ?? (async (deposit) => void notices.push({ entityId: deposit.entityId, text: describeDeposit(deposit) })),
+    { pollIntervalMs: 30_000, accounts: () => ACCOUNTS, registry: new TokenRegistry(), history, clock: createFakeClock(0) }
+  );
+  return { watcher, chain, history, notices };
+}
+
+describe('DepositWatcher', () => {
+  it('starts at the current block and notifies each new deposit once', async () => {
+    const events: RawTransfer[] = [{ token: ETH.address, block: 990, tx: '0xold', from: BOB, to: MARIA, amount: 1n }];
+    const { watcher, chain, history, notices } = setup(events);
+
+    expect(await watcher.poll()).toBe(0);
+    expect(watcher.cursor).toBe(1000);
+
+    events.push(
+      { token: ETH.address, block: 1003, tx: '0xe1', from: BOB, to: MARIA, amount: 10n ** 16n },
+      { token: USDC.address, block: 1004, tx: '0xe2', from: BOB, to: JUAN, amount: 2_500_000n },
+      { token: ETH.address, block: 1005, tx: '0xe3', from: MARIA, to: BOB, amount: 5n },
+      { token: ETH.address, block: 1005, tx: '0xe4', from: JUAN, to: JUAN, amount: 5n }
+    );
+    chain.latest = 1010;
+    expect(await watcher.poll()).toBe(2);
+    expect(notices).toEqual([
+      { entityId: 'maria', text: '¡Llegaron 0.01 ETH a tu alcancía!\nDe: 0xb0b' },
+      { entityId: 'juan', text: '¡Llegaron 2.5 USDC a tu alcancía!\nDe: 0xb0b' },
+    ]);
+    expect(history.list('maria').map((e) => [e.txHash, e.timestampMs])).toEqual([['0xe1', (1_790_000_000 + 1003) * 1000]]);
+
+    expect(await watcher.poll()).toBe(0);
+    expect(watcher.cursor).toBe(1010);
+  });
+
+  it('does not repeat notices after a restart', async () => {
+    const backend = createMemoryCacheBackend();
+    const events: RawTransfer[] = [];
+    const first = setup(events);
+    await first.watcher.attach(backend);
+    await first.watcher.poll();
+    events.push({ token: ETH.address, block: 1001, tx: '0xe1', from: BOB, to: MARIA, amount: 1n });
+    first.chain.latest = 1001;
+    expect(await first.watcher.poll()).toBe(1);
+
+    // Mismo estado guardado y el nodo aún devuelve el evento (p. ej. cursor retrasado)
+    await backend.setCache('deposit-watcher:state', { ...(await backend.getCache<object>('deposit-watcher:state')), cursor: 1000 });
+    const second = setup(events);
+    second.chain.latest = 1001;
+    await second.watcher.attach(backend);
+    expect(await second.watcher.poll()).toBe(0);
+    expect(second.notices).toEqual([]);
+  });
+
+  it('retries a notice that could not be sent', async () => {
+    const events: RawTransfer[] = [];
+    let failing = true;
+    const sent: string[] = [];
+    const { watcher, chain } = setup(events, async (deposit) => {
+      if (failing) throw new Error('telegram down');
+      sent.push(deposit.event.txHash);
+    });
+    await watcher.poll();
+    events.push({ token: ETH.address, block: 1001, tx: '0xe1', from: BOB, to: MARIA, amount: 1n });
+    chain.latest = 1001;
+
+    expect(await watcher.poll()).toBe(0);
+    expect(watcher.cursor).toBe(1001);
+    expect(watcher.pendingRetries).toBe(1);
+    failing = false;
+    expect(await watcher.poll()).toBe(1);
+    expect(sent).toEqual(['0xe1']);
+    expect(watcher.pendingRetries).toBe(0);
+    expect(await watcher.poll()).toBe(0);
+  });
+
+  it('keeps notifying others when one owner cannot be reached, and gives up after a few tries', async () => {
+    const events: RawTransfer[] = [];
+    const sent: string[] = [];
+    const { watcher, chain } = setup(events, async (deposit) => {
+      if (deposit.entityId === 'maria') throw new Error('Forbidden: bot was blocked by the user');
+      sent.push(deposit.event.txHash);
+    });
+    await watcher.poll();
+    events.push({ token: ETH.address, block: 1001, tx: '0xe1', from: BOB, to: MARIA, amount: 1n });
+    chain.latest = 1001;
+    await watcher.poll();
+
+    events.push({ token: ETH.address, block: 1002, tx: '0xe2', from: BOB, to: JUAN, amount: 1n });
+    chain.latest = 1002;
+    expect(await watcher.poll()).toBe(1);
+    expect(sent).toEqual(['0xe2']);
+    expect(watcher.cursor).toBe(1002);
+
+    for (let i = 0; i < 3; i++) await watcher.poll();
+    expect(watcher.pendingRetries).toBe(0);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('polls on its own interval', async () => {
+    const clock = createFakeClock(0);
+    const events: RawTransfer[] = [];
+    const { provider, chain } = fakeChain(events);
+    const seen: string[] = [];
+    const watcher = new DepositWatcher(provider, async (d) => void seen.push(d.event.txHash), {
+      clock,
+      pollIntervalMs: 30_000,
+      accounts: () => ACCOUNTS,
+      registry: new TokenRegistry(),
+      history: new TransactionHistoryStore(),
+    });
+    watcher.start();
+    await clock.advance(0);
+    await watcher.idle();
+    events.push({ token: ETH.address, block: 1001, tx: '0xe1', from: BOB, to: MARIA, amount: 1n });
+    chain.latest = 1001;
+    await clock.advance(30_000);
+    await watcher.idle();
+    expect(seen).toEqual(['0xe1']);
+    watcher.stop();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+});
+
+describe('fetchDepositEvents', () => {
+  it('uses the same event keys as the history', async () => {
+    const { provider } = fakeChain([
+      { token: ETH.address, block: 10, tx: '0xt1', from: BOB, to: MARIA, amount: 1n },
+      { token: ETH.address, block: 10, tx: '0xt1', from: BOB, to: MARIA, amount: 2n },
+      { token: ETH.address, block: 11, tx: '0xt2', from: BOB, to: JUAN, amount: 3n },
+    ]);
+    const deposits = await fetchDepositEvents(provider, ETH, [MARIA, JUAN], 0, 100);
+    const history = await fetchTransferEvents(provider, ETH, MARIA, 0, 100);
+    expect(deposits.map((e) => e.to)).toEqual([MARIA, MARIA, JUAN]);
+    expect(deposits.slice(0, 2).map((e) => e.eventKey)).toEqual(history.map((e) => e.eventKey));
+  });
+});
+
+describe('notification targets', () => {
+  it('remembers private chats only and persists them', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new NotificationTargetStore();
+    await store.attach(backend);
+    store.remember('maria', { source: 'telegram', roomId: 'dm-room' }, 'DM');
+    store.remember('maria', { source: 'telegram', roomId: 'group-room' }, 'GROUP');
+    await store.flush();
+
+    const reopened = new NotificationTargetStore();
+    await reopened.attach(backend);
+    expect(reopened.get('maria')).toEqual({ source: 'telegram', roomId: 'dm-room' });
+  });
+
+  it('fills in the chat id from the room before sending', async () => {
+    const sent: unknown[] = [];
+    const runtime = {
+      getRoom: async () => ({ channelId: '12345' }),
+      sendMessageToTarget: async (target: unknown, content: unknown) => void sent.push([target, content]),
+    } as unknown as IAgentRuntime;
+    await sendNotification(runtime, 'maria', { source: 'telegram', roomId: 'dm-room' }, 'hola');
+    expect(sent).toEqual([
+      [
+        { source: 'telegram', roomId: 'dm-room', channelId: '12345', entityId: 'maria' },
+        { text: 'hola', source: 'telegram' },
+      ],
+    ]);
+  });
+});
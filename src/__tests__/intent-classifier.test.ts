@@ -0,0 +1,223 @@
+import { describe, expect, it, beforeAll, spyOn } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+  classifyIntent,
+  classifyIntentByRules,
+  MIN_INTENT_CONFIDENCE,
+  type Intent,
+} from '../services/intent-classifier';
+
+beforeAll(() => {
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+// [mensaje, intención esperada]
+const corpus: Array<[string, Intent]> = [
+  // crear alcancía
+  ['crear alcancía', 'create_account'],
+  ['Quiero crear mi alcancía digital en Starknet', 'create_account'],
+  ['¿Me ayudas a crear una wallet?', 'create_account'],
+  ['ábreme una cuenta por favor', 'create_account'],
+  ['create a new wallet for me', 'create_account'],
+  ['no quiero crear ninguna cuenta', 'none'],
+  ["I don't want to open an account", 'none'],
+
+  // activar (desplegar) la alcancía
+  ['activar alcancía', 'activate_account'],
+  ['ya deposité, activa mi alcancía', 'activate_account'],
+  ['reintenta desplegar mi cuenta', 'activate_account'],
+  ['activa mis recordatorios', 'manage_reminders'],
+
+  // desplegar token
+  ['crear token', 'deploy_token'],
+  ['Crea un meme token en Starknet', 'deploy_token'],
+  ['quiero lanzar mi propia moneda', 'deploy_token'],
+  ['launch a memecoin', 'deploy_token'],
+  ['no quiero lanzar ningún token', 'none'],
+
+  // transferir
+  ['enviar 0.01 ETH a 0xabc123', 'transfer'],
+  ['Envía 1 MEME a 0xabc', 'transfer'],
+  ['manda cien pesos en USDC a @maria', 'transfer'],
+  ['transfiere 5 STRK a juan.stark', 'transfer'],
+  ['send 2 USDC to 0x1234', 'transfer'],
+  ['págale 10 a @pedro', 'transfer'],
+  ['enviar tokens a mi dirección 0xabc', 'transfer'],
+  ['no quiero enviar nada', 'none'],
+  ['nunca le mandes dinero a nadie', 'none'],
+  ["don't send anything", 'none'],
+  ['¿me puedes enviar la dirección de tu casa?', 'none'],
+  ['mándame la foto de la fiesta', 'none'],
+  ['envíame tu ubicación cuando llegues', 'none'],
+  ['te paso el mensaje que me mandaron ayer', 'none'],
+  ['mándale dinero a mi mamá', 'transfer'],
+
+  // saldo
+  ['saldo', 'show_balance'],
+  ['¿Cuál es mi balance?', 'show_balance'],
+  ['¿cuánto tengo en mi alcancía?', 'show_balance'],
+  ['how much do I have?', 'show_balance'],
+  ['no sé cuál es mi saldo', 'show_balance'],
+  ['¿cuál es el saldo de tu tarjeta?', 'none'],
+  ['no quiero ver mi saldo', 'none'],
+
+  // dirección
+  ['dirección', 'show_address'],
+  ['¿Cuál es la dirección de mi alcancía?', 'show_address'],
+  ['dame mi address', 'show_address'],
+  ['¿a qué dirección te deposito?', 'show_address'],
+  ['¿cuál es la dirección de tu oficina?', 'none'],
+  ['mi dirección de casa es calle 5', 'none'],
+  ['what is your address', 'none'],
+
+  // metas de ahorro
+  ['quiero ahorrar 5000 pesos para diciembre', 'create_goal'],
+  ['Quiero juntar 100 USDC en 3 meses', 'create_goal'],
+  ['crear meta de 2 mil pesos para navidad', 'create_goal'],
+  ['quiero ahorrar 5000 para pagar la renta', 'create_goal'],
+  ['quiero ahorrar pero no sé cómo', 'none'],
+  ['no quiero ahorrar nada', 'none'],
+  ['¿Cómo va mi meta?', 'show_goals'],
+  ['mis metas', 'show_goals'],
+  ['¿cuánto llevo ahorrado para mi meta?', 'show_goals'],
+  ['la meta de la empresa es vender más', 'none'],
+
+  // recordatorios
+  ['Recuérdame ahorrar cada viernes a las 6 pm', 'create_reminder'],
+  ['recuérdame pagar la renta cada mes el día 1', 'create_reminder'],
+  ['recuérdame revisar mi saldo cada lunes', 'create_reminder'],
+  ['avísame todos los días a las 8', 'create_reminder'],
+  ['mis recordatorios', 'manage_reminders'],
+  ['pausa mis recordatorios', 'manage_reminders'],
+  ['reanuda el recordatorio 2', 'manage_reminders'],
+  ['el recordatorio del doctor es mañana', 'none'],
+
+  // historial
+  ['mis movimientos', 'show_history'],
+  ['historial', 'show_history'],
+  ['¿cuáles son mis últimos depósitos?', 'show_history'],
+  ['más movimientos', 'show_history'],
+  ['el historial de la empresa es largo', 'none'],
+
+  // reglas de envío
+  ['mis límites', 'manage_limits'],
+  ['pon un límite diario de 0.05 ETH', 'manage_limits'],
+  ['quita mi límite por envío de STRK', 'manage_limits'],
+  ['permite enviar a 0xabc123', 'manage_limits'],
+  ['solo enviar a mi lista de confianza', 'manage_limits'],
+  ['envía 5 STRK a 0xabc123', 'transfer'],
+  ['el límite de velocidad es 80', 'none'],
+
+  // alcancía de barro
+  ['guarda 100 STRK hasta diciembre', 'lock_savings'],
+  ['aparta 50 USDC hasta que cumpla mi meta', 'lock_savings'],
+  ['mis bloqueos', 'manage_locks'],
+  ['romper alcancía de barro', 'manage_locks'],
+  ['cancela el desbloqueo', 'manage_locks'],
+  ['guarda silencio hasta que termine', 'none'],
+
+  // tandas
+  ['crear tanda de 100 STRK cada semana', 'manage_tanda'],
+  ['me uno a la tanda', 'manage_tanda'],
+  ['pagar mi tanda de 100 STRK', 'manage_tanda'],
+  ['quiero ahorrar 100 STRK en una tanda con mis primos', 'manage_tanda'],
+  ['recuérdame pagar la tanda cada viernes', 'create_reminder'],
+
+  // contactos
+  ['guarda 0xabc123 como mamá', 'manage_contacts'],
+  ['agrega a @maria como Mary', 'manage_contacts'],
+  ['mis contactos', 'manage_contacts'],
+  ['borra a mamá de mis contactos', 'manage_contacts'],
+  ['renombra a mamá como mami', 'manage_contacts'],
+  ['envía 0.01 ETH a @maria', 'transfer'],
+  ['envía 5 STRK a mi contacto mamá', 'transfer'],
+  ['guarda 100 STRK como ahorro hasta diciembre', 'lock_savings'],
+
+  // conversación
+  ['Últimamente me siento solo', 'none'],
+  ['¿Qué opinas de esta estrategia de ahorro?', 'none'],
+  ['', 'none'],
+];
+
+describe('classifyIntentByRules', () => {
+  for (const [text, expected] of corpus) {
+    it(`"${text}" → ${expected}`, () => {
+      const result = classifyIntentByRules(text);
+      const routed = result.confidence >= MIN_INTENT_CONFIDENCE ? result.intent : 'none';
+      expect(routed).toBe(expected);
+    });
+  }
+
+  it('flags negations so they are never routed', () => {
+    const result = classifyIntentByRules('no quiero enviar nada');
+    expect(result.negated).toBe(true);
+    expect(result.intent).toBe('none');
+  });
+
+  it('extracts transfer slots', () => {
+    expect(classifyIntentByRules('enviar 0,5 ETH a 0xAbC123').slots).toEqual({
+      amount: '0.5',
+      token: 'ETH',
+      recipient: '0xabc123',
+    });
+    expect(classifyIntentByRules('manda 20 a @maria').slots).toEqual({ amount: '20', recipient: '@maria' });
+    expect(classifyIntentByRules('transfiere a juan.stark').slots).toEqual({ recipient: 'juan.stark' });
+  });
+
+  it('gives higher confidence with context than without', () => {
+    expect(classifyIntentByRules('enviar 1 ETH a 0xabc').confidence).toBeGreaterThan(
+      classifyIntentByRules('quiero enviar algo').confidence
+    );
+  });
+});
+
+describe('classifyIntent LLM fallback', () => {
+  const runtimeAnswering = (answer: unknown) => {
+    const calls: unknown[] = [];
+    const runtime = {
+      useModel: async (_type: unknown, params: unknown) => {
+        calls.push(params);
+        if (answer instanceof Error) throw answer;
+        return answer;
+      },
+    } as unknown as IAgentRuntime;
+    return { runtime, calls };
+  };
+
+  it('uses the model only when rules are not confident', async () => {
+    const { runtime, calls } = runtimeAnswering(
+      '{"intent": "show_balance", "confidence": 0.8, "slots": {}}'
+    );
+    const clear = await classifyIntent('saldo', { runtime, useLlmFallback: true });
+    expect(clear.source).toBe('rules');
+    expect(calls).toHaveLength(0);
+
+    const unclear = await classifyIntent('¿y cómo va mi cochinito?', { runtime, useLlmFallback: true });
+    expect(unclear).toMatchObject({ intent: 'show_balance', source: 'llm', confidence: 0.8 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('never asks the model about negated messages', async () => {
+    const { runtime, calls } = runtimeAnswering('{"intent": "transfer", "confidence": 1}');
+    const result = await classifyIntent('no quiero enviar nada', { runtime, useLlmFallback: true });
+    expect(result.intent).toBe('none');
+    expect(calls).toHaveLength(0);
+  });
+
+  it('keeps the rule result when the model answer is unusable', async () => {
+    for (const answer of ['no sé', '{"intent": "hack_the_planet"}', new Error('rate limited')]) {
+      const { runtime } = runtimeAnswering(answer);
+      const result = await classifyIntent('hola', { runtime, useLlmFallback: true });
+      expect(result).toMatchObject({ intent: 'none', source: 'rules' });
+    }
+  });
+
+  it('is disabled by default', async () => {
+    const { runtime, calls } = runtimeAnswering('{"intent": "show_balance", "confidence": 1}');
+    delete process.env.ALCANCIA_INTENT_LLM_FALLBACK;
+    await classifyIntent('hola', { runtime });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { inspect } from 'node:util';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  PersistentTelegramStarknetStore,
+  computeSmartAccountDetails,
+  deploySmartAccountIfPossible,
+  getAccountSigner,
+  setTransferAccountFactory,
+  telegramStarknetStore,
+  type TransferAccount,
+} from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+import { createKeyring, parseMasterKey } from '../services/key-encryption';
+
+const oldMasterKey = parseMasterKey('44'.repeat(32))!;
+const newMasterKey = parseMasterKey('55'.repeat(32))!;
+
+describe('master key rotation', () => {
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'warn').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('re-wraps every account under the new key without changing keys or addresses', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(createKeyring(oldMasterKey));
+    await store.attach(backend, createKeyring(oldMasterKey));
+    for (const id of ['a', 'b', 'c']) store.ensureAccountForEntityId(id);
+    await store.flush();
+    const before = ['a', 'b', 'c'].map((id) => ({
+      key: store.withPrivateKey(id, (k) => k),
+      address: store.getAccountByEntityId(id)?.accountAddressHex,
+    }));
+
+    expect(await store.rotateMasterKey(newMasterKey)).toBe(3);
+
+    const reopened = new PersistentTelegramStarknetStore(createKeyring(newMasterKey));
+    const { loaded } = await reopened.attach(backend, createKeyring(newMasterKey));
+    expect(loaded).toBe(3);
+    const after = ['a', 'b', 'c'].map((id) => ({
+      key: reopened.withPrivateKey(id, (k) => k),
+      address: reopened.getAccountByEntityId(id)?.accountAddressHex,
+    }));
+    expect(after).toEqual(before);
+
+    const stale = new PersistentTelegramStarknetStore(createKeyring(oldMasterKey));
+    expect((await stale.attach(backend, createKeyring(oldMasterKey))).loaded).toBe(0);
+  });
+
+  it('re-wraps records under a previous key when attaching', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(createKeyring(oldMasterKey));
+    await store.attach(backend, createKeyring(oldMasterKey));
+    store.ensureAccountForEntityId('d');
+    await store.flush();
+    const key = store.withPrivateKey('d', (k) => k);
+
+    const rotatedRing = createKeyring(newMasterKey, [oldMasterKey]);
+    const restarted = new PersistentTelegramStarknetStore(rotatedRing);
+    expect(await restarted.attach(backend, rotatedRing)).toEqual({ loaded: 1, migrated: 0, rewrapped: 1, readdressed: 0 });
+
+    const onlyNew = new PersistentTelegramStarknetStore(createKeyring(newMasterKey));
+    await onlyNew.attach(backend, createKeyring(newMasterKey));
+    expect(onlyNew.withPrivateKey('d', (k) => k)).toBe(key);
+  });
+});
+
+describe('private keys never reach logger output', () => {
+  const captured: string[] = [];
+  const capture: (typeof logger)['info'] = (...args: unknown[]) => {
+    captured.push(args.map((arg) => inspect(arg, { depth: 8 })).join(' '));
+  };
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    captured.length = 0;
+    for (const method of ['info', 'warn', 'error', 'debug'] as const) {
+      spyOn(logger, method).mockImplementation(capture);
+    }
+  });
+
+  afterEach(() => {
+    mock.restore();
+    process.env = { ...savedEnv };
+  });
+
+  const expectNoLeak = (privateKeyHex: string) => {
+    const needle = BigInt(privateKeyHex).toString(16);
+    expect(captured.length).toBeGreaterThan(0);
+    for (const line of captured) {
+      expect(line.toLowerCase()).not.toContain(needle);
+    }
+  };
+
+  it('store operations, rotation and attach', async () => {
+    process.env.SECRET_SALT = 'salt-for-tests';
+    const backend = createMemoryCacheBackend();
+    const store = new PersistentTelegramStarknetStore(createKeyring(oldMasterKey));
+    await store.attach(backend, createKeyring(oldMasterKey));
+    store.ensureAccountForEntityId('leak-1');
+    store.setAccountAddress('leak-1', '0x0abc');
+    await store.rotateMasterKey(newMasterKey);
+    await new PersistentTelegramStarknetStore(createKeyring(oldMasterKey)).attach(backend, createKeyring(oldMasterKey));
+
+    expectNoLeak(store.withPrivateKey('leak-1', (k) => k));
+  });
+
+  it('account derivation and a failed deploy', async () => {
+    process.env.STARKNET_RPC_URL = 'http://127.0.0.1:9';
+    const store = new PersistentTelegramStarknetStore(createKeyring(oldMasterKey));
+    store.ensureAccountForEntityId('leak-2');
+    const privateKeyHex = store.withPrivateKey('leak-2', (k) => k);
+
+    const signer = getAccountSigner('leak-2', store);
+    computeSmartAccountDetails(await signer.getPublicKey());
+    const result = await deploySmartAccountIfPossible(signer);
+    expect(result.error).toBeDefined();
+
+    expectNoLeak(privateKeyHex);
+  });
+
+  it('wrapped plugin actions', async () => {
+    delete process.env.STARKNET_RPC_URL;
+    const entityId = 'leak-3';
+    setTransferAccountFactory(() => ({
+      execute: (async () => {
+        throw new Error('insufficient balance');
+      }) as TransferAccount['execute'],
+    }));
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const message = {
+      id: 'msg-leak-3',
+      entityId,
+      roomId: 'room-leak-3',
+      content: { text: 'enviar 1 ETH a 0x0123', source: 'telegram' },
+    } as unknown as Memory;
+    const callback = async () => [];
+
+    const create = plugin.actions!.find((a) => a.name === 'CREATE_INVISIBLE_STARKNET_ACCOUNT')!;
+    const transfer = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    await create.handler(runtime, { ...message, id: 'msg-leak-3a' } as Memory, undefined, {}, callback, []);
+    await transfer.handler(runtime, message, undefined, {}, callback, []);
+    const confirm = plugin.actions!.find((a) => a.name === 'CONFIRM_PENDING_OPERATION')!;
+    await confirm.handler(runtime, { ...message, id: 'msg-leak-3b', content: { text: 'sí', source: 'telegram' } } as Memory, undefined, {}, callback, []);
+    setTransferAccountFactory(null);
+
+    expectNoLeak(telegramStarknetStore.withPrivateKey(entityId, (k) => k));
+  });
+});
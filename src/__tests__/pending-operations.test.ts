@@ -0,0 +1,231 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { ActionResult, Content, IAgentRuntime, Memory } from '@elizaos/core';
+import type { Call } from 'starknet';
+import plugin from '../plugin';
+import {
+  PendingOperationRegistry,
+  classifyConfirmationReply,
+  type ProposeOperationInput,
+} from '../services/pending-operations';
+import { setTransferAccountFactory, telegramStarknetStore, type TransferAccount } from '../services/telegram-starknet';
+
+const noop = async () => [];
+
+function fakeClock(start = 1_000_000) {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => (now += ms) };
+}
+
+function operation(overrides: Partial<ProposeOperationInput> = {}) {
+  const executed: string[] = [];
+  const input: ProposeOperationInput = {
+    kind: 'transfer',
+    roomId: 'room-1',
+    entityId: 'user-1',
+    summary: 'Vas a enviar 1 ETH',
+    execute: async () => {
+      executed.push(input.summary);
+      return { success: true } as ActionResult;
+    },
+    ...overrides,
+  };
+  return { input, executed };
+}
+
+describe('classifyConfirmationReply', () => {
+  it('only accepts explicit answers', () => {
+    for (const text of ['sí', 'Si', 'confirmar', 'Sí, confirmo', 'dale', 'yes']) {
+      expect(classifyConfirmationReply(text)).toBe('confirm');
+    }
+    for (const text of ['no', 'Cancelar', 'mejor no', 'olvídalo']) {
+      expect(classifyConfirmationReply(text)).toBe('cancel');
+    }
+    for (const text of ['sí, pero a otra dirección', 'enviar 1 ETH a 0xabc', 'si quieres']) {
+      expect(classifyConfirmationReply(text)).toBeUndefined();
+    }
+  });
+});
+
+describe('PendingOperationRegistry', () => {
+  it('executes only after confirmation', async () => {
+    const registry = new PendingOperationRegistry();
+    const { input, executed } = operation();
+    registry.propose(input);
+    expect(executed).toHaveLength(0);
+
+    const result = await registry.confirm('room-1', 'user-1', noop);
+    expect(result.status).toBe('confirmed');
+    expect(executed).toEqual(['Vas a enviar 1 ETH']);
+    expect(registry.get('room-1', 'user-1')).toBeUndefined();
+  });
+
+  it('cancels without executing', async () => {
+    const registry = new PendingOperationRegistry();
+    const { input, executed } = operation();
+    registry.propose(input);
+    expect(registry.cancel('room-1', 'user-1').status).toBe('cancelled');
+    expect((await registry.confirm('room-1', 'user-1', noop)).status).toBe('none');
+    expect(executed).toHaveLength(0);
+  });
+
+  it('expires after the timeout and says so once', async () => {
+    const clock = fakeClock();
+    const registry = new PendingOperationRegistry(60_000, clock.now);
+    const { input, executed } = operation();
+    registry.propose(input);
+    clock.advance(59_999);
+    expect(registry.isAwaitingReply('room-1', 'user-1')).toBe(true);
+    clock.advance(1);
+
+    expect((await registry.confirm('room-1', 'user-1', noop)).status).toBe('expired');
+    expect((await registry.confirm('room-1', 'user-1', noop)).status).toBe('none');
+    expect(executed).toHaveLength(0);
+  });
+
+  it('isolates rooms and users', async () => {
+    const registry = new PendingOperationRegistry();
+    const { input, executed } = operation();
+    registry.propose(input);
+
+    expect((await registry.confirm('room-2', 'user-1', noop)).status).toBe('none');
+    expect((await registry.confirm('room-1', 'user-2', noop)).status).toBe('none');
+    expect(executed).toHaveLength(0);
+    expect(registry.get('room-1', 'user-1')).toBeDefined();
+  });
+
+  it('replaces an older pending operation with the newer one', async () => {
+    const registry = new PendingOperationRegistry();
+    const first = operation({ summary: 'primera' });
+    const second = operation({ summary: 'segunda' });
+    registry.propose(first.input);
+    const { replaced } = registry.propose(second.input);
+    expect(replaced?.summary).toBe('primera');
+
+    await registry.confirm('room-1', 'user-1', noop);
+    expect(first.executed).toHaveLength(0);
+    expect(second.executed).toEqual(['segunda']);
+  });
+
+  it('runs a confirmed operation once even if two confirmations race', async () => {
+    const registry = new PendingOperationRegistry();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    let runs = 0;
+    registry.propose(
+      operation({
+        execute: async () => {
+          runs++;
+          await gate;
+          return { success: true } as ActionResult;
+        },
+      }).input
+    );
+
+    const racing = Promise.all([
+      registry.confirm('room-1', 'user-1', noop),
+      registry.confirm('room-1', 'user-1', noop),
+    ]);
+    release();
+    const statuses = (await racing).map((r) => r.status).sort();
+    expect(statuses).toEqual(['confirmed', 'none']);
+    expect(runs).toBe(1);
+  });
+
+  it('keeps two users in the same room from confirming each other', async () => {
+    const registry = new PendingOperationRegistry();
+    const alice = operation({ entityId: 'alice', summary: 'de alice' });
+    const bob = operation({ entityId: 'bob', summary: 'de bob' });
+    registry.propose(alice.input);
+    registry.propose(bob.input);
+
+    await Promise.all([registry.confirm('room-1', 'bob', noop), registry.cancel('room-1', 'alice')]);
+    expect(alice.executed).toHaveLength(0);
+    expect(bob.executed).toEqual(['de bob']);
+  });
+
+  it('does not let a slow execution block a new proposal', async () => {
+    const registry = new PendingOperationRegistry();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    registry.propose(operation({ execute: async () => (await gate, { success: true } as ActionResult) }).input);
+    const running = registry.confirm('room-1', 'user-1', noop);
+
+    const next = operation({ summary: 'siguiente' });
+    expect(registry.propose(next.input).replaced).toBeUndefined();
+    release();
+    await running;
+    await registry.confirm('room-1', 'user-1', noop);
+    expect(next.executed).toEqual(['siguiente']);
+  });
+});
+
+describe('transfer confirmation through the plugin', () => {
+  const transfer = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+  const confirm = plugin.actions!.find((a) => a.name === 'CONFIRM_PENDING_OPERATION')!;
+  let executed: unknown[];
+  let replies: string[];
+  let runtime: IAgentRuntime;
+  let messageCount = 0;
+
+  const say = (entityId: string, roomId: string, text: string) =>
+    ({
+      id: `msg-confirm-${++messageCount}`,
+      entityId,
+      roomId,
+      content: { text, source: 'telegram' },
+    }) as unknown as Memory;
+  const callback = async (content: Content) => {
+    replies.push(content.text ?? '');
+    return [];
+  };
+
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'warn').mockImplementation(() => {});
+    executed = [];
+    replies = [];
+    setTransferAccountFactory(() => ({
+      execute: (async (calls: Call[]) => {
+        executed.push(calls);
+        return { transaction_hash: '0x7e57' };
+      }) as TransferAccount['execute'],
+    }));
+    runtime = { actions: [] } as unknown as IAgentRuntime;
+    telegramStarknetStore.ensureAccountForEntityId('confirm-alice');
+    telegramStarknetStore.ensureAccountForEntityId('confirm-bob');
+  });
+
+  afterEach(() => {
+    setTransferAccountFactory(null);
+    mock.restore();
+  });
+
+  it('shows a summary first and executes on "sí"', async () => {
+    await transfer.handler(runtime, say('confirm-alice', 'room-a', 'enviar 0.5 STRK a 0xabc'), undefined, {}, callback, []);
+    expect(executed).toHaveLength(0);
+    expect(replies[0]).toContain('0.5 STRK');
+    expect(replies[0]).toContain('Comisión estimada');
+
+    const reply = say('confirm-alice', 'room-a', 'sí');
+    expect(await confirm.validate(runtime, reply)).toBe(true);
+    await confirm.handler(runtime, reply, undefined, {}, callback, []);
+    expect(executed).toHaveLength(1);
+    // 0.5 STRK en unidades base, como u256 [low, high]
+    expect((executed[0] as Call[])[0].calldata).toEqual([BigInt('0xabc').toString(), (5n * 10n ** 17n).toString(), '0']);
+  });
+
+  it('ignores confirmations from another user or room', async () => {
+    await transfer.handler(runtime, say('confirm-alice', 'room-b', 'enviar 1 ETH a 0xabc'), undefined, {}, callback, []);
+
+    expect(await confirm.validate(runtime, say('confirm-bob', 'room-b', 'sí'))).toBe(false);
+    expect(await confirm.validate(runtime, say('confirm-alice', 'room-c', 'sí'))).toBe(false);
+    await confirm.handler(runtime, say('confirm-bob', 'room-b', 'sí'), undefined, {}, callback, []);
+    expect(executed).toHaveLength(0);
+
+    await confirm.handler(runtime, say('confirm-alice', 'room-b', 'cancelar'), undefined, {}, callback, []);
+    await confirm.handler(runtime, say('confirm-alice', 'room-b', 'sí'), undefined, {}, callback, []);
+    expect(executed).toHaveLength(0);
+    expect(replies.at(-1)).toContain('nada pendiente');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it, beforeAll, afterAll, spyOn } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { logger } from '@elizaos/core';
+import {
+  FilePriceSource,
+  PriceOracle,
+  createPriceOracleFromEnv,
+  formatFiat,
+  type FiatCurrency,
+  type PriceQuote,
+  type PriceSource,
+} from '../services/price-oracle';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.parse('2026-03-01T12:00:00Z');
+
+/** Fuente en memoria que cuenta consultas y puede fallar a voluntad. */
+function stubSource(prices: Record<string, Partial<Record<FiatCurrency, number>>>, asOfMs = T0) {
+  const state = { calls: 0, failing: false, asOfMs };
+  const source: PriceSource = {
+    name: 'stub',
+    async getPrices(symbols, currencies) {
+      state.calls++;
+      if (state.failing) throw new Error('source down');
+      const quotes: PriceQuote[] = [];
+      for (const symbol of symbols)
+        for (const currency of currencies) {
+          const price = prices[symbol]?.[currency];
+          if (price !== undefined) quotes.push({ symbol, currency, price, asOfMs: state.asOfMs, source: 'stub' });
+        }
+      return quotes;
+    },
+  };
+  return { source, state };
+}
+
+function clockAt(start: number) {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => (now += ms) };
+}
+
+beforeAll(() => {
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+describe('FilePriceSource', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alcancia-prices-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads prices and the asOf timestamp', async () => {
+    const file = path.join(dir, 'prices.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ asOf: '2026-03-01T12:00:00Z', prices: { ETH: { MXN: 55000, USD: 3000 }, USDC: { MXN: 18.4 } } })
+    );
+    const quotes = await new FilePriceSource(file).getPrices(['eth', 'USDC', 'PIGGY'], ['MXN', 'USD']);
+    expect(quotes).toEqual([
+      { symbol: 'ETH', currency: 'MXN', price: 55000, asOfMs: T0, source: 'file' },
+      { symbol: 'ETH', currency: 'USD', price: 3000, asOfMs: T0, source: 'file' },
+      { symbol: 'USDC', currency: 'MXN', price: 18.4, asOfMs: T0, source: 'file' },
+    ]);
+  });
+
+  it('is selected from the environment', () => {
+    const saved = { ...process.env };
+    try {
+      process.env.ALCANCIA_PRICE_SOURCE = 'file';
+      delete process.env.ALCANCIA_PRICES_FILE;
+      expect(createPriceOracleFromEnv()).toBeUndefined();
+      process.env.ALCANCIA_PRICES_FILE = path.join(dir, 'prices.json');
+      expect(createPriceOracleFromEnv()).toBeInstanceOf(PriceOracle);
+      delete process.env.ALCANCIA_PRICE_SOURCE;
+      expect(createPriceOracleFromEnv()).toBeUndefined();
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('PriceOracle', () => {
+  it('caches quotes for the configured time', async () => {
+    const { source, state } = stubSource({ ETH: { MXN: 55000 } });
+    const clock = clockAt(T0);
+    const oracle = new PriceOracle(source, { cacheTtlMs: 60_000, now: clock.now });
+
+    await oracle.getQuote('ETH', 'MXN');
+    clock.advance(59_000);
+    await oracle.getQuote('ETH', 'MXN');
+    expect(state.calls).toBe(1);
+    clock.advance(1_000);
+    await oracle.getQuote('ETH', 'MXN');
+    expect(state.calls).toBe(2);
+  });
+
+  it('keeps the last price when the source fails, flagged as stale, then drops it', async () => {
+    const { source, state } = stubSource({ ETH: { MXN: 55000 } });
+    const clock = clockAt(T0);
+    const oracle = new PriceOracle(source, { cacheTtlMs: 60_000, staleAfterMs: HOUR, discardAfterMs: 24 * HOUR, now: clock.now });
+    expect(await oracle.getQuote('ETH', 'MXN')).toMatchObject({ price: 55000, stale: false });
+
+    state.failing = true;
+    clock.advance(2 * HOUR);
+    expect(await oracle.getQuote('ETH', 'MXN')).toMatchObject({ price: 55000, stale: true });
+
+    clock.advance(24 * HOUR);
+    expect(await oracle.getQuote('ETH', 'MXN')).toBeUndefined();
+  });
+
+  it('flags quotes the source itself reports as old', async () => {
+    const { source } = stubSource({ ETH: { MXN: 55000 } }, T0 - 3 * HOUR);
+    const oracle = new PriceOracle(source, { staleAfterMs: HOUR, now: () => T0 });
+    expect((await oracle.getQuote('ETH', 'MXN'))?.stale).toBe(true);
+  });
+
+  it('values balances per token with a partial total', async () => {
+    const { source } = stubSource({ ETH: { MXN: 50000 }, USDC: { MXN: 18 } });
+    const oracle = new PriceOracle(source, { now: () => T0 });
+    const valuation = await oracle.valuate(
+      [
+        { symbol: 'ETH', amount: 0.5 },
+        { symbol: 'USDC', amount: 10 },
+        { symbol: 'PIGGY', amount: 1000 },
+        { symbol: 'USDT', amount: 0 },
+      ],
+      'MXN'
+    );
+    expect(valuation.total).toBe(25180);
+    expect(valuation.items.map((i) => i.value)).toEqual([25000, 180, undefined, undefined]);
+    expect(valuation.missing).toEqual(['PIGGY']);
+    expect(valuation.stale).toBe(false);
+  });
+});
+
+describe('formatFiat', () => {
+  it('formats pesos and dollars', () => {
+    expect(formatFiat(25180, 'MXN')).toBe('$25,180.00 MXN');
+    expect(formatFiat(0.5, 'USD')).toBe('$0.50 USD');
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  ReminderScheduler,
+  ReminderStore,
+  nextOccurrence,
+  parseReminderCommand,
+  parseReminderRequest,
+  reminderStore,
+  type Reminder,
+} from '../services/reminders';
+import { composeReminderMessage } from '../services/reminder-service';
+import { createMemoryCacheBackend } from '../services/storage';
+import { createFakeClock } from './utils/fake-clock';
+
+const MX = 'America/Mexico_City';
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Lunes 19 de octubre de 2026, 06:00 en CDMX (UTC-6)
+const MONDAY = Date.parse('2026-10-19T12:00:00Z');
+const TARGET = { source: 'telegram', roomId: 'room-1' };
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('parseReminderRequest', () => {
+  it('reads weekday, time and what to remind', () => {
+    expect(parseReminderRequest('Recuérdame ahorrar cada viernes a las 6 pm', MX)).toEqual({
+      status: 'complete',
+      reminder: { text: 'ahorrar', schedule: { kind: 'weekly', weekdays: [5], hour: 18, minute: 0 }, timeZone: MX },
+    });
+  });
+
+  it('understands daily and monthly schedules', () => {
+    const daily = parseReminderRequest('avísame todos los días a las 8:30 que meta dinero a mi alcancía', MX);
+    expect(daily.status === 'complete' && daily.reminder).toMatchObject({
+      text: 'meta dinero a tu alcancia',
+      schedule: { kind: 'daily', hour: 8, minute: 30 },
+    });
+    const monthly = parseReminderRequest('recuérdame pagar la renta cada mes el día 1', MX);
+    expect(monthly.status === 'complete' && monthly.reminder.schedule).toEqual({ kind: 'monthly', day: 1, hour: 9, minute: 0 });
+  });
+
+  it('takes the time zone from the message when given', () => {
+    const result = parseReminderRequest('recuérdame ahorrar los lunes y jueves en la noche, hora de Tijuana', MX);
+    expect(result.status === 'complete' && result.reminder).toMatchObject({
+      schedule: { kind: 'weekly', weekdays: [1, 4], hour: 20 },
+      timeZone: 'America/Tijuana',
+    });
+  });
+
+  it('asks when the schedule or the time is unclear', () => {
+    expect(parseReminderRequest('recuérdame ahorrar', MX).status).toBe('incomplete');
+    expect(parseReminderRequest('recuérdame ahorrar cada día a las 25', MX).status).toBe('incomplete');
+  });
+});
+
+describe('parseReminderCommand', () => {
+  it('detects list, pause, resume and delete', () => {
+    expect(parseReminderCommand('mis recordatorios')).toEqual({ kind: 'list' });
+    expect(parseReminderCommand('pausa mis recordatorios')).toEqual({ kind: 'pause' });
+    expect(parseReminderCommand('reanuda el recordatorio 2')).toEqual({ kind: 'resume', index: 2 });
+    expect(parseReminderCommand('borra el recordatorio 1')).toEqual({ kind: 'delete', index: 1 });
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('fires at local time in the user time zone', () => {
+    const friday6pm = nextOccurrence({ kind: 'weekly', weekdays: [5], hour: 18, minute: 0 }, MX, MONDAY);
+    expect(new Date(friday6pm).toISOString()).toBe('2026-10-24T00:00:00.000Z');
+    const tijuana = nextOccurrence({ kind: 'daily', hour: 9, minute: 0 }, 'America/Tijuana', MONDAY);
+    expect(new Date(tijuana).toISOString()).toBe('2026-10-19T16:00:00.000Z');
+  });
+
+  it('follows daylight saving changes', () => {
+    // Nueva York pasa a horario de invierno el 1 de noviembre de 2026
+    const before = nextOccurrence({ kind: 'daily', hour: 9, minute: 0 }, 'America/New_York', Date.parse('2026-10-31T12:00:00Z'));
+    const after = nextOccurrence({ kind: 'daily', hour: 9, minute: 0 }, 'America/New_York', before);
+    expect(new Date(before).toISOString()).toBe('2026-10-31T13:00:00.000Z');
+    expect(new Date(after).toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('uses the last day in short months', () => {
+    const at = nextOccurrence({ kind: 'monthly', day: 31, hour: 9, minute: 0 }, MX, Date.parse('2026-11-02T12:00:00Z'));
+    expect(new Date(at).toISOString()).toBe('2026-11-30T15:00:00.000Z');
+  });
+});
+
+describe('ReminderScheduler', () => {
+  const weeklyFriday = { text: 'ahorrar', schedule: { kind: 'weekly' as const, weekdays: [5], hour: 18, minute: 0 }, timeZone: MX };
+
+  it('sends at the right time and keeps going every week', async () => {
+    const clock = createFakeClock(MONDAY);
+    const store = new ReminderStore();
+    const sent: Array<{ id: string; at: number }> = [];
+    const scheduler = new ReminderScheduler(store, async (r) => void sent.push({ id: r.id, at: clock.now() }), { clock });
+    scheduler.start();
+    const reminder = store.create('maria', TARGET, weeklyFriday, clock.now());
+
+    await clock.advanceTo(Date.parse('2026-10-23T23:59:00Z'));
+    expect(sent).toHaveLength(0);
+    await clock.advance(HOUR);
+    expect(sent).toEqual([{ id: reminder.id, at: Date.parse('2026-10-24T00:00:00Z') }]);
+    await clock.advance(7 * DAY);
+    expect(sent).toHaveLength(2);
+    scheduler.stop();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('pauses and resumes without sending what was skipped', async () => {
+    const clock = createFakeClock(MONDAY);
+    const store = new ReminderStore();
+    const sent: number[] = [];
+    const scheduler = new ReminderScheduler(store, async () => void sent.push(clock.now()), { clock });
+    scheduler.start();
+    const reminder = store.create('maria', TARGET, weeklyFriday, clock.now());
+
+    store.pause('maria', reminder.id);
+    await clock.advance(10 * DAY);
+    expect(sent).toHaveLength(0);
+
+    store.resume('maria', reminder.id, clock.now());
+    expect(store.list('maria')[0].nextRunMs).toBe(Date.parse('2026-10-31T00:00:00Z'));
+    await clock.advance(7 * DAY);
+    expect(sent).toEqual([Date.parse('2026-10-31T00:00:00Z')]);
+    scheduler.stop();
+  });
+
+  it('survives a restart: persisted reminders fire once, late ones are skipped', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new ReminderStore();
+    await before.attach(backend);
+    const soon = before.create('maria', TARGET, weeklyFriday, MONDAY);
+    const daily = before.create('juan', TARGET, { text: 'ahorrar', schedule: { kind: 'daily', hour: 7, minute: 0 }, timeZone: MX }, MONDAY);
+    await before.flush();
+
+    // El agente vuelve 30 minutos después del viernes 18:00 y mucho después del martes 07:00
+    const clock = createFakeClock(Date.parse('2026-10-24T00:30:00Z'));
+    const after = new ReminderStore();
+    expect((await after.attach(backend)).loaded).toBe(2);
+    const sent: string[] = [];
+    const scheduler = new ReminderScheduler(after, async (r) => void sent.push(r.id), { clock });
+    scheduler.start();
+    await clock.advance(0);
+    await scheduler.idle();
+
+    expect(sent).toEqual([soon.id]);
+    expect(after.list('juan')[0].nextRunMs).toBe(Date.parse('2026-10-24T13:00:00Z'));
+    expect(after.list('juan')[0].id).toBe(daily.id);
+    scheduler.stop();
+  });
+
+  it('moves on to the next occurrence when sending fails', async () => {
+    const clock = createFakeClock(MONDAY);
+    const store = new ReminderStore();
+    const scheduler = new ReminderScheduler(store, async () => {
+      throw new Error('telegram down');
+    }, { clock });
+    scheduler.start();
+    store.create('maria', TARGET, weeklyFriday, clock.now());
+    await clock.advanceTo(Date.parse('2026-10-24T00:00:00Z'));
+    expect(store.list('maria')[0].nextRunMs).toBe(Date.parse('2026-10-31T00:00:00Z'));
+    scheduler.stop();
+  });
+});
+
+describe('reminder message', () => {
+  it('tells the user how to pause it', async () => {
+    const reminder = { entityId: 'nobody', text: 'ahorrar' } as Reminder;
+    const text = await composeReminderMessage(reminder);
+    expect(text).toStartWith('Recordatorio: ahorrar.');
+    expect(text).toContain('pausa mis recordatorios');
+  });
+});
+
+describe('reminder actions', () => {
+  let count = 0;
+  const run = async (actionName: string, entityId: string, text: string) => {
+    const action = plugin.actions!.find((a) => a.name === actionName)!;
+    const message = {
+      id: `msg-reminder-${++count}`,
+      entityId,
+      roomId: 'room-reminders',
+      content: { text, source: 'telegram' },
+    } as unknown as Memory;
+    expect(await action.validate({} as IAgentRuntime, message)).toBe(true);
+    const replies: string[] = [];
+    await action.handler({} as IAgentRuntime, message, undefined, {}, async (content) => {
+      replies.push(content.text ?? '');
+      return [];
+    });
+    return replies[0];
+  };
+
+  it('creates, lists, pauses and deletes reminders from chat', async () => {
+    const entityId = 'reminder-chat-user';
+    expect(await run('CREATE_SAVINGS_REMINDER', entityId, 'Recuérdame ahorrar cada viernes a las 6 pm')).toContain(
+      'cada viernes a las 18:00'
+    );
+    const [reminder] = reminderStore.list(entityId);
+    expect(reminder.target).toEqual({ source: 'telegram', roomId: 'room-reminders' });
+
+    expect(await run('MANAGE_SAVINGS_REMINDERS', entityId, 'mis recordatorios')).toContain('1. ahorrar');
+    expect(await run('MANAGE_SAVINGS_REMINDERS', entityId, 'pausa mis recordatorios')).toBe('Pausé el recordatorio "ahorrar".');
+    expect(reminderStore.list(entityId)[0].paused).toBe(true);
+    expect(await run('MANAGE_SAVINGS_REMINDERS', entityId, 'borra el recordatorio 3')).toContain('No tienes un recordatorio número 3');
+    expect(await run('MANAGE_SAVINGS_REMINDERS', entityId, 'borra mis recordatorios')).toBe('Borré el recordatorio "ahorrar".');
+    expect(reminderStore.list(entityId)).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory, State } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  SavingsGoalStore,
+  computeGoalProgress,
+  describeGoalProgress,
+  getGoalsProgress,
+  measureSavings,
+  parseGoalRequest,
+  savingsGoalStore,
+  type SavingsGoal,
+} from '../services/savings-goals';
+import { createMemoryCacheBackend } from '../services/storage';
+import { PriceOracle, type PriceSource } from '../services/price-oracle';
+import { builtinTokens } from '../services/token-registry';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DAY = 86_400_000;
+
+const goal = (overrides: Partial<SavingsGoal> = {}): SavingsGoal => ({
+  id: 'g1',
+  entityId: 'maria',
+  title: 'una bici',
+  targetAmount: '5000',
+  currency: 'MXN',
+  deadlineMs: NOW.getTime() + 70 * DAY,
+  createdAtMs: NOW.getTime(),
+  status: 'active',
+  ...overrides,
+});
+
+describe('parseGoalRequest', () => {
+  it('reads amount, currency, purpose and deadline', () => {
+    expect(parseGoalRequest('Quiero ahorrar 5,000 pesos para una bici en diciembre', NOW)).toEqual({
+      status: 'complete',
+      goal: { title: 'una bici', targetAmount: '5000', currency: 'MXN', deadlineMs: Date.UTC(2026, 11, 31, 23, 59, 59, 999) },
+    });
+  });
+
+  it('names the goal after the deadline when there is no purpose', () => {
+    const result = parseGoalRequest('quiero ahorrar 5000 pesos para diciembre', NOW);
+    expect(result).toMatchObject({ status: 'complete', goal: { title: 'Ahorro para el 31 de diciembre de 2026' } });
+  });
+
+  it('rolls past months into next year and understands relative dates', () => {
+    const march = parseGoalRequest('quiero ahorrar cinco mil pesos para el 15 de marzo', NOW);
+    expect(march.status === 'complete' && march.goal).toMatchObject({
+      targetAmount: '5000',
+      deadlineMs: Date.UTC(2027, 2, 15, 23, 59, 59, 999),
+    });
+    const relative = parseGoalRequest('quiero juntar 100 USDC en 3 meses', NOW);
+    expect(relative.status === 'complete' && relative.goal).toMatchObject({
+      currency: 'USDC',
+      deadlineMs: Date.UTC(2027, 0, 19, 23, 59, 59, 999),
+    });
+  });
+
+  it('defaults to pesos and allows no deadline', () => {
+    expect(parseGoalRequest('quiero ahorrar 5000 para pagar la renta', NOW)).toEqual({
+      status: 'complete',
+      goal: { title: 'pagar la renta', targetAmount: '5000', currency: 'MXN' },
+    });
+  });
+
+  it('asks for the amount when it is missing', () => {
+    expect(parseGoalRequest('quiero ahorrar para un viaje', NOW).status).toBe('incomplete');
+  });
+});
+
+describe('goal progress', () => {
+  it('computes percent, days left and the weekly amount needed', () => {
+    const progress = computeGoalProgress(goal(), 1500, NOW.getTime());
+    expect(progress).toMatchObject({ percent: 30, remaining: 3500, daysLeft: 70, perWeekNeeded: 350, overdue: false });
+    expect(describeGoalProgress(progress)).toBe(
+      '• una bici: $1,500.00 MXN de $5,000.00 MXN (30%) — faltan 70 días — ~$350.00 MXN por semana'
+    );
+  });
+
+  it('reports overdue goals and unmeasurable savings', () => {
+    const late = goal({ deadlineMs: NOW.getTime() - 2 * DAY });
+    expect(computeGoalProgress(late, 100, NOW.getTime()).overdue).toBe(true);
+    expect(describeGoalProgress(computeGoalProgress(late, undefined, NOW.getTime()))).toContain('no pude medir');
+  });
+
+  it('marks goals achieved once savings reach the target', async () => {
+    const store = new SavingsGoalStore();
+    const created = store.create('maria', { title: 'bici', targetAmount: '100', currency: 'USDC' });
+    const progress = await getGoalsProgress('maria', { store, measure: async () => 120, fresh: true });
+    expect(progress[0].percent).toBe(100);
+    expect(store.list('maria')[0]).toMatchObject({ id: created.id, status: 'achieved' });
+  });
+});
+
+describe('measureSavings', () => {
+  const [eth, , usdc] = builtinTokens();
+  const balances = async () => [
+    { token: eth, balance: 5n * 10n ** 17n, decimals: 18 },
+    { token: usdc, balance: 20_000_000n, decimals: 6 },
+  ];
+  const source: PriceSource = {
+    name: 'stub',
+    async getPrices(symbols, currencies) {
+      const table: Record<string, number> = { ETH: 50000, USDC: 18 };
+      return symbols.flatMap((symbol) =>
+        currencies.map((currency) => ({ symbol, currency, price: table[symbol], asOfMs: Date.now(), source: 'stub' }))
+      );
+    },
+  };
+
+  beforeEach(() => {
+    telegramStarknetStore.ensureAccountForEntityId('measure-user');
+  });
+
+  it('uses the token balance for token goals', async () => {
+    expect(await measureSavings('measure-user', 'USDC', { getBalances: balances })).toBe(20);
+  });
+
+  it('values the whole alcancía for fiat goals', async () => {
+    const oracle = new PriceOracle(source);
+    expect(await measureSavings('measure-user', 'MXN', { getBalances: balances, oracle })).toBe(25360);
+  });
+
+  it('is undefined without an account', async () => {
+    expect(await measureSavings('nobody', 'USDC', { getBalances: balances })).toBeUndefined();
+  });
+});
+
+describe('SavingsGoalStore', () => {
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('persists goals per user and migrates in-memory ones', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new SavingsGoalStore();
+    const early = store.create('maria', { title: 'bici', targetAmount: '5000', currency: 'MXN' });
+    await store.attach(backend);
+    const later = store.create('juan', { title: 'viaje', targetAmount: '300', currency: 'USD' });
+    store.cancel('maria', early.id);
+    await store.flush();
+
+    const reopened = new SavingsGoalStore();
+    expect((await reopened.attach(backend)).loaded).toBe(2);
+    expect(reopened.list('maria')).toEqual([]);
+    expect(reopened.list('maria', { includeCancelled: true })[0].status).toBe('cancelled');
+    expect(reopened.list('juan')[0].id).toBe(later.id);
+  });
+});
+
+describe('savings goals in the plugin', () => {
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+    delete process.env.STARKNET_RPC_URL;
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('creates a goal from chat and exposes it through the provider', async () => {
+    const entityId = 'goal-chat-user';
+    const create = plugin.actions!.find((a) => a.name === 'CREATE_SAVINGS_GOAL')!;
+    const provider = plugin.providers!.find((p) => p.name === 'SAVINGS_GOALS')!;
+    const message = {
+      id: 'msg-goal-1',
+      entityId,
+      roomId: 'room-goal',
+      content: { text: 'quiero ahorrar 5000 pesos para una bici en diciembre', source: 'telegram' },
+    } as unknown as Memory;
+
+    expect(await create.validate({} as IAgentRuntime, message)).toBe(true);
+    const replies: string[] = [];
+    await create.handler({} as IAgentRuntime, message, undefined, {}, async (content) => {
+      replies.push(content.text ?? '');
+      return [];
+    });
+    expect(replies[0]).toContain('una bici');
+    expect(savingsGoalStore.list(entityId)).toHaveLength(1);
+
+    const result = await provider.get({} as IAgentRuntime, message, {} as State);
+    expect(result.text).toContain('una bici');
+    expect(result.values?.savingsGoalsCount).toBe(1);
+  });
+
+  it('provides nothing for users without goals', async () => {
+    const provider = plugin.providers!.find((p) => p.name === 'SAVINGS_GOALS')!;
+    const message = { entityId: 'no-goals', content: { text: 'hola' } } as unknown as Memory;
+    expect((await provider.get({} as IAgentRuntime, message, {} as State)).text).toBe('');
+  });
+});
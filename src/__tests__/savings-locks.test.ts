@@ -0,0 +1,182 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  EMERGENCY_CONFIRM_WINDOW_MS,
+  SavingsLockStore,
+  describeLockedFunds,
+  parseLockCommand,
+  parseLockRequest,
+  savingsLocks,
+} from '../services/savings-locks';
+import { SpendingPolicyStore, emptyPolicy } from '../services/spending-policy';
+import { builtinTokens } from '../services/token-registry';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+import type { SavingsGoal } from '../services/savings-goals';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const STRK = 10n ** 18n;
+const tokens = builtinTokens();
+const bici: SavingsGoal = {
+  id: 'goal-bici',
+  entityId: 'maria',
+  title: 'una bici',
+  targetAmount: '5000',
+  currency: 'MXN',
+  createdAtMs: 0,
+  status: 'active',
+};
+
+const saved = { ...process.env };
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.env = { ...saved };
+  mock.restore();
+});
+
+describe('parseLockRequest', () => {
+  it('understands an amount until a date or a goal', () => {
+    expect(parseLockRequest('guarda 100 STRK hasta diciembre', tokens, [], NOW)).toEqual({
+      status: 'complete',
+      lock: { symbol: 'STRK', decimals: 18, amount: (100n * STRK).toString(), unlockAtMs: Date.UTC(2026, 11, 31, 23, 59, 59, 999) },
+    });
+    expect(parseLockRequest('aparta 50 USDC hasta que cumpla mi meta', tokens, [bici], NOW)).toMatchObject({
+      status: 'complete',
+      lock: { symbol: 'USDC', amount: '50000000', goalId: 'goal-bici', goalTitle: 'una bici' },
+    });
+  });
+
+  it('asks for what is missing', () => {
+    expect(parseLockRequest('guarda 100 STRK', tokens, [], NOW)).toMatchObject({ status: 'incomplete' });
+    expect(parseLockRequest('guarda 100 pesos hasta diciembre', tokens, [], NOW)).toMatchObject({ status: 'incomplete' });
+    expect(parseLockRequest('bloquea 1 ETH hasta cumplir mi meta', tokens, [], NOW)).toEqual({
+      status: 'incomplete',
+      question: 'No tienes metas activas; crea una o dime una fecha ("hasta diciembre").',
+    });
+  });
+
+  it('parses lock management commands', () => {
+    expect(parseLockCommand('mis bloqueos')).toEqual({ kind: 'list' });
+    expect(parseLockCommand('romper alcancía de barro')).toEqual({ kind: 'emergency' });
+    expect(parseLockCommand('desbloqueo de emergencia del bloqueo 2')).toEqual({ kind: 'emergency', index: 2 });
+    expect(parseLockCommand('cancela el desbloqueo')).toEqual({ kind: 'cancel_emergency' });
+  });
+});
+
+describe('SavingsLockStore', () => {
+  const lockInput = { symbol: 'STRK', decimals: 18, amount: (100n * STRK).toString() };
+
+  it('releases locks on their date or when the goal is achieved', () => {
+    let achieved = false;
+    const store = new SavingsLockStore(() => achieved);
+    store.lock('maria', { ...lockInput, unlockAtMs: 10 * HOUR }, 0);
+    store.lock('maria', { ...lockInput, goalId: 'goal-bici', goalTitle: 'una bici' }, 0);
+    expect(store.lockedAmount('maria', 'strk', HOUR)).toBe(200n * STRK);
+    expect(store.lockedAmount('maria', 'STRK', 11 * HOUR)).toBe(100n * STRK);
+    achieved = true;
+    expect(store.active('maria', 12 * HOUR)).toEqual([]);
+  });
+
+  it('needs the delay and stays within the confirmation window for an emergency unlock', () => {
+    const store = new SavingsLockStore(() => false);
+    const lock = store.lock('maria', lockInput, 0);
+
+    const first = store.requestEmergencyUnlock('maria', { nowMs: 0, delayMs: 48 * HOUR });
+    expect(first).toMatchObject({ status: 'waiting', availableAtMs: 48 * HOUR, requested: true });
+    // Pedirlo otra vez no reinicia ni acorta la espera
+    expect(store.requestEmergencyUnlock('maria', { nowMs: 10 * HOUR, delayMs: 0 })).toMatchObject({ status: 'waiting', requested: false });
+    expect(store.breakLocks('maria', [lock.id], 10 * HOUR)).toEqual([]);
+
+    expect(store.requestEmergencyUnlock('maria', { nowMs: 48 * HOUR, delayMs: 48 * HOUR }).status).toBe('ready');
+    expect(store.breakLocks('maria', [lock.id], 48 * HOUR).map((l) => l.status)).toEqual(['broken']);
+    expect(store.lockedAmount('maria', 'STRK', 48 * HOUR)).toBe(0n);
+  });
+
+  it('lets an unconfirmed emergency unlock lapse and can cancel it', () => {
+    const store = new SavingsLockStore(() => false);
+    const lock = store.lock('maria', lockInput, 0);
+    store.requestEmergencyUnlock('maria', { nowMs: 0, delayMs: HOUR });
+    const late = HOUR + EMERGENCY_CONFIRM_WINDOW_MS + 1;
+    expect(store.breakLocks('maria', [lock.id], late)).toEqual([]);
+    // Vencida la ventana, pedirlo otra vez vuelve a empezar la espera
+    expect(store.requestEmergencyUnlock('maria', { nowMs: late, delayMs: HOUR })).toMatchObject({ status: 'waiting', requested: true });
+    expect(store.cancelEmergency('maria', late)).toBe(1);
+    expect(store.active('maria', late)[0].emergency).toBeUndefined();
+  });
+
+  it('persists locks across restarts', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new SavingsLockStore(() => false);
+    await before.attach(backend);
+    before.lock('maria', lockInput);
+    await before.flush();
+
+    const after = new SavingsLockStore(() => false);
+    expect(await after.attach(backend)).toEqual({ loaded: 1 });
+    expect(after.lockedAmount('maria', 'STRK')).toBe(100n * STRK);
+  });
+});
+
+describe('locked savings in the spending policy', () => {
+  const request = (amount: bigint, balance?: bigint) => ({
+    entityId: 'maria',
+    token: { symbol: 'STRK', decimals: 18 },
+    amount,
+    recipient: '0xabc',
+    balance,
+  });
+
+  it('only lets the unlocked part of the balance move', () => {
+    const locks = new SavingsLockStore(() => false);
+    locks.lock('maria', { symbol: 'STRK', decimals: 18, amount: (100n * STRK).toString(), unlockAtMs: Date.UTC(2026, 11, 31) });
+    const policies = new SpendingPolicyStore();
+    const options = { global: emptyPolicy(), locks, nowMs: NOW.getTime() };
+
+    expect(policies.evaluate(request(20n * STRK, 130n * STRK), options).allowed).toBe(true);
+    const blocked = policies.evaluate(request(40n * STRK, 130n * STRK), options);
+    expect(!blocked.allowed && blocked.violations[0]).toEqual({
+      code: 'locked_savings',
+      message: 'Tienes 100 STRK guardados en tu alcancía de barro (hasta el 31 de diciembre de 2026); solo puedes enviar 30 STRK.',
+    });
+    // Sin saldo no se puede saber cuánto queda libre: no se arriesga
+    expect(policies.evaluate(request(1n, undefined), options).allowed).toBe(false);
+    expect(describeLockedFunds([], { symbol: 'STRK', decimals: 18, amount: 1n })).toBeUndefined();
+  });
+});
+
+describe('emergency unlock in the chat flow', () => {
+  const entityId = 'locks-lucia';
+  const say = (id: string, text: string) =>
+    ({ id, entityId, roomId: 'room-locks', content: { text, source: 'telegram' } }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+
+  it('locks savings and releases them only after the delay and a "sí"', async () => {
+    process.env.ALCANCIA_EMERGENCY_UNLOCK_HOURS = '0';
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+
+    await action('LOCK_SAVINGS').handler(runtime, say('msg-locks-1', 'guarda 10 STRK hasta el 1 de enero de 2099'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('🏺 Guardé 10 STRK en tu alcancía de barro:\n1. 10 STRK hasta el 1 de enero de 2099');
+
+    await action('MANAGE_SAVINGS_LOCKS').handler(runtime, say('msg-locks-2', 'romper alcancía de barro'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('Vas a romper tu alcancía de barro y liberar:\n• 10 STRK');
+    expect(savingsLocks.lockedAmount(entityId, 'STRK')).toBe(10n * STRK);
+
+    await action('CONFIRM_PENDING_OPERATION').handler(runtime, say('msg-locks-3', 'sí'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Listo, liberé 10 STRK. Ya puedes usarlos.');
+    expect(savingsLocks.lockedAmount(entityId, 'STRK')).toBe(0n);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it, beforeAll, afterAll, spyOn } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import net, { type Server } from 'node:net';
+import { ec, hash, typedData } from 'starknet';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  InProcessHsm,
+  LocalKeySigner,
+  RemoteSigner,
+  createSigningDaemon,
+  toStarknetSigner,
+  type Signer,
+} from '../services/signers';
+import {
+  PersistentTelegramStarknetStore,
+  computeSmartAccountDetails,
+  deployInvisibleAccount,
+  getAccountSigner,
+  setTransferAccountFactory,
+  telegramStarknetStore,
+  type TransferAccount,
+} from '../services/telegram-starknet';
+import { createKeyring, parseMasterKey } from '../services/key-encryption';
+
+const privateKeyHex = '0x1234567890abcdef1234567890abcdef';
+const publicKeyHex = '0x' + ec.starkCurve.getStarkKey(privateKeyHex).replace(/^0x/, '');
+const fullPublicKey = ec.starkCurve.getPublicKey(privateKeyHex);
+const msgHash = hash.computePoseidonHashOnElements(['0x1', '0x2']);
+
+const expectValidSignature = (signature: string[], signedHash = msgHash) => {
+  expect(signature).toHaveLength(2);
+  const sig = new ec.starkCurve.Signature(BigInt(signature[0]), BigInt(signature[1]));
+  expect(ec.starkCurve.verify(sig, signedHash, fullPublicKey)).toBe(true);
+};
+
+beforeAll(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+describe('LocalKeySigner', () => {
+  it('unlocks the key only while signing', async () => {
+    let unlocks = 0;
+    const signer = new LocalKeySigner('local-1', (use) => {
+      unlocks++;
+      return use(privateKeyHex);
+    });
+    expect(await signer.getPublicKey()).toBe(publicKeyHex);
+    expectValidSignature(await signer.signHash(msgHash));
+    expect(unlocks).toBe(2);
+    expect(JSON.stringify(signer)).not.toContain(privateKeyHex.slice(2));
+  });
+});
+
+describe('InProcessHsm', () => {
+  it('signs by handle and never exposes imported keys', async () => {
+    const hsm = new InProcessHsm();
+    hsm.importKey('hsm-1', privateKeyHex);
+    const signer = hsm.signer('hsm-1');
+    expect(await signer.getPublicKey()).toBe(publicKeyHex);
+    expectValidSignature(await signer.signHash(msgHash));
+    expect(JSON.stringify(hsm)).not.toContain(privateKeyHex.slice(2));
+    expect(Object.keys(hsm)).toHaveLength(0);
+  });
+
+  it('rejects unknown or destroyed handles', () => {
+    const hsm = new InProcessHsm();
+    hsm.importKey('hsm-2', privateKeyHex);
+    expect(hsm.destroyKey('hsm-2')).toBe(true);
+    expect(() => hsm.signer('hsm-2')).toThrow('HSM key not found');
+  });
+});
+
+describe('RemoteSigner', () => {
+  const socketPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'signer-')), 'daemon.sock');
+  let server: Server;
+
+  beforeAll(async () => {
+    const hsm = new InProcessHsm();
+    hsm.importKey('remote-1', privateKeyHex);
+    server = createSigningDaemon((keyId) => (hsm.hasKey(keyId) ? hsm.signer(keyId) : undefined));
+    await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('gets the public key and signatures from the daemon', async () => {
+    const signer = new RemoteSigner('remote-1', socketPath);
+    expect(await signer.getPublicKey()).toBe(publicKeyHex);
+    expectValidSignature(await signer.signHash(msgHash));
+  });
+
+  it('surfaces daemon errors for unknown keys', async () => {
+    const signer = new RemoteSigner('missing', socketPath);
+    await expect(signer.getPublicKey()).rejects.toThrow('unknown key');
+  });
+
+  it('fails when the daemon is not reachable', async () => {
+    const signer = new RemoteSigner('remote-1', path.join(os.tmpdir(), 'no-such-daemon.sock'), 500);
+    await expect(signer.signHash(msgHash)).rejects.toThrow();
+  });
+
+  it('fails when the daemon hangs up or never answers', async () => {
+    const dir = path.dirname(socketPath);
+    const hangUp = net.createServer((socket) => socket.on('data', () => socket.end()));
+    const silent = net.createServer(() => {});
+    await new Promise<void>((resolve) => hangUp.listen(path.join(dir, 'hang-up.sock'), resolve));
+    await new Promise<void>((resolve) => silent.listen(path.join(dir, 'silent.sock'), resolve));
+    try {
+      await expect(new RemoteSigner('remote-1', path.join(dir, 'hang-up.sock')).signHash(msgHash)).rejects.toThrow(
+        'closed the connection without answering'
+      );
+      await expect(new RemoteSigner('remote-1', path.join(dir, 'silent.sock'), 200).signHash(msgHash)).rejects.toThrow('timed out after 200ms');
+    } finally {
+      silent.close();
+      hangUp.close();
+    }
+  });
+
+  it('derives the account address from the daemon key', async () => {
+    const store = new PersistentTelegramStarknetStore(createKeyring(parseMasterKey('77'.repeat(32))!));
+    const saved = { ...process.env };
+    try {
+      process.env.STARKNET_SIGNER = 'remote';
+      process.env.STARKNET_SIGNER_SOCKET = socketPath;
+      // El daemon atiende la llave 'remote-1', distinta de la que genera el store
+      expect(store.ensureAccountForEntityId('remote-1').accountAddressHex).toBeUndefined();
+      await deployInvisibleAccount('remote-1', { store, deploy: async () => ({ error: new Error('Missing STARKNET_RPC_URL') }) });
+    } finally {
+      process.env = saved;
+    }
+    expect(store.getAccountByEntityId('remote-1')?.accountAddressHex).toBe(computeSmartAccountDetails(publicKeyHex)!.precalculatedAddress);
+  });
+});
+
+describe('starknet.js bridge', () => {
+  it('delegates public key and raw signing', async () => {
+    const delegate: Signer = new LocalKeySigner('bridge', (use) => use(privateKeyHex));
+    const starknetSigner = toStarknetSigner(delegate);
+    expect(await starknetSigner.getPubKey()).toBe(publicKeyHex);
+    const data = {
+      types: {
+        StarkNetDomain: [
+          { name: 'name', type: 'felt' },
+          { name: 'version', type: 'felt' },
+          { name: 'chainId', type: 'felt' },
+        ],
+        Message: [{ name: 'text', type: 'felt' }],
+      },
+      primaryType: 'Message',
+      domain: { name: 'alcancia', version: '1', chainId: 1 },
+      message: { text: 'hola' },
+    };
+    const signature = (await starknetSigner.signMessage(data, '0x0123')) as string[];
+    expectValidSignature(signature, typedData.getMessageHash(data, '0x0123'));
+  });
+});
+
+describe('getAccountSigner', () => {
+  const keyring = createKeyring(parseMasterKey('66'.repeat(32))!);
+
+  it('selects local, hsm and remote signers from STARKNET_SIGNER', async () => {
+    const store = new PersistentTelegramStarknetStore(keyring);
+    store.ensureAccountForEntityId('mode-user');
+    const expected = store.withPrivateKey('mode-user', (k) => '0x' + ec.starkCurve.getStarkKey(k).replace(/^0x/, ''));
+
+    const saved = { ...process.env };
+    try {
+      process.env.STARKNET_SIGNER = 'local';
+      expect(getAccountSigner('mode-user', store)).toBeInstanceOf(LocalKeySigner);
+      process.env.STARKNET_SIGNER = 'hsm';
+      expect(await getAccountSigner('mode-user', store).getPublicKey()).toBe(expected);
+      process.env.STARKNET_SIGNER = 'remote';
+      delete process.env.STARKNET_SIGNER_SOCKET;
+      expect(() => getAccountSigner('mode-user', store)).toThrow('STARKNET_SIGNER_SOCKET');
+      process.env.STARKNET_SIGNER_SOCKET = '/tmp/signer.sock';
+      expect(getAccountSigner('mode-user', store)).toBeInstanceOf(RemoteSigner);
+    } finally {
+      process.env = saved;
+    }
+  });
+
+  it('hands the transfer executor a signer instead of the private key', async () => {
+    const entityId = 'wrapped-user';
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    let received: unknown[] = [];
+    setTransferAccountFactory((...args) => {
+      received = args;
+      return { execute: (async () => ({ transaction_hash: '0x5e' })) as TransferAccount['execute'] };
+    });
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const message = {
+      id: 'msg-wrapped',
+      entityId,
+      roomId: 'room-wrapped',
+      content: { text: 'enviar 1 ETH a 0x0123', source: 'telegram' },
+    } as unknown as Memory;
+
+    const action = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    const confirm = plugin.actions!.find((a) => a.name === 'CONFIRM_PENDING_OPERATION')!;
+    await action.handler(runtime, message, undefined, {}, async () => [], []);
+    const reply = { ...message, id: 'msg-wrapped-yes', content: { text: 'sí', source: 'telegram' } } as unknown as Memory;
+    await confirm.handler(runtime, reply, undefined, {}, async () => [], []);
+    setTransferAccountFactory(null);
+
+    const [signer, accountAddress] = received;
+    expect(signer).toBeInstanceOf(LocalKeySigner);
+    expect(accountAddress).toBe(telegramStarknetStore.getAccountByEntityId(entityId)!.accountAddressHex);
+    const key = telegramStarknetStore.withPrivateKey(entityId, (k) => BigInt(k).toString(16));
+    expect(JSON.stringify(received)).not.toContain(key);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import {
+  SpendingPolicyStore,
+  describePolicy,
+  emptyPolicy,
+  globalPolicy,
+  isLoosening,
+  parsePolicyCommand,
+  spendingPolicies,
+  type SpendRequest,
+} from '../services/spending-policy';
+import { builtinTokens } from '../services/token-registry';
+import { setTransferAccountFactory, telegramStarknetStore, type TransferAccount } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+
+const ETH = { symbol: 'ETH', decimals: 18 };
+const FRIEND = '0x' + 'f'.repeat(3);
+const STRANGER = '0x' + 'e'.repeat(3);
+const HOUR = 60 * 60 * 1000;
+const eth = (value: number) => BigInt(Math.round(value * 1e6)) * 10n ** 12n;
+const send = (amount: number, recipient = FRIEND): SpendRequest => ({ entityId: 'maria', token: ETH, amount: eth(amount), recipient });
+
+const saved = { ...process.env };
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.env = { ...saved };
+  mock.restore();
+});
+
+describe('SpendingPolicyStore.evaluate', () => {
+  it('allows anything without rules', () => {
+    expect(new SpendingPolicyStore().evaluate(send(100), { global: emptyPolicy() })).toEqual({ allowed: true });
+  });
+
+  it('enforces the per-transaction maximum and explains it', () => {
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'limit', period: 'tx', symbol: 'ETH', amountText: '0.05' });
+    const decision = store.evaluate(send(0.1), { global: emptyPolicy() });
+    expect(decision).toEqual({
+      allowed: false,
+      violations: [{ code: 'max_per_tx', message: 'El envío de 0.1 ETH pasa tu máximo por envío de 0.05 ETH.' }],
+    });
+    expect(store.evaluate(send(0.05), { global: emptyPolicy() }).allowed).toBe(true);
+  });
+
+  it('counts what was already sent against rolling daily and weekly caps', () => {
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'limit', period: 'daily', symbol: 'ETH', amountText: '0.1' });
+    store.apply('maria', { kind: 'limit', period: 'weekly', symbol: 'ETH', amountText: '0.25' });
+    const global = emptyPolicy();
+    store.recordSpend(send(0.08), 0);
+
+    const blocked = store.evaluate(send(0.05), { nowMs: HOUR, global });
+    expect(blocked.allowed).toBe(false);
+    expect(!blocked.allowed && blocked.violations[0].message).toBe(
+      'Con este envío llevarías 0.13 ETH en las últimas 24 horas y tu tope diario es 0.1 ETH. Todavía puedes enviar hasta 0.02 ETH.'
+    );
+    // Al día siguiente el tope diario se libera, pero el semanal sigue contando
+    expect(store.evaluate(send(0.05), { nowMs: 25 * HOUR, global }).allowed).toBe(true);
+    store.recordSpend(send(0.09), 25 * HOUR);
+    store.recordSpend(send(0.07), 50 * HOUR);
+    const weekly = store.evaluate(send(0.05), { nowMs: 75 * HOUR, global });
+    expect(!weekly.allowed && weekly.violations.map((v) => v.code)).toEqual(['weekly_cap']);
+    expect(store.spentWithin('maria', 'eth', 'weekly', 75 * HOUR)).toBe(eth(0.24));
+  });
+
+  it('uses the stricter of the user and global limits', () => {
+    process.env.ALCANCIA_LIMIT_PER_TX = 'ETH:0.02,STRK:100';
+    process.env.ALCANCIA_LIMIT_DAILY = 'bad entry';
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'limit', period: 'tx', symbol: 'ETH', amountText: '1' });
+    const decision = store.evaluate(send(0.03));
+    expect(!decision.allowed && decision.violations[0].message).toBe('El envío de 0.03 ETH pasa el máximo por envío de 0.02 ETH.');
+    expect(globalPolicy().limits).toEqual({ ETH: { tx: '0.02' }, STRK: { tx: '100' } });
+  });
+
+  it('only sends to the allowlist when asked to', () => {
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'allowlist_only', enabled: true });
+    store.apply('maria', { kind: 'allow', address: '0x' + 'f'.repeat(3).padStart(64, '0') });
+    expect(store.evaluate(send(1, FRIEND), { global: emptyPolicy() }).allowed).toBe(true);
+    const decision = store.evaluate(send(1, STRANGER), { global: emptyPolicy() });
+    expect(!decision.allowed && decision.violations[0].code).toBe('not_allowlisted');
+
+    process.env.ALCANCIA_ALLOWLIST_ONLY = '1';
+    process.env.ALCANCIA_ALLOWLIST = STRANGER;
+    expect(new SpendingPolicyStore().evaluate(send(1, STRANGER)).allowed).toBe(true);
+    expect(new SpendingPolicyStore().evaluate(send(1, FRIEND)).allowed).toBe(false);
+  });
+
+  it('makes new recipients wait out the cool-down from the first attempt', () => {
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'cooldown', minutes: 30 });
+    const global = emptyPolicy();
+    const first = store.evaluate(send(1, STRANGER), { nowMs: 0, global });
+    expect(!first.allowed && first.violations[0].message).toStartWith(
+      'Es la primera vez que envías a 0xeee; por seguridad hay que esperar 30 minutos'
+    );
+    const later = store.evaluate(send(1, STRANGER), { nowMs: 20 * 60_000, global });
+    expect(!later.allowed && later.violations[0].message).toContain('esperar 10 minutos');
+    expect(store.evaluate(send(1, STRANGER), { nowMs: 31 * 60_000, global }).allowed).toBe(true);
+
+    // Alguien a quien ya se le envió no vuelve a esperar
+    store.recordSpend(send(1, FRIEND), 0);
+    expect(store.evaluate(send(1, FRIEND), { nowMs: 0, global }).allowed).toBe(true);
+  });
+
+  it('persists rules and spends across restarts', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new SpendingPolicyStore();
+    await before.attach(backend);
+    before.apply('maria', { kind: 'limit', period: 'daily', symbol: 'ETH', amountText: '0.1' });
+    before.recordSpend(send(0.08));
+    await before.flush();
+
+    const after = new SpendingPolicyStore();
+    expect(await after.attach(backend)).toEqual({ loaded: 1 });
+    expect(after.policy('maria').limits).toEqual({ ETH: { daily: '0.1' } });
+    expect(after.evaluate(send(0.05), { global: emptyPolicy() }).allowed).toBe(false);
+  });
+});
+
+describe('policy chat commands', () => {
+  const tokens = builtinTokens();
+
+  it('parses limits, allowlist changes and cool-downs', () => {
+    expect(parsePolicyCommand('Pon un límite diario de 0.05 ETH', tokens)).toEqual({
+      kind: 'limit',
+      period: 'daily',
+      symbol: 'ETH',
+      amountText: '0.05',
+    });
+    expect(parsePolicyCommand('límite por envío 200 strk', tokens)).toMatchObject({ period: 'tx', symbol: 'STRK', amountText: '200' });
+    expect(parsePolicyCommand('quita mi límite semanal de USDC', tokens)).toEqual({ kind: 'limit', period: 'weekly', symbol: 'USDC' });
+    expect(parsePolicyCommand('permite 0xABC', tokens)).toEqual({ kind: 'allow', address: '0x' + 'abc'.padStart(64, '0') });
+    expect(parsePolicyCommand('quita 0xabc de mi lista de confianza', tokens).kind).toBe('disallow');
+    expect(parsePolicyCommand('solo enviar a mi lista de confianza', tokens)).toEqual({ kind: 'allowlist_only', enabled: true });
+    expect(parsePolicyCommand('espera de 2 horas para direcciones nuevas', tokens)).toEqual({ kind: 'cooldown', minutes: 120 });
+    expect(parsePolicyCommand('mis límites', tokens)).toEqual({ kind: 'show' });
+    expect(parsePolicyCommand('límite diario de 100 pesos', tokens).kind).toBe('invalid');
+  });
+
+  it('treats only weaker rules as loosening', () => {
+    const policy = { ...emptyPolicy(), limits: { ETH: { daily: '0.1' } }, allowlistOnly: true };
+    expect(isLoosening(policy, { kind: 'limit', period: 'daily', symbol: 'ETH', amountText: '0.05' })).toBe(false);
+    expect(isLoosening(policy, { kind: 'limit', period: 'daily', symbol: 'ETH', amountText: '0.5' })).toBe(true);
+    expect(isLoosening(policy, { kind: 'limit', period: 'daily', symbol: 'ETH' })).toBe(true);
+    expect(isLoosening(policy, { kind: 'limit', period: 'tx', symbol: 'ETH', amountText: '9' })).toBe(false);
+    expect(isLoosening(policy, { kind: 'allowlist_only', enabled: false })).toBe(true);
+    expect(describePolicy(policy)).toContain('• ETH: diario 0.1');
+  });
+});
+
+describe('policy in the chat flow', () => {
+  const entityId = 'policy-juan';
+  const say = (id: string, text: string) =>
+    ({ id, entityId, roomId: 'room-policy', content: { text, source: 'telegram' } }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+
+  it('blocks a transfer over the limit and asks before loosening it', async () => {
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+
+    await action('MANAGE_SPENDING_LIMITS').handler(runtime, say('msg-policy-1', 'límite por envío de 1 STRK'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Listo: tu límite por envío de STRK es 1.');
+
+    const blocked = await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(
+      runtime,
+      say('msg-policy-2', 'enviar 5 STRK a 0xabc'),
+      undefined,
+      {},
+      callback,
+      []
+    );
+    expect(blocked).toMatchObject({ success: false, text: 'blocked by spending policy' });
+    expect(replies.at(-1)).toStartWith('No puedo hacer este envío:\n• El envío de 5 STRK pasa tu máximo por envío de 1 STRK.');
+
+    await action('MANAGE_SPENDING_LIMITS').handler(runtime, say('msg-policy-3', 'límite por envío de 10 STRK'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('Vas a aflojar tus reglas de envío:');
+    expect(spendingPolicies.policy(entityId).limits.STRK).toEqual({ tx: '1' });
+
+    await action('CONFIRM_PENDING_OPERATION').handler(runtime, say('msg-policy-4', 'sí'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Listo: tu límite por envío de STRK es 10.');
+    expect(spendingPolicies.policy(entityId).limits.STRK).toEqual({ tx: '10' });
+  });
+
+  it('does not let two confirmations in flight share the same daily cap', async () => {
+    const owner = 'policy-race';
+    telegramStarknetStore.ensureAccountForEntityId(owner);
+    spendingPolicies.apply(owner, { kind: 'limit', period: 'daily', symbol: 'STRK', amountText: '1' });
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const said = (roomId: string, id: string, text: string) =>
+      ({ id, entityId: owner, roomId, content: { text, source: 'telegram' } }) as unknown as Memory;
+
+    let submitted = 0;
+    let releaseSubmit!: () => void;
+    const submitting = new Promise<void>((resolve) => (releaseSubmit = resolve));
+    setTransferAccountFactory(() => ({
+      execute: (async () => {
+        submitted++;
+        await submitting;
+        return { transaction_hash: `0x5ace${submitted}` };
+      }) as TransferAccount['execute'],
+    }));
+    try {
+      await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, said('room-dm', 'msg-race-1', 'enviar 0.8 STRK a 0xabc'), undefined, {}, callback, []);
+      await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, said('room-group', 'msg-race-2', 'enviar 0.8 STRK a 0xabc'), undefined, {}, callback, []);
+      const confirm = action('CONFIRM_PENDING_OPERATION');
+      const both = Promise.all([
+        confirm.handler(runtime, said('room-dm', 'msg-race-3', 'sí'), undefined, {}, callback, []),
+        confirm.handler(runtime, said('room-group', 'msg-race-4', 'sí'), undefined, {}, callback, []),
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      releaseSubmit();
+      await both;
+    } finally {
+      setTransferAccountFactory(null);
+    }
+
+    expect(submitted).toBe(1);
+    expect(replies.some((reply) => reply.includes('tope diario es 1 STRK'))).toBe(true);
+    expect(spendingPolicies.spentWithin(owner, 'STRK', 'daily')).toBe(800_000_000_000_000_000n);
+  });
+
+  it('gives the reserved amount back when the transfer is not submitted', () => {
+    const store = new SpendingPolicyStore();
+    store.apply('maria', { kind: 'limit', period: 'daily', symbol: 'ETH', amountText: '0.1' });
+    const first = store.reserve(send(0.08), { global: emptyPolicy(), nowMs: 0 });
+    expect(first.allowed).toBe(true);
+    expect(store.reserve(send(0.05), { global: emptyPolicy(), nowMs: 1 }).allowed).toBe(false);
+    if (first.allowed) store.release(first.reservation);
+    expect(store.reserve(send(0.05), { global: emptyPolicy(), nowMs: 2 }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { constants, starknetId, type Call } from 'starknet';
+import plugin from '../plugin';
+import {
+  StarknetIdResolver,
+  normalizeStarkDomain,
+  setStarknetIdResolver,
+  type StarknetIdRpc,
+} from '../services/starknet-id';
+import { recipientResolver } from '../services/contacts';
+import { parseTransferRequest } from '../services/transfer-parser';
+import { builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { describeHistoryEntry, type HistoryEntry } from '../services/transaction-history';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+
+const MARIA = normalizeTokenAddress('0x4d41');
+const OLD_OWNER = normalizeTokenAddress('0x01d');
+
+/**
+ * Contrato de nombres simulado: `domains` es dominio → dirección y `reverse` dirección → dominio
+ * (como el contrato, el dominio principal de una dirección puede no apuntarle de vuelta).
+ */
+function fakeNamingRpc(domains: Record<string, string>, reverse: Record<string, string> = {}) {
+  const calls: string[] = [];
+  const rpc = {
+    getChainId: async () => constants.StarknetChainId.SN_SEPOLIA,
+    callContract: async (call: Call) => {
+      const calldata = (call.calldata as string[]).map((felt) => BigInt(felt));
+      if (call.entrypoint === 'domain_to_address') {
+        const domain = starknetId.useDecoded(calldata.slice(1, 1 + Number(calldata[0])));
+        calls.push(`domain:${domain}`);
+        if (domain === 'caido.stark') throw new Error('RPC timeout');
+        return [domains[domain] ?? '0x0'];
+      }
+      const address = normalizeTokenAddress('0x' + calldata[0].toString(16));
+      calls.push(`address:${address}`);
+      const name = reverse[address];
+      if (!name) return ['0x0'];
+      const labels = name.replace(/\.stark$/, '').split('.').map((label) => '0x' + starknetId.useEncoded(label).toString(16));
+      return [String(labels.length), ...labels];
+    },
+  };
+  return { rpc: rpc as unknown as StarknetIdRpc, calls };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setStarknetIdResolver(null);
+  mock.restore();
+});
+
+describe('StarknetIdResolver', () => {
+  it('resolves domains and caches the answer', async () => {
+    let now = 0;
+    const { rpc, calls } = fakeNamingRpc({ 'maria.stark': '0x4d41', 'pagos.maria.stark': '0x4d41' });
+    const resolver = new StarknetIdResolver(rpc, { cacheTtlMs: 1000, missTtlMs: 100, now: () => now });
+
+    expect(await resolver.resolveDomain('Maria.STARK')).toEqual({ status: 'found', address: MARIA });
+    expect(await resolver.resolveDomain('maria.stark')).toEqual({ status: 'found', address: MARIA });
+    expect(await resolver.resolveDomain('pagos.maria.stark')).toEqual({ status: 'found', address: MARIA });
+    expect(await resolver.resolveDomain('nadie.stark')).toEqual({ status: 'not_found' });
+    expect(calls).toEqual(['domain:maria.stark', 'domain:pagos.maria.stark', 'domain:nadie.stark']);
+
+    // Un dominio libre se vuelve a consultar antes que uno encontrado
+    now = 500;
+    await resolver.resolveDomain('nadie.stark');
+    await resolver.resolveDomain('maria.stark');
+    expect(calls.slice(3)).toEqual(['domain:nadie.stark']);
+  });
+
+  it('reports an unavailable lookup without caching it', async () => {
+    const { rpc, calls } = fakeNamingRpc({});
+    const resolver = new StarknetIdResolver(rpc);
+    expect(await resolver.resolveDomain('caido.stark')).toEqual({ status: 'unavailable' });
+    expect(await resolver.resolveDomain('caido.stark')).toEqual({ status: 'unavailable' });
+    expect(calls).toEqual(['domain:caido.stark', 'domain:caido.stark']);
+    expect(await new StarknetIdResolver(undefined).resolveDomain('maria.stark')).toEqual({ status: 'unavailable' });
+    expect(normalizeStarkDomain('no valido.stark')).toBeUndefined();
+  });
+
+  it('only trusts a reverse name that points back to the address', async () => {
+    const { rpc } = fakeNamingRpc({ 'maria.stark': '0x4d41', 'vendido.stark': '0x999' }, { [MARIA]: 'maria.stark', [OLD_OWNER]: 'vendido.stark' });
+    const resolver = new StarknetIdResolver(rpc);
+    expect(await resolver.nameOf('0x4d41')).toBe('maria.stark');
+    expect(await resolver.nameOf(OLD_OWNER)).toBeUndefined();
+    expect(await resolver.namesOf([MARIA, '0x4D41', OLD_OWNER, '0x5'])).toEqual(new Map([[MARIA, 'maria.stark']]));
+  });
+});
+
+describe('.stark recipients', () => {
+  const tokens = builtinTokens();
+
+  it('turns a resolved domain into the transfer address', () => {
+    const domains = new Map([
+      ['maria.stark', { status: 'found' as const, address: MARIA }],
+      ['nadie.stark', { status: 'not_found' as const }],
+    ]);
+    const resolver = recipientResolver('domains-user', { domains });
+    expect(parseTransferRequest('envía 5 STRK a maria.stark', {}, tokens, resolver)).toMatchObject({
+      status: 'complete',
+      intent: { recipient: { address: MARIA, label: 'maria.stark' } },
+    });
+    const missing = parseTransferRequest('envía 5 STRK a nadie.stark', {}, tokens, resolver);
+    expect(missing.status === 'incomplete' && missing.problems).toEqual([
+      'nadie.stark no está registrado en Starknet ID; revisa cómo se escribe o compárteme la dirección 0x….',
+    ]);
+    const offline = parseTransferRequest('envía 5 STRK a otro.stark', {}, tokens, resolver);
+    expect(offline.status === 'incomplete' && offline.problems).toEqual([
+      'No pude consultar Starknet ID para encontrar otro.stark; intenta en un momento o compárteme la dirección 0x….',
+    ]);
+  });
+
+  it('names the counterpart in the history', () => {
+    const entry = {
+      eventKey: '0x1:in:0',
+      txHash: '0x1',
+      blockNumber: 1,
+      tokenAddress: '0x1',
+      tokenSymbol: 'STRK',
+      decimals: 18,
+      from: MARIA,
+      to: OLD_OWNER,
+      amount: (10n ** 18n).toString(),
+      direction: 'in',
+    } as HistoryEntry;
+    expect(describeHistoryEntry(entry, new Map([[MARIA, 'maria.stark']]))).toBe('Recibiste 1 STRK de maria.stark');
+    expect(describeHistoryEntry(entry)).toBe('Recibiste 1 STRK de 0x4d41');
+  });
+
+  it('resolves the domain in the transfer chat flow', async () => {
+    const { rpc } = fakeNamingRpc({ 'maria.stark': '0x4d41' });
+    setStarknetIdResolver(new StarknetIdResolver(rpc));
+    telegramStarknetStore.ensureAccountForEntityId('stark-pablo');
+    const replies: string[] = [];
+    const message = {
+      id: 'msg-stark-1',
+      entityId: 'stark-pablo',
+      roomId: 'room-stark',
+      content: { text: 'envía 0.01 ETH a maria.stark', source: 'telegram' },
+    } as unknown as Memory;
+    const action = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    await action.handler({ actions: [] } as unknown as IAgentRuntime, message, undefined, {}, async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    }, []);
+    expect(replies.at(-1)).toStartWith(`Vas a enviar:\n• Monto: 0.01 ETH\n• Destino: maria.stark (${MARIA})`);
+  });
+});
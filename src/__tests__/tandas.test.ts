@@ -0,0 +1,341 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import { TandaStore, addCadence, currentRound, describeTanda, parseTandaCommand, tandaStore, type Tanda } from '../services/tandas';
+import { TandaTracker } from '../services/tanda-tracker';
+import { builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+import { fakeChain, type RawTransfer } from './utils/fake-chain';
+import { createFakeClock } from './utils/fake-clock';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const DAY = 24 * 60 * 60 * 1000;
+const STRK_UNIT = 10n ** 18n;
+const tokens = builtinTokens();
+const STRK = { ...tokens[1], decimals: 18 };
+const ANA = normalizeTokenAddress('0xa7a');
+const LUIS = normalizeTokenAddress('0x1015');
+const PEDRO = normalizeTokenAddress('0xbed0');
+const STRANGER = normalizeTokenAddress('0xbad');
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+/** Tanda de 3 (Ana organiza) con 100 STRK por semana. */
+function createTanda(store: TandaStore, { start = true } = {}): Tanda {
+  const tanda = store.create(
+    {
+      name: 'Los primos',
+      roomId: 'room-group',
+      target: { source: 'telegram', roomId: 'room-group' },
+      organizerId: 'ana',
+      token: STRK,
+      contribution: (100n * STRK_UNIT).toString(),
+      cadence: 'weekly',
+    },
+    { entityId: 'ana', name: '@ana', address: ANA },
+    NOW
+  );
+  store.join(tanda.id, { entityId: 'luis', name: '@luis', address: LUIS }, NOW);
+  store.join(tanda.id, { entityId: 'pedro', name: '@pedro', address: PEDRO }, NOW);
+  if (start) store.start(tanda.id, NOW);
+  return tanda;
+}
+
+describe('parseTandaCommand', () => {
+  it('understands creating a tanda with its contribution and schedule', () => {
+    expect(parseTandaCommand('crear tanda de 100 STRK cada semana', tokens)).toEqual({
+      kind: 'create',
+      amountText: '100',
+      symbol: 'STRK',
+      cadence: 'weekly',
+    });
+    expect(parseTandaCommand('Armemos una tanda "Los primos" de 50 USDC quincenal', tokens)).toEqual({
+      kind: 'create',
+      name: 'Los primos',
+      amountText: '50',
+      symbol: 'USDC',
+      cadence: 'biweekly',
+    });
+    expect(parseTandaCommand('empezar una tanda de 0.01 ETH cada mes', tokens)).toMatchObject({ kind: 'create', cadence: 'monthly' });
+    expect(parseTandaCommand('crear tanda de 100 STRK', tokens)).toMatchObject({ kind: 'invalid' });
+    expect(parseTandaCommand('crear tanda de 500 pesos cada semana', tokens)).toMatchObject({ kind: 'invalid' });
+  });
+
+  it('recognizes the other commands', () => {
+    expect(parseTandaCommand('invita a @Ana_M y @luis a la tanda', tokens)).toEqual({ kind: 'invite', usernames: ['@ana_m', '@luis'] });
+    expect(parseTandaCommand('me uno a la tanda', tokens)).toEqual({ kind: 'join' });
+    expect(parseTandaCommand('me salgo de la tanda', tokens)).toEqual({ kind: 'leave' });
+    expect(parseTandaCommand('iniciar tanda', tokens)).toEqual({ kind: 'start' });
+    expect(parseTandaCommand('pagar mi tanda', tokens)).toEqual({ kind: 'pay' });
+    expect(parseTandaCommand('cancelar la tanda', tokens)).toEqual({ kind: 'cancel' });
+    expect(parseTandaCommand('¿cómo va la tanda?', tokens)).toEqual({ kind: 'status' });
+  });
+});
+
+describe('TandaStore', () => {
+  it('builds one round per member in join order on the chosen schedule', () => {
+    const store = new TandaStore();
+    const tanda = createTanda(store);
+    expect(tanda.rounds.map((r) => [r.number, r.recipientId, r.startsAtMs - NOW, r.dueAtMs - NOW])).toEqual([
+      [1, 'ana', 0, 7 * DAY],
+      [2, 'luis', 7 * DAY, 14 * DAY],
+      [3, 'pedro', 14 * DAY, 21 * DAY],
+    ]);
+    // Mensual: mismo día del mes siguiente, no 30 días
+    expect(new Date(addCadence(Date.UTC(2026, 0, 15), 'monthly', 2)).toISOString()).toBe('2026-03-15T00:00:00.000Z');
+    // Ya empezada, nadie más entra ni sale
+    expect(store.join(tanda.id, { entityId: 'late', name: '@late', address: STRANGER })).toBe('closed');
+    expect(store.leave(tanda.id, 'luis')).toBe(false);
+  });
+
+  it('needs two members to start and keeps the organizer in', () => {
+    const store = new TandaStore();
+    const tanda = createTanda(store, { start: false });
+    expect(store.leave(tanda.id, 'ana')).toBe(false);
+    expect(store.leave(tanda.id, 'luis')).toBe(true);
+    expect(store.leave(tanda.id, 'pedro')).toBe(true);
+    expect(store.start(tanda.id, NOW)).toEqual({ status: 'too_few' });
+  });
+
+  it('adds up partial payments and ignores an event counted before', () => {
+    const store = new TandaStore();
+    const tanda = createTanda(store);
+    const pay = (eventKey: string, amount: bigint) => store.recordPayment(tanda.id, { entityId: 'luis', eventKey, txHash: eventKey, amount }, NOW);
+
+    expect(pay('e1', 40n * STRK_UNIT)).toMatchObject({ completed: false, roundComplete: false });
+    expect(pay('e1', 40n * STRK_UNIT)).toBeUndefined();
+    expect(pay('e2', 60n * STRK_UNIT)).toMatchObject({ completed: true, roundComplete: false });
+    // Quien cobra no paga
+    expect(store.recordPayment(tanda.id, { entityId: 'ana', eventKey: 'e3', txHash: 'e3', amount: 1n })).toBeUndefined();
+    expect(describeTanda(tanda)).toContain('Ya pagaron: @luis.\nFaltan: @pedro.');
+  });
+
+  it('closes due rounds and finishes after the last one', () => {
+    const store = new TandaStore();
+    const tanda = createTanda(store);
+    expect(store.advance(NOW + DAY)).toEqual([]);
+    const changes = store.advance(NOW + 15 * DAY);
+    expect(changes.map((c) => [c.closed.number, c.next?.number])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+    expect(currentRound(tanda)?.recipientId).toBe('pedro');
+    expect(store.advance(NOW + 21 * DAY).map((c) => c.next)).toEqual([undefined]);
+    expect(tanda.status).toBe('finished');
+    expect(store.forRoom('room-group')).toBeUndefined();
+  });
+
+  it('persists tandas across restarts', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new TandaStore();
+    await before.attach(backend);
+    const tanda = createTanda(before);
+    before.recordPayment(tanda.id, { entityId: 'luis', eventKey: 'e1', txHash: '0x1', amount: 100n * STRK_UNIT }, NOW);
+    await before.flush();
+
+    const after = new TandaStore();
+    expect(await after.attach(backend)).toEqual({ loaded: 1 });
+    const restored = after.forRoom('room-group')!;
+    expect(restored.members.map((m) => m.name)).toEqual(['@ana', '@luis', '@pedro']);
+    expect(currentRound(restored)?.payments.luis).toMatchObject({ amount: (100n * STRK_UNIT).toString(), eventKeys: ['e1'] });
+  });
+});
+
+/** El bloque 1000 es NOW y sale uno por minuto; `jumps` fija la hora de bloques sueltos. */
+function blockTimestamp(jumps = new Map<number, number>()) {
+  return (block: number) => (jumps.get(block) ?? NOW + (block - 1000) * 60_000) / 1000;
+}
+
+describe('TandaTracker', () => {
+  function setup(events: RawTransfer[], backend = createMemoryCacheBackend(), pollIntervalMs = 60_000) {
+    const store = new TandaStore();
+    const tanda = createTanda(store);
+    const jumps = new Map<number, number>();
+    const { provider, chain } = fakeChain(events, { blockTimestamp: blockTimestamp(jumps) });
+    const clock = createFakeClock(NOW);
+    const announcements: string[] = [];
+    const tracker = new TandaTracker(provider, async (_tanda, text) => void announcements.push(text), {
+      clock,
+      pollIntervalMs,
+      store,
+    });
+    return { store, tanda, tracker, chain, jumps, clock, announcements, backend };
+  }
+
+  it('recognizes payments to the current recipient and announces them in the group', async () => {
+    const events: RawTransfer[] = [];
+    const { tracker, chain, announcements, tanda } = setup(events);
+    await tracker.poll();
+    expect(tracker.cursor).toBe(1000);
+
+    events.push(
+      { token: STRK.address, block: 1001, tx: '0xl1', from: LUIS, to: ANA, amount: 100n * STRK_UNIT },
+      // A otra dirección o de alguien de fuera: no cuenta
+      { token: STRK.address, block: 1002, tx: '0xp0', from: PEDRO, to: LUIS, amount: 100n * STRK_UNIT },
+      { token: STRK.address, block: 1002, tx: '0xs1', from: STRANGER, to: ANA, amount: 100n * STRK_UNIT },
+      { token: STRK.address, block: 1003, tx: '0xp1', from: PEDRO, to: ANA, amount: 30n * STRK_UNIT }
+    );
+    chain.latest = 1005;
+    expect(await tracker.poll()).toBe(2);
+    expect(announcements).toEqual([
+      '✅ @luis pagó su parte de la ronda 1 (1 de 2).',
+      '@pedro mandó un pago a @ana; le faltan 70 STRK para completar su parte.',
+    ]);
+
+    events.push({ token: STRK.address, block: 1006, tx: '0xp2', from: PEDRO, to: ANA, amount: 70n * STRK_UNIT });
+    chain.latest = 1006;
+    await tracker.poll();
+    expect(announcements.at(-1)).toBe('✅ @pedro pagó su parte de la ronda 1 (2 de 2).\n🎉 Ya pagaron todos: @ana recibió 200 STRK.');
+    expect(currentRound(tanda)?.payments.pedro?.txHashes).toEqual(['0xp1', '0xp2']);
+  });
+
+  it('closes the round on its date and announces who is next', async () => {
+    const events: RawTransfer[] = [];
+    const { tracker, clock, announcements, chain, jumps } = setup(events, createMemoryCacheBackend(), DAY);
+    tracker.start();
+    await clock.advance(0);
+    events.push({ token: STRK.address, block: 1001, tx: '0xl1', from: LUIS, to: ANA, amount: 100n * STRK_UNIT });
+    jumps.set(1002, NOW + 7 * DAY);
+    chain.latest = 1002;
+
+    await clock.advance(7 * DAY);
+    tracker.stop();
+    await tracker.idle();
+    expect(announcements[0]).toBe('✅ @luis pagó su parte de la ronda 1 (1 de 2).');
+    expect(announcements[1]).toBe(
+      [
+        '⏰ Cerró la ronda 1. No completaron su parte: @pedro.',
+        '🔄 Ronda 2 de 3 de la tanda "Los primos": le toca cobrar a @luis.',
+        `Cada quien aporta 100 STRK a ${LUIS} antes del 2 de noviembre de 2026.`,
+        'Escribe "pagar tanda" y te preparo el envío.',
+      ].join('\n')
+    );
+    expect(announcements).toHaveLength(2);
+  });
+
+  it('follows the block time, not the agent clock, to close a round', async () => {
+    const events: RawTransfer[] = [];
+    const { tracker, clock, announcements, chain, jumps, tanda } = setup(events);
+    await tracker.poll();
+
+    // El reloj ya pasó el cierre pero la red no: la ronda sigue abierta
+    await clock.advance(8 * DAY);
+    chain.latest = 1001;
+    await tracker.poll();
+    expect(currentRound(tanda)?.number).toBe(1);
+
+    // Pedro pagó a Ana antes del cierre y a Luis después: cada pago va a su ronda
+    events.push(
+      { token: STRK.address, block: 1002, tx: '0xp1', from: PEDRO, to: ANA, amount: 100n * STRK_UNIT },
+      { token: STRK.address, block: 1003, tx: '0xp2', from: PEDRO, to: LUIS, amount: 100n * STRK_UNIT }
+    );
+    jumps.set(1003, NOW + 7 * DAY + 60_000);
+    chain.latest = 1003;
+    await tracker.poll();
+    expect(announcements[0]).toBe('✅ @pedro pagó su parte de la ronda 1 (1 de 2).');
+    expect(announcements[1]).toStartWith('⏰ Cerró la ronda 1. No completaron su parte: @luis.');
+    expect(announcements[2]).toBe('✅ @pedro pagó su parte de la ronda 2 (1 de 2).');
+    expect(tanda.rounds[0].payments.pedro?.txHashes).toEqual(['0xp1']);
+    expect(currentRound(tanda)?.payments.pedro?.txHashes).toEqual(['0xp2']);
+  });
+
+  it('does not count a payment twice after a restart', async () => {
+    const backend = createMemoryCacheBackend();
+    const events: RawTransfer[] = [];
+    const first = setup(events, backend);
+    await first.store.attach(backend);
+    await first.tracker.attach(backend);
+    await first.tracker.poll();
+    events.push({ token: STRK.address, block: 1001, tx: '0xp1', from: PEDRO, to: ANA, amount: 30n * STRK_UNIT });
+    first.chain.latest = 1001;
+    await first.tracker.poll();
+    await first.store.flush();
+
+    // El cursor guardado quedó atrás (p. ej. se cayó antes de guardarlo): el evento vuelve a llegar
+    await backend.setCache('tanda-tracker:state', { cursor: 1000 });
+    const store = new TandaStore();
+    await store.attach(backend);
+    const { provider } = fakeChain(events, { latest: 1001, blockTimestamp: blockTimestamp() });
+    const announcements: string[] = [];
+    const tracker = new TandaTracker(provider, async (_tanda, text) => void announcements.push(text), { clock: createFakeClock(NOW), store });
+    await tracker.attach(backend);
+    expect(await tracker.poll()).toBe(0);
+    expect(currentRound(store.forRoom('room-group')!)?.payments.pedro?.amount).toBe((30n * STRK_UNIT).toString());
+  });
+});
+
+describe('tandas in the group chat', () => {
+  const group = 'room-tanda-chat';
+  const say = (id: string, entityId: string, userName: string, text: string) =>
+    ({
+      id,
+      entityId,
+      roomId: group,
+      content: { text, source: 'telegram', channelType: 'GROUP' },
+      metadata: { entityUserName: userName },
+    }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+
+  it('creates, fills, starts and collects a tanda', async () => {
+    telegramStarknetStore.ensureAccountForEntityId('chat-ana');
+    telegramStarknetStore.ensureAccountForEntityId('chat-luis');
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const tanda = action('MANAGE_TANDA');
+
+    await tanda.handler(runtime, say('msg-tanda-1', 'chat-ana', 'ana', 'crear tanda de 100 STRK cada semana'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('🤝 ¡Tanda creada! Cada quien aporta 100 STRK cada semana.\nTanda "STRK semanal"');
+
+    await tanda.handler(runtime, say('msg-tanda-2', 'chat-luis', 'luis', 'iniciar tanda'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Solo quien organiza la tanda puede iniciarla.');
+
+    await tanda.handler(runtime, say('msg-tanda-3', 'chat-luis', 'luis', 'me uno a la tanda'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('@luis entró a la tanda "STRK semanal" (2 participantes).');
+
+    await tanda.handler(runtime, say('msg-tanda-4', 'chat-ana', 'ana', 'arranca la tanda'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('🚀 ¡Arrancó la tanda! Orden de cobro: 1. @ana, 2. @luis.\n🔄 Ronda 1 de 2');
+
+    // Cobra Ana: Luis paga con un envío normal que espera su "sí"
+    await tanda.handler(runtime, say('msg-tanda-5', 'chat-ana', 'ana', 'pagar tanda'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('Esta ronda te toca cobrar a ti; no tienes que pagar. 🎉');
+    await tanda.handler(runtime, say('msg-tanda-6', 'chat-luis', 'luis', 'pagar tanda'), undefined, {}, callback, []);
+    const anaAddress = telegramStarknetStore.getAccountByEntityId('chat-ana')!.accountAddressHex!;
+    expect(replies.at(-1)).toStartWith(
+      `Vas a enviar:\n• Monto: 100 STRK\n• Destino: ${normalizeTokenAddress(anaAddress)}\n• Concepto: ronda 1 de la tanda "STRK semanal" (cobra @ana)`
+    );
+
+    await tanda.handler(runtime, say('msg-tanda-7', 'chat-luis', 'luis', 'estado de la tanda'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toContain('Ronda 1 de 2: cobra @ana');
+    expect(tandaStore.forRoom(group)?.status).toBe('active');
+  });
+
+  it('asks for a group in a private chat', async () => {
+    const replies: string[] = [];
+    const message = {
+      id: 'msg-tanda-dm',
+      entityId: 'chat-dm',
+      roomId: 'room-dm',
+      content: { text: 'crear tanda de 100 STRK cada semana', source: 'telegram', channelType: 'DM' },
+    } as unknown as Memory;
+    const result = await action('MANAGE_TANDA').handler({ actions: [] } as unknown as IAgentRuntime, message, undefined, {}, async (c: Content) => {
+      replies.push(c.text ?? '');
+      return [];
+    }, []);
+    expect(result).toMatchObject({ success: false, text: 'tanda needs a group' });
+    expect(replies[0]).toStartWith('Las tandas se arman en un grupo');
+  });
+});
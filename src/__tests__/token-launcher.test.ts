@@ -0,0 +1,206 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { hash, shortString, type Call } from 'starknet';
+import plugin from '../plugin';
+import {
+  TokenLaunchStore,
+  findLaunchedTokenAddress,
+  parseTokenLaunchRequest,
+  settleTokenLaunch,
+  tokenLaunchCall,
+  tokenLaunches,
+} from '../services/token-launcher';
+import { setTransferAccountFactory, telegramStarknetStore, type TransferAccount } from '../services/telegram-starknet';
+import { TokenRegistry, builtinTokens, normalizeTokenAddress, tokenRegistry } from '../services/token-registry';
+import { createMemoryCacheBackend } from '../services/storage';
+
+const tokens = builtinTokens();
+const OWN = normalizeTokenAddress('0x5e1f');
+const FACTORY = normalizeTokenAddress('0xfac');
+const TOKEN = normalizeTokenAddress('0x70c');
+const TRANSFER = hash.getSelectorFromName('Transfer');
+const MILLION = 10n ** 6n * 10n ** 18n;
+
+/** Recibo con la comisión pagada en STRK y la acuñación del token nuevo (evento Cairo 1). */
+function launchReceipt(token = TOKEN) {
+  return {
+    events: [
+      { from_address: FACTORY, keys: [hash.getSelectorFromName('MemecoinCreated')], data: [OWN, token] },
+      { from_address: token, keys: [TRANSFER, '0x0', OWN], data: ['0xd3c21bcecceda1000000', '0x0'] },
+      { from_address: tokens[1].address, keys: [TRANSFER, OWN, '0x1'], data: ['0x10', '0x0'] },
+    ],
+  };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setTransferAccountFactory(null);
+  mock.restore();
+});
+
+describe('parseTokenLaunchRequest', () => {
+  it('reads name, symbol, supply and recipient from one message', () => {
+    const parsed = parseTokenLaunchRequest('Crea un meme token llamado "Pepe Coin" con símbolo pepe y 1 millón de tokens para mí', {}, { ownAddress: OWN, tokens });
+    expect(parsed).toMatchObject({ status: 'complete', spec: { name: 'Pepe Coin', symbol: 'PEPE', supply: MILLION, recipient: OWN, toSelf: true } });
+    expect(parseTokenLaunchRequest('lanza el token Taco llamado Taco Loco, $TACO, suministro 21,000,000 a 0xabc', {}, { tokens })).toMatchObject({
+      status: 'complete',
+      spec: { name: 'Taco Loco', symbol: 'TACO', supply: 21n * 10n ** 24n, recipient: normalizeTokenAddress('0xabc'), toSelf: false },
+    });
+  });
+
+  it('asks for each missing detail and takes the bare answer', () => {
+    const options = { ownAddress: OWN, tokens };
+    let parsed = parseTokenLaunchRequest('quiero lanzar un meme token', {}, options);
+    expect(parsed.status === 'incomplete' && parsed.question).toBe('¿Cómo se va a llamar tu token? (por ejemplo: "Pepe Coin") (Escribe "cancelar" para no lanzar nada.)');
+    const answers = ['Piggy Bank', '$ETH', 'PIGGY', 'un millon', 'a mí'];
+    const questions: string[] = [];
+    for (const answer of answers) {
+      if (parsed.status !== 'incomplete') break;
+      parsed = parseTokenLaunchRequest(answer, parsed.draft, options);
+      if (parsed.status === 'incomplete') questions.push(parsed.question);
+    }
+    expect(questions).toEqual([
+      '¿Qué símbolo le pongo? De 2 a 11 letras o números, como PEPE. (Escribe "cancelar" para no lanzar nada.)',
+      'Ya conozco un token ETH; elige otro símbolo para no confundirlos. ¿Qué símbolo le pongo? De 2 a 11 letras o números, como PEPE. (Escribe "cancelar" para no lanzar nada.)',
+      '¿Cuántos tokens quieres crear en total? (por ejemplo: 1 millón) (Escribe "cancelar" para no lanzar nada.)',
+      '¿Quién recibe los tokens recién creados? Responde "a mí" para tu alcancía o compárteme una dirección 0x…. (Escribe "cancelar" para no lanzar nada.)',
+    ]);
+    expect(parsed).toMatchObject({ status: 'complete', spec: { name: 'Piggy Bank', symbol: 'PIGGY', supply: MILLION, recipient: OWN } });
+    expect(parseTokenLaunchRequest('cancelar', {}, options)).toEqual({ status: 'cancelled' });
+  });
+
+  it('rejects names that do not fit in a felt', () => {
+    const parsed = parseTokenLaunchRequest('crea un token llamado "Peso Mexicano Ñ"', {}, { tokens });
+    expect(parsed.status === 'incomplete' && parsed.problems).toEqual([
+      'El nombre del token puede tener hasta 31 letras, números o signos sin acentos (por ejemplo: "Pepe Coin").',
+    ]);
+    expect(parsed.status === 'incomplete' && parsed.missing[0]).toBe('name');
+  });
+});
+
+describe('factory call and receipt', () => {
+  const spec = { name: 'Pepe Coin', symbol: 'PEPE', supply: 2n ** 128n + 1n, recipient: OWN, toSelf: true };
+
+  it('encodes owner, short strings, u256 supply and salt', () => {
+    expect(tokenLaunchCall(spec, { address: FACTORY, entrypoint: 'create_memecoin' }, '0x5a17')).toEqual({
+      contractAddress: FACTORY,
+      entrypoint: 'create_memecoin',
+      calldata: [
+        BigInt(OWN).toString(),
+        BigInt(shortString.encodeShortString('Pepe Coin')).toString(),
+        BigInt(shortString.encodeShortString('PEPE')).toString(),
+        '1',
+        '1',
+        BigInt('0x5a17').toString(),
+      ],
+    });
+  });
+
+  it('takes the token address from the mint event, not from the factory or the account', () => {
+    expect(findLaunchedTokenAddress(launchReceipt().events, FACTORY)).toBe(TOKEN);
+    // Cairo 0: from/to en los datos
+    expect(findLaunchedTokenAddress([{ from_address: '0x70d', keys: [TRANSFER], data: ['0x0', OWN, '0x1', '0x0'] }], FACTORY)).toBe(
+      normalizeTokenAddress('0x70d')
+    );
+    expect(findLaunchedTokenAddress([launchReceipt().events[2]], FACTORY)).toBeUndefined();
+  });
+
+  it('registers the confirmed token for its owner and keeps the record across restarts', async () => {
+    const backend = createMemoryCacheBackend();
+    const launches = new TokenLaunchStore();
+    await launches.attach(backend);
+    const registry = new TokenRegistry();
+    launches.record('maria', { txHash: '0xaa', name: 'Pepe Coin', symbol: 'PEPE', supply: MILLION.toString(), recipient: OWN, factory: FACTORY });
+    launches.record('maria', { txHash: '0xbb', name: 'Otro', symbol: 'OTRO', supply: MILLION.toString(), recipient: OWN, factory: FACTORY });
+    const provider = { getTransactionReceipt: async () => launchReceipt() } as unknown as Parameters<typeof settleTokenLaunch>[2];
+
+    expect(await settleTokenLaunch('0xaa', 'confirmed', provider, { launches, registry })).toMatchObject({ status: 'deployed', tokenAddress: TOKEN });
+    expect(await settleTokenLaunch('0xbb', 'failed', provider, { launches, registry })).toMatchObject({ status: 'failed' });
+    launches.record('maria', { txHash: '0xcc', name: 'Sin Evento', symbol: 'NADA', supply: MILLION.toString(), recipient: OWN, factory: FACTORY });
+    const noMint = { getTransactionReceipt: async () => ({ events: [] }) } as unknown as Parameters<typeof settleTokenLaunch>[2];
+    expect(await settleTokenLaunch('0xcc', 'confirmed', noMint, { launches, registry })).toMatchObject({ status: 'failed' });
+    expect(registry.findBySymbol('PEPE', 'maria')).toMatchObject({ address: TOKEN, decimals: 18, source: 'user' });
+    expect(registry.findBySymbol('OTRO', 'maria')).toBeUndefined();
+    await launches.flush();
+
+    const reopened = new TokenLaunchStore();
+    expect(await reopened.attach(backend)).toEqual({ loaded: 3 });
+    expect(reopened.list('maria').map((launch) => [launch.symbol, launch.status])).toEqual(
+      expect.arrayContaining([
+        ['PEPE', 'deployed'],
+        ['OTRO', 'failed'],
+        ['NADA', 'failed'],
+      ])
+    );
+  });
+});
+
+describe('token launch in the chat flow', () => {
+  const entityId = 'launcher-maria';
+  const say = (id: string, text: string) =>
+    ({ id, entityId, roomId: 'room-launcher', content: { text, source: 'telegram' } }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+  // Sin @elizaos/plugin-starknet: el lanzamiento no depende de otra acción
+  const runtime = { actions: [] } as unknown as IAgentRuntime;
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('collects the details, deploys through the factory and never touches the account address', async () => {
+    process.env.MEME_TOKEN_FACTORY_ADDRESS = FACTORY;
+    const accountAddress = telegramStarknetStore.ensureAccountForEntityId(entityId).accountAddressHex!;
+    const executions: Call[][] = [];
+    setTransferAccountFactory(() => ({
+      execute: (async (calls: Call[]) => {
+        executions.push(calls);
+        return { transaction_hash: '0x1a5c' };
+      }) as TransferAccount['execute'],
+    }));
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const launch = action('DEPLOY_MEME_TOKEN_INVISIBLE');
+
+    await launch.handler(runtime, say('msg-launch-1', 'crea un token llamado Pepe Coin con símbolo PEPE'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith('¿Cuántos tokens quieres crear en total?');
+    await launch.handler(runtime, say('msg-launch-2', '1 millón'), undefined, {}, callback, []);
+    await launch.handler(runtime, say('msg-launch-3', 'a mí'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith(
+      `Vas a lanzar un token:\n• Nombre: Pepe Coin\n• Símbolo: PEPE\n• Suministro: 1000000 PEPE\n• Los recibe: tu alcancía (${normalizeTokenAddress(accountAddress)})`
+    );
+    expect(executions).toHaveLength(0);
+
+    await action('CONFIRM_PENDING_OPERATION').handler(runtime, say('msg-launch-4', 'sí'), undefined, {}, callback, []);
+    expect(executions).toHaveLength(1);
+    expect(executions[0][0]).toMatchObject({ contractAddress: FACTORY, entrypoint: 'create_memecoin' });
+    expect(replies.at(-1)).toBe('Se inició el lanzamiento de Pepe Coin (PEPE). Te aviso con la dirección del token cuando se confirme.');
+    expect(tokenLaunches.list(entityId)[0]).toMatchObject({ txHash: '0x1a5c', symbol: 'PEPE', status: 'pending', factory: FACTORY });
+    expect(telegramStarknetStore.getAccountByEntityId(entityId)!.accountAddressHex).toBe(accountAddress);
+
+    const provider = { getTransactionReceipt: async () => launchReceipt() } as unknown as Parameters<typeof settleTokenLaunch>[2];
+    await settleTokenLaunch('0x1a5c', 'confirmed', provider);
+    expect(tokenRegistry.findBySymbol('PEPE', entityId)?.address).toBe(TOKEN);
+    expect(telegramStarknetStore.getAccountByEntityId(entityId)!.accountAddressHex).toBe(accountAddress);
+  });
+
+  it('says so when no factory is configured', async () => {
+    delete process.env.MEME_TOKEN_FACTORY_ADDRESS;
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    const replies: string[] = [];
+    await action('DEPLOY_MEME_TOKEN_INVISIBLE').handler(runtime, say('msg-launch-5', 'crea un meme token'), undefined, {}, async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    }, []);
+    expect(replies).toEqual(['Por ahora no puedo lanzar tokens: falta configurar la fábrica de tokens del agente.']);
+  });
+});
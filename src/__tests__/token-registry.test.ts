@@ -0,0 +1,172 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import type { RpcProvider } from 'starknet';
+import plugin from '../plugin';
+import {
+  TokenRegistry,
+  builtinTokens,
+  formatUnits,
+  parseUnits,
+  readTokenBalance,
+} from '../services/token-registry';
+import { createMemoryCacheBackend } from '../services/storage';
+import { getTokenBalances, telegramStarknetStore } from '../services/telegram-starknet';
+
+const MEME = '0x0000000000000000000000000000000000000000000000000000000000000777';
+const HOLDER = '0x0abc';
+
+/** Provider falso: responde balanceOf/decimals por contrato y cuenta las llamadas. */
+function fakeProvider(answers: Record<string, Record<string, string[] | Error>>) {
+  const calls: Array<{ contractAddress: string; entrypoint: string }> = [];
+  const provider = {
+    callContract: async ({ contractAddress, entrypoint }: { contractAddress: string; entrypoint: string }) => {
+      calls.push({ contractAddress, entrypoint });
+      const answer = answers[contractAddress]?.[entrypoint];
+      if (!answer) throw new Error(`unexpected call ${entrypoint} on ${contractAddress}`);
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  } as unknown as RpcProvider;
+  return { provider, calls };
+}
+
+describe('amount units', () => {
+  it('round-trips between decimals and base units', () => {
+    expect(parseUnits('1.5', 18)).toBe(1_500_000_000_000_000_000n);
+    expect(formatUnits(1_500_000_000_000_000_000n, 18)).toBe('1.5');
+    expect(formatUnits(2_000_000n, 6)).toBe('2');
+    expect(formatUnits(1n, 6)).toBe('0.000001');
+    expect(() => parseUnits('0.1234567', 6)).toThrow();
+  });
+});
+
+describe('TokenRegistry', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    process.env = { ...savedEnv };
+  });
+
+  it('ships ETH, STRK, USDC and USDT with env overrides', () => {
+    expect(builtinTokens().map((t) => [t.symbol, t.decimals])).toEqual([
+      ['ETH', 18],
+      ['STRK', 18],
+      ['USDC', 6],
+      ['USDT', 6],
+    ]);
+    process.env.STARKNET_ETH_TOKEN_ADDRESS = '0x49d';
+    expect(builtinTokens()[0].address).toBe('0x' + '49d'.padStart(64, '0'));
+  });
+
+  it('keeps meme tokens per user and persists them', async () => {
+    const backend = createMemoryCacheBackend();
+    const registry = new TokenRegistry();
+    registry.registerUserToken('maria', { symbol: 'piggy', name: 'Piggy Coin', address: '0x777' });
+    await registry.attach(backend);
+
+    expect(registry.findBySymbol('PIGGY', 'maria')?.address).toBe(MEME);
+    expect(registry.findBySymbol('PIGGY', 'juan')).toBeUndefined();
+    expect(registry.list('juan')).toHaveLength(4);
+
+    const reopened = new TokenRegistry();
+    expect((await reopened.attach(backend)).loaded).toBe(1);
+    expect(reopened.findByAddress('0x777', 'maria')).toMatchObject({ symbol: 'PIGGY', source: 'user' });
+  });
+
+  it('reads unknown decimals from the contract once and remembers them', async () => {
+    const backend = createMemoryCacheBackend();
+    const registry = new TokenRegistry();
+    await registry.attach(backend);
+    const token = registry.registerUserToken('maria', { symbol: 'PIGGY', name: 'Piggy', address: MEME });
+    const { provider, calls } = fakeProvider({ [MEME]: { decimals: ['0x8'] } });
+
+    expect(await registry.resolveDecimals(token, provider, 'maria')).toBe(8);
+    expect(await registry.resolveDecimals(registry.findBySymbol('PIGGY', 'maria')!, provider, 'maria')).toBe(8);
+    expect(calls).toHaveLength(1);
+
+    await registry.flush();
+    const reopened = new TokenRegistry();
+    await reopened.attach(backend);
+    expect(reopened.findBySymbol('PIGGY', 'maria')?.decimals).toBe(8);
+  });
+});
+
+describe('token balances', () => {
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('decodes u256 balances (low, high)', async () => {
+    const usdc = builtinTokens()[2];
+    const { provider } = fakeProvider({ [usdc.address]: { balanceOf: ['0x5', '0x1'] } });
+    expect(await readTokenBalance(provider, usdc, HOLDER)).toBe(5n + (1n << 128n));
+  });
+
+  it('reports each token separately and tolerates failures', async () => {
+    const [eth, strk] = builtinTokens();
+    const registry = new TokenRegistry();
+    const meme = registry.registerUserToken('maria', { symbol: 'PIGGY', name: 'Piggy', address: MEME });
+    const { provider } = fakeProvider({
+      [eth.address]: { balanceOf: ['1000000000000000000', '0'] },
+      [strk.address]: { balanceOf: new Error('contract not found') },
+      [MEME]: { balanceOf: ['250', '0'], decimals: ['2'] },
+    });
+
+    const balances = await getTokenBalances(HOLDER, [eth, strk, meme], { entityId: 'maria', provider, registry });
+    expect(balances.map((b) => [b.token.symbol, b.balance, b.decimals])).toEqual([
+      ['ETH', 10n ** 18n, 18],
+      ['STRK', undefined, 18],
+      ['PIGGY', 250n, 2],
+    ]);
+  });
+});
+
+describe('SHOW_INVISIBLE_ACCOUNT_BALANCE', () => {
+  const action = plugin.actions!.find((a) => a.name === 'SHOW_INVISIBLE_ACCOUNT_BALANCE')!;
+  let count = 0;
+
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+    delete process.env.STARKNET_RPC_URL;
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const ask = async (text: string) => {
+    const entityId = 'balance-user';
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    const replies: string[] = [];
+    const message = { id: `msg-balance-${++count}`, entityId, roomId: 'room-balance', content: { text, source: 'telegram' } };
+    await action.handler({} as IAgentRuntime, message as unknown as Memory, undefined, {}, async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    });
+    return replies[0];
+  };
+
+  it('lists every token for "saldo"', async () => {
+    const text = await ask('saldo');
+    for (const symbol of ['ETH', 'STRK', 'USDC', 'USDT']) expect(text).toContain(`• ${symbol}`);
+  });
+
+  it('answers a single token for "saldo USDC"', async () => {
+    const text = await ask('saldo USDC');
+    expect(text).toStartWith('Saldo de USDC');
+    expect(text).not.toContain('ETH');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { cairo, CallData, type Call } from 'starknet';
+import plugin from '../plugin';
+import {
+  executeTokenTransfers,
+  getAccountSigner,
+  setTransferAccountFactory,
+  telegramStarknetStore,
+  tokenTransferCall,
+  uint256Calldata,
+  type TransferAccount,
+} from '../services/telegram-starknet';
+import { builtinTokens } from '../services/token-registry';
+
+const tokens = builtinTokens();
+const STRK = tokens.find((t) => t.symbol === 'STRK')!;
+const ETH = tokens.find((t) => t.symbol === 'ETH')!;
+const U128_MAX = 2n ** 128n - 1n;
+
+/** Cuenta simulada: guarda cada `execute` y responde un hash, o falla con `error`. */
+function fakeAccount({ error }: { error?: string } = {}) {
+  const executions: Call[][] = [];
+  const account = {
+    execute: (async (calls: Call | Call[]) => {
+      executions.push(Array.isArray(calls) ? calls : [calls]);
+      if (error) throw new Error(error);
+      return { transaction_hash: `0x${executions.length}` };
+    }) as TransferAccount['execute'],
+  };
+  return { account, executions };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setTransferAccountFactory(null);
+  mock.restore();
+});
+
+describe('uint256Calldata', () => {
+  it('splits the amount into the low and high 128 bits', () => {
+    expect(uint256Calldata(0n)).toEqual(['0', '0']);
+    expect(uint256Calldata(U128_MAX)).toEqual([U128_MAX.toString(), '0']);
+    expect(uint256Calldata(2n ** 128n)).toEqual(['0', '1']);
+    expect(uint256Calldata(2n ** 256n - 1n)).toEqual([U128_MAX.toString(), U128_MAX.toString()]);
+    const amount = 3n * 2n ** 128n + 5n * 10n ** 18n;
+    expect(uint256Calldata(amount)).toEqual(CallData.compile({ amount: cairo.uint256(amount) }) as [string, string]);
+  });
+
+  it('rejects amounts that do not fit in a u256', () => {
+    expect(() => uint256Calldata(-1n)).toThrow('Amount does not fit in a u256');
+    expect(() => uint256Calldata(2n ** 256n)).toThrow('Amount does not fit in a u256');
+  });
+});
+
+describe('executeTokenTransfers', () => {
+  const entityId = 'transfers-sender';
+  const from = telegramStarknetStore.ensureAccountForEntityId(entityId).accountAddressHex!;
+
+  it('builds an ERC-20 transfer call on the token contract', () => {
+    expect(tokenTransferCall({ token: STRK, recipient: '0xabc', amount: 10n ** 18n })).toEqual({
+      contractAddress: STRK.address,
+      entrypoint: 'transfer',
+      calldata: [BigInt('0xabc').toString(), (10n ** 18n).toString(), '0'],
+    });
+  });
+
+  it('sends several transfers in a single multicall', async () => {
+    const { account, executions } = fakeAccount();
+    const result = await executeTokenTransfers(
+      getAccountSigner(entityId),
+      from,
+      [
+        { token: STRK, recipient: '0xabc', amount: 2n * 10n ** 18n },
+        { token: ETH, recipient: '0xdef', amount: 2n ** 130n },
+      ],
+      { account }
+    );
+    expect(result).toEqual({ txHash: '0x1' });
+    expect(executions).toHaveLength(1);
+    expect(executions[0].map((call) => [call.contractAddress, call.calldata])).toEqual([
+      [STRK.address, [BigInt('0xabc').toString(), (2n * 10n ** 18n).toString(), '0']],
+      [ETH.address, [BigInt('0xdef').toString(), '0', '4']],
+    ]);
+  });
+
+  it('reports what kept the transfer from being submitted', async () => {
+    const signer = getAccountSigner(entityId);
+    const { account, executions } = fakeAccount({ error: 'u256_sub Overflow' });
+    expect((await executeTokenTransfers(signer, from, [], { account })).error?.message).toBe('No transfers to execute');
+    expect((await executeTokenTransfers(signer, from, [{ token: STRK, recipient: '0xabc', amount: 0n }], { account })).error?.message).toBe(
+      'Transfer amount must be positive'
+    );
+    expect(executions).toHaveLength(0);
+
+    expect((await executeTokenTransfers(signer, from, [{ token: STRK, recipient: '0xabc', amount: 1n }], { account })).error?.message).toBe(
+      'u256_sub Overflow'
+    );
+    const saved = process.env.STARKNET_RPC_URL;
+    delete process.env.STARKNET_RPC_URL;
+    try {
+      expect((await executeTokenTransfers(signer, from, [{ token: STRK, recipient: '0xabc', amount: 1n }])).error?.message).toBe(
+        'Missing STARKNET_RPC_URL'
+      );
+    } finally {
+      if (saved !== undefined) process.env.STARKNET_RPC_URL = saved;
+    }
+  });
+});
+
+describe('transfers in the chat flow', () => {
+  const entityId = 'transfers-chat';
+  const say = (id: string, text: string) =>
+    ({ id, entityId, roomId: 'room-transfers', content: { text, source: 'telegram' } }) as unknown as Memory;
+  const action = (name: string) => plugin.actions!.find((a) => a.name === name)!;
+  // Sin @elizaos/plugin-starknet: el envío no depende de TRANSFER_TOKEN
+  const runtime = { actions: [] } as unknown as IAgentRuntime;
+
+  it('submits the confirmed transfer without the Starknet plugin', async () => {
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    const { account, executions } = fakeAccount();
+    setTransferAccountFactory(() => account);
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+
+    await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, say('msg-transfers-1', 'envía 1.5 STRK a 0xabc'), undefined, {}, callback, []);
+    await action('CONFIRM_PENDING_OPERATION').handler(runtime, say('msg-transfers-2', 'sí'), undefined, {}, callback, []);
+    expect(executions).toEqual([[tokenTransferCall({ token: STRK, recipient: '0xabc', amount: 15n * 10n ** 17n })]]);
+    expect(replies.at(-1)).toMatch(/^Se inició la transferencia de 1\.5 STRK a 0x0+abc\. Te aviso cuando se confirme\.$/);
+  });
+
+  it('explains a transfer the network refused', async () => {
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    setTransferAccountFactory(() => fakeAccount({ error: 'Execution failed: u256_sub Overflow' }).account);
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+
+    await action('TRANSFER_STARKNET_TOKENS_INVISIBLE').handler(runtime, say('msg-transfers-3', 'envía 1 STRK a 0xabc'), undefined, {}, callback, []);
+    const result = await action('CONFIRM_PENDING_OPERATION').handler(runtime, say('msg-transfers-4', 'sí'), undefined, {}, callback, []);
+    expect(replies.at(-1)).toBe('No te alcanza el saldo para este envío y su comisión.');
+    expect(result).toMatchObject({ success: false });
+  });
+});
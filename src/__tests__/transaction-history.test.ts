@@ -0,0 +1,187 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import type { RpcProvider } from 'starknet';
+import plugin from '../plugin';
+import {
+  TransactionHistoryStore,
+  describeHistoryEntry,
+  fetchTransferEvents,
+  indexTransfers,
+  paginateHistory,
+  requestedHistoryPage,
+  transactionHistoryStore,
+  type HistoryEntry,
+} from '../services/transaction-history';
+import { builtinTokens, normalizeTokenAddress } from '../services/token-registry';
+import { createMemoryCacheBackend } from '../services/storage';
+import { fakeChain, type RawTransfer } from './utils/fake-chain';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+
+const ME = normalizeTokenAddress('0xa11ce');
+const BOB = normalizeTokenAddress('0xb0b');
+const [ETH, , USDC] = builtinTokens();
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('fetchTransferEvents', () => {
+  it('returns incoming, outgoing and self transfers across pages', async () => {
+    const { provider } = fakeChain([
+      { token: ETH.address, block: 10, tx: '0xt1', from: BOB, to: ME, amount: 10n ** 18n },
+      { token: ETH.address, block: 11, tx: '0xt2', from: ME, to: BOB, amount: 5n },
+      { token: ETH.address, block: 11, tx: '0xt2', from: ME, to: BOB, amount: 6n },
+      { token: ETH.address, block: 12, tx: '0xt3', from: ME, to: ME, amount: 7n },
+      { token: ETH.address, block: 13, tx: '0xt4', from: BOB, to: BOB, amount: 8n },
+    ]);
+    const events = await fetchTransferEvents(provider, ETH, '0xa11ce', 0, 100);
+    expect(events.map((e) => [e.eventKey.split(':').slice(2).join(':'), e.direction, e.amount])).toEqual([
+      ['out:0', 'out', '5'],
+      ['out:1', 'out', '6'],
+      ['out:0', 'self', '7'],
+      ['in:0', 'in', '1000000000000000000'],
+    ]);
+  });
+});
+
+describe('indexTransfers', () => {
+  it('indexes once, then only new blocks, with timestamps', async () => {
+    const events: RawTransfer[] = [
+      { token: USDC.address, block: 900, tx: '0xa', from: BOB, to: ME, amount: 5_000_000n },
+      { token: ETH.address, block: 950, tx: '0xb', from: ME, to: BOB, amount: 10n ** 16n },
+    ];
+    const chain = fakeChain(events);
+    const store = new TransactionHistoryStore();
+
+    const first = await indexTransfers('maria', ME, { provider: chain.provider, tokens: [ETH, USDC], store });
+    expect(first).toHaveLength(2);
+    expect(store.lastIndexedBlock('maria')).toBe(1000);
+    expect(store.list('maria').map((e) => [e.tokenSymbol, e.direction, e.timestampMs])).toEqual([
+      ['ETH', 'out', (1_790_000_000 + 950) * 1000],
+      ['USDC', 'in', (1_790_000_000 + 900) * 1000],
+    ]);
+
+    events.push({ token: USDC.address, block: 1005, tx: '0xc', from: BOB, to: ME, amount: 1n });
+    const later = fakeChain(events, { latest: 1010 });
+    const second = await indexTransfers('maria', ME, { provider: later.provider, tokens: [ETH, USDC], store });
+    expect(second.map((e) => e.txHash)).toEqual(['0xc']);
+    expect(store.list('maria')).toHaveLength(3);
+  });
+
+  it('does not advance the cursor when a token fails', async () => {
+    const { provider } = fakeChain([]);
+    const failing = { ...provider, getEvents: async () => Promise.reject(new Error('rpc down')) } as unknown as RpcProvider;
+    const store = new TransactionHistoryStore();
+    await indexTransfers('maria', ME, { provider: failing, tokens: [ETH], store });
+    expect(store.lastIndexedBlock('maria')).toBeUndefined();
+  });
+
+  it('does not advance the cursor when the events do not fit in the page limit', async () => {
+    // fakeChain pagina de a 2: 41 eventos necesitan 21 páginas
+    const events = Array.from({ length: 41 }, (_, i): RawTransfer => ({ token: ETH.address, block: 900 + i, tx: `0x${i + 1}`, from: BOB, to: ME, amount: 1n }));
+    const { provider, calls } = fakeChain(events);
+    const store = new TransactionHistoryStore();
+    expect(await indexTransfers('maria', ME, { provider, tokens: [ETH], store })).toEqual([]);
+    // 1 página de salida (vacía) + las 20 de entrada permitidas
+    expect(calls.getEvents).toBe(21);
+    expect(store.lastIndexedBlock('maria')).toBeUndefined();
+  });
+
+  it('persists entries and the cursor', async () => {
+    const backend = createMemoryCacheBackend();
+    const store = new TransactionHistoryStore();
+    await store.attach(backend);
+    const { provider } = fakeChain([{ token: ETH.address, block: 990, tx: '0xd', from: BOB, to: ME, amount: 1n }]);
+    await indexTransfers('maria', ME, { provider, tokens: [ETH], store });
+    await store.flush();
+
+    const reopened = new TransactionHistoryStore();
+    expect((await reopened.attach(backend)).loaded).toBe(1);
+    expect(reopened.lastIndexedBlock('maria')).toBe(1000);
+    expect(reopened.append('maria', store.list('maria'))).toEqual([]);
+  });
+});
+
+describe('history presentation', () => {
+  const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+    eventKey: 'k',
+    txHash: '0x1',
+    blockNumber: 1,
+    tokenAddress: USDC.address,
+    tokenSymbol: 'USDC',
+    decimals: 6,
+    from: BOB,
+    to: ME,
+    amount: '5000000',
+    direction: 'in',
+    ...overrides,
+  });
+
+  it('summarizes each entry in Spanish', () => {
+    expect(describeHistoryEntry(entry({}))).toBe('Recibiste 5 USDC de 0xb0b');
+    expect(describeHistoryEntry(entry({ direction: 'out', from: ME, to: USDC.address, amount: '1500000' }))).toBe(
+      'Enviaste 1.5 USDC a 0x53c9…68a8'
+    );
+  });
+
+  it('pages entries and understands "más movimientos"', () => {
+    const entries = Array.from({ length: 23 }, (_, i) => entry({ eventKey: String(i) }));
+    expect(paginateHistory(entries, 3)).toMatchObject({ page: 3, totalPages: 3 });
+    expect(paginateHistory(entries, 3).entries).toHaveLength(3);
+    expect(paginateHistory(entries, 9).page).toBe(3);
+    expect(requestedHistoryPage('mas movimientos', 1)).toBe(2);
+    expect(requestedHistoryPage('movimientos pagina 3', 1)).toBe(3);
+    expect(requestedHistoryPage('mis movimientos', 2)).toBe(1);
+  });
+});
+
+describe('SHOW_TRANSACTION_HISTORY', () => {
+  it('shows stored movements page by page', async () => {
+    delete process.env.STARKNET_RPC_URL;
+    const entityId = 'history-user';
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    transactionHistoryStore.append(
+      entityId,
+      Array.from({ length: 12 }, (_, i) => ({
+        eventKey: `0x${i}:in:0`,
+        txHash: `0x${i}`,
+        blockNumber: 100 + i,
+        tokenAddress: USDC.address,
+        tokenSymbol: 'USDC',
+        decimals: 6,
+        from: BOB,
+        to: ME,
+        amount: String((i + 1) * 1_000_000),
+        direction: 'in' as const,
+      }))
+    );
+
+    const action = plugin.actions!.find((a) => a.name === 'SHOW_TRANSACTION_HISTORY')!;
+    let count = 0;
+    const ask = async (text: string) => {
+      const message = { id: `msg-history-${++count}`, entityId, roomId: 'room-history', content: { text, source: 'telegram' } };
+      expect(await action.validate({} as IAgentRuntime, message as unknown as Memory)).toBe(true);
+      const replies: string[] = [];
+      await action.handler({} as IAgentRuntime, message as unknown as Memory, undefined, {}, async (content) => {
+        replies.push(content.text ?? '');
+        return [];
+      });
+      return replies[0];
+    };
+
+    const first = await ask('mis movimientos');
+    expect(first).toStartWith('Tus movimientos (página 1 de 2):');
+    expect(first).toContain('Recibiste 12 USDC de 0xb0b');
+    expect(first).toContain('No pude actualizar desde la red');
+    const second = await ask('más movimientos');
+    expect(second).toStartWith('Tus movimientos (página 2 de 2):');
+    expect(second).toContain('Recibiste 1 USDC');
+  });
+});
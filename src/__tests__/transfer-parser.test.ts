@@ -0,0 +1,185 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import plugin from '../plugin';
+import { PriceOracle, setPriceOracle, type OracleQuote } from '../services/price-oracle';
+import { telegramStarknetStore } from '../services/telegram-starknet';
+import {
+  clearTransferDraft,
+  getTransferDraft,
+  parseNumberWords,
+  parseTransferRequest,
+  saveTransferDraft,
+  transferDraftKey,
+} from '../services/transfer-parser';
+
+const ADDRESS = '0x0000000000000000000000000000000000000000000000000000000000000abc';
+
+describe('parseTransferRequest', () => {
+  it('parses a complete transfer into base units', () => {
+    const result = parseTransferRequest('enviar 0.01 ETH a 0xABC');
+    expect(result.status).toBe('complete');
+    if (result.status !== 'complete') return;
+    expect(result.intent.amount).toBe(10_000_000_000_000_000n);
+    expect(result.intent.token.symbol).toBe('ETH');
+    expect(result.intent.recipient).toEqual({ kind: 'address', address: ADDRESS });
+  });
+
+  it('uses the token decimals', () => {
+    const result = parseTransferRequest('manda 2,5 USDC a 0xabc');
+    expect(result.status === 'complete' && result.intent.amount).toBe(2_500_000n);
+  });
+
+  it('reads a comma after a leading zero as the decimal separator', () => {
+    const small = parseTransferRequest('enviar 0,010 ETH a 0x0123');
+    expect(small.status === 'complete' && small.intent.amount).toBe(10_000_000_000_000_000n);
+    const half = parseTransferRequest('enviar 0,5 ETH a 0x0123');
+    expect(half.status === 'complete' && half.intent.amount).toBe(500_000_000_000_000_000n);
+  });
+
+  it('asks when a comma could be thousands or decimals', () => {
+    const result = parseTransferRequest('enviar 1,234 STRK a 0xabc');
+    expect(result).toMatchObject({ status: 'incomplete', missing: ['amount'] });
+    if (result.status === 'incomplete') expect(result.problems[0]).toContain('1234 o 1.234');
+    const thousands = parseTransferRequest('enviar 5,000 STRK a 0xabc');
+    expect(thousands.status === 'complete' && thousands.intent.amount).toBe(5000n * 10n ** 18n);
+  });
+
+  it('understands amounts in words', () => {
+    const result = parseTransferRequest('transfiere doscientos cincuenta STRK a 0xabc');
+    expect(result.status === 'complete' && result.intent.amount).toBe(250n * 10n ** 18n);
+  });
+
+  it('asks for the token instead of assuming ETH', () => {
+    const result = parseTransferRequest('envía 5 a 0xabc');
+    expect(result).toMatchObject({ status: 'incomplete', missing: ['token'] });
+    if (result.status === 'incomplete') expect(result.question).toContain('token');
+  });
+
+  it('explains what it cannot do yet for fiat amounts and usernames', () => {
+    const result = parseTransferRequest('manda cien pesos en USDC a @maria');
+    expect(result.status).toBe('incomplete');
+    if (result.status !== 'incomplete') return;
+    expect(result.draft).toMatchObject({ amountText: '100', fiat: 'MXN', tokenSymbol: 'USDC' });
+    expect(result.missing).toEqual(['amount', 'recipient']);
+    expect(result.problems).toHaveLength(2);
+    expect(result.question).toContain('¿Cuántos USDC');
+  });
+
+  it('rejects more decimals than the token supports', () => {
+    const result = parseTransferRequest('enviar 0.0000001 USDC a 0xabc');
+    expect(result).toMatchObject({ status: 'incomplete', missing: ['amount'] });
+    if (result.status === 'incomplete') expect(result.problems[0]).toContain('6 decimales');
+  });
+
+  it('rejects zero amounts', () => {
+    expect(parseTransferRequest('enviar 0 ETH a 0xabc')).toMatchObject({ status: 'incomplete', missing: ['amount'] });
+  });
+
+  it('rejects addresses outside the Starknet range', () => {
+    for (const address of ['0x0', `0x8${'0'.repeat(62)}`, `0x1${'0'.repeat(66)}`]) {
+      const result = parseTransferRequest(`enviar 1 ETH a ${address}`);
+      expect(result).toMatchObject({ status: 'incomplete', missing: ['recipient'] });
+      if (result.status === 'incomplete') expect(result.problems[0]).toContain('no es válida');
+    }
+  });
+
+  it('merges follow-up answers into the draft', () => {
+    const first = parseTransferRequest('quiero enviar 3 STRK');
+    expect(first).toMatchObject({ status: 'incomplete', missing: ['recipient'] });
+    if (first.status !== 'incomplete') return;
+
+    const second = parseTransferRequest('a 0xabc', first.draft);
+    expect(second.status).toBe('complete');
+    if (second.status === 'complete') expect(second.intent.amount).toBe(3n * 10n ** 18n);
+  });
+
+  it('converts a fiat amount with a fresh quote and keeps the rate', () => {
+    const quote: OracleQuote = { symbol: 'USDC', currency: 'MXN', price: 20, asOfMs: 0, source: 'file', stale: false };
+    const result = parseTransferRequest('manda 100 pesos en USDC a 0xabc', {}, undefined, undefined, quote);
+    expect(result.status).toBe('complete');
+    if (result.status !== 'complete') return;
+    expect(result.intent.amount).toBe(5_000_000n);
+    expect(result.intent.fiat).toEqual({ amountText: '100', quote });
+  });
+
+  it('asks for tokens when the quote is stale or for another token', () => {
+    const stale: OracleQuote = { symbol: 'USDC', currency: 'MXN', price: 20, asOfMs: 0, source: 'file', stale: true };
+    const other: OracleQuote = { ...stale, symbol: 'ETH', stale: false };
+    for (const quote of [stale, other, undefined]) {
+      const result = parseTransferRequest('manda 100 pesos en USDC a 0xabc', {}, undefined, undefined, quote);
+      expect(result).toMatchObject({ status: 'incomplete', missing: ['amount'] });
+      if (result.status === 'incomplete') expect(result.question).toBe(
+        'No tengo un precio reciente de USDC en MXN para convertir 100 MXN. ¿Cuántos USDC quieres enviar? (Escribe "cancelar" para no enviar nada.)'
+      );
+    }
+  });
+
+  it('replaces a fiat amount with a token amount on follow-up', () => {
+    const first = parseTransferRequest('manda 100 pesos en USDC a 0xabc');
+    expect(first.status).toBe('incomplete');
+    if (first.status !== 'incomplete') return;
+    const second = parseTransferRequest('5', first.draft);
+    expect(second.status === 'complete' && second.intent.amount).toBe(5_000_000n);
+  });
+
+  it('accepts the user\'s own tokens when given', () => {
+    const tokens = [
+      { symbol: 'PIGGY', name: 'Piggy', address: '0x123', decimals: 18, source: 'user' as const },
+      { symbol: 'NODEC', name: 'Sin decimales', address: '0x456', source: 'user' as const },
+    ];
+    expect(parseTransferRequest('envía 10 PIGGY a 0xabc').status).toBe('incomplete');
+    expect(parseTransferRequest('envía 10 PIGGY a 0xabc', {}, tokens).status).toBe('complete');
+    expect(parseTransferRequest('envía 10 NODEC a 0xabc', {}, tokens)).toMatchObject({ status: 'incomplete', missing: ['token'] });
+  });
+
+  it('cancels', () => {
+    for (const text of ['cancelar', 'No', 'olvídalo']) {
+      expect(parseTransferRequest(text, { amountText: '1' }).status).toBe('cancelled');
+    }
+  });
+});
+
+describe('fiat transfers in the chat flow', () => {
+  afterEach(() => {
+    setPriceOracle(null);
+  });
+
+  it('shows the converted amount and the rate before confirming', async () => {
+    telegramStarknetStore.ensureAccountForEntityId('fiat-pablo');
+    const source = { name: 'file', getPrices: async () => [{ symbol: 'USDC', currency: 'MXN' as const, price: 20, asOfMs: Date.now(), source: 'file' }] };
+    setPriceOracle(new PriceOracle(source));
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const message = { id: 'msg-fiat-1', entityId: 'fiat-pablo', roomId: 'room-fiat', content: { text: 'manda 100 pesos en USDC a 0xabc', source: 'telegram' } };
+    const transfer = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    await transfer.handler({ actions: [] } as unknown as IAgentRuntime, message as unknown as Memory, undefined, {}, callback, []);
+    expect(replies.at(-1)).toStartWith(`Vas a enviar:\n• Monto: 5 USDC\n• Equivale a: $100.00 MXN (1 USDC = $20.00 MXN)\n• Destino: ${ADDRESS}`);
+  });
+});
+
+describe('parseNumberWords', () => {
+  it('parses Spanish and English number words', () => {
+    expect(parseNumberWords(['treinta', 'y', 'cinco'])).toBe(35);
+    expect(parseNumberWords(['dos', 'mil', 'quinientos'])).toBe(2500);
+    expect(parseNumberWords(['mil'])).toBe(1000);
+    expect(parseNumberWords(['five', 'hundred'])).toBe(500);
+    expect(parseNumberWords(['hola'])).toBeUndefined();
+  });
+});
+
+describe('transfer drafts', () => {
+  it('expire after five minutes and are scoped per room and user', () => {
+    const key = transferDraftKey('room-1', 'user-1');
+    saveTransferDraft(key, { tokenSymbol: 'ETH' }, 1_000);
+    expect(getTransferDraft(transferDraftKey('room-2', 'user-1'), 1_000)).toBeUndefined();
+    expect(getTransferDraft(key, 1_000 + 4 * 60_000)).toEqual({ tokenSymbol: 'ETH' });
+    expect(getTransferDraft(key, 1_000 + 5 * 60_000)).toBeUndefined();
+
+    saveTransferDraft(key, { tokenSymbol: 'ETH' });
+    clearTransferDraft(key);
+    expect(getTransferDraft(key)).toBeUndefined();
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { RpcError, type RpcProvider } from 'starknet';
+import plugin from '../plugin';
+import {
+  TrackedTxStore,
+  TxTracker,
+  describeTxOutcome,
+  readTxStatus,
+  summarizeRevertReason,
+  trackedTransactions,
+  type TrackedTx,
+} from '../services/tx-tracker';
+import { setTransferAccountFactory, telegramStarknetStore, type TransferAccount } from '../services/telegram-starknet';
+import { createMemoryCacheBackend } from '../services/storage';
+import { createFakeClock } from './utils/fake-clock';
+
+const TX = '0x' + 'ab'.repeat(32);
+const OTHER_TX = '0x' + 'cd'.repeat(32);
+const TARGET = { source: 'telegram', roomId: 'room-1' };
+
+type NodeStatus = { finality_status: string; execution_status?: string } | 'unknown';
+
+/** Nodo falso: cada hash devuelve el estado que el test le asigne. */
+function fakeNode(statuses: Record<string, NodeStatus>, receipts: Record<string, { revert_reason?: string }> = {}) {
+  const calls = { status: 0 };
+  const provider = {
+    getTransactionStatus: async (hash: string) => {
+      calls.status++;
+      const status = statuses[hash];
+      if (!status || status === 'unknown') throw new RpcError({ code: 29, message: 'Transaction hash not found' }, 'starknet_getTransactionStatus', { transaction_hash: hash });
+      return status;
+    },
+    getTransactionReceipt: async (hash: string) => receipts[hash] ?? {},
+  } as unknown as RpcProvider;
+  return { provider, calls };
+}
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  spyOn(logger, 'warn').mockImplementation(() => {});
+  spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('readTxStatus', () => {
+  it('maps finality and execution status', async () => {
+    const { provider } = fakeNode(
+      {
+        '0x1': { finality_status: 'RECEIVED' },
+        '0x2': { finality_status: 'ACCEPTED_ON_L2', execution_status: 'SUCCEEDED' },
+        '0x3': { finality_status: 'ACCEPTED_ON_L1', execution_status: 'SUCCEEDED' },
+        '0x4': { finality_status: 'ACCEPTED_ON_L2', execution_status: 'REVERTED' },
+        '0x5': { finality_status: 'REJECTED' },
+      },
+      { '0x4': { revert_reason: "Error in the called contract: Failure reason: 0x753235365f737562204f766572666c6f77 ('u256_sub Overflow')." } }
+    );
+    expect(await readTxStatus(provider, '0x1')).toEqual({ status: 'pending' });
+    expect(await readTxStatus(provider, '0x2')).toEqual({ status: 'accepted_l2' });
+    expect(await readTxStatus(provider, '0x3')).toEqual({ status: 'accepted_l1' });
+    expect((await readTxStatus(provider, '0x4')).status).toBe('reverted');
+    expect(await readTxStatus(provider, '0x5')).toEqual({ status: 'rejected' });
+    expect(await readTxStatus(provider, '0x6')).toEqual({});
+  });
+
+  it('only treats the node\'s unknown-hash error as not found', async () => {
+    const failing = (error: unknown) =>
+      ({
+        getTransactionStatus: async () => {
+          throw error;
+        },
+      }) as unknown as RpcProvider;
+    expect(await readTxStatus(failing({ code: 29, message: 'Transaction hash not found' }), TX)).toEqual({});
+    await expect(readTxStatus(failing(new RpcError({ code: 24, message: 'Block not found' }, 'starknet_getTransactionStatus', {})), TX)).rejects.toThrow();
+    await expect(readTxStatus(failing(new Error('fetch failed: 29 retries, host not found')), TX)).rejects.toThrow('host not found');
+  });
+});
+
+describe('tx outcome messages', () => {
+  const tx = (overrides: Partial<TrackedTx>): TrackedTx => ({
+    txHash: TX,
+    entityId: 'maria',
+    action: 'transfer',
+    description: '0.5 STRK a 0xabc',
+    target: TARGET,
+    status: 'accepted_l2',
+    submittedAtMs: 0,
+    updatedAtMs: 0,
+    ...overrides,
+  });
+
+  it('explains confirmation and revert reason in Spanish', () => {
+    expect(describeTxOutcome(tx({}))).toBe(`La transferencia de 0.5 STRK a 0xabc se confirmó en Starknet.\nTx: ${TX}`);
+    expect(
+      describeTxOutcome(
+        tx({ status: 'reverted', revertReason: "Failure reason: 0x753235365f737562204f766572666c6f77 ('u256_sub Overflow')." })
+      )
+    ).toStartWith('La transferencia de 0.5 STRK a 0xabc falló en la red: u256_sub Overflow.');
+    expect(describeTxOutcome(tx({ status: 'pending' }))).toBeUndefined();
+    expect(summarizeRevertReason(undefined)).toBe('la red no dio el motivo');
+  });
+});
+
+describe('TxTracker', () => {
+  it('notifies once on L2 acceptance and keeps following until L1', async () => {
+    const clock = createFakeClock(0);
+    const store = new TrackedTxStore();
+    const statuses: Record<string, NodeStatus> = { [TX]: { finality_status: 'RECEIVED' } };
+    const { provider } = fakeNode(statuses);
+    const notices: string[] = [];
+    const tracker = new TxTracker(provider, async (tx) => void notices.push(describeTxOutcome(tx)!), {
+      clock,
+      store,
+      pollIntervalMs: 5_000,
+      l1PollIntervalMs: 60_000,
+    });
+    tracker.start();
+    store.track({ txHash: TX, entityId: 'maria', action: 'transfer', description: '1 ETH a 0xabc', target: TARGET }, clock.now());
+
+    await clock.advance(5_000);
+    await tracker.idle();
+    expect(store.get(TX)?.status).toBe('pending');
+
+    statuses[TX] = { finality_status: 'ACCEPTED_ON_L2', execution_status: 'SUCCEEDED' };
+    await clock.advance(5_000);
+    await tracker.idle();
+    expect(notices).toEqual([`La transferencia de 1 ETH a 0xabc se confirmó en Starknet.\nTx: ${TX}`]);
+
+    statuses[TX] = { finality_status: 'ACCEPTED_ON_L1', execution_status: 'SUCCEEDED' };
+    await clock.advance(60_000);
+    await tracker.idle();
+    expect(store.get(TX)?.status).toBe('accepted_l1');
+    expect(notices).toHaveLength(1);
+    expect(store.unsettled()).toEqual([]);
+    tracker.stop();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('reports reverts and gives up on hashes the node never sees', async () => {
+    const clock = createFakeClock(0);
+    const store = new TrackedTxStore();
+    const { provider } = fakeNode(
+      { [TX]: { finality_status: 'ACCEPTED_ON_L2', execution_status: 'REVERTED' } },
+      { [TX]: { revert_reason: "Failure reason: 0x0 ('ERC20: insufficient balance')." } }
+    );
+    const notified: TrackedTx[] = [];
+    const tracker = new TxTracker(provider, async (tx) => void notified.push(tx), { clock, store, maxUnseenMs: 60_000 });
+    store.track({ txHash: TX, entityId: 'maria', action: 'transfer', target: TARGET }, 0);
+    store.track({ txHash: OTHER_TX, entityId: 'maria', action: 'deploy_token', target: TARGET }, 0);
+
+    await tracker.poll();
+    expect(notified.map((tx) => [tx.status, tx.revertReason])).toEqual([
+      ['reverted', "Failure reason: 0x0 ('ERC20: insufficient balance')."],
+    ]);
+    expect(store.get(OTHER_TX)?.status).toBe('pending');
+
+    await clock.advance(61_000);
+    await tracker.poll();
+    expect(notified.map((tx) => tx.status)).toEqual(['reverted', 'rejected']);
+    expect(describeTxOutcome(notified[1])).toStartWith('El despliegue de tu token no entró a la red');
+  });
+
+  it('retries a failed notice and resumes pending txs after a restart', async () => {
+    const backend = createMemoryCacheBackend();
+    const before = new TrackedTxStore();
+    await before.attach(backend);
+    before.track({ txHash: TX, entityId: 'maria', action: 'deploy_account', target: TARGET });
+    await before.flush();
+
+    const after = new TrackedTxStore();
+    expect((await after.attach(backend)).loaded).toBe(1);
+    const { provider } = fakeNode({ [TX]: { finality_status: 'ACCEPTED_ON_L2', execution_status: 'SUCCEEDED' } });
+    let failing = true;
+    const tracker = new TxTracker(
+      provider,
+      async () => {
+        if (failing) throw new Error('telegram down');
+      },
+      { store: after, clock: createFakeClock(Date.now()) }
+    );
+    expect(await tracker.poll()).toBe(0);
+    expect(after.get(TX)?.notified).toBeUndefined();
+    failing = false;
+    expect(await tracker.poll()).toBe(1);
+    expect(await tracker.poll()).toBe(0);
+  });
+
+  it('retries a failed notice for a reverted tx', async () => {
+    const store = new TrackedTxStore();
+    const { provider, calls } = fakeNode({ [TX]: { finality_status: 'ACCEPTED_ON_L2', execution_status: 'REVERTED' } });
+    const notified: TrackedTx[] = [];
+    let failing = true;
+    const tracker = new TxTracker(
+      provider,
+      async (tx) => {
+        if (failing) throw new Error('Forbidden: bot was blocked by the user');
+        notified.push(tx);
+      },
+      { store, clock: createFakeClock(0) }
+    );
+    store.track({ txHash: TX, entityId: 'maria', action: 'deploy_token', target: TARGET }, 0);
+
+    expect(await tracker.poll()).toBe(0);
+    expect(store.get(TX)?.status).toBe('reverted');
+    expect(store.get(TX)?.notified).toBeUndefined();
+    expect(store.unsettled()).toEqual([]);
+    failing = false;
+    expect(await tracker.poll()).toBe(1);
+    expect(notified.map((tx) => tx.status)).toEqual(['reverted']);
+    expect(calls.status).toBe(1);
+    expect(await tracker.poll()).toBe(0);
+  });
+});
+
+describe('TRANSFER_STARKNET_TOKENS_INVISIBLE tracking', () => {
+  it('records the submitted hash with the user and the chat', async () => {
+    const entityId = 'tracker-alice';
+    telegramStarknetStore.ensureAccountForEntityId(entityId);
+    setTransferAccountFactory(() => ({ execute: (async () => ({ transaction_hash: TX })) as TransferAccount['execute'] }));
+    const runtime = { actions: [] } as unknown as IAgentRuntime;
+    const replies: string[] = [];
+    const callback = async (content: Content) => {
+      replies.push(content.text ?? '');
+      return [];
+    };
+    const say = (id: string, text: string) =>
+      ({ id, entityId, roomId: 'room-tracker', content: { text, source: 'telegram' } }) as unknown as Memory;
+
+    const transfer = plugin.actions!.find((a) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')!;
+    const confirm = plugin.actions!.find((a) => a.name === 'CONFIRM_PENDING_OPERATION')!;
+    await transfer.handler(runtime, say('msg-tracker-1', 'enviar 0.5 STRK a 0xabc'), undefined, {}, callback, []);
+    await confirm.handler(runtime, say('msg-tracker-2', 'sí'), undefined, {}, callback, []);
+    setTransferAccountFactory(null);
+
+    expect(replies.at(-1)).toMatch(/^Se inició la transferencia de 0\.5 STRK a 0x0+abc\. Te aviso cuando se confirme\.$/);
+    expect(trackedTransactions.get(TX)).toMatchObject({
+      entityId,
+      action: 'transfer',
+      status: 'pending',
+      description: expect.stringMatching(/^0\.5 STRK a 0x0+abc$/),
+      target: { source: 'telegram', roomId: 'room-tracker' },
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import type { RpcProvider } from 'starknet';
+import { TRANSFER_EVENT_KEY } from '../../services/transaction-history';
+
+export interface RawTransfer {
+  token: string;
+  block: number;
+  tx: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Nodo falso: aplica el filtro de keys de starknet_getEvents sobre una lista de Transfer
+ * (from/to como keys) y pagina de a `pageSize`. `blockTimestamp` da la hora de cada bloque, en segundos.
+ */
+export function fakeChain(
+  events: RawTransfer[],
+  { latest = 1000, pageSize = 2, blockTimestamp = (block: number) => 1_790_000_000 + block } = {}
+) {
+  const calls = { getEvents: 0, blocks: 0 };
+  const chain = { latest };
+  const provider = {
+    getBlockNumber: async () => chain.latest,
+    getBlockWithTxHashes: async (block: number) => {
+      calls.blocks++;
+      return { timestamp: blockTimestamp(block) };
+    },
+    getEvents: async (filter: {
+      address: string;
+      from_block: { block_number: number };
+      to_block: { block_number: number };
+      keys: string[][];
+      continuation_token?: string;
+    }) => {
+      calls.getEvents++;
+      const matching = events
+        .filter((e) => e.token === filter.address)
+        .filter((e) => e.block >= filter.from_block.block_number && e.block <= filter.to_block.block_number)
+        .map((e) => ({
+          from_address: e.token,
+          keys: [TRANSFER_EVENT_KEY, e.from, e.to],
+          data: ['0x' + (e.amount & ((1n << 128n) - 1n)).toString(16), '0x' + (e.amount >> 128n).toString(16)],
+          block_number: e.block,
+          block_hash: '0x1',
+          transaction_hash: e.tx,
+        }))
+        .filter((e) => filter.keys.every((wanted, i) => wanted.length === 0 || wanted.includes(e.keys[i])));
+      const start = Number(filter.continuation_token ?? 0);
+      const next = start + pageSize;
+      return { events: matching.slice(start, next), ...(next < matching.length ? { continuation_token: String(next) } : {}) };
+    },
+  } as unknown as RpcProvider;
+  return { provider, calls, chain };
+}
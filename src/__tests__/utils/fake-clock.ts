@@ -0,0 +1,49 @@
+import type { SchedulerClock } from '../../services/reminders';
+
+/**
+ * Reloj manual para pruebas de servicios con timers: el tiempo solo avanza con `advance`,
+ * que dispara en orden los timers vencidos y espera a que terminen sus promesas.
+ */
+export interface FakeClock extends SchedulerClock {
+  advance(ms: number): Promise<void>;
+  advanceTo(ms: number): Promise<void>;
+  pendingTimers(): number;
+}
+
+export function createFakeClock(startMs: number): FakeClock {
+  let now = startMs;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+  const clock: FakeClock = {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const id = nextId++;
+      timers.set(id, { at: now + Math.max(0, ms), callback });
+      return id;
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number);
+    },
+    async advanceTo(target) {
+      for (;;) {
+        const due = [...timers.entries()].filter(([, t]) => t.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+        if (!due) break;
+        const [id, timer] = due;
+        timers.delete(id);
+        now = Math.max(now, timer.at);
+        timer.callback();
+        await settle();
+      }
+      now = Math.max(now, target);
+      await settle();
+    },
+    advance(ms) {
+      return clock.advanceTo(now + ms);
+    },
+    pendingTimers: () => timers.size,
+  };
+  return clock;
+}
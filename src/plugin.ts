@@ -15,7 +15,163 @@ import {
   logger,
 } from '@elizaos/core';
 import { z } from 'zod';
-import { telegramStarknetStore, deploySmartAccountIfPossible, getEthBalanceWei, formatWeiToEth } from './services/telegram-starknet.ts';
+import type { Call } from 'starknet';
+import {
+  telegramStarknetStore,
+  deployInvisibleAccount,
+  createStarknetProvider,
+  getAccountSigner,
+  getTokenBalances,
+  formatWeiToEth,
+  estimateInvokeFeeWei,
+  executeAccountCalls,
+  executeTokenTransfers,
+  tokenTransferCall,
+  type AccountDeployAttempt,
+  type TokenTransfer,
+  type TokenBalance,
+} from './services/telegram-starknet.ts';
+import { formatUnits, tokenRegistry } from './services/token-registry.ts';
+import { formatFiat, getPriceOracle, type OracleQuote } from './services/price-oracle.ts';
+import {
+  describeGoalProgress,
+  formatGoalAmount,
+  formatGoalDate,
+  getGoalsProgress,
+  parseGoalRequest,
+  savingsGoalStore,
+} from './services/savings-goals.ts';
+import {
+  clearTransferDraft,
+  describeRecipient,
+  describeTransfer,
+  findStarkDomain,
+  getTransferDraft,
+  parseTransferRequest,
+  saveTransferDraft,
+  transferDraftKey,
+  type TransferIntent,
+} from './services/transfer-parser.ts';
+import {
+  classifyConfirmationReply,
+  pendingOperations,
+  PENDING_OPERATION_TTL_MS,
+  type PendingOperation,
+} from './services/pending-operations.ts';
+import {
+  classifyIntent,
+  classifyIntentByRules,
+  normalizeIntentText,
+  MIN_INTENT_CONFIDENCE,
+  type Intent,
+} from './services/intent-classifier.ts';
+import { TelegramStarknetStoreService } from './services/store-service.ts';
+import {
+  defaultTimeZone,
+  describeReminder,
+  describeSchedule,
+  formatLocalDateTime,
+  parseReminderCommand,
+  parseReminderRequest,
+  reminderStore,
+} from './services/reminders.ts';
+import { ReminderSchedulerService } from './services/reminder-service.ts';
+import { DepositWatcherService } from './services/deposit-watcher-service.ts';
+import { TxTrackerService } from './services/tx-tracker-service.ts';
+import { TandaService } from './services/tanda-service.ts';
+import { describeDeployment } from './services/account-deployment.ts';
+import { describeLifecycle } from './services/account-lifecycle.ts';
+import { trackedTransactions, type TrackedTxAction } from './services/tx-tracker.ts';
+import { notificationTargets } from './services/notification-targets.ts';
+import {
+  describePolicy,
+  describePolicyChange,
+  describePolicyViolations,
+  globalPolicy,
+  isLoosening,
+  parsePolicyCommand,
+  spendingPolicies,
+  type SpendRequest,
+  type SpendReservation,
+} from './services/spending-policy.ts';
+import {
+  describeLock,
+  formatLockAmount,
+  parseLockCommand,
+  parseLockRequest,
+  savingsLocks,
+} from './services/savings-locks.ts';
+import {
+  amountDue,
+  currentRound,
+  defaultTandaName,
+  describeCadence,
+  describeRoundStart,
+  describeTanda,
+  formatTandaAmount,
+  memberOf,
+  parseContribution,
+  parseTandaCommand,
+  tandaStore,
+} from './services/tandas.ts';
+import {
+  contactNameProblem,
+  contactStore,
+  describeContact,
+  describeContacts,
+  parseContactCommand,
+  recipientResolver,
+  usernameDirectory,
+} from './services/contacts.ts';
+import { getStarknetIdResolver } from './services/starknet-id.ts';
+import { checkRecipient, isContractNotFound } from './services/address-validation.ts';
+import {
+  clearTokenLaunchDraft,
+  describeTokenLaunch,
+  getTokenLaunchDraft,
+  parseTokenLaunchRequest,
+  randomLaunchSalt,
+  saveTokenLaunchDraft,
+  tokenFactoryConfig,
+  tokenLaunchCall,
+  tokenLaunchDraftKey,
+  tokenLaunches,
+  type TokenLaunchSpec,
+} from './services/token-launcher.ts';
+import {
+  describeHistoryEntry,
+  indexTransfers,
+  paginateHistory,
+  requestedHistoryPage,
+  transactionHistoryStore,
+} from './services/transaction-history.ts';
+
+// Acción que atiende cada intención del router
+const INTENT_ACTIONS: Record<Exclude<Intent, 'none'>, string> = {
+  create_account: 'CREATE_INVISIBLE_STARKNET_ACCOUNT',
+  activate_account: 'RETRY_ACCOUNT_DEPLOY',
+  show_address: 'SHOW_INVISIBLE_ACCOUNT_ADDRESS',
+  show_balance: 'SHOW_INVISIBLE_ACCOUNT_BALANCE',
+  transfer: 'TRANSFER_STARKNET_TOKENS_INVISIBLE',
+  deploy_token: 'DEPLOY_MEME_TOKEN_INVISIBLE',
+  create_goal: 'CREATE_SAVINGS_GOAL',
+  show_goals: 'SHOW_SAVINGS_GOALS',
+  create_reminder: 'CREATE_SAVINGS_REMINDER',
+  manage_reminders: 'MANAGE_SAVINGS_REMINDERS',
+  show_history: 'SHOW_TRANSACTION_HISTORY',
+  manage_limits: 'MANAGE_SPENDING_LIMITS',
+  lock_savings: 'LOCK_SAVINGS',
+  manage_locks: 'MANAGE_SAVINGS_LOCKS',
+  manage_tanda: 'MANAGE_TANDA',
+  manage_contacts: 'MANAGE_CONTACTS',
+}
+
+const CONFIRM_ACTION = 'CONFIRM_PENDING_OPERATION'
+
+function matchesIntent(message: Memory, intent: Intent): boolean {
+  const result = classifyIntentByRules(message.content?.text ?? '')
+  return result.intent === intent && result.confidence >= MIN_INTENT_CONFIDENCE
+}
 
 // Evitar respuestas duplicadas por mensajes repetidos en milisegundos
 const recentRouterHits = new Map<string, number>()
@@ -52,6 +208,258 @@ function shouldRunActionOnce(message: Memory, actionName: string, ttlMs = 5000):
   return true
 }
 
+// Chats donde solo está el usuario; las tandas necesitan un grupo
+const PRIVATE_CHANNEL_TYPES = ['DM', 'VOICE_DM', 'SELF']
+
+/** Cómo nombrar al autor en un grupo: su @usuario de Telegram o, si no tiene, su nombre. */
+function senderName(message: Memory): string {
+  const metadata = message.metadata as { entityUserName?: string; entityName?: string } | undefined
+  if (metadata?.entityUserName) return `@${metadata.entityUserName}`
+  return metadata?.entityName || `participante ${String(message.entityId ?? '').slice(0, 4)}`
+}
+
+// Última página del historial que vio cada usuario ("más movimientos" sigue desde ahí)
+const lastHistoryPage = new Map<string, number>()
+
+// ---- operaciones que mueven valor (se ejecutan solo tras confirmar) ----
+
+/** Cómo quedó la activación de la alcancía tras crear o reintentar. */
+function describeDeployAttempt(attempt: AccountDeployAttempt): string {
+  if (attempt.status === 'skipped') {
+    if (attempt.reason === 'deployed') return 'Tu alcancía ya está activa en Starknet.'
+    return attempt.account ? describeLifecycle(attempt.account.lifecycle) : 'Primero crea tu alcancía con: "crear alcancía"'
+  }
+  return attempt.deployment ? describeDeployment(attempt.deployment) : describeLifecycle(attempt.account.lifecycle)
+}
+
+/** Registra el hash para avisar en este mismo chat cuando se confirme o falle; devuelve si quedó registrado. */
+function trackSubmittedTx(message: Memory, entityId: string, action: TrackedTxAction, txHash: string | undefined, description?: string): boolean {
+  if (!txHash) return false
+  trackedTransactions.track({
+    txHash,
+    entityId,
+    action,
+    description,
+    target: { source: String(message.content.source ?? 'telegram'), roomId: String(message.roomId ?? '') || undefined },
+  })
+  return true
+}
+
+/** Lo que la política revisa; con ahorro bloqueado del token incluye el saldo para saber cuánto queda libre. */
+async function spendRequest(entityId: string, transfer: TransferIntent): Promise<SpendRequest> {
+  const request: SpendRequest = { entityId, token: transfer.token, amount: transfer.amount, recipient: transfer.recipient.address }
+  const address = telegramStarknetStore.getAccountByEntityId(entityId)?.accountAddressHex
+  if (address && savingsLocks.lockedAmount(entityId, transfer.token.symbol) > 0n) {
+    const [balance] = await getTokenBalances(address, [transfer.token], { entityId })
+    request.balance = balance?.balance
+  }
+  return request
+}
+
+function describeFee(feeWei?: bigint): string {
+  return feeWei === undefined ? 'no disponible (se calcula al enviar)' : `~${formatWeiToEth(feeWei)} ETH`
+}
+
+function confirmationPrompt(summary: string, replaced?: PendingOperation): string {
+  const minutes = Math.round(PENDING_OPERATION_TTL_MS / 60000)
+  return [
+    replaced ? 'Descarté la operación que tenías pendiente; solo cuenta esta:' : undefined,
+    summary,
+    '',
+    `¿Confirmas? Responde "sí" para continuar o "cancelar" (tienes ${minutes} minutos).`,
+  ]
+    .filter((line) => line !== undefined)
+    .join('\n')
+}
+
+/** Lo que firma executeTokenTransfers para una intención ya confirmada. */
+function tokenTransfer(transfer: TransferIntent): TokenTransfer {
+  return { token: transfer.token, recipient: transfer.recipient.address, amount: transfer.amount }
+}
+
+/** Por qué no salió una transacción de la alcancía, dicho para el usuario. */
+function describeInvokeFailure(error: Error | undefined, { insufficient, fallback }: { insufficient: string; fallback: string }): string {
+  const text = error?.message ?? ''
+  if (text.includes('Missing STARKNET_RPC_URL')) return 'No hay conexión con Starknet configurada; no pude enviar.'
+  if (error && isContractNotFound(error))
+    return 'Tu alcancía todavía no está activa en la red. Escribe "activar alcancía" y luego vuelve a intentarlo.'
+  if (/u256_sub overflow|insufficient|exceeds? balance/i.test(text)) return insufficient
+  return fallback
+}
+
+async function executeTransfer(message: Memory, entityId: string, transfer: TransferIntent, callback: HandlerCallback): Promise<ActionResult> {
+  let reservation: SpendReservation | undefined
+  try {
+    const account = telegramStarknetStore.getAccountByEntityId(entityId)
+    if (!account?.accountAddressHex) {
+      await callback({ text: 'Primero crea tu alcancía digital con: "crear alcancía"' })
+      return { success: false, text: 'no account' } as ActionResult
+    }
+
+    // Se vuelve a revisar al confirmar: otro envío pudo haber usado el tope mientras tanto.
+    // El monto queda apartado antes de mandar la transacción y se libera si no sale.
+    const decision = spendingPolicies.reserve(await spendRequest(entityId, transfer))
+    if (!decision.allowed) {
+      await callback({ text: describePolicyViolations(decision.violations) })
+      return {
+        success: false,
+        text: 'blocked by spending policy',
+        values: { violations: decision.violations.map((v) => v.code).join(',') },
+      } as ActionResult
+    }
+
+    // Solo se entrega un firmante: la clave nunca sale de signers.ts / el store
+    reservation = decision.reservation
+    const result = await executeTokenTransfers(getAccountSigner(entityId), account.accountAddressHex, [tokenTransfer(transfer)])
+    if (!result.txHash) {
+      spendingPolicies.release(reservation)
+      reservation = undefined
+      await callback({
+        text: describeInvokeFailure(result.error, {
+          insufficient: 'No te alcanza el saldo para este envío y su comisión.',
+          fallback: 'No pude realizar la transferencia ahora.',
+        }),
+        action: 'TRANSFER_STARKNET_TOKENS_INVISIBLE',
+        source: message.content.source,
+      })
+      return { success: false, error: result.error ?? new Error('transfer not submitted') } as ActionResult
+    }
+    reservation = undefined
+
+    const tracked = trackSubmittedTx(message, entityId, 'transfer', result.txHash, describeTransfer(transfer))
+    await callback({
+      text: tracked
+        ? `Se inició la transferencia de ${describeTransfer(transfer)}. Te aviso cuando se confirme.`
+        : `Se inició la transferencia de ${describeTransfer(transfer)}. Revisa "movimientos" en unos minutos para verla confirmada.`,
+      action: 'TRANSFER_STARKNET_TOKENS_INVISIBLE',
+      source: message.content.source,
+    })
+
+    return {
+      success: true,
+      text: 'transfer submitted',
+      values: { amount: transfer.amount.toString(), token: transfer.token.symbol, recipient: transfer.recipient.address, txHash: result.txHash },
+    } as ActionResult
+  } catch (error) {
+    logger.error({ error }, 'TRANSFER_STARKNET_TOKENS_INVISIBLE failed')
+    if (reservation) spendingPolicies.release(reservation)
+    await callback({ text: 'No pude realizar la transferencia ahora.' })
+    return { success: false, error: error instanceof Error ? error : new Error(String(error)) } as ActionResult
+  }
+}
+
+/**
+ * Revisa las reglas de envío y deja la transferencia esperando el "sí" del mismo usuario en esta sala.
+ * `concept` se muestra en el resumen (p. ej. la ronda de la tanda que se paga).
+ */
+async function proposeTransfer(
+  message: Memory,
+  entityId: string,
+  transfer: TransferIntent,
+  callback: HandlerCallback,
+  { concept, actionName = 'TRANSFER_STARKNET_TOKENS_INVISIBLE' }: { concept?: string; actionName?: string } = {}
+): Promise<ActionResult> {
+  const accountAddress = telegramStarknetStore.getAccountByEntityId(entityId)?.accountAddressHex
+  const recipientCheck = await checkRecipient(transfer.recipient.address, {
+    ownAddress: accountAddress,
+    tokens: tokenRegistry.list(entityId),
+    provider: createStarknetProvider(),
+  })
+  if (recipientCheck.problems.length > 0) {
+    await callback({ text: recipientCheck.problems.join('\n'), action: actionName, source: message.content.source })
+    return { success: false, text: 'invalid recipient' } as ActionResult
+  }
+
+  const decision = spendingPolicies.evaluate(await spendRequest(entityId, transfer))
+  if (!decision.allowed) {
+    await callback({ text: describePolicyViolations(decision.violations), action: actionName, source: message.content.source })
+    return {
+      success: false,
+      text: 'blocked by spending policy',
+      values: { violations: decision.violations.map((v) => v.code).join(',') },
+    } as ActionResult
+  }
+
+  const fee = accountAddress
+    ? await estimateInvokeFeeWei(getAccountSigner(entityId), accountAddress, [tokenTransferCall(tokenTransfer(transfer))])
+    : undefined
+  const summary = [
+    'Vas a enviar:',
+    `• Monto: ${formatUnits(transfer.amount, transfer.token.decimals)} ${transfer.token.symbol}`,
+    transfer.fiat
+      ? `• Equivale a: ${formatFiat(Number(transfer.fiat.amountText), transfer.fiat.quote.currency)} (1 ${transfer.token.symbol} = ${formatFiat(transfer.fiat.quote.price, transfer.fiat.quote.currency)})`
+      : undefined,
+    `• Destino: ${describeRecipient(transfer.recipient)}`,
+    ...recipientCheck.warnings,
+    concept ? `• Concepto: ${concept}` : undefined,
+    `• Comisión estimada: ${describeFee(fee)}`,
+  ]
+    .filter((line) => line !== undefined)
+    .join('\n')
+  const { replaced } = pendingOperations.propose({
+    kind: 'transfer',
+    roomId: message.roomId ? String(message.roomId) : undefined,
+    entityId,
+    summary,
+    execute: (reply) => executeTransfer(message, entityId, transfer, reply),
+  })
+  await callback({ text: confirmationPrompt(summary, replaced), action: actionName, source: message.content.source })
+
+  return {
+    success: true,
+    text: 'transfer awaiting confirmation',
+    values: { amount: transfer.amount.toString(), token: transfer.token.symbol, recipient: transfer.recipient.address },
+  } as ActionResult
+}
+
+/**
+ * Manda a la fábrica la creación del token ya confirmado y lo anota en los lanzamientos del usuario.
+ * La dirección del token se conoce hasta que se confirma (ver settleTokenLaunch); la de la alcancía no cambia.
+ */
+async function executeTokenLaunch(message: Memory, entityId: string, spec: TokenLaunchSpec, call: Call, callback: HandlerCallback): Promise<ActionResult> {
+  try {
+    const account = telegramStarknetStore.getAccountByEntityId(entityId)
+    if (!account?.accountAddressHex) {
+      await callback({ text: 'Primero crea tu alcancía digital con: "crear alcancía"' })
+      return { success: false, text: 'no account' } as ActionResult
+    }
+
+    // Solo se entrega un firmante: la clave nunca sale de signers.ts / el store
+    const result = await executeAccountCalls(getAccountSigner(entityId), account.accountAddressHex, [call])
+    if (!result.txHash) {
+      await callback({
+        text: describeInvokeFailure(result.error, {
+          insufficient: 'No te alcanza el saldo para pagar la comisión del lanzamiento.',
+          fallback: 'No pude lanzar el token ahora.',
+        }),
+        action: 'DEPLOY_MEME_TOKEN_INVISIBLE',
+        source: message.content.source,
+      })
+      return { success: false, error: result.error ?? new Error('token launch not submitted') } as ActionResult
+    }
+
+    tokenLaunches.record(entityId, {
+      txHash: result.txHash,
+      name: spec.name,
+      symbol: spec.symbol,
+      supply: spec.supply.toString(),
+      recipient: spec.recipient,
+      factory: call.contractAddress,
+    })
+    trackSubmittedTx(message, entityId, 'deploy_token', result.txHash, `${spec.name} (${spec.symbol})`)
+    await callback({
+      text: `Se inició el lanzamiento de ${spec.name} (${spec.symbol}). Te aviso con la dirección del token cuando se confirme.`,
+      action: 'DEPLOY_MEME_TOKEN_INVISIBLE',
+      source: message.content.source,
+    })
+    return { success: true, text: 'token launch submitted', values: { symbol: spec.symbol, txHash: result.txHash } } as ActionResult
+  } catch (error) {
+    logger.error({ error }, 'DEPLOY_MEME_TOKEN_INVISIBLE failed')
+    await callback({ text: 'No pude lanzar el token ahora.' })
+    return { success: false, error: error instanceof Error ? error : new Error(String(error)) } as ActionResult
+  }
+}
+
 /**
  * Define the configuration schema for the plugin with the following properties:
  *
@@ -189,6 +597,30 @@ const helloWorldProvider: Provider = {
   },
 };
 
+/**
+ * Metas de ahorro del usuario y su avance, para que las respuestas del agente las mencionen.
+ */
+const savingsGoalsProvider: Provider = {
+  name: 'SAVINGS_GOALS',
+  description: 'Metas de ahorro activas del usuario y cuánto lleva de cada una',
+
+  get: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<ProviderResult> => {
+    const entityId = String(message.entityId ?? '')
+    if (!entityId || savingsGoalStore.list(entityId).length === 0) return { text: '', values: {}, data: {} }
+
+    const progress = await getGoalsProgress(entityId)
+    const active = progress.filter((p) => p.goal.status === 'active')
+    return {
+      text: ['# Metas de ahorro del usuario', ...progress.map(describeGoalProgress)].join('\n'),
+      values: {
+        savingsGoalsCount: active.length,
+        savingsGoals: progress.map((p) => `${p.goal.title} (${Math.floor(p.percent ?? 0)}%)`).join(', '),
+      },
+      data: { savingsGoals: progress },
+    }
+  },
+}
+
 export class StarterService extends Service {
   static serviceType = 'starter';
   capabilityDescription =
@@ -300,66 +732,46 @@ const plugin: Plugin = {
         // Debounce para no manejar duplicados inmediatos
         if (!shouldHandleOnce(message, textLower)) return
 
-        // 1) Crear cuenta invisible (wallet/alcancía/cuenta)
-        if (
-          textLower.includes('crear') &&
-          (textLower.includes('alcancía') || textLower.includes('cuenta') || textLower.includes('wallet'))
-        ) {
-          logger.info({ text }, '[Router] CREATE_INVISIBLE_STARKNET_ACCOUNT matched')
-          const action = runtime.actions.find((a: Action) => a.name === 'CREATE_INVISIBLE_STARKNET_ACCOUNT')
-          if (!action?.handler) return
-          if (!shouldRunActionOnce(message, 'CREATE_INVISIBLE_STARKNET_ACCOUNT')) return
-          await action.handler(runtime, message, { values: {}, data: {}, text: '' }, {}, callback, [])
-          return
-        }
-
-        // 2) Desplegar meme token
-        if (
-          textLower.includes('crear token') ||
-          textLower.includes('meme token') ||
-          textLower.includes('lanzar token')
-        ) {
-          logger.info({ text }, '[Router] DEPLOY_MEME_TOKEN_INVISIBLE matched')
-          const action = runtime.actions.find((a: Action) => a.name === 'DEPLOY_MEME_TOKEN_INVISIBLE')
-          if (!action?.handler) return
-          if (!shouldRunActionOnce(message, 'DEPLOY_MEME_TOKEN_INVISIBLE')) return
-          await action.handler(runtime, message, { values: {}, data: {}, text: '' }, {}, callback, [])
-          return
-        }
+        const roomId = message.roomId ? String(message.roomId) : undefined
+        const entityId = String(message.entityId ?? '')
+        // Chat privado más reciente, para avisos de depósitos
+        if (entityId) notificationTargets.remember(entityId, { source: 'telegram', ...(roomId ? { roomId } : {}) }, (message.content as Content)?.channelType)
+        // @usuario → alcancía, para que otros puedan enviarle con "a @usuario"
+        if (entityId) usernameDirectory.remember(entityId, (message.metadata as { entityUserName?: string } | undefined)?.entityUserName)
 
-        // 3) Transferencia simple
-        if (textLower.includes('enviar') || textLower.includes('transfer')) {
-          logger.info({ text }, '[Router] TRANSFER_STARKNET_TOKENS_INVISIBLE matched')
-          const action = runtime.actions.find((a: Action) => a.name === 'TRANSFER_STARKNET_TOKENS_INVISIBLE')
-          if (!action?.handler) return
-          if (!shouldRunActionOnce(message, 'TRANSFER_STARKNET_TOKENS_INVISIBLE')) return
-          await action.handler(runtime, message, { values: {}, data: {}, text: '' }, {}, callback, [])
-          return
-        }
+        // Intención estructurada (reglas y, si está habilitado, LLM) en lugar de palabras sueltas
+        const intent = await classifyIntent(text, { runtime })
+        const isClear = intent.intent !== 'none' && intent.confidence >= MIN_INTENT_CONFIDENCE
 
-        // 4) Dirección de la alcancía
-        if (
-          textLower.includes('dirección') ||
-          textLower.includes('direccion') ||
-          textLower.includes('address')
-        ) {
-          logger.info({ text }, '[Router] SHOW_INVISIBLE_ACCOUNT_ADDRESS matched')
-          const action = runtime.actions.find((a: Action) => a.name === 'SHOW_INVISIBLE_ACCOUNT_ADDRESS')
-          if (!action?.handler) return
-          if (!shouldRunActionOnce(message, 'SHOW_INVISIBLE_ACCOUNT_ADDRESS')) return
-          await action.handler(runtime, message, { values: {}, data: {}, text: '' }, {}, callback, [])
+        let actionName: string
+        if (classifyConfirmationReply(text) && pendingOperations.isAwaitingReply(roomId, entityId)) {
+          // "sí" / "cancelar" para la operación que espera confirmación
+          actionName = CONFIRM_ACTION
+        } else if (isClear) {
+          actionName = INTENT_ACTIONS[intent.intent as Exclude<Intent, 'none'>]
+        } else if (getTransferDraft(transferDraftKey(roomId, entityId))) {
+          // Respuesta a una pregunta de seguimiento de una transferencia a medio pedir
+          actionName = INTENT_ACTIONS.transfer
+        } else if (getTokenLaunchDraft(tokenLaunchDraftKey(roomId, entityId))) {
+          // Respuesta a una pregunta del lanzamiento de un token (nombre, símbolo, suministro, destino)
+          actionName = INTENT_ACTIONS.deploy_token
+        } else {
+          if (intent.negated) logger.info({ text }, '[Router] negated intent ignored')
           return
         }
 
-        // 5) Balance de la alcancía
-        if (textLower.includes('balance') || textLower.includes('saldo')) {
-          logger.info({ text }, '[Router] SHOW_INVISIBLE_ACCOUNT_BALANCE matched')
-          const action = runtime.actions.find((a: Action) => a.name === 'SHOW_INVISIBLE_ACCOUNT_BALANCE')
-          if (!action?.handler) return
-          if (!shouldRunActionOnce(message, 'SHOW_INVISIBLE_ACCOUNT_BALANCE')) return
-          await action.handler(runtime, message, { values: {}, data: {}, text: '' }, {}, callback, [])
-          return
-        }
+        // Las acciones ya deduplican por mensaje (shouldRunActionOnce)
+        logger.info({ text, intent: intent.intent, confidence: intent.confidence, source: intent.source }, `[Router] ${actionName} matched`)
+        const action = runtime.actions.find((a: Action) => a.name === actionName)
+        if (!action?.handler) return
+        await action.handler(
+          runtime,
+          message,
+          { values: { intent: intent.intent }, data: { intent }, text: '' },
+          { intent },
+          callback,
+          []
+        )
       },
     ],
     VOICE_MESSAGE_RECEIVED: [
@@ -384,7 +796,7 @@ const plugin: Plugin = {
       },
     ],
   },
-  services: [StarterService],
+  services: [StarterService, TelegramStarknetStoreService, ReminderSchedulerService, DepositWatcherService, TxTrackerService, TandaService],
   actions: [
     helloWorldAction,
     {
@@ -394,8 +806,7 @@ const plugin: Plugin = {
         'Crea una cuenta Starknet invisible asociada al usuario (Telegram). Nunca expone la clave privada.',
       validate: async (_runtime, message): Promise<boolean> => {
         if (!message?.entityId) return false;
-        const text = (message.content?.text ?? '').toLowerCase();
-        return text.includes('crear') || text.includes('cuenta') || text.includes('alcancía');
+        return matchesIntent(message, 'create_account');
       },
       handler: async (
         runtime: IAgentRuntime,
@@ -416,19 +827,19 @@ const plugin: Plugin = {
 
           const account = telegramStarknetStore.ensureAccountForEntityId(entityId);
 
-          // Intento de despliegue real (best-effort): si falla por gas, mantenemos la dirección calculada/provisional
-          const deploy = await deploySmartAccountIfPossible(account.privateKeyHex)
-          if (deploy?.address) {
-            telegramStarknetStore.setAccountAddress(entityId, deploy.address)
-          }
+          // Solo se despliega si la comisión está cubierta (saldo propio o tesorería patrocinadora)
+          const attempt = await deployInvisibleAccount(entityId, {
+            onSubmitted: (txHash) => trackSubmittedTx(message, entityId, 'deploy_account', txHash),
+          })
 
           const addressShown = telegramStarknetStore.getAccountByEntityId(entityId)?.accountAddressHex
           const addressText = addressShown
             ? `Tu dirección de alcancía es: ${addressShown}`
             : 'Te compartiré la dirección cuando esté disponible.'
+          const stateText = `\n${describeDeployAttempt(attempt)}`
 
           await callback({
-            text: `Listo. Creé tu alcancía digital en Starknet (cuenta invisible). ${addressText}`,
+            text: `Listo. Creé tu alcancía digital en Starknet (cuenta invisible). ${addressText}${stateText}`,
             action: 'CREATE_INVISIBLE_STARKNET_ACCOUNT',
             source: message.content.source,
           });
@@ -436,7 +847,7 @@ const plugin: Plugin = {
           return {
             success: true,
             text: 'Invisible account ready',
-            values: { createdAtMs: account.createdAtMs },
+            values: { createdAtMs: account.createdAtMs, lifecycle: telegramStarknetStore.getAccountByEntityId(entityId)?.lifecycle.state },
             data: { entityId },
           } as ActionResult;
         } catch (error) {
@@ -460,13 +871,51 @@ const plugin: Plugin = {
       ],
     },
 
+    {
+      name: 'RETRY_ACCOUNT_DEPLOY',
+      similes: ['ACTIVATE_ACCOUNT', 'ACTIVAR_ALCANCIA', 'DEPLOY_ACCOUNT'],
+      description:
+        'Activa (despliega) la alcancía en Starknet retomando su estado guardado: útil cuando ya llegaron fondos para la comisión o el intento anterior falló.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        if (!message?.entityId) return false;
+        return matchesIntent(message, 'activate_account');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'RETRY_ACCOUNT_DEPLOY'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult;
+        const entityId = String(message.entityId ?? '');
+        try {
+          const attempt = await deployInvisibleAccount(entityId, {
+            onSubmitted: (txHash) => trackSubmittedTx(message, entityId, 'deploy_account', txHash),
+          });
+          if (attempt.status === 'skipped' && attempt.reason === 'no_account') {
+            if (shouldWarnNoAccount(entityId, 'activate') && callback)
+              await callback({ text: 'Primero crea tu alcancía con: "crear alcancía"' });
+            return { success: false, text: 'no account' } as ActionResult;
+          }
+          if (callback) await callback({ text: describeDeployAttempt(attempt), action: 'RETRY_ACCOUNT_DEPLOY', source: message.content.source });
+          const lifecycle = attempt.account?.lifecycle.state;
+          return { success: lifecycle === 'deployed' || lifecycle === 'deploying', text: `account ${lifecycle}`, values: { lifecycle } } as ActionResult;
+        } catch (error) {
+          logger.error({ error }, 'RETRY_ACCOUNT_DEPLOY failed');
+          if (callback) await callback({ text: 'No pude activar tu alcancía ahora. Inténtalo más tarde.' });
+          return { success: false, error: error instanceof Error ? error : new Error(String(error)) } as ActionResult;
+        }
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Ya deposité, activa mi alcancía' } },
+          { name: '{{name2}}', content: { text: 'Tu alcancía ya está activa en Starknet.', actions: ['RETRY_ACCOUNT_DEPLOY'] } },
+        ],
+      ],
+    },
+
     {
       name: 'SHOW_INVISIBLE_ACCOUNT_ADDRESS',
       similes: ['SHOW_ADDRESS', 'ADDRESS', 'DIRECCION_ALCANCIA'],
       description: 'Muestra la dirección pública de la alcancía digital en Starknet.',
       validate: async (_runtime, message): Promise<boolean> => {
-        const t = (message.content?.text ?? '').toLowerCase();
-        return t.includes('dirección') || t.includes('direccion') || t.includes('address') || t.includes('alcancía');
+        return matchesIntent(message, 'show_address');
       },
       handler: async (
         _runtime: IAgentRuntime,
@@ -492,7 +941,7 @@ const plugin: Plugin = {
           await callback({ text: 'Tu alcancía está creada, pero aún no tengo la dirección disponible.' });
           return { success: true, text: 'address not available yet' } as ActionResult;
         }
-        await callback({ text: `Tu dirección de alcancía es: ${acc.accountAddressHex}` });
+        await callback({ text: `Tu dirección de alcancía es: ${acc.accountAddressHex}\n${describeLifecycle(acc.lifecycle)}` });
         return { success: true, text: 'address shown' } as ActionResult;
       },
       examples: [
@@ -505,11 +954,10 @@ const plugin: Plugin = {
 
     {
       name: 'SHOW_INVISIBLE_ACCOUNT_BALANCE',
-      similes: ['BALANCE', 'ETH_BALANCE', 'MOSTRAR_BALANCE'],
-      description: 'Muestra el balance de ETH de la alcancía en Starknet.',
+      similes: ['BALANCE', 'ETH_BALANCE', 'TOKEN_BALANCE', 'MOSTRAR_BALANCE'],
+      description: 'Muestra el saldo de cada token (ETH, STRK, USDC, USDT y meme tokens propios) de la alcancía en Starknet.',
       validate: async (_runtime, message): Promise<boolean> => {
-        const t = (message.content?.text ?? '').toLowerCase();
-        return t.includes('balance') || t.includes('saldo')
+        return matchesIntent(message, 'show_balance');
       },
       handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
         if (!shouldRunActionOnce(message, 'SHOW_INVISIBLE_ACCOUNT_BALANCE'))
@@ -526,15 +974,63 @@ const plugin: Plugin = {
           return { success: false, text: 'no address' } as ActionResult;
         }
 
-        const wei = await getEthBalanceWei(acc.accountAddressHex);
-        const eth = formatWeiToEth(wei);
-        if (callback) await callback({ text: `Balance de tu alcancía: ${eth} ETH` });
-        return { success: true, text: 'balance shown', values: { wei: (wei ?? 0n).toString() } } as ActionResult;
+        // "saldo USDC" → solo ese token; "saldo" → todos los que conocemos para este usuario
+        const tokens = tokenRegistry.list(entityId);
+        const words = normalizeIntentText(message.content?.text ?? '').toUpperCase().split(/[\s,.]+/);
+        const requested = tokens.find((token) => words.includes(token.symbol.toUpperCase()));
+        const balances = await getTokenBalances(acc.accountAddressHex, requested ? [requested] : tokens, { entityId });
+
+        const formatBalance = ({ balance, decimals }: TokenBalance) =>
+          balance === undefined || decimals === undefined ? 'N/D' : formatUnits(balance, decimals);
+
+        // Equivalente en pesos (y dólares) si hay oráculo de precios configurado
+        const known = balances.filter((b) => b.balance !== undefined && b.decimals !== undefined);
+        const amounts = known.map((b) => ({ symbol: b.token.symbol, amount: Number(formatUnits(b.balance!, b.decimals!)) }));
+        const oracle = getPriceOracle();
+        const [mxn, usd] = oracle
+          ? await Promise.all([oracle.valuate(amounts, 'MXN'), oracle.valuate(amounts, 'USD')])
+          : [undefined, undefined];
+        const fiatFor = (symbol: string) => {
+          const item = mxn?.items.find((i) => i.symbol === symbol);
+          if (item?.value === undefined) return '';
+          return ` ≈ ${formatFiat(item.value, 'MXN')}${item.quote?.stale ? ' ⚠️' : ''}`;
+        };
+
+        const starkName = await getStarknetIdResolver().nameOf(acc.accountAddressHex);
+        const owner = starkName ? ` (${starkName})` : '';
+        const lines = requested
+          ? [`Saldo de ${requested.symbol} en tu alcancía${owner}: ${formatBalance(balances[0])}${fiatFor(requested.symbol)}`]
+          : [`Saldos de tu alcancía${owner}:`, ...balances.map((b) => `• ${b.token.symbol} (${b.token.name}): ${formatBalance(b)}${fiatFor(b.token.symbol)}`)];
+        if (mxn && usd && mxn.items.some((i) => i.value !== undefined)) {
+          if (!requested) lines.push(`Total ≈ ${formatFiat(mxn.total, 'MXN')} (${formatFiat(usd.total, 'USD')})`);
+          if (mxn.missing.length > 0) lines.push(`Sin precio para: ${mxn.missing.join(', ')} (no se incluye en el total).`);
+          if (mxn.stale) lines.push('⚠️ Algunos precios están desactualizados; los montos en pesos son aproximados.');
+        } else if (oracle && amounts.some((a) => a.amount > 0)) {
+          lines.push('Por ahora no tengo precios para mostrarte el equivalente en pesos.');
+        }
+        if (callback) await callback({ text: lines.join('\n') });
+        return {
+          success: true,
+          text: 'balance shown',
+          values: {
+            ...Object.fromEntries(balances.map((b) => [b.token.symbol, (b.balance ?? 0n).toString()])),
+            ...(mxn ? { totalMxn: mxn.total, totalUsd: usd?.total } : {}),
+          },
+        } as ActionResult;
       },
       examples: [
         [
           { name: '{{name1}}', content: { text: '¿Cuál es mi balance?' } },
-          { name: '{{name2}}', content: { text: 'Balance de tu alcancía: 0.0 ETH' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Saldos de tu alcancía:\n• ETH (Ether): 0.01 ≈ $550.00 MXN\n• STRK (Starknet Token): 5 ≈ $45.00 MXN\n• USDC (USD Coin): 0 ≈ $0.00 MXN\nTotal ≈ $595.00 MXN ($32.50 USD)',
+            },
+          },
+        ],
+        [
+          { name: '{{name1}}', content: { text: 'saldo USDC' } },
+          { name: '{{name2}}', content: { text: 'Saldo de USDC en tu alcancía: 12.5' } },
         ],
       ],
     },
@@ -542,16 +1038,15 @@ const plugin: Plugin = {
     {
       name: 'TRANSFER_STARKNET_TOKENS_INVISIBLE',
       similes: ['TRANSFER_TOKEN', 'SEND_TOKENS', 'ENVIAR_TOKENS'],
-      description: 'Transfiere tokens desde la cuenta invisible del usuario sin exponer claves.',
+      description: 'Transfiere tokens desde la cuenta invisible del usuario sin exponer claves, a una dirección 0x…, a un @usuario del bot o a un contacto guardado.',
       validate: async (_runtime, message): Promise<boolean> => {
-        const text = (message.content?.text ?? '').toLowerCase();
-        return text.includes('enviar') || text.includes('transfer');
+        return matchesIntent(message, 'transfer');
       },
       handler: async (
         runtime: IAgentRuntime,
         message: Memory,
         _state: State,
-        _options: any,
+        options: any,
         callback: HandlerCallback,
         _responses?: Memory[]
       ): Promise<ActionResult> => {
@@ -571,50 +1066,43 @@ const plugin: Plugin = {
             return { success: false, text: 'no account' } as ActionResult;
           }
 
-          const transferAction = runtime.actions.find((a: Action) => a.name === 'TRANSFER_TOKEN');
-          if (!transferAction) {
-            await callback({ text: 'Acción de transferencia no disponible.' });
-            return { success: false, text: 'TRANSFER_TOKEN not found' } as ActionResult;
+          // Monto, token y destinatario estructurados; si falta algo, preguntamos antes de ejecutar
+          const draftKey = transferDraftKey(message.roomId ? String(message.roomId) : undefined, entityId);
+          // Un dominio .stark se consulta en Starknet ID antes de interpretar el resto
+          const domain = findStarkDomain(message.content?.text ?? '');
+          const domains = domain ? new Map([[domain, await getStarknetIdResolver().resolveDomain(domain)]]) : undefined;
+          const parse = (fiatQuote?: OracleQuote) =>
+            parseTransferRequest(
+              message.content?.text ?? '',
+              getTransferDraft(draftKey),
+              tokenRegistry.list(entityId),
+              recipientResolver(entityId, { domains }),
+              fiatQuote
+            );
+          let parsed = options?.intent?.negated ? ({ status: 'cancelled' } as const) : parse();
+          // "cien pesos en USDC": con el precio actual del token se vuelve a interpretar ya convertido
+          if (parsed.status === 'incomplete' && parsed.draft.fiat && parsed.draft.amountText && parsed.draft.tokenSymbol) {
+            const quote = await getPriceOracle()?.getQuote(parsed.draft.tokenSymbol, parsed.draft.fiat);
+            if (quote) parsed = parse(quote);
           }
-          if (!transferAction.handler) {
-            await callback({ text: 'Handler de TRANSFER_TOKEN no disponible.' });
-            return { success: false, text: 'TRANSFER_TOKEN handler missing' } as ActionResult;
+          if (parsed.status === 'cancelled') {
+            clearTransferDraft(draftKey);
+            await callback({ text: 'Listo, no envío nada. Tu alcancía sigue intacta 🐷' });
+            return { success: true, text: 'transfer cancelled' } as ActionResult;
           }
+          if (parsed.status === 'incomplete') {
+            saveTransferDraft(draftKey, parsed.draft);
+            await callback({ text: parsed.question, action: 'TRANSFER_STARKNET_TOKENS_INVISIBLE', source: message.content.source });
+            return {
+              success: true,
+              text: 'transfer needs more details',
+              values: { missing: parsed.missing.join(',') },
+            } as ActionResult;
+          }
+          clearTransferDraft(draftKey);
+          const transfer = parsed.intent;
 
-          const subMessage: Memory = {
-            ...message,
-            content: {
-              ...message.content,
-              action: 'TRANSFER_TOKEN',
-            } as Content,
-          } as Memory;
-
-          let acknowledged = false;
-          const subCallback: HandlerCallback = async (response: Content) => {
-            acknowledged = true;
-            const maybeText = response?.text ?? ''
-            const addressMatch = /0x[0-9a-fA-F]{40,66}/.exec(maybeText)
-            if (addressMatch) telegramStarknetStore.setAccountAddress(entityId, addressMatch[0])
-            await callback({
-              text: response?.text ?? 'Transferencia procesada.',
-              action: 'TRANSFER_STARKNET_TOKENS_INVISIBLE',
-              source: message.content.source,
-            });
-            return [];
-          };
-
-          await transferAction.handler(
-            runtime,
-            subMessage,
-            _state,
-            { starknet: { privateKeyHex: account.privateKeyHex, accountAlias: entityId } },
-            subCallback,
-            []
-          );
-
-          if (!acknowledged) await callback({ text: 'Se inició la transferencia. Te aviso cuando se confirme.' });
-
-          return { success: true, text: 'transfer requested' } as ActionResult;
+          return await proposeTransfer(message, entityId, transfer, callback);
         } catch (error) {
           logger.error({ error }, 'TRANSFER_STARKNET_TOKENS_INVISIBLE failed');
           await callback({ text: 'No pude realizar la transferencia ahora.' });
@@ -623,11 +1111,11 @@ const plugin: Plugin = {
       },
       examples: [
         [
-          { name: '{{name1}}', content: { text: 'Envía 1 MEME a 0xabc...' } },
+          { name: '{{name1}}', content: { text: 'Envía 1 STRK a 0xabc...' } },
           {
             name: '{{name2}}',
             content: {
-              text: 'Se inició la transferencia. Te aviso cuando se confirme.',
+              text: 'Vas a enviar:\n• Monto: 1 STRK\n• Destino: 0x…abc\n• Comisión estimada: ~0.0001 ETH\n\n¿Confirmas? Responde "sí" para continuar o "cancelar" (tienes 2 minutos).',
               actions: ['TRANSFER_STARKNET_TOKENS_INVISIBLE'],
             },
           },
@@ -637,17 +1125,17 @@ const plugin: Plugin = {
 
     {
       name: 'DEPLOY_MEME_TOKEN_INVISIBLE',
-      similes: ['DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN'],
-      description: 'Envuelve el despliegue de token meme usando la acción del plugin, ocultando claves.',
+      similes: ['LAUNCH_TOKEN', 'DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN', 'LANZAR_TOKEN'],
+      description:
+        'Lanza un meme token con la fábrica configurada: pregunta nombre, símbolo, suministro y quién lo recibe, confirma y lo firma con la alcancía.',
       validate: async (_runtime, message): Promise<boolean> => {
-        const text = (message.content?.text ?? '').toLowerCase();
-        return text.includes('crear token') || text.includes('meme token') || text.includes('lanzar token');
+        return matchesIntent(message, 'deploy_token');
       },
       handler: async (
-        runtime: IAgentRuntime,
+        _runtime: IAgentRuntime,
         message: Memory,
         _state: State,
-        _options: any,
+        options: any,
         callback: HandlerCallback,
         _responses?: Memory[]
       ): Promise<ActionResult> => {
@@ -661,75 +1149,951 @@ const plugin: Plugin = {
           }
 
           const account = telegramStarknetStore.getAccountByEntityId(entityId);
-          if (!account) {
+          if (!account?.accountAddressHex) {
             if (shouldWarnNoAccount(entityId, 'deploy') && callback)
               await callback({ text: 'Primero crea tu alcancía digital con: "crear alcancía"' });
             return { success: false, text: 'no account' } as ActionResult;
           }
+          const factory = tokenFactoryConfig();
+          if (!factory) {
+            await callback({ text: 'Por ahora no puedo lanzar tokens: falta configurar la fábrica de tokens del agente.' });
+            return { success: false, text: 'token factory not configured' } as ActionResult;
+          }
 
-          const deployAction = runtime.actions.find(
-            (a: Action) => a.name === 'DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN'
-          );
-          if (!deployAction) {
-            await callback({ text: 'Acción de despliegue no disponible.' });
-            return { success: false, text: 'DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN not found' } as ActionResult;
+          // Nombre, símbolo, suministro y destino; si falta algo, preguntamos antes de proponer
+          const draftKey = tokenLaunchDraftKey(message.roomId ? String(message.roomId) : undefined, entityId);
+          const parsed = options?.intent?.negated
+            ? ({ status: 'cancelled' } as const)
+            : parseTokenLaunchRequest(message.content?.text ?? '', getTokenLaunchDraft(draftKey), {
+                ownAddress: account.accountAddressHex,
+                tokens: tokenRegistry.list(entityId),
+              });
+          if (parsed.status === 'cancelled') {
+            clearTokenLaunchDraft(draftKey);
+            await callback({ text: 'Listo, no lanzo ningún token.' });
+            return { success: true, text: 'token launch cancelled' } as ActionResult;
           }
-          if (!deployAction.handler) {
-            await callback({ text: 'Handler de despliegue no disponible.' });
-            return { success: false, text: 'DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN handler missing' } as ActionResult;
+          if (parsed.status === 'incomplete') {
+            saveTokenLaunchDraft(draftKey, parsed.draft);
+            await callback({ text: parsed.question, action: 'DEPLOY_MEME_TOKEN_INVISIBLE', source: message.content.source });
+            return {
+              success: true,
+              text: 'token launch needs more details',
+              values: { missing: parsed.missing.join(',') },
+            } as ActionResult;
           }
+          clearTokenLaunchDraft(draftKey);
+          const spec = parsed.spec;
+
+          // El salt se fija aquí: la comisión estimada es la de la misma llamada que se firma al confirmar
+          const call = tokenLaunchCall(spec, factory, randomLaunchSalt());
+          const fee = await estimateInvokeFeeWei(getAccountSigner(entityId), account.accountAddressHex, [call]);
+          const summary = ['Vas a lanzar un token:', ...describeTokenLaunch(spec), `• Comisión estimada: ${describeFee(fee)}`].join('\n');
+          const { replaced } = pendingOperations.propose({
+            kind: 'deploy_token',
+            roomId: message.roomId ? String(message.roomId) : undefined,
+            entityId,
+            summary,
+            execute: (reply) => executeTokenLaunch(message, entityId, spec, call, reply),
+          });
+          await callback({
+            text: confirmationPrompt(summary, replaced),
+            action: 'DEPLOY_MEME_TOKEN_INVISIBLE',
+            source: message.content.source,
+          });
 
-          const subMessage: Memory = {
-            ...message,
+          return { success: true, text: 'token launch awaiting confirmation', values: { symbol: spec.symbol } } as ActionResult;
+        } catch (error) {
+          logger.error({ error }, 'DEPLOY_MEME_TOKEN_INVISIBLE failed');
+          await callback({ text: 'No pude lanzar el token ahora.' });
+          return { success: false, error: error instanceof Error ? error : new Error(String(error)) } as ActionResult;
+        }
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Crea un meme token llamado "Pepe Coin" con símbolo PEPE y 1 millón de tokens para mí' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Vas a lanzar un token:\n• Nombre: Pepe Coin\n• Símbolo: PEPE\n• Suministro: 1000000 PEPE\n• Los recibe: tu alcancía (0x…), que queda como dueña del token\n• Comisión estimada: ~0.0002 ETH\n\n¿Confirmas? Responde "sí" para continuar o "cancelar" (tienes 2 minutos).',
+              actions: ['DEPLOY_MEME_TOKEN_INVISIBLE'],
+            },
+          },
+        ],
+        [
+          { name: '{{name1}}', content: { text: 'Quiero lanzar un token' } },
+          {
+            name: '{{name2}}',
             content: {
-              ...message.content,
-              action: 'DEPLOY_STARKNET_UNRUGGABLE_MEME_TOKEN',
-            } as Content,
-          } as Memory;
-
-          const subCallback: HandlerCallback = async (response: Content) => {
-            const maybeText = response?.text ?? ''
-            const addressMatch = /0x[0-9a-fA-F]{40,66}/.exec(maybeText)
-            if (addressMatch) telegramStarknetStore.setAccountAddress(entityId, addressMatch[0])
+              text: '¿Cómo se va a llamar tu token? (por ejemplo: "Pepe Coin") (Escribe "cancelar" para no lanzar nada.)',
+              actions: ['DEPLOY_MEME_TOKEN_INVISIBLE'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'SHOW_TRANSACTION_HISTORY',
+      similes: ['MOVIMIENTOS', 'HISTORIAL', 'TRANSACTION_HISTORY'],
+      description: 'Lista los envíos y depósitos recientes de la alcancía (todos los tokens registrados), 10 por página.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'show_history');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'SHOW_TRANSACTION_HISTORY'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+        const acc = telegramStarknetStore.getAccountByEntityId(entityId);
+        if (!acc?.accountAddressHex) {
+          if (shouldWarnNoAccount(entityId, 'history') && callback)
+            await callback({ text: 'Primero crea tu alcancía con: "crear alcancía"' });
+          return { success: false, text: 'no address' } as ActionResult;
+        }
+
+        const page = requestedHistoryPage(normalizeIntentText(message.content?.text ?? ''), lastHistoryPage.get(entityId));
+        // Solo la primera página consulta la red; las siguientes hojean lo ya indexado
+        let synced = page !== 1;
+        const provider = page === 1 ? createStarknetProvider() : undefined;
+        if (provider) {
+          try {
+            await indexTransfers(entityId, acc.accountAddressHex, { provider, tokens: tokenRegistry.list(entityId) });
+            synced = true;
+          } catch (error) {
+            logger.error({ error: error instanceof Error ? error.message : String(error) }, '[History] sync failed');
+          }
+        }
+
+        const entries = transactionHistoryStore.list(entityId);
+        if (entries.length === 0) {
+          const text = synced
+            ? 'Aún no hay movimientos en tu alcancía.'
+            : 'No pude consultar tus movimientos en la red ahora. Intenta más tarde.';
+          if (callback) await callback({ text });
+          return { success: synced, text: 'no history' } as ActionResult;
+        }
+
+        const current = paginateHistory(entries, page);
+        lastHistoryPage.set(entityId, current.page);
+        const timeZone = reminderStore.list(entityId)[0]?.timeZone ?? defaultTimeZone();
+        // Dominio .stark de la contraparte, si tiene uno
+        const names = await getStarknetIdResolver().namesOf(
+          current.entries.filter((entry) => entry.direction !== 'self').map((entry) => (entry.direction === 'in' ? entry.from : entry.to))
+        );
+        const lines = [
+          current.totalPages > 1 ? `Tus movimientos (página ${current.page} de ${current.totalPages}):` : 'Tus movimientos:',
+          ...current.entries.map(
+            (entry) =>
+              `• ${entry.timestampMs !== undefined ? `${formatLocalDateTime(entry.timestampMs, timeZone)} — ` : ''}${describeHistoryEntry(entry, names)}`
+          ),
+        ];
+        if (!synced) lines.push('⚠️ No pude actualizar desde la red; puede faltar lo más reciente.');
+        if (current.page < current.totalPages) lines.push('Escribe "más movimientos" para ver los anteriores.');
+        if (callback) await callback({ text: lines.join('\n') });
+        return {
+          success: true,
+          text: 'history shown',
+          values: { page: current.page, totalPages: current.totalPages, entries: current.entries.length },
+        } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'mis movimientos' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Tus movimientos:\n• lunes 19 de octubre, 14:32 — Recibiste 5 USDC de 0x53c9…68a8\n• viernes 16 de octubre, 09:10 — Enviaste 0.01 ETH a 0x1234…abcd',
+              actions: ['SHOW_TRANSACTION_HISTORY'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'CREATE_SAVINGS_GOAL',
+      similes: ['NUEVA_META', 'META_DE_AHORRO', 'SAVINGS_GOAL'],
+      description: 'Crea una meta de ahorro (monto, moneda y fecha) a partir de una frase como "quiero ahorrar 5000 pesos para diciembre".',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'create_goal');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'CREATE_SAVINGS_GOAL'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        const parsed = parseGoalRequest(message.content?.text ?? '');
+        if (parsed.status === 'incomplete') {
+          if (callback) await callback({ text: parsed.question });
+          return { success: false, text: 'goal needs more details' } as ActionResult;
+        }
+
+        const goal = savingsGoalStore.create(entityId, parsed.goal);
+        const [progress] = (await getGoalsProgress(entityId, { fresh: true })).filter((p) => p.goal.id === goal.id);
+        const lines = [
+          `¡Anotado! Meta "${goal.title}": ${formatGoalAmount(Number(goal.targetAmount), goal.currency)}${
+            goal.deadlineMs !== undefined ? ` para el ${formatGoalDate(goal.deadlineMs)}` : ''
+          }.`,
+        ];
+        if (progress?.saved !== undefined) lines.push(describeGoalProgress(progress));
+        if (!telegramStarknetStore.getAccountByEntityId(entityId))
+          lines.push('Para medir tu avance, crea tu alcancía digital con: "crear alcancía".');
+        if (callback) await callback({ text: lines.join('\n') });
+        return { success: true, text: 'goal created', values: { goalId: goal.id } } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Quiero ahorrar 5000 pesos para diciembre' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: '¡Anotado! Meta "Ahorro para el 31 de diciembre de 2026": $5,000.00 MXN para el 31 de diciembre de 2026.',
+              actions: ['CREATE_SAVINGS_GOAL'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'SHOW_SAVINGS_GOALS',
+      similes: ['MIS_METAS', 'GOAL_PROGRESS'],
+      description: 'Muestra las metas de ahorro del usuario y cuánto lleva de cada una según el saldo de su alcancía.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'show_goals');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'SHOW_SAVINGS_GOALS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        const progress = await getGoalsProgress(entityId, { fresh: true });
+        const text =
+          progress.length === 0
+            ? 'Aún no tienes metas de ahorro. Dime por ejemplo: "quiero ahorrar 5000 pesos para diciembre".'
+            : ['Tus metas de ahorro:', ...progress.map(describeGoalProgress)].join('\n');
+        if (callback) await callback({ text });
+        return { success: true, text: 'goals shown', values: { goals: progress.length } } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: '¿Cómo va mi meta?' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Tus metas de ahorro:\n• Bici: $1,200.00 MXN de $5,000.00 MXN (24%) — faltan 38 días — ~$700.00 MXN por semana',
+              actions: ['SHOW_SAVINGS_GOALS'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'CREATE_SAVINGS_REMINDER',
+      similes: ['RECORDATORIO', 'RECUERDAME', 'SAVINGS_REMINDER'],
+      description: 'Programa un recordatorio recurrente ("recuérdame ahorrar cada viernes a las 6 pm") en la zona horaria del usuario.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'create_reminder');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'CREATE_SAVINGS_REMINDER'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        // Se respeta la zona que el usuario ya usó en otro recordatorio
+        const parsed = parseReminderRequest(message.content?.text ?? '', reminderStore.list(entityId)[0]?.timeZone);
+        if (parsed.status === 'incomplete') {
+          if (callback) await callback({ text: parsed.question });
+          return { success: false, text: 'reminder needs more details' } as ActionResult;
+        }
+
+        const target = {
+          source: String(message.content?.source ?? 'telegram'),
+          ...(message.roomId ? { roomId: String(message.roomId) } : {}),
+        };
+        const reminder = reminderStore.create(entityId, target, parsed.reminder);
+        const text = [
+          `Listo, te recordaré ${reminder.text} ${describeSchedule(reminder.schedule)} (hora de ${reminder.timeZone}).`,
+          `El primero llega el ${formatLocalDateTime(reminder.nextRunMs, reminder.timeZone)}.`,
+        ].join('\n');
+        if (callback) await callback({ text });
+        return { success: true, text: 'reminder created', values: { reminderId: reminder.id } } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Recuérdame ahorrar cada viernes a las 6 pm' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Listo, te recordaré ahorrar cada viernes a las 18:00 (hora de America/Mexico_City).\nEl primero llega el viernes 23 de octubre, 18:00.',
+              actions: ['CREATE_SAVINGS_REMINDER'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'MANAGE_SAVINGS_REMINDERS',
+      similes: ['MIS_RECORDATORIOS', 'PAUSAR_RECORDATORIOS', 'LIST_REMINDERS'],
+      description: 'Lista, pausa, reanuda o borra los recordatorios de ahorro del usuario (todos o uno por número).',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'manage_reminders');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'MANAGE_SAVINGS_REMINDERS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        const reminders = reminderStore.list(entityId);
+        if (reminders.length === 0) {
+          if (callback)
+            await callback({ text: 'No tienes recordatorios. Pídeme uno así: "recuérdame ahorrar cada viernes a las 6 pm".' });
+          return { success: true, text: 'no reminders' } as ActionResult;
+        }
+
+        const command = parseReminderCommand(message.content?.text ?? '');
+        if (command.kind === 'list') {
+          if (callback) await callback({ text: ['Tus recordatorios:', ...reminders.map((r, i) => describeReminder(r, i + 1))].join('\n') });
+          return { success: true, text: 'reminders listed', values: { reminders: reminders.length } } as ActionResult;
+        }
+
+        // Sin número aplica a todos; los números son los de la lista
+        const selected = command.index === undefined ? reminders : [reminders[command.index - 1]].filter(Boolean);
+        if (selected.length === 0) {
+          if (callback) await callback({ text: `No tienes un recordatorio número ${command.index}. Escribe "mis recordatorios" para ver la lista.` });
+          return { success: false, text: 'reminder not found' } as ActionResult;
+        }
+        for (const reminder of selected) {
+          if (command.kind === 'pause') reminderStore.pause(entityId, reminder.id);
+          else if (command.kind === 'resume') reminderStore.resume(entityId, reminder.id);
+          else reminderStore.remove(entityId, reminder.id);
+        }
+        const verb = { pause: 'Pausé', resume: 'Reanudé', delete: 'Borré' }[command.kind];
+        const which = selected.length === 1 ? `el recordatorio "${selected[0].text}"` : `tus ${selected.length} recordatorios`;
+        if (callback) await callback({ text: `${verb} ${which}.` });
+        return { success: true, text: `reminders ${command.kind}d`, values: { reminders: selected.length } } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Pausa mis recordatorios' } },
+          {
+            name: '{{name2}}',
+            content: { text: 'Pausé el recordatorio "ahorrar".', actions: ['MANAGE_SAVINGS_REMINDERS'] },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'MANAGE_SPENDING_LIMITS',
+      similes: ['MIS_LIMITES', 'LIMITE_DE_ENVIO', 'LISTA_DE_CONFIANZA', 'SPENDING_LIMITS'],
+      description:
+        'Muestra o cambia las reglas de envío del usuario: máximo por envío, topes diarios y semanales por token, lista de confianza y espera para direcciones nuevas.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'manage_limits');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'MANAGE_SPENDING_LIMITS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        const command = parsePolicyCommand(message.content?.text ?? '', tokenRegistry.list(entityId));
+        if (command.kind === 'show') {
+          if (callback) await callback({ text: describePolicy(spendingPolicies.policy(entityId), globalPolicy()) });
+          return { success: true, text: 'policy shown' } as ActionResult;
+        }
+        if (command.kind === 'invalid') {
+          if (callback) await callback({ text: command.question });
+          return { success: false, text: 'policy command needs more details' } as ActionResult;
+        }
+
+        // Apretar las reglas aplica de inmediato; aflojarlas pide el "sí" del dueño, como un envío
+        if (!isLoosening(spendingPolicies.policy(entityId), command)) {
+          spendingPolicies.apply(entityId, command);
+          if (callback) await callback({ text: describePolicyChange(command) });
+          return { success: true, text: 'policy updated', values: { change: command.kind } } as ActionResult;
+        }
+        const summary = `Vas a aflojar tus reglas de envío:\n• ${describePolicyChange(command).replace(/^Listo: /, '')}`;
+        const { replaced } = pendingOperations.propose({
+          kind: 'policy_change',
+          roomId: message.roomId ? String(message.roomId) : undefined,
+          entityId,
+          summary,
+          execute: async (reply) => {
+            spendingPolicies.apply(entityId, command);
+            await reply({ text: describePolicyChange(command) });
+            return { success: true, text: 'policy updated', values: { change: command.kind } } as ActionResult;
+          },
+        });
+        if (callback) await callback({ text: confirmationPrompt(summary, replaced) });
+        return { success: true, text: 'policy change awaiting confirmation' } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Pon un límite diario de 0.05 ETH' } },
+          {
+            name: '{{name2}}',
+            content: { text: 'Listo: tu límite diario de ETH es 0.05.', actions: ['MANAGE_SPENDING_LIMITS'] },
+          },
+        ],
+        [
+          { name: '{{name1}}', content: { text: 'mis límites' } },
+          {
+            name: '{{name2}}',
+            content: { text: 'Tus reglas de envío:\n• Sin límites de monto.\n• Lista de confianza vacía.', actions: ['MANAGE_SPENDING_LIMITS'] },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'LOCK_SAVINGS',
+      similes: ['ALCANCIA_DE_BARRO', 'BLOQUEAR_AHORRO', 'TIME_LOCK'],
+      description:
+        'Guarda una parte del saldo en la "alcancía de barro": no se puede enviar hasta una fecha o hasta cumplir una meta de ahorro.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'lock_savings');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'LOCK_SAVINGS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+        if (!telegramStarknetStore.getAccountByEntityId(entityId)) {
+          if (callback) await callback({ text: 'Primero crea tu alcancía digital con: "crear alcancía"' });
+          return { success: false, text: 'no account' } as ActionResult;
+        }
+
+        const parsed = parseLockRequest(message.content?.text ?? '', tokenRegistry.list(entityId), savingsGoalStore.list(entityId));
+        if (parsed.status === 'incomplete') {
+          if (callback) await callback({ text: parsed.question });
+          return { success: false, text: 'lock needs more details' } as ActionResult;
+        }
+        // Bloquear solo aprieta las reglas: aplica sin confirmación
+        const lock = savingsLocks.lock(entityId, parsed.lock);
+        const position = savingsLocks.active(entityId).findIndex((l) => l.id === lock.id) + 1;
+        if (callback)
+          await callback({
+            text: [
+              `🏺 Guardé ${formatLockAmount(lock)} en tu alcancía de barro:`,
+              describeLock(lock, position),
+              'No podrás enviarlos antes. Si de verdad lo necesitas, escribe "romper alcancía de barro" (hay una espera de seguridad).',
+            ].join('\n'),
+          });
+        return { success: true, text: 'savings locked', values: { lockId: lock.id } } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Guarda 100 STRK hasta diciembre' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: '🏺 Guardé 100 STRK en tu alcancía de barro:\n1. 100 STRK hasta el 31 de diciembre de 2026',
+              actions: ['LOCK_SAVINGS'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'MANAGE_SAVINGS_LOCKS',
+      similes: ['MIS_BLOQUEOS', 'ROMPER_ALCANCIA', 'EMERGENCY_UNLOCK'],
+      description:
+        'Lista el ahorro bloqueado del usuario y maneja el desbloqueo de emergencia (espera de seguridad y luego confirmación explícita).',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'manage_locks');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'MANAGE_SAVINGS_LOCKS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+
+        const locks = savingsLocks.active(entityId);
+        if (locks.length === 0) {
+          if (callback) await callback({ text: 'No tienes nada en tu alcancía de barro. Prueba: "guarda 100 STRK hasta diciembre".' });
+          return { success: true, text: 'no locks' } as ActionResult;
+        }
+
+        const command = parseLockCommand(message.content?.text ?? '');
+        if (command.kind === 'list') {
+          if (callback) await callback({ text: ['Tu alcancía de barro:', ...locks.map((lock, i) => describeLock(lock, i + 1))].join('\n') });
+          return { success: true, text: 'locks listed', values: { locks: locks.length } } as ActionResult;
+        }
+        if (command.kind === 'cancel_emergency') {
+          const cancelled = savingsLocks.cancelEmergency(entityId);
+          if (callback)
+            await callback({ text: cancelled > 0 ? 'Cancelé el desbloqueo de emergencia; tu ahorro sigue guardado. 🏺' : 'No tenías un desbloqueo pendiente.' });
+          return { success: true, text: 'emergency unlock cancelled' } as ActionResult;
+        }
+
+        const step = savingsLocks.requestEmergencyUnlock(entityId, { index: command.index });
+        if (step.status === 'none') {
+          if (callback) await callback({ text: `No tienes un ahorro bloqueado número ${command.index}. Escribe "mis bloqueos" para ver la lista.` });
+          return { success: false, text: 'lock not found' } as ActionResult;
+        }
+        if (step.status === 'waiting') {
+          const when = formatLocalDateTime(step.availableAtMs, defaultTimeZone());
+          if (callback)
             await callback({
-              text: response?.text ?? 'Token desplegado en Starknet.',
-              action: 'DEPLOY_MEME_TOKEN_INVISIBLE',
-              source: message.content.source,
+              text: step.requested
+                ? `Anoté tu desbloqueo de emergencia. Por seguridad podrás confirmarlo a partir del ${when}; ese día escribe "romper alcancía de barro" otra vez. Si cambias de opinión: "cancela el desbloqueo".`
+                : `Tu desbloqueo de emergencia estará listo el ${when}. Si cambias de opinión: "cancela el desbloqueo".`,
+            });
+          return { success: true, text: 'emergency unlock waiting', values: { availableAtMs: step.availableAtMs } } as ActionResult;
+        }
+
+        // Terminó la espera: todavía hace falta el "sí" explícito del dueño en esta sala
+        const lockIds = step.locks.map((lock) => lock.id);
+        const summary = ['Vas a romper tu alcancía de barro y liberar:', ...step.locks.map((lock) => `• ${formatLockAmount(lock)}`)].join('\n');
+        const { replaced } = pendingOperations.propose({
+          kind: 'emergency_unlock',
+          roomId: message.roomId ? String(message.roomId) : undefined,
+          entityId,
+          summary,
+          execute: async (reply) => {
+            const broken = savingsLocks.breakLocks(entityId, lockIds);
+            await reply({
+              text:
+                broken.length > 0
+                  ? `Listo, liberé ${broken.map(formatLockAmount).join(' y ')}. Ya puedes usarlos.`
+                  : 'Ese desbloqueo ya no está disponible; pídelo de nuevo si aún lo necesitas.',
             });
-            return [];
-          };
-
-          await deployAction.handler(
-            runtime,
-            subMessage,
-            _state,
-            { starknet: { privateKeyHex: account.privateKeyHex, accountAlias: entityId } },
-            subCallback,
-            []
+            return { success: broken.length > 0, text: 'emergency unlock', values: { broken: broken.length } } as ActionResult;
+          },
+        });
+        if (callback) await callback({ text: confirmationPrompt(summary, replaced) });
+        return { success: true, text: 'emergency unlock awaiting confirmation' } as ActionResult;
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Romper alcancía de barro' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: 'Anoté tu desbloqueo de emergencia. Por seguridad podrás confirmarlo a partir del viernes 23 de octubre, 18:00; ese día escribe "romper alcancía de barro" otra vez.',
+              actions: ['MANAGE_SAVINGS_LOCKS'],
+            },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'MANAGE_TANDA',
+      similes: ['TANDA', 'AHORRO_GRUPAL', 'GROUP_SAVINGS_POOL'],
+      description:
+        'Tandas en un grupo de Telegram: crear (aportación y cada cuándo), invitar, unirse, iniciar, pagar la ronda, ver quién ya pagó y cancelar.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'manage_tanda');
+      },
+      handler: async (runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'MANAGE_TANDA'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+        const reply = async (text: string) => {
+          if (callback) await callback({ text, action: 'MANAGE_TANDA', source: message.content.source });
+        };
+
+        const roomId = message.roomId ? String(message.roomId) : '';
+        if (!roomId || PRIVATE_CHANNEL_TYPES.includes(String(message.content.channelType ?? ''))) {
+          await reply('Las tandas se arman en un grupo: agrégame al grupo con tus amigos y ahí escribe "crear tanda de 100 STRK cada semana".');
+          return { success: false, text: 'tanda needs a group' } as ActionResult;
+        }
+
+        const command = parseTandaCommand(message.content?.text ?? '', tokenRegistry.list(entityId));
+        if (command.kind === 'invalid') {
+          await reply(command.question);
+          return { success: false, text: 'tanda command needs more details' } as ActionResult;
+        }
+        const tanda = tandaStore.forRoom(roomId);
+        const address = telegramStarknetStore.getAccountByEntityId(entityId)?.accountAddressHex;
+        const name = senderName(message);
+
+        if (command.kind === 'create') {
+          if (tanda) {
+            await reply(`Este grupo ya tiene una tanda:\n${describeTanda(tanda)}`);
+            return { success: false, text: 'tanda already exists' } as ActionResult;
+          }
+          if (!address) {
+            await reply('Para organizar una tanda necesitas tu alcancía: escríbeme en privado "crear alcancía".');
+            return { success: false, text: 'no account' } as ActionResult;
+          }
+          const token = tokenRegistry.list(entityId).find((t) => t.symbol.toUpperCase() === command.symbol);
+          if (!token || token.decimals === undefined) {
+            await reply(`Todavía no conozco los decimales de ${command.symbol}; intenta en un momento.`);
+            return { success: false, text: 'token decimals unknown' } as ActionResult;
+          }
+          const contribution = parseContribution(command.amountText, { ...token, decimals: token.decimals });
+          if (contribution === undefined) {
+            await reply(`La aportación debe ser mayor a cero y con máximo ${token.decimals} decimales.`);
+            return { success: false, text: 'invalid contribution' } as ActionResult;
+          }
+          const created = tandaStore.create(
+            {
+              name: command.name ?? defaultTandaName(token.symbol, command.cadence),
+              roomId,
+              target: { source: String(message.content.source ?? 'telegram'), roomId },
+              organizerId: entityId,
+              token: { ...token, decimals: token.decimals },
+              contribution: contribution.toString(),
+              cadence: command.cadence,
+            },
+            { entityId, name, address }
           );
+          await reply(`🤝 ¡Tanda creada! Cada quien aporta ${formatTandaAmount(created, contribution)} ${describeCadence(command.cadence)}.\n${describeTanda(created)}`);
+          return { success: true, text: 'tanda created', values: { tandaId: created.id } } as ActionResult;
+        }
+
+        if (!tanda) {
+          await reply('No hay una tanda en este grupo. Para armar una: "crear tanda de 100 STRK cada semana".');
+          return { success: command.kind === 'status', text: 'no tanda' } as ActionResult;
+        }
+        const isOrganizer = tanda.organizerId === entityId;
+
+        switch (command.kind) {
+          case 'invite': {
+            if (tanda.status !== 'forming') {
+              await reply('La tanda ya empezó; ya no se pueden sumar participantes.');
+              return { success: false, text: 'tanda already started' } as ActionResult;
+            }
+            const invited = tandaStore.invite(tanda.id, command.usernames);
+            await reply(
+              `${(invited.length > 0 ? invited : command.usernames).join(', ')}: ${name} los invita a la tanda "${tanda.name}" ` +
+                `(${formatTandaAmount(tanda, BigInt(tanda.contribution))} ${describeCadence(tanda.cadence)}). ` +
+                'Para entrar escriban "me uno a la tanda"; si aún no tienen alcancía, escríbanme en privado "crear alcancía".'
+            );
+            return { success: true, text: 'tanda invites sent', values: { invited: invited.length } } as ActionResult;
+          }
+          case 'join': {
+            if (!address) {
+              await reply('Para entrar necesitas tu alcancía: escríbeme en privado "crear alcancía" y luego di aquí "me uno a la tanda".');
+              return { success: false, text: 'no account' } as ActionResult;
+            }
+            const result = tandaStore.join(tanda.id, { entityId, name, address });
+            if (result === 'joined')
+              await reply(`${name} entró a la tanda "${tanda.name}" (${tanda.members.length} participantes). Cuando estén todos, quien la organiza escribe "iniciar tanda".`);
+            else if (result === 'already_member') await reply('Ya estás en la tanda.');
+            else await reply('La tanda ya empezó; ya no se pueden sumar participantes.');
+            return { success: result !== 'closed', text: `tanda join ${result}` } as ActionResult;
+          }
+          case 'leave': {
+            if (isOrganizer) {
+              await reply('Tú organizas la tanda; si ya no va, escribe "cancelar tanda".');
+              return { success: false, text: 'organizer cannot leave' } as ActionResult;
+            }
+            const left = tandaStore.leave(tanda.id, entityId);
+            await reply(
+              left
+                ? `${name} salió de la tanda "${tanda.name}".`
+                : tanda.status === 'active'
+                  ? 'La tanda ya empezó: los demás cuentan con tu aportación hasta que todos cobren.'
+                  : 'No estás en esta tanda.'
+            );
+            return { success: left, text: 'tanda leave' } as ActionResult;
+          }
+          case 'start': {
+            if (!isOrganizer) {
+              await reply('Solo quien organiza la tanda puede iniciarla.');
+              return { success: false, text: 'not organizer' } as ActionResult;
+            }
+            const started = tandaStore.start(tanda.id);
+            if (started.status === 'too_few') await reply('Hacen falta al menos 2 participantes para empezar.');
+            else if (started.status === 'not_forming') await reply(`La tanda ya está en marcha:\n${describeTanda(tanda)}`);
+            else
+              await reply(
+                `🚀 ¡Arrancó la tanda! Orden de cobro: ${tanda.members.map((member, i) => `${i + 1}. ${member.name}`).join(', ')}.\n` +
+                  describeRoundStart(tanda, started.round)
+              );
+            return { success: started.status === 'started', text: `tanda start ${started.status}` } as ActionResult;
+          }
+          case 'pay': {
+            const round = currentRound(tanda);
+            const recipient = round && memberOf(tanda, round.recipientId);
+            if (!round || !recipient) {
+              await reply('La tanda todavía no empieza; no hay ronda que pagar.');
+              return { success: false, text: 'no round' } as ActionResult;
+            }
+            if (!memberOf(tanda, entityId) || !address) {
+              await reply('No estás en esta tanda.');
+              return { success: false, text: 'not a member' } as ActionResult;
+            }
+            if (round.recipientId === entityId) {
+              await reply('Esta ronda te toca cobrar a ti; no tienes que pagar. 🎉');
+              return { success: true, text: 'recipient does not pay' } as ActionResult;
+            }
+            const due = amountDue(tanda, round, entityId);
+            if (due === 0n) {
+              await reply('Ya pagaste tu parte de esta ronda. ✅');
+              return { success: true, text: 'already paid' } as ActionResult;
+            }
+            // El pago es un envío normal: mismas reglas y el mismo "sí"; la tanda lo reconoce al verlo en la red
+            return await proposeTransfer(
+              message,
+              entityId,
+              { amount: due, token: tanda.token, recipient: { kind: 'address', address: recipient.address } },
+              async (content) => (callback ? callback(content) : []),
+              { concept: `ronda ${round.number} de la tanda "${tanda.name}" (cobra ${recipient.name})`, actionName: 'MANAGE_TANDA' }
+            );
+          }
+          case 'cancel': {
+            if (!isOrganizer) {
+              await reply('Solo quien organiza la tanda puede cancelarla.');
+              return { success: false, text: 'not organizer' } as ActionResult;
+            }
+            if (tanda.status === 'forming') {
+              tandaStore.cancel(tanda.id);
+              await reply(`Cancelé la tanda "${tanda.name}".`);
+              return { success: true, text: 'tanda cancelled' } as ActionResult;
+            }
+            // Ya corriendo afecta a todos: pide el "sí" de quien la organiza
+            const summary = `Vas a cancelar la tanda "${tanda.name}" en la ronda ${currentRound(tanda)?.number ?? '-'} de ${tanda.rounds.length}. Los pagos ya hechos no se devuelven solos.`;
+            const { replaced } = pendingOperations.propose({
+              kind: 'tanda_cancel',
+              roomId,
+              entityId,
+              summary,
+              execute: async (confirmReply) => {
+                const cancelled = tandaStore.cancel(tanda.id);
+                await confirmReply({ text: cancelled ? `Cancelé la tanda "${tanda.name}".` : 'Esa tanda ya había terminado.' });
+                return { success: cancelled, text: 'tanda cancelled' } as ActionResult;
+              },
+            });
+            await reply(confirmationPrompt(summary, replaced));
+            return { success: true, text: 'tanda cancel awaiting confirmation' } as ActionResult;
+          }
+          default:
+            await reply(describeTanda(tanda));
+            return { success: true, text: 'tanda shown', values: { tandaId: tanda.id } } as ActionResult;
+        }
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Crear tanda de 100 STRK cada semana' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: '🤝 ¡Tanda creada! Cada quien aporta 100 STRK cada semana.\nTanda "STRK semanal": 100 STRK cada semana.',
+              actions: ['MANAGE_TANDA'],
+            },
+          },
+        ],
+        [
+          { name: '{{name1}}', content: { text: '¿Cómo va la tanda?' } },
+          {
+            name: '{{name2}}',
+            content: { text: 'Ronda 2 de 4: cobra @luis, cierra el 30 de octubre de 2026.\nYa pagaron: @ana.\nFaltan: @pedro.', actions: ['MANAGE_TANDA'] },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: 'MANAGE_CONTACTS',
+      similes: ['CONTACTS', 'CONTACTOS', 'ADDRESS_BOOK', 'SAVE_CONTACT'],
+      description:
+        'Agenda de contactos: guardar una dirección 0x… o un @usuario con un nombre ("guarda 0xabc como mamá"), ver, renombrar y borrar contactos. Los envíos aceptan esos nombres y el @usuario de otros usuarios.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        return matchesIntent(message, 'manage_contacts');
+      },
+      handler: async (_runtime, message, _state, _options, callback): Promise<ActionResult> => {
+        if (!shouldRunActionOnce(message, 'MANAGE_CONTACTS'))
+          return { success: false, text: 'duplicate ignored' } as ActionResult
+        const entityId = String(message.entityId ?? '');
+        if (!entityId) {
+          if (callback) await callback({ text: 'No pude identificar al usuario.' });
+          return { success: false, text: 'missing entityId' } as ActionResult;
+        }
+        const reply = async (text: string) => {
+          if (callback) await callback({ text, action: 'MANAGE_CONTACTS', source: message.content.source });
+        };
 
-          return { success: true, text: 'deploy requested' } as ActionResult;
+        const command = parseContactCommand(message.content?.text ?? '', contactStore.names(entityId));
+        switch (command.kind) {
+          case 'invalid':
+            await reply(command.reason);
+            return { success: false, text: 'contact command needs more details' } as ActionResult;
+          case 'save': {
+            const problem = contactStore.get(entityId, command.name) ? undefined : contactNameProblem(command.name, tokenRegistry.list(entityId));
+            if (problem) {
+              await reply(problem);
+              return { success: false, text: 'invalid contact name' } as ActionResult;
+            }
+            const { status, contact } = contactStore.save(
+              entityId,
+              command.address ? { name: command.name, address: command.address } : { name: command.name, username: command.username! }
+            );
+            const lines = [`📒 ${status === 'created' ? 'Guardé' : 'Actualicé'} a ${describeContact(contact)}.`];
+            // Se guarda igual: en cuanto esa persona me escriba, el nombre ya funciona
+            if (contact.username && !usernameDirectory.lookup(contact.username))
+              lines.push(`Todavía no conozco a @${contact.username}; para enviarle, pídele que me escriba una vez.`);
+            lines.push(`Ya puedes decir "envía 10 STRK a ${contact.name}".`);
+            await reply(lines.join('\n'));
+            return { success: true, text: `contact ${status}`, values: { contact: contact.key } } as ActionResult;
+          }
+          case 'rename': {
+            if (!command.from) {
+              await reply(`¿A cuál contacto le cambio el nombre? Por ejemplo: "renombra a mamá como ${command.to}".\n\n${describeContacts(contactStore.list(entityId))}`);
+              return { success: false, text: 'contact not found' } as ActionResult;
+            }
+            const problem = contactNameProblem(command.to, tokenRegistry.list(entityId));
+            if (problem) {
+              await reply(problem);
+              return { success: false, text: 'invalid contact name' } as ActionResult;
+            }
+            const renamed = contactStore.rename(entityId, command.from, command.to);
+            if (renamed.status === 'taken') await reply(`Ya tienes un contacto llamado ${renamed.contact.name}; bórralo primero o elige otro nombre.`);
+            else if (renamed.status === 'missing') await reply('No encontré ese contacto.');
+            else await reply(`Listo, ahora se llama ${describeContact(renamed.contact)}.`);
+            return { success: renamed.status === 'renamed', text: `contact rename ${renamed.status}` } as ActionResult;
+          }
+          case 'delete': {
+            const removed = command.name ? contactStore.remove(entityId, command.name) : undefined;
+            if (!removed) {
+              await reply(`¿Cuál contacto borro? Por ejemplo: "borra a mamá de mis contactos".\n\n${describeContacts(contactStore.list(entityId))}`);
+              return { success: false, text: 'contact not found' } as ActionResult;
+            }
+            await reply(`Borré a ${removed.name} de tus contactos.`);
+            return { success: true, text: 'contact deleted' } as ActionResult;
+          }
+          case 'show': {
+            const contact = contactStore.get(entityId, command.name)!;
+            const resolved = recipientResolver(entityId).resolve({ kind: 'contact', name: contact.key });
+            const lines = [`📒 ${describeContact(contact)}`];
+            if (contact.username) lines.push('address' in resolved ? `Su alcancía: ${resolved.address}` : resolved.problem);
+            await reply(lines.join('\n'));
+            return { success: true, text: 'contact shown' } as ActionResult;
+          }
+          default:
+            await reply(describeContacts(contactStore.list(entityId)));
+            return { success: true, text: 'contacts listed', values: { count: contactStore.names(entityId).length } } as ActionResult;
+        }
+      },
+      examples: [
+        [
+          { name: '{{name1}}', content: { text: 'Guarda 0x04a3…9f2c como mamá' } },
+          {
+            name: '{{name2}}',
+            content: {
+              text: '📒 Guardé a mamá: 0x04a3…9f2c.\nYa puedes decir "envía 10 STRK a mamá".',
+              actions: ['MANAGE_CONTACTS'],
+            },
+          },
+        ],
+        [
+          { name: '{{name1}}', content: { text: 'Mis contactos' } },
+          {
+            name: '{{name2}}',
+            content: { text: '📒 Tus contactos:\n• mamá: 0x04a3…9f2c\n• Mary: @maria', actions: ['MANAGE_CONTACTS'] },
+          },
+        ],
+      ],
+    },
+
+    {
+      name: CONFIRM_ACTION,
+      similes: ['CONFIRM_OPERATION', 'CANCEL_OPERATION', 'CONFIRMAR'],
+      description: 'Confirma o cancela la transferencia, despliegue, cambio de reglas, desbloqueo de emergencia o cancelación de tanda que el usuario tiene pendiente en esta sala.',
+      validate: async (_runtime, message): Promise<boolean> => {
+        const roomId = message.roomId ? String(message.roomId) : undefined;
+        return (
+          Boolean(classifyConfirmationReply(message.content?.text ?? '')) &&
+          pendingOperations.isAwaitingReply(roomId, String(message.entityId ?? ''))
+        );
+      },
+      handler: async (
+        _runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses?: Memory[]
+      ): Promise<ActionResult> => {
+        try {
+          if (!shouldRunActionOnce(message, CONFIRM_ACTION))
+            return { success: false, text: 'duplicate ignored' } as ActionResult
+          const reply = classifyConfirmationReply(message.content?.text ?? '');
+          if (!reply) return { success: false, text: 'not a confirmation' } as ActionResult;
+
+          // Solo el dueño y en la misma sala: la llave de la operación es sala + usuario
+          const roomId = message.roomId ? String(message.roomId) : undefined;
+          const entityId = String(message.entityId ?? '');
+          const result =
+            reply === 'confirm'
+              ? await pendingOperations.confirm(roomId, entityId, callback)
+              : pendingOperations.cancel(roomId, entityId);
+
+          switch (result.status) {
+            case 'confirmed':
+              return result.outcome ?? ({ success: true, text: 'operation confirmed' } as ActionResult);
+            case 'cancelled':
+              await callback({ text: 'Cancelado. No se movió nada de tu alcancía.' });
+              return { success: true, text: 'operation cancelled' } as ActionResult;
+            case 'expired':
+              await callback({ text: 'Esa operación ya expiró y no se ejecutó. Pídemela de nuevo si aún la quieres.' });
+              return { success: false, text: 'operation expired' } as ActionResult;
+            default:
+              await callback({ text: 'No tienes nada pendiente por confirmar.' });
+              return { success: false, text: 'nothing pending' } as ActionResult;
+          }
         } catch (error) {
-          logger.error({ error }, 'DEPLOY_MEME_TOKEN_INVISIBLE failed');
-          await callback({ text: 'No pude desplegar el token ahora.' });
+          logger.error({ error }, `${CONFIRM_ACTION} failed`);
+          await callback({ text: 'No pude procesar tu confirmación ahora.' });
           return { success: false, error: error instanceof Error ? error : new Error(String(error)) } as ActionResult;
         }
       },
       examples: [
         [
-          { name: '{{name1}}', content: { text: 'Crea un meme token en Starknet' } },
+          { name: '{{name1}}', content: { text: 'sí' } },
           {
             name: '{{name2}}',
             content: {
-              text: 'Token desplegado en Starknet.',
-              actions: ['DEPLOY_MEME_TOKEN_INVISIBLE'],
+              text: 'Se inició la transferencia de 0.01 ETH a 0x…. Te aviso cuando se confirme.',
+              actions: [CONFIRM_ACTION],
             },
           },
         ],
       ],
     },
   ],
-  providers: [helloWorldProvider],
+  providers: [helloWorldProvider, savingsGoalsProvider],
 };
 
 export default plugin;
@@ -0,0 +1,204 @@
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { formatUnits, parseUnits } from './token-registry.ts'
+
+/**
+ * counterfactual: la dirección ya existe (calculada) pero no hay contrato ni ETH para desplegarlo ·
+ * funded: tiene ETH suficiente para pagar su despliegue · deployed: el contrato de cuenta ya está en la red
+ */
+export type AccountDeployState = 'counterfactual' | 'funded' | 'deployed'
+
+/**
+ * fund: la tesorería manda a la alcancía el ETH que le falta y la cuenta se despliega sola ·
+ * deploy: la tesorería despliega la cuenta por el UDC (misma dirección, paga ella la comisión)
+ */
+export type SponsorMode = 'off' | 'fund' | 'deploy'
+
+export interface SponsorConfig {
+  mode: SponsorMode
+  /** Tope en wei que la tesorería puede gastar por usuario */
+  budgetPerUserWei: bigint
+}
+
+const DEFAULT_SPONSOR_BUDGET_ETH = '0.002'
+
+/** ALCANCIA_DEPLOY_SPONSOR (+ STARKNET_ADDRESS/STARKNET_PRIVATE_KEY de la tesorería) y ALCANCIA_SPONSOR_BUDGET_ETH. */
+export function sponsorConfig(): SponsorConfig {
+  const raw = process.env.ALCANCIA_DEPLOY_SPONSOR?.trim().toLowerCase()
+  const hasTreasury = !!process.env.STARKNET_ADDRESS?.trim() && !!process.env.STARKNET_PRIVATE_KEY?.trim()
+  const mode: SponsorMode = hasTreasury && (raw === 'fund' || raw === 'deploy') ? raw : 'off'
+  if (raw && raw !== 'off' && mode === 'off') logger.warn({ raw }, '[Deploy] sponsor mode ignored (unknown value or treasury not configured)')
+
+  let budgetPerUserWei = parseUnits(DEFAULT_SPONSOR_BUDGET_ETH, 18)
+  const budget = process.env.ALCANCIA_SPONSOR_BUDGET_ETH?.trim()
+  if (budget) {
+    try {
+      budgetPerUserWei = parseUnits(budget, 18)
+    } catch {
+      logger.warn({ budget }, '[Deploy] invalid ALCANCIA_SPONSOR_BUDGET_ETH; using default')
+    }
+  }
+  return { mode, budgetPerUserWei }
+}
+
+// ---- presupuesto por usuario ----
+
+const BUDGET_KEY = 'deploy-sponsor:spent'
+
+/** Wei que la tesorería ya gastó por usuario, con escritura diferida al cache del agente. */
+export class SponsorBudgetStore {
+  private readonly spent = new Map<string, bigint>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    // bigint no se serializa: se guarda como string
+    const stored = (await backend.getCache<Record<string, string>>(BUDGET_KEY)) ?? {}
+    for (const [entityId, wei] of Object.entries(stored)) {
+      this.spent.set(entityId, BigInt(wei) + (this.spent.get(entityId) ?? 0n))
+    }
+    this.persist()
+    await this.flush()
+    return { loaded: Object.keys(stored).length }
+  }
+
+  spentWei(entityId: string): bigint {
+    return this.spent.get(entityId) ?? 0n
+  }
+
+  remainingWei(entityId: string, budgetWei: bigint): bigint {
+    const remaining = budgetWei - this.spentWei(entityId)
+    return remaining > 0n ? remaining : 0n
+  }
+
+  charge(entityId: string, wei: bigint): void {
+    this.spent.set(entityId, this.spentWei(entityId) + wei)
+    this.persist()
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = Object.fromEntries([...this.spent].map(([entityId, wei]) => [entityId, wei.toString()]))
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(BUDGET_KEY, snapshot)
+      })
+      .catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Deploy] sponsor budget persist failed')
+      })
+  }
+}
+
+export const sponsorBudget = new SponsorBudgetStore()
+
+// ---- despliegue ----
+
+/** Operaciones de red sobre la alcancía; telegram-starknet.ts las implementa con starknet.js. */
+export interface DeploymentDriver {
+  address: string
+  isDeployed(): Promise<boolean>
+  /** Saldo en ETH (wei), que es con lo que se paga el despliegue */
+  balanceWei(): Promise<bigint>
+  /** Comisión máxima sugerida para que la cuenta se despliegue a sí misma */
+  estimateDeployFeeWei(): Promise<bigint>
+  deploy(maxFeeWei: bigint): Promise<string>
+  waitForTransaction(txHash: string): Promise<void>
+}
+
+/** Cuenta de la tesorería (STARKNET_ADDRESS). */
+export interface SponsorTreasury {
+  /** Manda `amountWei` de ETH a `to`; devuelve el hash */
+  fund(to: string, amountWei: bigint): Promise<string>
+  /** Comisión máxima sugerida para desplegar la cuenta por el UDC */
+  estimateDeployForFeeWei(): Promise<bigint>
+  deployFor(maxFeeWei: bigint): Promise<string>
+}
+
+export interface DeploymentOptions {
+  entityId?: string
+  sponsor?: SponsorConfig
+  treasury?: SponsorTreasury
+  budget?: SponsorBudgetStore
+  onSubmitted?: (txHash: string) => void
+}
+
+export type DeploymentResult =
+  | { state: 'deployed'; address: string; txHash?: string; feeWei?: bigint; sponsoredWei?: bigint }
+  /** Sin desplegar: falta ETH (`missingWei`) y no hubo patrocinio, o el despliegue falló (`error`) */
+  | { state: 'counterfactual' | 'funded'; address: string; feeWei?: bigint; missingWei?: bigint; error?: Error }
+
+/**
+ * Estima la comisión, revisa el saldo y solo entonces despliega. Si no alcanza y hay tesorería,
+ * la usa dentro del presupuesto del usuario; lo gastado se descuenta aunque el despliegue luego falle.
+ */
+export async function deployAccountWithFunding(driver: DeploymentDriver, options: DeploymentOptions = {}): Promise<DeploymentResult> {
+  const { address } = driver
+  if (await driver.isDeployed()) return { state: 'deployed', address }
+
+  const feeWei = await driver.estimateDeployFeeWei()
+  const balance = await driver.balanceWei()
+  const sponsor = options.sponsor ?? { mode: 'off', budgetPerUserWei: 0n }
+  const budget = options.budget ?? sponsorBudget
+  const remaining = options.entityId ? budget.remainingWei(options.entityId, sponsor.budgetPerUserWei) : 0n
+  let sponsoredWei: bigint | undefined
+
+  if (balance < feeWei) {
+    const missingWei = feeWei - balance
+    const treasury = options.treasury
+    if (!treasury || !options.entityId || sponsor.mode === 'off') return { state: 'counterfactual', address, feeWei, missingWei }
+
+    if (sponsor.mode === 'deploy') {
+      const sponsorFeeWei = await treasury.estimateDeployForFeeWei()
+      if (sponsorFeeWei > remaining) {
+        logger.info({ entityId: options.entityId, sponsorFeeWei: sponsorFeeWei.toString() }, '[Deploy] sponsor budget exhausted')
+        return { state: 'counterfactual', address, feeWei, missingWei }
+      }
+      budget.charge(options.entityId, sponsorFeeWei)
+      const txHash = await treasury.deployFor(sponsorFeeWei)
+      options.onSubmitted?.(txHash)
+      await driver.waitForTransaction(txHash)
+      return { state: 'deployed', address, txHash, feeWei, sponsoredWei: sponsorFeeWei }
+    }
+
+    if (missingWei > remaining) {
+      logger.info({ entityId: options.entityId, missingWei: missingWei.toString() }, '[Deploy] sponsor budget exhausted')
+      return { state: 'counterfactual', address, feeWei, missingWei }
+    }
+    budget.charge(options.entityId, missingWei)
+    const fundingHash = await treasury.fund(address, missingWei)
+    await driver.waitForTransaction(fundingHash)
+    sponsoredWei = missingWei
+  }
+
+  try {
+    const txHash = await driver.deploy(feeWei)
+    options.onSubmitted?.(txHash)
+    await driver.waitForTransaction(txHash)
+    return { state: 'deployed', address, txHash, feeWei, sponsoredWei }
+  } catch (error) {
+    return { state: 'funded', address, feeWei, error: error instanceof Error ? error : new Error(String(error)) }
+  }
+}
+
+/** Lo que se le dice al usuario según cómo quedó su alcancía. */
+export function describeDeployment(result: DeploymentResult): string {
+  switch (result.state) {
+    case 'deployed':
+      return result.sponsoredWei !== undefined
+        ? 'Tu alcancía ya está activa en Starknet (la comisión de activación corrió por nuestra cuenta).'
+        : 'Tu alcancía ya está activa en Starknet.'
+    case 'funded':
+      return 'Tu alcancía tiene fondos pero no pude activarla ahora; escribe "activar alcancía" para reintentar.'
+    case 'counterfactual': {
+      const needed = result.missingWei ?? result.feeWei
+      const amount = needed !== undefined ? ` (~${formatUnits(needed, 18)} ETH)` : ''
+      return `Tu alcancía ya puede recibir depósitos, pero para activarla necesita ETH para la comisión${amount}. Deposita ETH a tu dirección y escribe "activar alcancía".`
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { CallData, hash } from 'starknet'
+import { logger } from '@elizaos/core'
+
+/** Contrato de cuenta con el que se crean las alcancías (STARKNET_ACCOUNT_VARIANT). */
+export type AccountVariant = 'oz' | 'argent' | 'braavos'
+
+export interface AccountFactory {
+  variant: AccountVariant
+  defaultClassHash: string
+  constructorCalldata(publicKey: string): string[]
+  /**
+   * Calldata con la que versiones anteriores calcularon la dirección, si era distinta. Solo sirve para
+   * reconocer alcancías ya guardadas (ver findAccountDerivation); las nuevas usan `constructorCalldata`.
+   */
+  legacyConstructorCalldata?(publicKey: string): string[]
+  /**
+   * Si la cuenta se puede desplegar con un DEPLOY_ACCOUNT normal (o por el UDC). Braavos lee de la
+   * firma del despliegue la clase de implementación, así que aquí solo se calcula su dirección.
+   */
+  deployable: boolean
+}
+
+export interface AccountDerivation {
+  variant: AccountVariant
+  classHash: string
+  publicKey: string
+  constructorCalldata: string[]
+  addressSalt: string
+  /** Dirección contrafactual: deployer 0, salt = clave pública */
+  address: string
+}
+
+/** Lo que se guarda con la alcancía cuando su dirección no sale de la derivación actual. */
+export type PinnedDerivation = Pick<AccountDerivation, 'variant' | 'classHash' | 'publicKey' | 'constructorCalldata'>
+
+/** Un módulo por variante: clase, calldata del constructor y si se puede desplegar desde el agente. */
+export const ACCOUNT_FACTORIES: Record<AccountVariant, AccountFactory> = {
+  oz: {
+    variant: 'oz',
+    // OpenZeppelin Account v0.8.1: constructor(public_key)
+    defaultClassHash: '0x061dac032f228abef9c6626f995015233097ae253a7f72d68552db02f2971b8f',
+    constructorCalldata: (publicKey) => CallData.compile({ publicKey }),
+    deployable: true,
+  },
+  argent: {
+    variant: 'argent',
+    // Argent X v0.3.0: constructor(owner, guardian); sin guardián
+    defaultClassHash: '0x1a736d6ed154502257f02b1ccdf4d9d1089f80811cd6acad48e6b6a9d1f2003',
+    constructorCalldata: (publicKey) => CallData.compile({ owner: publicKey, guardian: '0' }),
+    // Antes se calculaba con la clave pública sola, como OZ
+    legacyConstructorCalldata: (publicKey) => CallData.compile({ publicKey }),
+    deployable: true,
+  },
+  braavos: {
+    variant: 'braavos',
+    // Braavos base account: constructor(stark_pub_key); la implementación se fija en el despliegue
+    defaultClassHash: '0x03d16c7a9a60b0593bd202f660a28c5d76e0403601d9ccc7e4fa253b6a70c201',
+    constructorCalldata: (publicKey) => CallData.compile({ publicKey }),
+    deployable: false,
+  },
+}
+
+export function isAccountVariant(value: string): value is AccountVariant {
+  return Object.hasOwn(ACCOUNT_FACTORIES, value)
+}
+
+/**
+ * STARKNET_ACCOUNT_VARIANT; 'oz' si no está o no se reconoce. Una variante que el agente no puede
+ * desplegar (Braavos) tampoco se usa: su dirección recibiría depósitos que nadie podría gastar.
+ */
+export function accountVariantFromEnv(): AccountVariant {
+  const raw = process.env.STARKNET_ACCOUNT_VARIANT?.trim().toLowerCase()
+  if (!raw) return 'oz'
+  if (!isAccountVariant(raw)) {
+    logger.warn({ raw }, '[Starknet] unknown STARKNET_ACCOUNT_VARIANT; using oz')
+    return 'oz'
+  }
+  if (!ACCOUNT_FACTORIES[raw].deployable) {
+    logger.warn({ raw }, '[Starknet] STARKNET_ACCOUNT_VARIANT cannot be deployed by the agent; using oz')
+    return 'oz'
+  }
+  return raw
+}
+
+/**
+ * Clase, calldata y dirección de la cuenta de `publicKey`. Es la única derivación: la dirección que
+ * se muestra al usuario y la que se despliega salen de aquí. STARKNET_ACCOUNT_CLASS_HASH reemplaza
+ * la clase por defecto (p. ej. otra versión con el mismo constructor).
+ */
+export function deriveAccount(
+  publicKey: string,
+  {
+    variant = accountVariantFromEnv(),
+    classHash = process.env.STARKNET_ACCOUNT_CLASS_HASH?.trim(),
+    constructorCalldata: pinnedCalldata,
+  }: { variant?: AccountVariant; classHash?: string; constructorCalldata?: string[] } = {}
+): AccountDerivation {
+  const factory = ACCOUNT_FACTORIES[variant]
+  const pubKeyHex = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`
+  const resolvedClassHash = classHash || factory.defaultClassHash
+  const constructorCalldata = pinnedCalldata ?? factory.constructorCalldata(pubKeyHex)
+  const addressSalt = pubKeyHex
+  const address = hash.calculateContractAddressFromHash(addressSalt, resolvedClassHash, constructorCalldata, 0)
+  return { variant, classHash: resolvedClassHash, publicKey: pubKeyHex, constructorCalldata, addressSalt, address }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return BigInt(a) === BigInt(b)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Derivación que produjo `address` (la dirección guardada de una alcancía): la actual o, si la cuenta
+ * se creó con una versión anterior, la calldata de entonces. undefined si ninguna coincide.
+ */
+export function findAccountDerivation(
+  publicKey: string,
+  address: string,
+  options: { variant?: AccountVariant; classHash?: string } = {}
+): AccountDerivation | undefined {
+  const current = deriveAccount(publicKey, options)
+  if (sameAddress(current.address, address)) return current
+  const legacy = ACCOUNT_FACTORIES[current.variant].legacyConstructorCalldata?.(current.publicKey)
+  if (!legacy) return undefined
+  const previous = deriveAccount(current.publicKey, { ...options, variant: current.variant, constructorCalldata: legacy })
+  return sameAddress(previous.address, address) ? previous : undefined
+}
@@ -0,0 +1,103 @@
+import { formatUnits } from './token-registry.ts'
+
+/**
+ * derived: dirección calculada, sin intento de despliegue · awaiting_funds: falta ETH para la comisión ·
+ * deploying: despliegue enviado, esperando confirmación · deployed: el contrato de cuenta ya existe ·
+ * failed: el último intento falló (ver lastError); se puede reintentar
+ */
+export type AccountLifecycleState = 'derived' | 'awaiting_funds' | 'deploying' | 'deployed' | 'failed'
+
+export interface AccountLifecycle {
+  state: AccountLifecycleState
+  changedAtMs: number
+  lastAttemptAtMs?: number
+  deployedAtMs?: number
+  deployTxHash?: string
+  /** Wei (como string) que faltan para la comisión mientras espera fondos */
+  missingFeeWei?: string
+  lastError?: string
+}
+
+export interface LifecycleChange {
+  nowMs?: number
+  txHash?: string
+  missingFeeWei?: bigint
+  error?: string
+}
+
+/** Único lugar donde se decide qué cambio de estado es válido. */
+const TRANSITIONS: Record<AccountLifecycleState, AccountLifecycleState[]> = {
+  derived: ['awaiting_funds', 'deploying', 'deployed', 'failed'],
+  // Se permite repetir awaiting_funds para actualizar cuánto falta
+  awaiting_funds: ['awaiting_funds', 'deploying', 'deployed', 'failed'],
+  // Un intento que quedó colgado (reinicio) se puede reenviar o volver a esperar fondos
+  deploying: ['deploying', 'deployed', 'failed', 'awaiting_funds'],
+  deployed: [],
+  failed: ['awaiting_funds', 'deploying', 'deployed', 'failed'],
+}
+
+/** Un despliegue sin respuesta por más de esto (p. ej. el agente se reinició) se puede reintentar */
+export const STALE_DEPLOY_MS = 10 * 60 * 1000
+
+export function initialLifecycle(nowMs = Date.now()): AccountLifecycle {
+  return { state: 'derived', changedAtMs: nowMs }
+}
+
+export function canTransition(from: AccountLifecycleState, to: AccountLifecycleState): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+/** Nuevo estado a partir del actual; lanza si la transición no está permitida. */
+export function transitionLifecycle(current: AccountLifecycle, to: AccountLifecycleState, change: LifecycleChange = {}): AccountLifecycle {
+  if (!canTransition(current.state, to)) throw new Error(`Invalid account transition: ${current.state} -> ${to}`)
+  const nowMs = change.nowMs ?? Date.now()
+  const next: AccountLifecycle = { ...current, state: to, changedAtMs: nowMs }
+  delete next.missingFeeWei
+  switch (to) {
+    case 'awaiting_funds':
+      if (change.missingFeeWei !== undefined) next.missingFeeWei = change.missingFeeWei.toString()
+      next.lastAttemptAtMs = nowMs
+      break
+    case 'deploying':
+      next.lastAttemptAtMs = nowMs
+      if (change.txHash) next.deployTxHash = change.txHash
+      delete next.lastError
+      break
+    case 'deployed':
+      next.deployedAtMs = nowMs
+      if (change.txHash) next.deployTxHash = change.txHash
+      delete next.lastError
+      break
+    case 'failed':
+      next.lastAttemptAtMs = nowMs
+      next.lastError = change.error ?? 'error desconocido'
+      break
+  }
+  return next
+}
+
+/** Si se puede lanzar un (nuevo) intento de despliegue ahora. */
+export function canStartDeploy(lifecycle: AccountLifecycle, nowMs = Date.now()): { ok: true } | { ok: false; reason: 'deployed' | 'in_progress' } {
+  if (lifecycle.state === 'deployed') return { ok: false, reason: 'deployed' }
+  if (lifecycle.state === 'deploying' && nowMs - (lifecycle.lastAttemptAtMs ?? lifecycle.changedAtMs) < STALE_DEPLOY_MS)
+    return { ok: false, reason: 'in_progress' }
+  return { ok: true }
+}
+
+/** Estado en palabras para el usuario. */
+export function describeLifecycle(lifecycle: AccountLifecycle): string {
+  switch (lifecycle.state) {
+    case 'derived':
+      return 'Tu alcancía tiene dirección pero aún no se activa en la red.'
+    case 'awaiting_funds': {
+      const missing = lifecycle.missingFeeWei ? ` (~${formatUnits(BigInt(lifecycle.missingFeeWei), 18)} ETH)` : ''
+      return `Tu alcancía espera ETH para pagar su activación${missing}. Cuando deposites escribe "activar alcancía".`
+    }
+    case 'deploying':
+      return 'Tu alcancía se está activando en la red; te aviso cuando quede lista.'
+    case 'deployed':
+      return 'Tu alcancía está activa en Starknet.'
+    case 'failed':
+      return `No pude activar tu alcancía (${lifecycle.lastError ?? 'error desconocido'}). Escribe "activar alcancía" para reintentar.`
+  }
+}
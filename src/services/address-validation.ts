@@ -0,0 +1,110 @@
+import { logger } from '@elizaos/core'
+import { getChecksumAddress, LibraryError, RpcError, type RpcProvider } from 'starknet'
+import { normalizeTokenAddress, type TokenInfo } from './token-registry.ts'
+
+/** Las direcciones de contrato en Starknet son felts menores a 2^251 - 256 */
+export const ADDRESS_BOUND = 2n ** 251n - 256n
+// 0x0 no es de nadie y 0x1 es del sistema (guarda los hashes de bloque): lo que se manda ahí se pierde
+const RESERVED_ADDRESSES = new Set([0n, 1n])
+
+export type AddressValidation = { valid: true; address: string } | { valid: false; reason: string }
+
+/**
+ * Normaliza una dirección escrita por el usuario (0x + 64 dígitos en minúsculas) y la rechaza
+ * si no es un felt, está fuera de rango o es reservada. Si viene con mayúsculas y minúsculas
+ * se toma como checksum y tiene que coincidir: así se detecta un dígito mal copiado.
+ */
+export function validateStarknetAddress(raw: string): AddressValidation {
+  const typed = raw.trim()
+  const invalid = (why: string): AddressValidation => ({ valid: false, reason: `La dirección ${typed} no es válida en Starknet: ${why}.` })
+  if (!/^0x[0-9a-f]+$/i.test(typed)) return invalid('debe empezar con 0x y llevar solo dígitos hexadecimales')
+  const digits = typed.slice(2)
+  if (digits.length > 64) return invalid('tiene más de 64 dígitos')
+  const value = BigInt(typed)
+  if (RESERVED_ADDRESSES.has(value)) return invalid('es una dirección reservada del sistema')
+  if (value >= ADDRESS_BOUND) return invalid('está fuera del rango de direcciones')
+  const address = '0x' + value.toString(16).padStart(64, '0')
+  if (/[a-f]/.test(digits) && /[A-F]/.test(digits) && !getChecksumAddress(address).endsWith(digits))
+    return invalid('las mayúsculas no coinciden con su checksum; revisa que la copiaste completa')
+  return { valid: true, address }
+}
+
+export function normalizeStarknetAddress(raw: string): string | undefined {
+  const result = validateStarknetAddress(raw)
+  return result.valid ? result.address : undefined
+}
+
+/** Primera dirección 0x… del mensaje tal como se escribió (con sus mayúsculas). */
+export function findTypedAddress(rawText: string): string | undefined {
+  return /\b0x[0-9a-f]+\b/i.exec(rawText)?.[0]
+}
+
+// ---- destinatario ----
+
+/** Código del error CONTRACT_NOT_FOUND en la especificación RPC de Starknet */
+const CONTRACT_NOT_FOUND_CODE = 20
+
+/**
+ * Si la red respondió que no hay contrato en la dirección. Se lee el código del RpcError (o de
+ * un error con la misma forma, si viene de otra copia de starknet.js), no el texto: el mensaje
+ * incluye parámetros, montos y bloques que pueden contener cualquier número.
+ */
+export function isContractNotFound(error: unknown): boolean {
+  if (error instanceof RpcError) return error.isType('CONTRACT_NOT_FOUND')
+  if (typeof error !== 'object' || error === null) return false
+  const { code, baseError } = error as { code?: unknown; baseError?: { code?: unknown } }
+  if (code === CONTRACT_NOT_FOUND_CODE || baseError?.code === CONTRACT_NOT_FOUND_CODE) return true
+  // Otros LibraryError (p. ej. al simular una ejecución) solo traen el nombre del error en el mensaje
+  return error instanceof LibraryError && /\bCONTRACT_NOT_FOUND\b|contract not found/i.test(error.message)
+}
+
+export type Deployment = 'deployed' | 'not_deployed' | 'unknown'
+
+/** Si hay un contrato en `address`, según su class hash. 'unknown' si la red no respondió. */
+export async function contractDeployment(provider: Pick<RpcProvider, 'getClassHashAt'>, address: string): Promise<Deployment> {
+  try {
+    await provider.getClassHashAt(address)
+    return 'deployed'
+  } catch (error) {
+    if (isContractNotFound(error)) return 'not_deployed'
+    logger.warn({ address, error: error instanceof Error ? error.message : String(error) }, '[Address] class hash lookup failed')
+    return 'unknown'
+  }
+}
+
+export interface RecipientCheck {
+  /** Impiden el envío */
+  problems: string[]
+  /** Se muestran en el resumen para que el usuario decida */
+  warnings: string[]
+}
+
+/**
+ * Revisa el destino de un envío: no puede ser la propia alcancía ni el contrato de un token
+ * (los tokens enviados a un ERC-20 se pierden), y avisa si ahí todavía no hay una cuenta.
+ */
+export async function checkRecipient(
+  recipient: string,
+  {
+    ownAddress,
+    tokens,
+    provider,
+  }: { ownAddress?: string; tokens: TokenInfo[]; provider?: Pick<RpcProvider, 'getClassHashAt'> }
+): Promise<RecipientCheck> {
+  const address = normalizeTokenAddress(recipient)
+  const problems: string[] = []
+  if (ownAddress && normalizeTokenAddress(ownAddress) === address)
+    problems.push('Esa es la dirección de tu propia alcancía; enviarte a ti mismo solo gastaría la comisión.')
+  const token = tokens.find((t) => normalizeTokenAddress(t.address) === address)
+  if (token) problems.push(`Esa es la dirección del contrato del token ${token.symbol}, no una alcancía: lo que se envíe ahí se pierde.`)
+  if (problems.length > 0 || !provider) return { problems, warnings: [] }
+
+  const deployment = await contractDeployment(provider, address)
+  return {
+    problems,
+    warnings:
+      deployment === 'not_deployed'
+        ? ['⚠️ En esa dirección todavía no hay una cuenta activa. Si es una alcancía recién creada está bien; si no, revisa que sea la correcta.']
+        : [],
+  }
+}
@@ -0,0 +1,315 @@
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { findContactName, parseNumberWords, type RecipientResolver } from './transfer-parser.ts'
+import { findTypedAddress, normalizeStarknetAddress, validateStarknetAddress } from './address-validation.ts'
+import { telegramStarknetStore, type TelegramStarknetStore } from './telegram-starknet.ts'
+import type { TokenInfo } from './token-registry.ts'
+import type { DomainLookup } from './starknet-id.ts'
+
+/** Destino guardado con un nombre ("mamá"): una dirección o el @usuario de alguien que usa el bot. */
+export interface Contact {
+  /** Como lo escribió el usuario ("Mamá", "tío Juan") */
+  name: string
+  /** Nombre normalizado con el que se busca en los mensajes ("mama", "tio juan") */
+  key: string
+  address?: string
+  /** Sin @; se resuelve a su alcancía al momento de enviar */
+  username?: string
+  createdAtMs: number
+  updatedAtMs?: number
+}
+
+export type ContactInput = { name: string; address: string } | { name: string; username: string }
+
+export type ContactCommand =
+  | { kind: 'save'; name: string; address?: string; username?: string }
+  | { kind: 'rename'; from?: string; to: string }
+  | { kind: 'delete'; name?: string }
+  | { kind: 'show'; name: string }
+  | { kind: 'list' }
+  | { kind: 'invalid'; reason: string }
+
+// ---- interpretación ----
+
+const ADDRESS_RE = /\b0x[0-9a-f]+\b/
+const USERNAME_RE = /@([a-z0-9_]{3,32})\b/
+
+/** Lo que sigue a la última palabra clave en el texto original, sin comillas ni "en mis contactos". */
+function nameAfter(rawText: string, keyword: RegExp): string | undefined {
+  const match = new RegExp(`^.*\\s${keyword.source}\\s+(.+)$`, 'is').exec(rawText.trim())
+  const name = match?.[1]
+    .replace(/\s+(?:en|a)\s+(?:mis contactos|mi agenda|contactos)$/i, '')
+    .replace(/^["'“”«»\s]+|["'“”«».!?¡¿\s]+$/g, '')
+  return name || undefined
+}
+
+/**
+ * "guarda 0xabc como mamá", "agrega a @maria como Mary", "renombra a mamá como mami",
+ * "borra a mamá de mis contactos", "contacto mamá", "mis contactos". `names` son los
+ * nombres normalizados que el usuario ya tiene guardados.
+ */
+export function parseContactCommand(rawText: string, names: string[] = []): ContactCommand {
+  const text = normalizeIntentText(rawText)
+  const known = findContactName(text.replace(/\bcontactos?\b/g, ' '), names)?.name
+
+  if (/\b(borra|borrar|borralo|borrala|elimina|eliminar|eliminalo|eliminala|quita|quitar|quitalo|quitala)\b/.test(text))
+    return known ? { kind: 'delete', name: known } : { kind: 'delete' }
+
+  if (/\b(renombra|renombrar|renombralo|renombrala)\b/.test(text) || /\bcambia\w* (el |su )?nombre\b/.test(text)) {
+    const to = nameAfter(rawText, /como/) ?? nameAfter(rawText, /(?:por|a)/)
+    if (!to) return { kind: 'invalid', reason: 'Dime el nombre nuevo, por ejemplo: "renombra a mamá como mami".' }
+    // El nombre actual va antes del nuevo: "renombra a mamá como mami"
+    const from = findContactName(normalizeIntentText(rawText.slice(0, rawText.lastIndexOf(to))), names)?.name
+    return from ? { kind: 'rename', from, to } : { kind: 'rename', to }
+  }
+
+  const address = ADDRESS_RE.exec(text)?.[0]
+  const username = address ? undefined : USERNAME_RE.exec(text)?.[1]
+  if (address || username) {
+    const name = nameAfter(rawText, /como/) ?? known
+    if (!name) return { kind: 'invalid', reason: '¿Con qué nombre lo guardo? Por ejemplo: "guarda 0x… como mamá".' }
+    if (username) return { kind: 'save', name, username }
+    const validation = validateStarknetAddress(findTypedAddress(rawText) ?? address!)
+    if (!validation.valid) return { kind: 'invalid', reason: validation.reason }
+    return { kind: 'save', name, address: validation.address }
+  }
+
+  if (known) return { kind: 'show', name: known }
+  if (/\b(guarda|guardar|guardame|agrega|agregar|agregame|anade|anadir|anota|anotar|registra|registrar)\b/.test(text))
+    return { kind: 'invalid', reason: 'Para guardar un contacto necesito su dirección 0x… o su @usuario: "guarda 0x… como mamá".' }
+  return { kind: 'list' }
+}
+
+/** Por qué `name` no sirve como contacto (se confundiría con un monto, un token o una dirección). */
+export function contactNameProblem(name: string, tokens: TokenInfo[]): string | undefined {
+  const key = normalizeIntentText(name)
+  if (key.length < 2 || key.length > 32) return 'El nombre del contacto debe tener entre 2 y 32 letras.'
+  if (/^(@|0x)/.test(key)) return 'Ponle un nombre sin @ ni 0x, como "mamá" o "tío Juan".'
+  if (/^[\d\s.,]+$/.test(key) || (!key.includes(' ') && parseNumberWords([key]) !== undefined)) return 'El nombre de un contacto no puede ser un número.'
+  if (tokens.some((token) => token.symbol.toLowerCase() === key))
+    return `"${name}" es el nombre de un token; elige otro para no confundir tus envíos.`
+  return undefined
+}
+
+// ---- descripción ----
+
+export function describeContact(contact: Contact): string {
+  return `${contact.name}: ${contact.address ?? `@${contact.username}`}`
+}
+
+export function describeContacts(contacts: Contact[]): string {
+  if (contacts.length === 0) return 'Todavía no tienes contactos. Guarda uno con "guarda 0x… como mamá" o "guarda @usuario como Mary".'
+  return ['📒 Tus contactos:', ...contacts.map((contact) => `• ${describeContact(contact)}`), '', 'Para enviarles: "envía 10 STRK a mamá".'].join('\n')
+}
+
+// ---- contactos ----
+
+const CONTACTS_INDEX_KEY = 'contacts:users'
+const contactsKey = (entityId: string) => `contacts:user:${entityId}`
+
+export type SaveResult = { status: 'created' | 'updated'; contact: Contact }
+export type RenameResult = { status: 'renamed'; contact: Contact } | { status: 'missing' } | { status: 'taken'; contact: Contact }
+
+/** Agenda de cada usuario, persistida como las metas: un registro por usuario y un índice. */
+export class ContactStore {
+  private readonly contacts = new Map<string, Contact[]>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(CONTACTS_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<Contact[]>(contactsKey(entityId))) ?? []
+      const merged = new Map(stored.map((contact) => [contact.key, contact]))
+      for (const contact of this.contacts.get(entityId) ?? []) merged.set(contact.key, contact)
+      this.contacts.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    for (const entityId of this.contacts.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[Contacts] Store attached')
+    return { loaded }
+  }
+
+  /** Ordenados por nombre. */
+  list(entityId: string): Contact[] {
+    return [...(this.contacts.get(entityId) ?? [])].sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  names(entityId: string): string[] {
+    return (this.contacts.get(entityId) ?? []).map((contact) => contact.key)
+  }
+
+  get(entityId: string, name: string): Contact | undefined {
+    const key = normalizeIntentText(name)
+    return this.contacts.get(entityId)?.find((contact) => contact.key === key)
+  }
+
+  /** Guardar con un nombre que ya existe cambia su destino. */
+  save(entityId: string, input: ContactInput, now = Date.now()): SaveResult {
+    const destination = 'address' in input ? { address: input.address } : { username: input.username.replace(/^@/, '').toLowerCase() }
+    const existing = this.get(entityId, input.name)
+    if (existing) {
+      delete existing.address
+      delete existing.username
+      Object.assign(existing, destination, { updatedAtMs: now })
+      this.persist(entityId)
+      return { status: 'updated', contact: existing }
+    }
+    const contact: Contact = { name: input.name.trim(), key: normalizeIntentText(input.name), ...destination, createdAtMs: now }
+    this.contacts.set(entityId, [...(this.contacts.get(entityId) ?? []), contact])
+    this.persist(entityId)
+    return { status: 'created', contact }
+  }
+
+  rename(entityId: string, from: string, to: string, now = Date.now()): RenameResult {
+    const contact = this.get(entityId, from)
+    if (!contact) return { status: 'missing' }
+    const taken = this.get(entityId, to)
+    if (taken && taken !== contact) return { status: 'taken', contact: taken }
+    Object.assign(contact, { name: to.trim(), key: normalizeIntentText(to), updatedAtMs: now })
+    this.persist(entityId)
+    return { status: 'renamed', contact }
+  }
+
+  remove(entityId: string, name: string): Contact | undefined {
+    const contact = this.get(entityId, name)
+    if (!contact) return undefined
+    this.contacts.set(entityId, (this.contacts.get(entityId) ?? []).filter((c) => c !== contact))
+    this.persist(entityId)
+    return contact
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.contacts.get(entityId) ?? []).map((contact) => ({ ...contact }))
+    const users = [...this.contacts.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(contactsKey(entityId), snapshot)
+        await backend.setCache(CONTACTS_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Contacts] persist failed')
+      })
+  }
+}
+
+export const contactStore = new ContactStore()
+
+// ---- @usuarios ----
+
+const USERNAMES_KEY = 'telegram-usernames'
+
+/**
+ * @usuario de Telegram → entidad, aprendido de los mensajes que recibe el bot. Solo conocemos
+ * a quien ya nos escribió; si alguien cambia de @usuario, el anterior deja de apuntarle.
+ */
+export class UsernameDirectory {
+  private readonly entities = new Map<string, string>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const stored = (await backend.getCache<Record<string, string>>(USERNAMES_KEY)) ?? {}
+    for (const [username, entityId] of Object.entries(stored)) {
+      if (!this.entities.has(username) && !this.usernameOf(entityId)) this.entities.set(username, entityId)
+    }
+    this.persist()
+    await this.flush()
+    return { loaded: Object.keys(stored).length }
+  }
+
+  lookup(username: string): string | undefined {
+    return this.entities.get(username.replace(/^@/, '').toLowerCase())
+  }
+
+  usernameOf(entityId: string): string | undefined {
+    for (const [username, owner] of this.entities) if (owner === entityId) return username
+    return undefined
+  }
+
+  /** Se llama con cada mensaje; solo escribe si cambió algo. */
+  remember(entityId: string, username: string | undefined): void {
+    const key = username?.replace(/^@/, '').toLowerCase()
+    if (!key || this.entities.get(key) === entityId) return
+    const previous = this.usernameOf(entityId)
+    if (previous) this.entities.delete(previous)
+    this.entities.set(key, entityId)
+    this.persist()
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = Object.fromEntries(this.entities)
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(USERNAMES_KEY, snapshot)
+      })
+      .catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Contacts] usernames persist failed')
+      })
+  }
+}
+
+export const usernameDirectory = new UsernameDirectory()
+
+// ---- resolución de destinatarios ----
+
+/**
+ * Resuelve los destinos de `entityId`: sus contactos, el @usuario de otros usuarios del bot
+ * (a su InvisibleAccount.accountAddressHex) y los dominios .stark ya consultados en `domains`
+ * (la consulta a Starknet ID es asíncrona y se hace antes de interpretar el mensaje).
+ */
+export function recipientResolver(
+  entityId: string,
+  {
+    contacts = contactStore,
+    usernames = usernameDirectory,
+    accounts = telegramStarknetStore,
+    domains = new Map(),
+  }: {
+    contacts?: ContactStore
+    usernames?: UsernameDirectory
+    accounts?: Pick<TelegramStarknetStore, 'getAccountByEntityId'>
+    domains?: Map<string, DomainLookup>
+  } = {}
+): RecipientResolver {
+  const byUsername = (username: string, label: string) => {
+    const owner = usernames.lookup(username)
+    if (!owner) return { problem: `No conozco a @${username}: pídele que me escriba una vez, o compárteme su dirección 0x….` }
+    const address = accounts.getAccountByEntityId(owner)?.accountAddressHex
+    if (!address) return { problem: `@${username} todavía no tiene alcancía; pídele que me escriba "crear alcancía".` }
+    return { address: normalizeStarknetAddress(address) ?? address, label }
+  }
+  return {
+    contactNames: contacts.names(entityId),
+    resolve(recipient) {
+      if (recipient.kind === 'username') return byUsername(recipient.username, `@${recipient.username}`)
+      if (recipient.kind === 'domain') {
+        const lookup = domains.get(recipient.domain)
+        if (lookup?.status === 'found') return { address: lookup.address, label: recipient.domain }
+        if (lookup?.status === 'not_found') return { problem: `${recipient.domain} no está registrado en Starknet ID; revisa cómo se escribe o compárteme la dirección 0x….` }
+        return { problem: `No pude consultar Starknet ID para encontrar ${recipient.domain}; intenta en un momento o compárteme la dirección 0x….` }
+      }
+      const contact = contacts.get(entityId, recipient.name)
+      if (!contact) return { problem: `No encontré a "${recipient.name}" en tus contactos.` }
+      if (contact.address) return { address: contact.address, label: contact.name }
+      return byUsername(contact.username!, contact.name)
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core'
+import { DepositWatcher, describeDeposit } from './deposit-watcher.ts'
+import { notificationTargets, sendNotification } from './notification-targets.ts'
+import { createStarknetProvider, telegramStarknetStore } from './telegram-starknet.ts'
+
+/**
+ * Corre el watcher de depósitos y avisa al dueño en su chat privado. Sin STARKNET_RPC_URL
+ * (o con ALCANCIA_DEPOSIT_POLL_MS=0) el servicio arranca pero no consulta nada.
+ */
+export class DepositWatcherService extends Service {
+  static serviceType = 'deposit-watcher'
+  capabilityDescription = 'Detecta depósitos a las alcancías (eventos Transfer) y avisa al dueño por Telegram.'
+
+  private watcher?: DepositWatcher
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime)
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting deposit watcher service ***')
+    const service = new DepositWatcherService(runtime)
+    const provider = createStarknetProvider()
+    if (!provider) {
+      logger.warn('[Deposits] STARKNET_RPC_URL not set; deposit notifications disabled')
+      return service
+    }
+    service.watcher = new DepositWatcher(provider, async (deposit) => {
+      const target = notificationTargets.get(deposit.entityId)
+      if (!target) {
+        logger.info({ entityId: deposit.entityId }, '[Deposits] no private chat known for owner; notice skipped')
+        return
+      }
+      // Si la alcancía esperaba ETH para activarse, se le recuerda cómo retomar el despliegue
+      const lifecycle = telegramStarknetStore.getAccountByEntityId(deposit.entityId)?.lifecycle.state
+      const waiting = deposit.token.symbol === 'ETH' && (lifecycle === 'awaiting_funds' || lifecycle === 'failed')
+      const text = describeDeposit(deposit) + (waiting ? '\nYa puedes activar tu alcancía: escribe "activar alcancía".' : '')
+      await sendNotification(runtime, deposit.entityId, target, text)
+    })
+    await service.watcher.attach(runtime)
+    service.watcher.start()
+    return service
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    const service = runtime.getService(DepositWatcherService.serviceType)
+    if (!service) {
+      throw new Error('Deposit watcher service not found')
+    }
+    await service.stop()
+  }
+
+  async stop() {
+    this.watcher?.stop()
+    await this.watcher?.idle()
+    logger.info('*** Stopped deposit watcher service ***')
+  }
+}
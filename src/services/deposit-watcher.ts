@@ -0,0 +1,268 @@
+import { logger } from '@elizaos/core'
+import type { RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+import { systemClock, type SchedulerClock } from './reminders.ts'
+import { formatUnits, normalizeTokenAddress, tokenRegistry, type TokenInfo, type TokenRegistry } from './token-registry.ts'
+import { telegramStarknetStore } from './telegram-starknet.ts'
+import {
+  fetchDepositEvents,
+  readBlockTimestampMs,
+  shortAddress,
+  transactionHistoryStore,
+  type TransactionHistoryStore,
+  type TransferEvent,
+} from './transaction-history.ts'
+
+/** Depósito detectado en la alcancía de `entityId`. */
+export interface Deposit {
+  entityId: string
+  token: TokenInfo
+  decimals?: number
+  event: TransferEvent
+}
+
+export type DepositNotifier = (deposit: Deposit) => Promise<void>
+
+export interface WatchedAccount {
+  entityId: string
+  address: string
+}
+
+export interface DepositWatcherOptions {
+  clock?: SchedulerClock
+  /** Cada cuánto consultar la red (ALCANCIA_DEPOSIT_POLL_MS) */
+  pollIntervalMs?: number
+  /** Tope de bloques por consulta; si el watcher quedó atrás se pone al corriente en varias */
+  maxBlocksPerPoll?: number
+  accounts?: () => WatchedAccount[]
+  /** Intentos de aviso por depósito antes de darlo por perdido (p. ej. el dueño bloqueó al bot) */
+  maxNotifyAttempts?: number
+  registry?: TokenRegistry
+  history?: TransactionHistoryStore
+}
+
+interface WatcherState {
+  /** Último bloque revisado (inclusive) */
+  cursor?: number
+  /** eventKey de los depósitos ya avisados, los más recientes al final */
+  notified: string[]
+  /** Avisos que fallaron y se reintentan en las siguientes pasadas */
+  retries: PendingNotice[]
+}
+
+interface PendingNotice {
+  deposit: Deposit
+  attempts: number
+}
+
+const STATE_KEY = 'deposit-watcher:state'
+const MAX_REMEMBERED_EVENTS = 2000
+
+export function depositPollIntervalMs(): number {
+  const raw = process.env.ALCANCIA_DEPOSIT_POLL_MS?.trim()
+  const configured = raw ? Number(raw) : Number.NaN
+  // 0 apaga el watcher
+  return Number.isFinite(configured) && configured >= 0 ? configured : 30_000
+}
+
+/** "¡Llegaron 0.01 ETH a tu alcancía!" */
+export function describeDeposit({ token, decimals, event }: Deposit): string {
+  const amount = decimals !== undefined ? formatUnits(BigInt(event.amount), decimals) : `${event.amount} (unidades base)`
+  return `¡Llegaron ${amount} ${token.symbol} a tu alcancía!\nDe: ${shortAddress(event.from)}`
+}
+
+function knownAccounts(): WatchedAccount[] {
+  return telegramStarknetStore
+    .listAccounts()
+    .filter((account) => account.accountAddressHex)
+    .map((account) => ({ entityId: account.userEntityId, address: account.accountAddressHex! }))
+}
+
+/**
+ * Consulta periódicamente los Transfer hacia las alcancías conocidas y avisa a cada dueño.
+ * El cursor y los eventos ya avisados (tx + índice del evento) se guardan, así que un reinicio
+ * no repite avisos. La primera vez arranca en el bloque actual: no avisa depósitos viejos.
+ * Un aviso que falla se reintenta en las siguientes pasadas, hasta `maxNotifyAttempts` veces.
+ */
+export class DepositWatcher {
+  private readonly clock: SchedulerClock
+  private readonly pollIntervalMs: number
+  private readonly maxBlocksPerPoll: number
+  private readonly accounts: () => WatchedAccount[]
+  private readonly registry: TokenRegistry
+  private readonly history: TransactionHistoryStore
+  private readonly maxNotifyAttempts: number
+  private state: WatcherState = { notified: [], retries: [] }
+  private notified = new Set<string>()
+  private backend?: CacheBackend
+  private timer?: unknown
+  private running = false
+  private polling: Promise<number> = Promise.resolve(0)
+
+  constructor(
+    private readonly provider: RpcProvider,
+    private readonly notify: DepositNotifier,
+    options: DepositWatcherOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.pollIntervalMs = options.pollIntervalMs ?? depositPollIntervalMs()
+    this.maxBlocksPerPoll = options.maxBlocksPerPoll ?? 500
+    this.accounts = options.accounts ?? knownAccounts
+    this.maxNotifyAttempts = options.maxNotifyAttempts ?? 5
+    this.registry = options.registry ?? tokenRegistry
+    this.history = options.history ?? transactionHistoryStore
+  }
+
+  async attach(backend: CacheBackend): Promise<void> {
+    this.backend = backend
+    const stored = await backend.getCache<WatcherState>(STATE_KEY)
+    if (stored) {
+      this.state = { cursor: stored.cursor, notified: stored.notified ?? [], retries: stored.retries ?? [] }
+      this.notified = new Set(this.state.notified)
+    }
+    logger.info({ cursor: this.state.cursor, remembered: this.notified.size }, '[Deposits] Watcher state loaded')
+  }
+
+  get cursor(): number | undefined {
+    return this.state.cursor
+  }
+
+  /** Avisos fallidos que siguen en espera de reintento */
+  get pendingRetries(): number {
+    return this.state.retries.length
+  }
+
+  start(): void {
+    if (this.running || this.pollIntervalMs <= 0) return
+    this.running = true
+    this.schedule(0)
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  idle(): Promise<number> {
+    return this.polling
+  }
+
+  /** Una pasada: devuelve cuántos depósitos se avisaron. */
+  poll(): Promise<number> {
+    this.polling = this.polling.then(() =>
+      this.pollOnce().catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Deposits] poll failed')
+        return 0
+      })
+    )
+    return this.polling
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined
+      void this.poll().then(() => this.schedule(this.pollIntervalMs))
+    }, delayMs)
+  }
+
+  private async pollOnce(): Promise<number> {
+    const latest = await this.provider.getBlockNumber()
+    if (this.state.cursor === undefined) {
+      await this.save({ ...this.state, cursor: latest })
+      return 0
+    }
+    const retries: PendingNotice[] = []
+    let sent = await this.retryNotices(retries)
+    const fromBlock = this.state.cursor + 1
+    if (fromBlock > latest) {
+      await this.save({ ...this.state, notified: [...this.notified], retries })
+      return sent
+    }
+    const toBlock = Math.min(latest, fromBlock + this.maxBlocksPerPoll - 1)
+
+    // Una consulta por token con todas las alcancías que lo conocen
+    const byAddress = new Map<string, string>()
+    const recipientsByToken = new Map<string, { token: TokenInfo; recipients: string[] }>()
+    for (const { entityId, address } of this.accounts()) {
+      const normalized = normalizeTokenAddress(address)
+      byAddress.set(normalized, entityId)
+      for (const token of this.registry.list(entityId)) {
+        const entry = recipientsByToken.get(token.address) ?? { token, recipients: [] }
+        entry.recipients.push(normalized)
+        recipientsByToken.set(token.address, entry)
+      }
+    }
+
+    let complete = true
+    for (const { token, recipients } of recipientsByToken.values()) {
+      let events: TransferEvent[]
+      try {
+        events = await fetchDepositEvents(this.provider, token, recipients, fromBlock, toBlock)
+      } catch (error) {
+        complete = false
+        logger.error({ token: token.symbol, error: error instanceof Error ? error.message : String(error) }, '[Deposits] events query failed')
+        continue
+      }
+      for (const event of events) {
+        const entityId = byAddress.get(event.to)
+        if (!entityId || this.notified.has(event.eventKey) || retries.some((r) => r.deposit.event.eventKey === event.eventKey)) continue
+        const decimals = token.decimals ?? (await this.registry.resolveDecimals(token, this.provider, entityId).catch(() => undefined))
+        const timestampMs = await readBlockTimestampMs(this.provider, event.blockNumber)
+        this.history.append(entityId, [{ ...event, tokenSymbol: token.symbol, decimals, timestampMs }])
+        if (await this.deliver({ deposit: { entityId, token, decimals, event }, attempts: 0 }, retries)) sent++
+      }
+    }
+
+    // Un aviso fallido no detiene el cursor: queda en `retries` y los demás siguen recibiendo los suyos
+    await this.save({ cursor: complete ? toBlock : this.state.cursor, notified: [...this.notified], retries })
+    return sent
+  }
+
+  /** Reintenta los avisos pendientes; los que vuelven a fallar quedan en `retries`. */
+  private async retryNotices(retries: PendingNotice[]): Promise<number> {
+    let sent = 0
+    for (const pending of this.state.retries) if (await this.deliver(pending, retries)) sent++
+    return sent
+  }
+
+  private async deliver(pending: PendingNotice, retries: PendingNotice[]): Promise<boolean> {
+    const { entityId, event } = pending.deposit
+    try {
+      await this.notify(pending.deposit)
+      this.remember(event.eventKey)
+      return true
+    } catch (error) {
+      const attempts = pending.attempts + 1
+      const details = { entityId, eventKey: event.eventKey, attempts, error: error instanceof Error ? error.message : String(error) }
+      if (attempts < this.maxNotifyAttempts) {
+        logger.error(details, '[Deposits] notify failed')
+        retries.push({ ...pending, attempts })
+      } else {
+        // Se da por perdido para no reintentar para siempre a quien bloqueó al bot
+        logger.warn(details, '[Deposits] giving up on deposit notice')
+        this.remember(event.eventKey)
+      }
+      return false
+    }
+  }
+
+  private remember(eventKey: string): void {
+    this.notified.add(eventKey)
+    if (this.notified.size > MAX_REMEMBERED_EVENTS) {
+      const oldest = this.notified.values().next().value
+      if (oldest !== undefined) this.notified.delete(oldest)
+    }
+  }
+
+  private async save(state: WatcherState): Promise<void> {
+    this.state = state
+    if (!this.backend) return
+    try {
+      await this.backend.setCache(STATE_KEY, state)
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Deposits] state persist failed')
+    }
+  }
+}
@@ -0,0 +1,380 @@
+import { type IAgentRuntime, ModelType, logger } from '@elizaos/core'
+
+export type Intent =
+  | 'create_account'
+  | 'activate_account'
+  | 'show_address'
+  | 'show_balance'
+  | 'transfer'
+  | 'deploy_token'
+  | 'create_goal'
+  | 'show_goals'
+  | 'create_reminder'
+  | 'manage_reminders'
+  | 'show_history'
+  | 'manage_limits'
+  | 'lock_savings'
+  | 'manage_locks'
+  | 'manage_tanda'
+  | 'manage_contacts'
+  | 'none'
+
+export interface IntentSlots {
+  amount?: string
+  token?: string
+  recipient?: string
+}
+
+export interface IntentResult {
+  intent: Intent
+  confidence: number
+  slots: IntentSlots
+  source: 'rules' | 'llm'
+  /** true si el mensaje menciona la intención pero la niega ("no quiero enviar nada") */
+  negated?: boolean
+}
+
+/** Por debajo de esto el router no ejecuta nada (o consulta al LLM si está habilitado). */
+export const MIN_INTENT_CONFIDENCE = 0.6
+
+interface IntentRule {
+  intent: Exclude<Intent, 'none'>
+  /** Basta con que uno coincida; el índice del match se usa para detectar negaciones */
+  triggers: RegExp[]
+  /** Refuerzan la confianza (p. ej. "mi alcancía") */
+  context?: RegExp[]
+  /** Si coincide alguno, la regla no aplica */
+  blockers?: RegExp[]
+  /** No aplica si se habla de algo de otra persona ("tu saldo") y no de lo propio */
+  ownOnly?: boolean
+  /** Sin contexto, solo aplica a mensajes cortos como "saldo" o "dirección?" */
+  requiresContextUnlessShort?: boolean
+  /** Sin contexto no aplica nunca ("quiero ahorrar pero no sé cómo" es conversación) */
+  requiresContext?: boolean
+  /** Intenciones que, si también coinciden, tienen prioridad sobre esta */
+  yieldsTo?: Intent[]
+  slots?: (text: string) => IntentSlots
+}
+
+const AMOUNT = /(\d+(?:[.,]\d+)?)/
+const ADDRESS = /\b(0x[0-9a-f]{1,64})\b/
+const USERNAME = /(@[a-z0-9_]{3,32})\b/
+const STARK_DOMAIN = /\b([a-z0-9-]+\.stark)\b/
+
+function extractTransferSlots(text: string): IntentSlots {
+  const slots: IntentSlots = {}
+  const amountWithToken = new RegExp(`${AMOUNT.source}\\s*([a-z]{2,10})?`).exec(text.replace(ADDRESS, ' '))
+  if (amountWithToken) {
+    slots.amount = amountWithToken[1].replace(',', '.')
+    const token = amountWithToken[2]
+    if (token && !['a', 'al', 'para', 'to', 'de', 'en'].includes(token)) slots.token = token.toUpperCase()
+  }
+  const recipient = ADDRESS.exec(text) ?? USERNAME.exec(text) ?? STARK_DOMAIN.exec(text)
+  if (recipient) slots.recipient = recipient[1]
+  return slots
+}
+
+const OWN = /\b(mi|mis|my|alcancia|cuenta|account)\b/
+const MONEY_WORDS = /\b(pesos?|dolares?|mil|cien|usdc|usdt|eth|strk)\b/
+const SCHEDULE_WORDS = /\b(cada|todos los|todas las|diario|diariamente|semanal\w*|mensual\w*|lunes|martes|miercoles|jueves|viernes|sabados?|domingos?|every|daily|weekly|monthly)\b/
+// Pertenencia a otra persona ("tu tarjeta", "su saldo", "your balance")
+const OTHER_OWNER = /\b(tu|tus|su|sus|your|his|her|their)\b/
+const FIRST_PERSON = /\b(mi|mis|my)\b/
+
+const RULES: IntentRule[] = [
+  {
+    intent: 'deploy_token',
+    triggers: [
+      /\b(crea|crear|creame|lanza|lanzar|despliega|desplegar|deploy|launch|create|mint)\b.*\b(token|memecoin|meme ?coin|meme ?token|moneda)\b/,
+      /\bmeme ?(token|coin)\b/,
+    ],
+  },
+  {
+    intent: 'create_account',
+    triggers: [
+      /\b(crea|crear|creame|abre|abrir|abreme|haz|hazme|hacer|create|open|make|set ?up)\b.*\b(alcancia|cuenta|wallet|account|cartera)\b/,
+      /\b(nueva|new)\s+(alcancia|cuenta|wallet|account)\b/,
+    ],
+    yieldsTo: ['deploy_token'],
+  },
+  {
+    intent: 'activate_account',
+    triggers: [
+      /\b(activa|activar|activame|reactiva|reactivar|despliega|desplegar|deploy|activate|reintenta\w*|retry)\b.*\b(alcancia|cuenta|wallet|account)\b/,
+      /\bya (deposite|meti|fondee)\b/,
+    ],
+    yieldsTo: ['deploy_token'],
+  },
+  {
+    intent: 'transfer',
+    triggers: [
+      /\b(envia|enviar|enviale|envie|manda|mandar|mandale|transfiere|transferir|transfer|send|paga|pagar|pagale|pay)\b/,
+    ],
+    // Sin monto, token o destinatario no es un envío: "¿me puedes enviar la dirección de tu casa?"
+    context: [AMOUNT, MONEY_WORDS, ADDRESS, USERNAME, STARK_DOMAIN, /\b(tokens?|dinero|lana|contacto)\b/],
+    blockers: [/\b(fotos?|ubicacion|location|mensajes?|archivos?|documentos?|videos?|audios?|correos?|emails?)\b/],
+    requiresContextUnlessShort: true,
+    // "quiero ahorrar 5000 para pagar la renta" es una meta y "recuérdame pagar..." un recordatorio, no un pago
+    yieldsTo: ['create_goal', 'create_reminder', 'manage_limits', 'manage_tanda'],
+    slots: extractTransferSlots,
+  },
+  {
+    intent: 'create_goal',
+    triggers: [
+      /\b(quiero|quisiera|voy a|vamos a|planeo|pienso|necesito|me gustaria|ayudame a)\s+(juntar|ahorrar)\b/,
+      /\b(crea|crear|creame|nueva|agrega|agregar|pon|ponme|fija|fijar|define|definir)\b.*\bmeta\b/,
+      /\b(i want to|i need to|help me) save\b/,
+      /\b(new|create|set)\b.*\bgoal\b/,
+    ],
+    context: [AMOUNT, MONEY_WORDS, /\b(meta|goal)\b/],
+    requiresContext: true,
+    yieldsTo: ['create_reminder', 'manage_tanda'],
+  },
+  {
+    intent: 'show_goals',
+    triggers: [/\bmetas?\b/, /\bgoals?\b/, /\bcuanto me falta\b/],
+    context: [OWN, /\b(progreso|avance|como va|como vamos|como voy|progress)\b/],
+    requiresContextUnlessShort: true,
+    ownOnly: true,
+    yieldsTo: ['create_goal', 'transfer', 'create_account', 'deploy_token', 'create_reminder', 'manage_reminders', 'lock_savings'],
+  },
+  {
+    intent: 'create_reminder',
+    triggers: [
+      /\b(recuerdame|recordarme|recuerdeme|avisame|remind me)\b/,
+      /\b(pon|ponme|crea|crear|creame|agrega|agregar|programa|programar)\b.*\brecordatorio\b/,
+      /\bnuevo recordatorio\b/,
+    ],
+    context: [SCHEDULE_WORDS],
+  },
+  {
+    intent: 'manage_reminders',
+    triggers: [/\brecordatorios?\b/, /\breminders?\b/],
+    context: [OWN, /\b(pausa\w*|deten\w*|suspende\w*|reanuda\w*|reactiva\w*|activa\w*|borra\w*|elimina\w*|quita\w*|cancela\w*|ver|muestra\w*|lista\w*|pause|resume|delete|show|list)\b/],
+    requiresContextUnlessShort: true,
+    ownOnly: true,
+    yieldsTo: ['create_reminder'],
+  },
+  {
+    intent: 'manage_limits',
+    triggers: [
+      /\b(limites?|topes?)\b/,
+      /\blista (de confianza|permitida|blanca)\b/,
+      /\b(permite|permitir|autoriza|autorizar)\b.*\b0x[0-9a-f]+\b/,
+      /\b(cool ?down|periodo de espera|espera para direcciones)\b/,
+    ],
+    context: [OWN, MONEY_WORDS, ADDRESS, /\b(diari[oa]|semanal|por envio|quita\w*|pon|ponme|cambia\w*|solo)\b/],
+    requiresContextUnlessShort: true,
+    ownOnly: true,
+    yieldsTo: ['create_goal'],
+  },
+  {
+    intent: 'lock_savings',
+    triggers: [
+      /\b(bloquea|bloquear|bloqueame|guarda|guardar|guardame|aparta|apartar|apartame|congela|congelar|encierra|lock)\b.*\bhasta\b/,
+      /\balcancia de barro\b/,
+    ],
+    context: [AMOUNT, MONEY_WORDS],
+    requiresContext: true,
+  },
+  {
+    intent: 'manage_locks',
+    triggers: [
+      /\b(rompe|romper|rompela|quiebra|quebrar)\b.*\b(alcancia|ahorro|bloqueo)/,
+      /\bdesbloque\w*\b/,
+      /\b(mis bloqueos|ahorros? bloqueados?|alcancia de barro)\b/,
+    ],
+    yieldsTo: ['lock_savings'],
+  },
+  {
+    intent: 'manage_tanda',
+    triggers: [/\btandas?\b/, /\bahorro grupal\b/],
+    // "recuérdame pagar la tanda cada viernes" es un recordatorio
+    yieldsTo: ['create_reminder'],
+  },
+  {
+    intent: 'manage_contacts',
+    triggers: [
+      /\b(guarda|guardar|guardame|agrega|agregar|agregame|anade|anadir|anota|anotar|registra|registrar)\b.*\bcomo\b/,
+      /\bcontactos?\b/,
+      /\b(mi|mis) agenda\b/,
+      /\b(renombra|renombrar|renombralo|renombrala)\b/,
+    ],
+    context: [ADDRESS, USERNAME, OWN, /\b(borra\w*|elimina\w*|quita\w*|cambia\w*|renombra\w*|busca\w*|ver|muestra\w*|lista\w*)\b/],
+    requiresContextUnlessShort: true,
+    // "envía 5 STRK a mi contacto mamá" es un envío; "guarda 100 STRK como ahorro hasta diciembre", un bloqueo
+    yieldsTo: ['transfer', 'lock_savings', 'create_reminder'],
+  },
+  {
+    intent: 'show_history',
+    triggers: [
+      /\b(movimientos|historial|transacciones|operaciones|history|transactions)\b/,
+      /\b(mis|ultimos|ultimas) (envios|depositos|pagos|transferencias)\b/,
+    ],
+    context: [OWN, /\b(recientes|ultimos|ultimas|pagina|mas|anteriores|siguientes|recent|more)\b/],
+    requiresContextUnlessShort: true,
+    ownOnly: true,
+    yieldsTo: ['transfer', 'create_account', 'deploy_token', 'create_reminder', 'manage_reminders'],
+  },
+  {
+    intent: 'show_balance',
+    triggers: [/\b(saldo|balance|fondos|funds)\b/, /\bcuanto (dinero )?(tengo|hay|llevo)\b/, /\bhow much (do i have|is in)\b/],
+    context: [OWN],
+    ownOnly: true,
+    yieldsTo: ['transfer', 'create_account', 'deploy_token', 'create_goal', 'show_goals', 'create_reminder'],
+  },
+  {
+    intent: 'show_address',
+    triggers: [/\b(direccion|address)\b/],
+    context: [OWN, /\b(deposit\w*|recib\w*|receive)\b/],
+    blockers: [/\b(oficina|casa|domicilio|calle|office|home|street|correo|email|tienda|negocio)\b/],
+    requiresContextUnlessShort: true,
+    ownOnly: true,
+    yieldsTo: ['transfer', 'create_account', 'deploy_token', 'manage_contacts'],
+  },
+]
+
+// Negación inmediatamente antes del disparador ("no quiero enviar", "don't send").
+// Excluye "no sé"/"no recuerdo", que en realidad son preguntas.
+const NEGATION_BEFORE = /\b(no|nunca|jamas|ni|dont|don't|do not|never|not)\b(?!\s+(se|sabe|recuerdo|tengo idea|know|remember))(\s+\S+){0,3}\s*$/
+
+export function normalizeIntentText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[¿?¡!"“”]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+interface RuleHit {
+  rule: IntentRule
+  confidence: number
+  negated: boolean
+}
+
+function evaluateRule(rule: IntentRule, text: string): RuleHit | undefined {
+  let match: RegExpExecArray | null = null
+  for (const trigger of rule.triggers) {
+    match = trigger.exec(text)
+    if (match) break
+  }
+  if (!match) return undefined
+
+  if (NEGATION_BEFORE.test(text.slice(0, match.index))) return { rule, confidence: 0.9, negated: true }
+
+  const hasContext = rule.context?.some((re) => re.test(text)) ?? false
+  if (rule.blockers?.some((re) => re.test(text))) return undefined
+  if (rule.ownOnly && OTHER_OWNER.test(text) && !FIRST_PERSON.test(text)) return undefined
+  const isShort = text.split(' ').length <= 3
+  if (rule.requiresContextUnlessShort && !hasContext && !isShort) return undefined
+  if (rule.requiresContext && !hasContext) return undefined
+
+  let confidence = 0.7
+  if (hasContext) confidence += 0.2
+  else if (isShort) confidence += 0.1
+  return { rule, confidence, negated: false }
+}
+
+/** Clasificación determinista por reglas (sin LLM). */
+export function classifyIntentByRules(rawText: string): IntentResult {
+  const text = normalizeIntentText(rawText)
+  if (!text) return { intent: 'none', confidence: 0, slots: {}, source: 'rules' }
+
+  const hits = RULES.map((rule) => evaluateRule(rule, text)).filter((hit): hit is RuleHit => Boolean(hit))
+  const positive = hits.filter((hit) => !hit.negated)
+  const matchedIntents = new Set<Intent>(positive.map((hit) => hit.rule.intent))
+  const eligible = positive.filter((hit) => !hit.rule.yieldsTo?.some((intent) => matchedIntents.has(intent)))
+
+  const best = eligible.sort((a, b) => b.confidence - a.confidence)[0]
+  if (best) {
+    return {
+      intent: best.rule.intent,
+      confidence: best.confidence,
+      slots: best.rule.slots?.(text) ?? {},
+      source: 'rules',
+    }
+  }
+
+  const negated = hits.find((hit) => hit.negated)
+  if (negated) return { intent: 'none', confidence: negated.confidence, slots: {}, source: 'rules', negated: true }
+  return { intent: 'none', confidence: 0, slots: {}, source: 'rules' }
+}
+
+const INTENTS: Intent[] = [
+  'create_account',
+  'activate_account',
+  'show_address',
+  'show_balance',
+  'transfer',
+  'deploy_token',
+  'create_goal',
+  'show_goals',
+  'create_reminder',
+  'manage_reminders',
+  'show_history',
+  'manage_limits',
+  'lock_savings',
+  'manage_locks',
+  'manage_tanda',
+  'manage_contacts',
+  'none',
+]
+
+function buildIntentPrompt(text: string): string {
+  return [
+    'Clasifica el mensaje de un usuario de una alcancía digital (cuenta Starknet) en una intención.',
+    `Intenciones válidas: ${INTENTS.join(', ')}.`,
+    'Si el usuario niega la acción o habla de otra cosa (p. ej. la dirección de una oficina), responde none.',
+    'Responde solo JSON: {"intent": "...", "confidence": 0..1, "slots": {"amount"?: "...", "token"?: "...", "recipient"?: "..."}}',
+    `Mensaje: ${JSON.stringify(text)}`,
+  ].join('\n')
+}
+
+function parseLlmIntent(raw: unknown): IntentResult | undefined {
+  if (typeof raw !== 'string') return undefined
+  const json = /\{[\s\S]*\}/.exec(raw)?.[0]
+  if (!json) return undefined
+  try {
+    const parsed = JSON.parse(json) as { intent?: string; confidence?: number; slots?: Record<string, unknown> }
+    if (!parsed.intent || !INTENTS.includes(parsed.intent as Intent)) return undefined
+    const slots: IntentSlots = {}
+    for (const key of ['amount', 'token', 'recipient'] as const) {
+      const value = parsed.slots?.[key]
+      if (typeof value === 'string' && value.trim()) slots[key] = value.trim()
+    }
+    const confidence = typeof parsed.confidence === 'number' ? Math.max(0, Math.min(1, parsed.confidence)) : 0.5
+    return { intent: parsed.intent as Intent, confidence, slots, source: 'llm' }
+  } catch {
+    return undefined
+  }
+}
+
+export interface ClassifyIntentOptions {
+  runtime?: IAgentRuntime
+  /** Consultar al LLM cuando las reglas no alcanzan MIN_INTENT_CONFIDENCE (por defecto ALCANCIA_INTENT_LLM_FALLBACK) */
+  useLlmFallback?: boolean
+}
+
+/**
+ * Reglas primero; si no hay una intención clara y el fallback está habilitado,
+ * pregunta al modelo pequeño vía runtime.useModel. Un mensaje negado nunca va al LLM.
+ */
+export async function classifyIntent(text: string, options: ClassifyIntentOptions = {}): Promise<IntentResult> {
+  const byRules = classifyIntentByRules(text)
+  if (byRules.confidence >= MIN_INTENT_CONFIDENCE || byRules.negated) return byRules
+
+  const useLlm = options.useLlmFallback ?? ['1', 'true'].includes(String(process.env.ALCANCIA_INTENT_LLM_FALLBACK).toLowerCase())
+  if (!useLlm || !options.runtime) return byRules
+
+  try {
+    const raw = await options.runtime.useModel(ModelType.TEXT_SMALL, { prompt: buildIntentPrompt(text) })
+    const byLlm = parseLlmIntent(raw)
+    if (byLlm) return byLlm
+    logger.warn({ raw: typeof raw === 'string' ? raw.slice(0, 200) : typeof raw }, '[Intent] LLM answer not understood')
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Intent] LLM fallback failed')
+  }
+  return byRules
+}
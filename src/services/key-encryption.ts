@@ -0,0 +1,154 @@
+import crypto from 'node:crypto'
+
+export interface EncryptedSecret {
+  v: 1
+  alg: 'aes-256-gcm'
+  iv: string
+  tag: string
+  ct: string
+}
+
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const PASSPHRASE_SALT = 'alcancia-digital:master-key'
+
+/**
+ * Interpreta STARKNET_MASTER_KEY: 32 bytes en hex (64 caracteres) o base64;
+ * cualquier otro valor se trata como frase y se estira con scrypt.
+ */
+export function parseMasterKey(raw: string | undefined): Buffer | undefined {
+  const value = raw?.trim()
+  if (!value) return undefined
+
+  const hex = value.startsWith('0x') ? value.slice(2) : value
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) return Buffer.from(hex, 'hex')
+
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    const decoded = Buffer.from(value, 'base64')
+    if (decoded.length === KEY_BYTES) return decoded
+  }
+
+  return crypto.scryptSync(value, PASSPHRASE_SALT, KEY_BYTES)
+}
+
+export function loadMasterKeyFromEnv(): Buffer | undefined {
+  return parseMasterKey(process.env.STARKNET_MASTER_KEY)
+}
+
+/**
+ * Cifra con AES-256-GCM. `associatedData` liga el texto cifrado a su dueño
+ * (p. ej. el entityId) para que no pueda moverse entre registros.
+ */
+export function encryptSecret(key: Buffer, plaintext: string, associatedData: string): EncryptedSecret {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(associatedData, 'utf8'))
+  const ct = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return {
+    v: 1,
+    alg: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ct: ct.toString('base64'),
+  }
+}
+
+export function decryptSecret(key: Buffer, secret: EncryptedSecret, associatedData: string): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'))
+  decipher.setAAD(Buffer.from(associatedData, 'utf8'))
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(secret.ct, 'base64')), decipher.final()]).toString('utf8')
+}
+
+// ---- envelope encryption (DEK por secreto, envuelta con la master key) ----
+
+export interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+export interface MasterKeyring {
+  current: MasterKey
+  previous: MasterKey[]
+  /** true si la master key se generó al vuelo: sirve para memoria, nunca para persistir */
+  ephemeral: boolean
+}
+
+/** Secreto cifrado con su propia DEK; la DEK viaja envuelta por la master key `kekId`. */
+export interface SealedSecret {
+  kekId: string
+  wrappedDek: EncryptedSecret
+  secret: EncryptedSecret
+}
+
+export function masterKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)
+}
+
+function toMasterKey(key: Buffer): MasterKey {
+  return { id: masterKeyId(key), key }
+}
+
+export function createKeyring(current: Buffer, previous: Buffer[] = [], ephemeral = false): MasterKeyring {
+  return { current: toMasterKey(current), previous: previous.map(toMasterKey), ephemeral }
+}
+
+export function createEphemeralKeyring(): MasterKeyring {
+  return createKeyring(crypto.randomBytes(KEY_BYTES), [], true)
+}
+
+/**
+ * STARKNET_MASTER_KEY es la llave vigente; STARKNET_MASTER_KEY_PREVIOUS (separadas por coma)
+ * son llaves anteriores que solo se usan para desenvolver durante una rotación.
+ */
+export function loadKeyringFromEnv(): MasterKeyring | undefined {
+  const current = loadMasterKeyFromEnv()
+  if (!current) return undefined
+  const previous = (process.env.STARKNET_MASTER_KEY_PREVIOUS ?? '')
+    .split(',')
+    .map((raw) => parseMasterKey(raw))
+    .filter((key): key is Buffer => Boolean(key))
+  return createKeyring(current, previous)
+}
+
+function findMasterKey(keyring: MasterKeyring, kekId: string): MasterKey {
+  if (keyring.current.id === kekId) return keyring.current
+  const found = keyring.previous.find((k) => k.id === kekId)
+  if (!found) throw new Error(`Unknown master key ${kekId}`)
+  return found
+}
+
+export function sealSecret(keyring: MasterKeyring, plaintext: string, associatedData: string): SealedSecret {
+  const dek = crypto.randomBytes(KEY_BYTES)
+  try {
+    return {
+      kekId: keyring.current.id,
+      wrappedDek: encryptSecret(keyring.current.key, dek.toString('base64'), `${associatedData}:dek`),
+      secret: encryptSecret(dek, plaintext, associatedData),
+    }
+  } finally {
+    dek.fill(0)
+  }
+}
+
+export function openSecret(keyring: MasterKeyring, sealed: SealedSecret, associatedData: string): string {
+  const kek = findMasterKey(keyring, sealed.kekId)
+  const dek = Buffer.from(decryptSecret(kek.key, sealed.wrappedDek, `${associatedData}:dek`), 'base64')
+  try {
+    return decryptSecret(dek, sealed.secret, associatedData)
+  } finally {
+    dek.fill(0)
+  }
+}
+
+/** Vuelve a envolver la DEK con la master key vigente; el texto cifrado del secreto no cambia. */
+export function rewrapSecret(keyring: MasterKeyring, sealed: SealedSecret, associatedData: string): SealedSecret {
+  if (sealed.kekId === keyring.current.id) return sealed
+  const kek = findMasterKey(keyring, sealed.kekId)
+  const dekB64 = decryptSecret(kek.key, sealed.wrappedDek, `${associatedData}:dek`)
+  return {
+    kekId: keyring.current.id,
+    wrappedDek: encryptSecret(keyring.current.key, dekB64, `${associatedData}:dek`),
+    secret: sealed.secret,
+  }
+}
@@ -0,0 +1,79 @@
+import { type IAgentRuntime, type TargetInfo, type UUID, logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+
+/** A dónde mandar un mensaje que el usuario no pidió (misma forma que el TargetInfo del runtime). */
+export interface NotificationTarget {
+  source: string
+  roomId?: string
+  channelId?: string
+}
+
+const TARGETS_KEY = 'notification-targets'
+
+/**
+ * Último chat privado de cada usuario, para avisos como "llegaron 0.01 ETH".
+ * Nunca se guarda un grupo: el saldo de la alcancía no se anuncia frente a otros.
+ */
+export class NotificationTargetStore {
+  private readonly targets = new Map<string, NotificationTarget>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const stored = (await backend.getCache<Record<string, NotificationTarget>>(TARGETS_KEY)) ?? {}
+    for (const [entityId, target] of Object.entries(stored)) {
+      if (!this.targets.has(entityId)) this.targets.set(entityId, target)
+    }
+    this.persist()
+    await this.flush()
+    return { loaded: Object.keys(stored).length }
+  }
+
+  get(entityId: string): NotificationTarget | undefined {
+    return this.targets.get(entityId)
+  }
+
+  /** Se llama con cada mensaje; solo escribe si cambió el chat. */
+  remember(entityId: string, target: NotificationTarget, channelType?: string): void {
+    if (channelType && !['DM', 'VOICE_DM', 'SELF', 'API'].includes(channelType)) return
+    const current = this.targets.get(entityId)
+    if (current && current.source === target.source && current.roomId === target.roomId && current.channelId === target.channelId) return
+    this.targets.set(entityId, { ...target })
+    this.persist()
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = Object.fromEntries(this.targets)
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(TARGETS_KEY, snapshot)
+      })
+      .catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Notify] persist failed')
+      })
+  }
+}
+
+export const notificationTargets = new NotificationTargetStore()
+
+/**
+ * Envía `text` por runtime.sendMessageToTarget. El envío a Telegram necesita el chat (channelId);
+ * si no se guardó, se toma de la sala.
+ */
+export async function sendNotification(runtime: IAgentRuntime, entityId: string, destination: NotificationTarget, text: string): Promise<void> {
+  const target: TargetInfo = {
+    source: destination.source,
+    roomId: destination.roomId as UUID | undefined,
+    channelId: destination.channelId,
+    entityId: entityId as UUID,
+  }
+  if (!target.channelId && target.roomId) target.channelId = (await runtime.getRoom(target.roomId))?.channelId
+  await runtime.sendMessageToTarget(target, { text, source: target.source })
+}
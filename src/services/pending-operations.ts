@@ -0,0 +1,119 @@
+import crypto from 'node:crypto'
+import type { ActionResult, HandlerCallback } from '@elizaos/core'
+import { normalizeIntentText } from './intent-classifier.ts'
+
+export type PendingOperationKind = 'transfer' | 'deploy_token' | 'policy_change' | 'emergency_unlock' | 'tanda_cancel'
+
+/** Acción que mueve valor y espera el "sí" de su dueño antes de ejecutarse. */
+export interface PendingOperation {
+  id: string
+  kind: PendingOperationKind
+  roomId?: string
+  entityId: string
+  /** Resumen que se le mostró al usuario (monto, destinatario, comisión estimada) */
+  summary: string
+  createdAtMs: number
+  expiresAtMs: number
+  /** Ejecuta la operación respondiendo por el callback del mensaje que la confirmó */
+  execute: (callback: HandlerCallback) => Promise<ActionResult>
+}
+
+export type ProposeOperationInput = Pick<PendingOperation, 'kind' | 'roomId' | 'entityId' | 'summary' | 'execute'>
+
+export type ConfirmationReply = 'confirm' | 'cancel'
+
+export type ResolveResult =
+  | { status: 'confirmed'; operation: PendingOperation; outcome?: ActionResult }
+  | { status: 'cancelled'; operation: PendingOperation }
+  | { status: 'expired'; operation: PendingOperation }
+  | { status: 'none' }
+
+export const PENDING_OPERATION_TTL_MS = 2 * 60 * 1000
+
+const CONFIRM_RE = /^(si|confirmar|confirmo|confirma|confirm|yes|dale|adelante|hazlo|ok)( (por favor|porfa|please|confirmo|confirmar|adelante|dale))?$/
+const CANCEL_RE = /^(no|cancelar|cancela|cancelalo|cancel|olvidalo|ya no|mejor no)( (gracias|por favor|thanks))?$/
+
+/** Solo respuestas explícitas cuentan; "sí, pero a otra dirección" no confirma nada. */
+export function classifyConfirmationReply(text: string): ConfirmationReply | undefined {
+  const normalized = normalizeIntentText(text).replace(/[.,;]/g, ' ').replace(/\s+/g, ' ').trim()
+  if (CONFIRM_RE.test(normalized)) return 'confirm'
+  if (CANCEL_RE.test(normalized)) return 'cancel'
+  return undefined
+}
+
+function operationKey(roomId: string | undefined, entityId: string): string {
+  return `${roomId ?? 'dm'}:${entityId}`
+}
+
+/**
+ * Una operación pendiente por usuario y sala. Proponer otra reemplaza la anterior, y
+ * confirmar la retira del registro antes de ejecutarla: dos "sí" seguidos no la ejecutan dos veces.
+ */
+export class PendingOperationRegistry {
+  private readonly operations = new Map<string, PendingOperation>()
+
+  constructor(
+    private readonly ttlMs = PENDING_OPERATION_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  propose(input: ProposeOperationInput): { operation: PendingOperation; replaced?: PendingOperation } {
+    const key = operationKey(input.roomId, input.entityId)
+    const replaced = this.peek(key)
+    const createdAtMs = this.now()
+    const operation: PendingOperation = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAtMs,
+      expiresAtMs: createdAtMs + this.ttlMs,
+    }
+    this.operations.set(key, operation)
+    return { operation, replaced }
+  }
+
+  /** La operación vigente del usuario en esa sala (las expiradas se descartan). */
+  get(roomId: string | undefined, entityId: string): PendingOperation | undefined {
+    return this.peek(operationKey(roomId, entityId))
+  }
+
+  /** true mientras haya algo que responder, incluso vencido (para avisar que expiró). */
+  isAwaitingReply(roomId: string | undefined, entityId: string): boolean {
+    return this.operations.has(operationKey(roomId, entityId))
+  }
+
+  /**
+   * Aplica la respuesta del usuario. Solo el dueño de la operación y solo en la misma sala;
+   * si ya venció se retira y se reporta como 'expired' para poder avisarle.
+   */
+  resolve(roomId: string | undefined, entityId: string, reply: ConfirmationReply): ResolveResult {
+    const key = operationKey(roomId, entityId)
+    const operation = this.operations.get(key)
+    if (!operation) return { status: 'none' }
+    this.operations.delete(key)
+    if (operation.expiresAtMs <= this.now()) return { status: 'expired', operation }
+    return { status: reply === 'confirm' ? 'confirmed' : 'cancelled', operation }
+  }
+
+  /** Confirma y ejecuta; la ejecución corre fuera del registro, así que no bloquea otras salas. */
+  async confirm(roomId: string | undefined, entityId: string, callback: HandlerCallback): Promise<ResolveResult> {
+    const result = this.resolve(roomId, entityId, 'confirm')
+    if (result.status !== 'confirmed') return result
+    return { ...result, outcome: await result.operation.execute(callback) }
+  }
+
+  cancel(roomId: string | undefined, entityId: string): ResolveResult {
+    return this.resolve(roomId, entityId, 'cancel')
+  }
+
+  private peek(key: string): PendingOperation | undefined {
+    const operation = this.operations.get(key)
+    if (!operation) return undefined
+    if (operation.expiresAtMs <= this.now()) {
+      this.operations.delete(key)
+      return undefined
+    }
+    return operation
+  }
+}
+
+export const pendingOperations = new PendingOperationRegistry()
@@ -0,0 +1,259 @@
+import fs from 'node:fs/promises'
+import { logger } from '@elizaos/core'
+
+export type FiatCurrency = 'MXN' | 'USD'
+
+export const FIAT_CURRENCIES: readonly FiatCurrency[] = ['MXN', 'USD']
+
+/** Precio de 1 unidad de `symbol` en `currency`, según la fuente, a la hora `asOfMs`. */
+export interface PriceQuote {
+  symbol: string
+  currency: FiatCurrency
+  price: number
+  asOfMs: number
+  source: string
+}
+
+/** Origen de precios intercambiable (archivo, API HTTP, ...). */
+export interface PriceSource {
+  readonly name: string
+  getPrices(symbols: string[], currencies: readonly FiatCurrency[]): Promise<PriceQuote[]>
+}
+
+// ---- fuentes ----
+
+/**
+ * Precios desde un JSON local, para pruebas y para correr sin red:
+ *   { "asOf": "2026-01-01T00:00:00Z", "prices": { "ETH": { "MXN": 55000, "USD": 3000 } } }
+ * Sin "asOf" se usa la fecha de modificación del archivo.
+ */
+export class FilePriceSource implements PriceSource {
+  readonly name = 'file'
+
+  constructor(private readonly filePath: string) {}
+
+  async getPrices(symbols: string[], currencies: readonly FiatCurrency[]): Promise<PriceQuote[]> {
+    const [raw, stat] = await Promise.all([fs.readFile(this.filePath, 'utf8'), fs.stat(this.filePath)])
+    const parsed = JSON.parse(raw) as { asOf?: string; prices?: Record<string, Partial<Record<FiatCurrency, number>>> }
+    const asOfMs = parsed.asOf ? Date.parse(parsed.asOf) : stat.mtimeMs
+    if (Number.isNaN(asOfMs)) throw new Error(`Invalid asOf in ${this.filePath}`)
+
+    const quotes: PriceQuote[] = []
+    for (const symbol of symbols) {
+      const row = parsed.prices?.[symbol.toUpperCase()]
+      for (const currency of currencies) {
+        const price = row?.[currency]
+        if (typeof price === 'number' && Number.isFinite(price) && price >= 0)
+          quotes.push({ symbol: symbol.toUpperCase(), currency, price, asOfMs, source: this.name })
+      }
+    }
+    return quotes
+  }
+}
+
+// Ids de CoinGecko para los tokens conocidos; los meme tokens no tienen precio público
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  STRK: 'starknet',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+}
+
+/** API pública de CoinGecko (`/simple/price`). */
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'coingecko'
+
+  constructor(
+    private readonly baseUrl = 'https://api.coingecko.com/api/v3',
+    private readonly timeoutMs = 5000
+  ) {}
+
+  async getPrices(symbols: string[], currencies: readonly FiatCurrency[]): Promise<PriceQuote[]> {
+    const wanted = symbols.map((s) => s.toUpperCase()).filter((s) => COINGECKO_IDS[s])
+    if (wanted.length === 0) return []
+    const url = new URL(`${this.baseUrl}/simple/price`)
+    url.searchParams.set('ids', wanted.map((s) => COINGECKO_IDS[s]).join(','))
+    url.searchParams.set('vs_currencies', currencies.map((c) => c.toLowerCase()).join(','))
+    url.searchParams.set('include_last_updated_at', 'true')
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) })
+    if (!response.ok) throw new Error(`CoinGecko answered ${response.status}`)
+    const body = (await response.json()) as Record<string, Record<string, number>>
+
+    const quotes: PriceQuote[] = []
+    for (const symbol of wanted) {
+      const row = body[COINGECKO_IDS[symbol]]
+      if (!row) continue
+      const asOfMs = typeof row.last_updated_at === 'number' ? row.last_updated_at * 1000 : Date.now()
+      for (const currency of currencies) {
+        const price = row[currency.toLowerCase()]
+        if (typeof price === 'number') quotes.push({ symbol, currency, price, asOfMs, source: this.name })
+      }
+    }
+    return quotes
+  }
+}
+
+// ---- oráculo con cache ----
+
+export interface PriceOracleOptions {
+  /** Cuánto reutilizar lo consultado antes de volver a preguntar a la fuente */
+  cacheTtlMs?: number
+  /** A partir de esta antigüedad el precio se muestra como desactualizado */
+  staleAfterMs?: number
+  /** A partir de esta antigüedad el precio ya no se usa */
+  discardAfterMs?: number
+  now?: () => number
+}
+
+export interface OracleQuote extends PriceQuote {
+  stale: boolean
+}
+
+export interface TokenAmount {
+  symbol: string
+  /** Monto decimal en unidades del token (no base) */
+  amount: number
+}
+
+export interface Valuation {
+  currency: FiatCurrency
+  items: Array<{ symbol: string; value?: number; quote?: OracleQuote }>
+  /** Suma de lo que sí tiene precio */
+  total: number
+  /** Tokens con saldo pero sin precio utilizable (el total es parcial) */
+  missing: string[]
+  stale: boolean
+}
+
+interface CacheEntry {
+  quote?: PriceQuote
+  fetchedAtMs: number
+}
+
+/**
+ * Precios fiat con cache. Si la fuente falla se sigue usando el último precio conocido,
+ * marcado como desactualizado, hasta `discardAfterMs`; después el token queda "sin precio".
+ */
+export class PriceOracle {
+  private readonly cache = new Map<string, CacheEntry>()
+  private readonly cacheTtlMs: number
+  private readonly staleAfterMs: number
+  private readonly discardAfterMs: number
+  private readonly now: () => number
+
+  constructor(
+    private readonly source: PriceSource,
+    options: PriceOracleOptions = {}
+  ) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 1000
+    this.staleAfterMs = options.staleAfterMs ?? 15 * 60 * 1000
+    this.discardAfterMs = options.discardAfterMs ?? 24 * 60 * 60 * 1000
+    this.now = options.now ?? Date.now
+  }
+
+  async getQuotes(symbols: string[], currencies: readonly FiatCurrency[] = FIAT_CURRENCIES): Promise<OracleQuote[]> {
+    const wanted = [...new Set(symbols.map((s) => s.toUpperCase()))]
+    const now = this.now()
+    const expired = wanted.filter((symbol) =>
+      currencies.some((currency) => {
+        const entry = this.cache.get(cacheKey(symbol, currency))
+        return !entry || now - entry.fetchedAtMs >= this.cacheTtlMs
+      })
+    )
+    if (expired.length > 0) await this.refresh(expired, currencies, now)
+
+    const quotes: OracleQuote[] = []
+    for (const symbol of wanted) {
+      for (const currency of currencies) {
+        const quote = this.cache.get(cacheKey(symbol, currency))?.quote
+        if (!quote) continue
+        const age = now - quote.asOfMs
+        if (age >= this.discardAfterMs) continue
+        quotes.push({ ...quote, stale: age >= this.staleAfterMs })
+      }
+    }
+    return quotes
+  }
+
+  async getQuote(symbol: string, currency: FiatCurrency): Promise<OracleQuote | undefined> {
+    return (await this.getQuotes([symbol], [currency]))[0]
+  }
+
+  async valuate(amounts: TokenAmount[], currency: FiatCurrency): Promise<Valuation> {
+    const quotes = await this.getQuotes(
+      amounts.map((a) => a.symbol),
+      [currency]
+    )
+    const bySymbol = new Map(quotes.map((q) => [q.symbol, q]))
+    const items: Valuation['items'] = []
+    const missing: string[] = []
+    let total = 0
+    for (const { symbol, amount } of amounts) {
+      const quote = bySymbol.get(symbol.toUpperCase())
+      if (!quote) {
+        if (amount > 0) missing.push(symbol)
+        items.push({ symbol })
+        continue
+      }
+      const value = amount * quote.price
+      total += value
+      items.push({ symbol, value, quote })
+    }
+    return { currency, items, total, missing, stale: quotes.some((q) => q.stale) }
+  }
+
+  private async refresh(symbols: string[], currencies: readonly FiatCurrency[], now: number): Promise<void> {
+    try {
+      const quotes = await this.source.getPrices(symbols, currencies)
+      for (const symbol of symbols) {
+        for (const currency of currencies) {
+          const quote = quotes.find((q) => q.symbol === symbol && q.currency === currency)
+          const previous = this.cache.get(cacheKey(symbol, currency))?.quote
+          // Una respuesta sin este precio no borra el último conocido
+          this.cache.set(cacheKey(symbol, currency), { quote: quote ?? previous, fetchedAtMs: now })
+        }
+      }
+    } catch (error) {
+      logger.warn({ source: this.source.name, error: error instanceof Error ? error.message : String(error) }, '[Prices] refresh failed')
+    }
+  }
+}
+
+function cacheKey(symbol: string, currency: FiatCurrency): string {
+  return `${symbol}:${currency}`
+}
+
+/**
+ * Oráculo según el entorno: ALCANCIA_PRICE_SOURCE=file (con ALCANCIA_PRICES_FILE) o coingecko.
+ * Sin configuración no hay valuación en pesos y el saldo se muestra solo en tokens.
+ */
+export function createPriceOracleFromEnv(): PriceOracle | undefined {
+  const source = process.env.ALCANCIA_PRICE_SOURCE?.trim().toLowerCase()
+  if (source === 'coingecko') return new PriceOracle(new CoinGeckoPriceSource())
+  if (source === 'file') {
+    const filePath = process.env.ALCANCIA_PRICES_FILE?.trim()
+    if (!filePath) {
+      logger.error({}, '[Prices] ALCANCIA_PRICE_SOURCE=file requires ALCANCIA_PRICES_FILE')
+      return undefined
+    }
+    return new PriceOracle(new FilePriceSource(filePath))
+  }
+  return undefined
+}
+
+let envOracle: PriceOracle | undefined | null = null
+
+export function getPriceOracle(): PriceOracle | undefined {
+  if (envOracle === null) envOracle = createPriceOracleFromEnv()
+  return envOracle
+}
+
+/** Solo para pruebas: reemplaza el oráculo global (undefined lo desactiva, null lo recrea del entorno). */
+export function setPriceOracle(oracle: PriceOracle | undefined | null): void {
+  envOracle = oracle
+}
+
+export function formatFiat(value: number, currency: FiatCurrency): string {
+  return `$${value.toLocaleString('es-MX', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
+}
@@ -0,0 +1,57 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core'
+import { ReminderScheduler, reminderStore, type Reminder } from './reminders.ts'
+import { sendNotification } from './notification-targets.ts'
+import { describeGoalProgress, getGoalsProgress, type GoalProgress } from './savings-goals.ts'
+
+/** Texto que recibe el usuario; si tiene metas activas, agrega cómo va cada una. */
+export async function composeReminderMessage(reminder: Reminder): Promise<string> {
+  const lines = [`Recordatorio: ${reminder.text}.`]
+  const progress = await getGoalsProgress(reminder.entityId).catch((): GoalProgress[] => [])
+  const active = progress.filter((p) => p.goal.status === 'active')
+  if (active.length > 0) lines.push('', 'Así van tus metas:', ...active.map(describeGoalProgress))
+  lines.push('', 'Para pausarlo escribe "pausa mis recordatorios".')
+  return lines.join('\n')
+}
+
+/**
+ * Manda los recordatorios de ahorro a su hora local por el mismo canal donde se pidieron
+ * (runtime.sendMessageToTarget; el plugin de Telegram resuelve la sala al chat).
+ */
+export class ReminderSchedulerService extends Service {
+  static serviceType = 'savings-reminders'
+  capabilityDescription = 'Envía recordatorios de ahorro recurrentes (diarios, semanales o mensuales) en la zona horaria de cada usuario.'
+
+  private scheduler?: ReminderScheduler
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime)
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting savings reminders service ***')
+    const service = new ReminderSchedulerService(runtime)
+    await reminderStore.attach(runtime)
+    service.scheduler = new ReminderScheduler(reminderStore, (reminder) => service.deliver(reminder))
+    service.scheduler.start()
+    return service
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    const service = runtime.getService(ReminderSchedulerService.serviceType)
+    if (!service) {
+      throw new Error('Savings reminders service not found')
+    }
+    await service.stop()
+  }
+
+  async stop() {
+    this.scheduler?.stop()
+    await this.scheduler?.idle()
+    await reminderStore.flush()
+    logger.info('*** Stopped savings reminders service ***')
+  }
+
+  private async deliver(reminder: Reminder): Promise<void> {
+    await sendNotification(this.runtime, reminder.entityId, reminder.target, await composeReminderMessage(reminder))
+  }
+}
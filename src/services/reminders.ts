@@ -0,0 +1,528 @@
+import crypto from 'node:crypto'
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import type { NotificationTarget } from './notification-targets.ts'
+
+/** Hora local de disparo; `weekdays` usa 0 = domingo como Date#getDay. */
+export type ReminderSchedule =
+  | { kind: 'daily'; hour: number; minute: number }
+  | { kind: 'weekly'; weekdays: number[]; hour: number; minute: number }
+  | { kind: 'monthly'; day: number; hour: number; minute: number }
+
+/** A dónde mandar el recordatorio: la sala donde se pidió. */
+export type ReminderTarget = NotificationTarget
+
+export interface Reminder {
+  id: string
+  entityId: string
+  target: ReminderTarget
+  /** Qué recordar, ya en segunda persona ("ahorrar en tu alcancía") */
+  text: string
+  schedule: ReminderSchedule
+  /** Zona IANA del usuario; el horario se interpreta en esa zona */
+  timeZone: string
+  nextRunMs: number
+  paused: boolean
+  createdAtMs: number
+  lastSentAtMs?: number
+}
+
+export type ReminderInput = Pick<Reminder, 'text' | 'schedule' | 'timeZone'>
+
+export type ReminderParseResult = { status: 'complete'; reminder: ReminderInput } | { status: 'incomplete'; question: string }
+
+export const DEFAULT_TIME_ZONE = 'America/Mexico_City'
+
+/** Zona por defecto para usuarios que no dicen la suya (ALCANCIA_TIMEZONE). */
+export function defaultTimeZone(): string {
+  const configured = process.env.ALCANCIA_TIMEZONE?.trim()
+  return configured && isValidTimeZone(configured) ? configured : DEFAULT_TIME_ZONE
+}
+
+// ---- zonas horarias (solo Intl, sin dependencias) ----
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+interface LocalTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function localTime(ms: number, timeZone: string): LocalTime {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(ms)).map((p) => [p.type, p.value]))
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  }
+}
+
+function offsetMs(ms: number, timeZone: string): number {
+  const local = localTime(ms, timeZone)
+  return Date.UTC(local.year, local.month, local.day, local.hour, local.minute) - Math.floor(ms / 60_000) * 60_000
+}
+
+/** Instante UTC de una hora local en `timeZone` (corrige el offset una vez por si cruza un cambio de horario). */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const asUtc = Date.UTC(year, month, day, hour, minute)
+  const guess = asUtc - offsetMs(asUtc, timeZone)
+  return asUtc - offsetMs(guess, timeZone)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+function matchesDay(schedule: ReminderSchedule, date: Date): boolean {
+  switch (schedule.kind) {
+    case 'daily':
+      return true
+    case 'weekly':
+      return schedule.weekdays.includes(date.getUTCDay())
+    case 'monthly':
+      // "cada mes el 31" cae el último día en los meses cortos
+      return date.getUTCDate() === Math.min(schedule.day, daysInMonth(date.getUTCFullYear(), date.getUTCMonth()))
+  }
+}
+
+/** Próximo disparo estrictamente después de `afterMs`. */
+export function nextOccurrence(schedule: ReminderSchedule, timeZone: string, afterMs: number): number {
+  const today = localTime(afterMs, timeZone)
+  for (let offset = 0; offset <= 62; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month, today.day + offset))
+    if (!matchesDay(schedule, date)) continue
+    const at = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), schedule.hour, schedule.minute, timeZone)
+    if (at > afterMs) return at
+  }
+  throw new Error(`No occurrence found for schedule ${JSON.stringify(schedule)}`)
+}
+
+// ---- lenguaje natural ----
+
+const WEEKDAYS = ['domingo', 'lunes', 'martes', 'miercoles', 'jueves', 'viernes', 'sabado']
+const WEEKDAY_ALIASES: Record<string, number> = {
+  domingos: 0,
+  sabados: 6,
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+}
+const WEEKDAY_RE = new RegExp(`\\b(${[...WEEKDAYS, ...Object.keys(WEEKDAY_ALIASES)].join('|')})\\b`, 'g')
+
+// Ciudades que la gente menciona en lugar de la zona IANA
+const CITY_ZONES: Record<string, string> = {
+  cdmx: 'America/Mexico_City',
+  'ciudad de mexico': 'America/Mexico_City',
+  guadalajara: 'America/Mexico_City',
+  monterrey: 'America/Monterrey',
+  tijuana: 'America/Tijuana',
+  mexicali: 'America/Tijuana',
+  hermosillo: 'America/Hermosillo',
+  mazatlan: 'America/Mazatlan',
+  chihuahua: 'America/Chihuahua',
+  cancun: 'America/Cancun',
+}
+
+const DEFAULT_HOUR = 9
+const TRIGGER_RE = /\b(recuerdame|recordarme|recuerdeme|avisame|remind me to|remind me|(?:pon|ponme|crea|crear|nuevo) (?:un )?recordatorio(?: (?:de|para))?)\b/
+
+function parseTime(text: string): { hour: number; minute: number } | { invalid: true } | undefined {
+  const explicit =
+    /\b(?:a las?|a eso de las?|at)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|de la manana|de la tarde|de la noche|hrs|horas)?/.exec(text) ??
+    /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?!\w)/.exec(text)
+  if (explicit) {
+    let hour = Number(explicit[1])
+    const minute = explicit[2] ? Number(explicit[2]) : 0
+    const suffix = explicit[3] ?? ''
+    if (/^(pm|p\.m\.|de la tarde|de la noche)$/.test(suffix) && hour < 12) hour += 12
+    if (/^(am|a\.m\.|de la manana)$/.test(suffix) && hour === 12) hour = 0
+    if (hour > 23 || minute > 59) return { invalid: true }
+    return { hour, minute }
+  }
+  if (/\bmediodia\b/.test(text)) return { hour: 12, minute: 0 }
+  if (/\b(noche|noches|night)\b/.test(text)) return { hour: 20, minute: 0 }
+  if (/\b(tarde|tardes|afternoon)\b/.test(text)) return { hour: 17, minute: 0 }
+  if (/\b(manana|mananas|morning)\b/.test(text) && !/\bpasado manana\b/.test(text)) return { hour: DEFAULT_HOUR, minute: 0 }
+  return undefined
+}
+
+function parseSchedule(text: string, time: { hour: number; minute: number }): ReminderSchedule | undefined {
+  const dayOfMonth = /\b(?:el|los|cada) dia (\d{1,2})\b(?!\s*(?::|am|pm|hrs|horas))/.exec(text) ?? /\bel (\d{1,2}) de cada mes\b/.exec(text)
+  if (dayOfMonth || /\b(cada mes|todos los meses|mensual\w*|every month|monthly)\b/.test(text)) {
+    const day = dayOfMonth ? Number(dayOfMonth[1]) : 1
+    return day >= 1 && day <= 31 ? { kind: 'monthly', day, ...time } : undefined
+  }
+
+  const weekdays = [...text.matchAll(WEEKDAY_RE)].map((m) => WEEKDAY_ALIASES[m[1]] ?? WEEKDAYS.indexOf(m[1]))
+  if (weekdays.length > 0) return { kind: 'weekly', weekdays: [...new Set(weekdays)].sort((a, b) => a - b), ...time }
+  if (/\b(cada semana|semanal\w*|every week|weekly)\b/.test(text)) return { kind: 'weekly', weekdays: [1], ...time }
+
+  if (/\b(diario|diariamente|todos los dias|cada dia|cada noche|cada manana|cada tarde|todas las (?:noches|mananas|tardes)|every day|daily)\b/.test(text))
+    return { kind: 'daily', ...time }
+  return undefined
+}
+
+function parseTimeZone(text: string): string | undefined {
+  const iana = /\b([a-z]+\/[a-z_]+(?:\/[a-z_]+)?)\b/.exec(text)?.[1]
+  if (iana && isValidTimeZone(iana)) {
+    // Intl acepta minúsculas pero devuelve el nombre canónico
+    return new Intl.DateTimeFormat('en-US', { timeZone: iana }).resolvedOptions().timeZone
+  }
+  for (const [city, zone] of Object.entries(CITY_ZONES)) {
+    if (new RegExp(`\\b(?:hora|horario|tiempo) de ${city}\\b|\\ben ${city}\\b`).test(text)) return zone
+  }
+  return undefined
+}
+
+// Lo que sigue al disparador hasta donde empieza el horario: "recuérdame [ahorrar 100 pesos] cada viernes"
+const SCHEDULE_START_RE = new RegExp(
+  `\\b(cada|todos|todas|diario|diariamente|mensual\\w*|semanal\\w*|el dia|los dias|el \\d{1,2} de cada|a las?|a eso de|at|every|daily|weekly|monthly|en la|por la|al mediodia|hora de|horario de|${[...WEEKDAYS, ...Object.keys(WEEKDAY_ALIASES)].join('|')})\\b`
+)
+
+function parseWhat(text: string): string {
+  const trigger = TRIGGER_RE.exec(text)
+  const after = trigger ? text.slice(trigger.index + trigger[0].length) : ''
+  const cut = SCHEDULE_START_RE.exec(after)
+  let what = cut ? after.slice(0, cut.index) : after
+  // "avísame todos los días a las 8 que meta dinero": lo que recordar viene después del horario
+  if (!what.trim() && cut) {
+    const tail = /\bque (.+)$/.exec(after.slice(cut.index))?.[1] ?? ''
+    const tailCut = SCHEDULE_START_RE.exec(tail)
+    what = tailCut ? tail.slice(0, tailCut.index) : tail
+  }
+  what = what
+    .replace(/^\s*(?:que|de|a|para|to)\s+/, '')
+    .replace(/\b(?:los|el|los dias)\s*$/, '')
+    .replace(/\bmis\b/g, 'tus')
+    .replace(/\bmi\b/g, 'tu')
+    .replace(/\bme\b/g, 'te')
+    .trim()
+  return what || 'ahorrar en tu alcancía'
+}
+
+/** "recuérdame ahorrar cada viernes a las 6 pm" → semanal, viernes 18:00, en la zona del usuario. */
+export function parseReminderRequest(rawText: string, timeZone = defaultTimeZone()): ReminderParseResult {
+  const text = normalizeIntentText(rawText).replace(/[,;](?!\d)/g, ' ').replace(/\s+/g, ' ')
+  const time = parseTime(text)
+  if (time && 'invalid' in time)
+    return { status: 'incomplete', question: 'No entendí la hora. Dímela como "a las 8 pm" o "a las 20:30".' }
+
+  const schedule = parseSchedule(text, time ?? { hour: DEFAULT_HOUR, minute: 0 })
+  if (!schedule)
+    return {
+      status: 'incomplete',
+      question: '¿Cada cuándo te lo recuerdo? Por ejemplo: "recuérdame ahorrar cada viernes a las 6 pm" o "todos los días a las 8".',
+    }
+  return { status: 'complete', reminder: { text: parseWhat(text), schedule, timeZone: parseTimeZone(text) ?? timeZone } }
+}
+
+export type ReminderCommand = { kind: 'list' | 'pause' | 'resume' | 'delete'; index?: number }
+
+/** "pausa mis recordatorios", "reanuda el recordatorio 2", "borra el 1", "mis recordatorios". */
+export function parseReminderCommand(rawText: string): ReminderCommand {
+  const text = normalizeIntentText(rawText)
+  const index = /\b(?:recordatorios?|reminders?|el|numero|#)\s*(\d{1,2})\b/.exec(text)?.[1]
+  const at = index ? { index: Number(index) } : {}
+  if (/\b(pausa|pausar|pausalos?|deten|detener|suspende|suspender|silencia|pause|stop)\b/.test(text)) return { kind: 'pause', ...at }
+  if (/\b(reanuda|reanudar|reanudalos?|reactiva|reactivar|activa|activar|resume|continua)\b/.test(text)) return { kind: 'resume', ...at }
+  if (/\b(borra|borrar|borralos?|elimina|eliminar|quita|quitar|cancela|cancelar|delete|remove)\b/.test(text)) return { kind: 'delete', ...at }
+  return { kind: 'list' }
+}
+
+function formatClock(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+export function describeSchedule(schedule: ReminderSchedule): string {
+  const at = `a las ${formatClock(schedule.hour, schedule.minute)}`
+  switch (schedule.kind) {
+    case 'daily':
+      return `todos los días ${at}`
+    case 'weekly': {
+      const names = schedule.weekdays.map((d) => WEEKDAYS[d].replace('miercoles', 'miércoles').replace('sabado', 'sábado'))
+      const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} y ${names[names.length - 1]}` : names[0]
+      return `cada ${list} ${at}`
+    }
+    case 'monthly':
+      return `cada mes el día ${schedule.day} ${at}`
+  }
+}
+
+/** Fecha y hora locales del usuario: "viernes 23 de octubre, 18:00". */
+export function formatLocalDateTime(ms: number, timeZone: string): string {
+  const local = localTime(ms, timeZone)
+  const weekday = WEEKDAYS[new Date(Date.UTC(local.year, local.month, local.day)).getUTCDay()]
+    .replace('miercoles', 'miércoles')
+    .replace('sabado', 'sábado')
+  const month = new Intl.DateTimeFormat('es-MX', { month: 'long', timeZone: 'UTC' }).format(new Date(Date.UTC(local.year, local.month, 1)))
+  return `${weekday} ${local.day} de ${month}, ${formatClock(local.hour, local.minute)}`
+}
+
+export function describeReminder(reminder: Reminder, position: number): string {
+  const state = reminder.paused ? ' (pausado)' : ` — próximo: ${formatLocalDateTime(reminder.nextRunMs, reminder.timeZone)}`
+  return `${position}. ${reminder.text} — ${describeSchedule(reminder.schedule)} (${reminder.timeZone})${state}`
+}
+
+// ---- persistencia ----
+
+const REMINDERS_INDEX_KEY = 'reminders:users'
+const remindersKey = (entityId: string) => `reminders:user:${entityId}`
+
+/** Recordatorios por usuario, con lecturas síncronas y escritura diferida al cache del agente. */
+export class ReminderStore {
+  private readonly reminders = new Map<string, Reminder[]>()
+  private readonly listeners = new Set<() => void>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(REMINDERS_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<Reminder[]>(remindersKey(entityId))) ?? []
+      const merged = new Map(stored.map((reminder) => [reminder.id, reminder]))
+      for (const reminder of this.reminders.get(entityId) ?? []) merged.set(reminder.id, reminder)
+      this.reminders.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    for (const entityId of this.reminders.keys()) this.persist(entityId)
+    await this.flush()
+    this.notify()
+    logger.info({ users: users.length, loaded }, '[Reminders] Store attached')
+    return { loaded }
+  }
+
+  /** Avisa cada vez que cambia algún recordatorio (el scheduler se reprograma). */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  list(entityId: string): Reminder[] {
+    return [...(this.reminders.get(entityId) ?? [])]
+  }
+
+  listAll(): Reminder[] {
+    return [...this.reminders.values()].flat()
+  }
+
+  create(entityId: string, target: ReminderTarget, input: ReminderInput, now = Date.now()): Reminder {
+    const reminder: Reminder = {
+      ...input,
+      id: crypto.randomUUID(),
+      entityId,
+      target,
+      nextRunMs: nextOccurrence(input.schedule, input.timeZone, now),
+      paused: false,
+      createdAtMs: now,
+    }
+    this.reminders.set(entityId, [...(this.reminders.get(entityId) ?? []), reminder])
+    this.changed(entityId)
+    return reminder
+  }
+
+  update(entityId: string, reminderId: string, changes: Partial<Omit<Reminder, 'id' | 'entityId'>>): Reminder | undefined {
+    const reminder = this.reminders.get(entityId)?.find((r) => r.id === reminderId)
+    if (!reminder) return undefined
+    Object.assign(reminder, changes)
+    this.changed(entityId)
+    return reminder
+  }
+
+  pause(entityId: string, reminderId: string): Reminder | undefined {
+    return this.update(entityId, reminderId, { paused: true })
+  }
+
+  /** Al reanudar no se manda lo que se saltó durante la pausa: sigue desde la próxima ocurrencia. */
+  resume(entityId: string, reminderId: string, now = Date.now()): Reminder | undefined {
+    const reminder = this.reminders.get(entityId)?.find((r) => r.id === reminderId)
+    if (!reminder) return undefined
+    return this.update(entityId, reminderId, { paused: false, nextRunMs: nextOccurrence(reminder.schedule, reminder.timeZone, now) })
+  }
+
+  remove(entityId: string, reminderId: string): Reminder | undefined {
+    const list = this.reminders.get(entityId) ?? []
+    const reminder = list.find((r) => r.id === reminderId)
+    if (!reminder) return undefined
+    this.reminders.set(
+      entityId,
+      list.filter((r) => r.id !== reminderId)
+    )
+    this.changed(entityId)
+    return reminder
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private changed(entityId: string): void {
+    this.persist(entityId)
+    this.notify()
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener()
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.reminders.get(entityId) ?? []).map((reminder) => structuredClone(reminder))
+    const users = [...this.reminders.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(remindersKey(entityId), snapshot)
+        await backend.setCache(REMINDERS_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Reminders] persist failed')
+      })
+  }
+}
+
+export const reminderStore = new ReminderStore()
+
+// ---- scheduler ----
+
+/** Reloj inyectable: el de sistema en producción, uno falso en pruebas. */
+export interface SchedulerClock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+export type ReminderSender = (reminder: Reminder) => Promise<void>
+
+export interface ReminderSchedulerOptions {
+  clock?: SchedulerClock
+  /** Si el agente estuvo apagado más que esto, la ocurrencia perdida se salta en lugar de llegar tarde */
+  missedGraceMs?: number
+  /** Tope de cada espera; evita timers gigantes y recupera saltos del reloj */
+  maxSleepMs?: number
+}
+
+/**
+ * Dispara los recordatorios vencidos con un solo timer apuntando al más próximo.
+ * Las ocurrencias perdidas durante un reinicio se mandan una sola vez (o se saltan si ya es muy tarde).
+ */
+export class ReminderScheduler {
+  private readonly clock: SchedulerClock
+  private readonly missedGraceMs: number
+  private readonly maxSleepMs: number
+  private timer?: unknown
+  private unsubscribe?: () => void
+  private running: Promise<number> = Promise.resolve(0)
+
+  constructor(
+    private readonly store: ReminderStore,
+    private readonly send: ReminderSender,
+    options: ReminderSchedulerOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.missedGraceMs = options.missedGraceMs ?? 60 * 60 * 1000
+    this.maxSleepMs = options.maxSleepMs ?? 6 * 60 * 60 * 1000
+  }
+
+  start(): void {
+    this.unsubscribe ??= this.store.onChange(() => this.arm())
+    this.arm()
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  /** Espera a que termine la ronda de envíos en curso. */
+  idle(): Promise<number> {
+    return this.running
+  }
+
+  /** Manda los recordatorios vencidos y devuelve cuántos se enviaron. */
+  runDue(): Promise<number> {
+    this.running = this.running.then(() => this.sendDue())
+    return this.running
+  }
+
+  private async sendDue(): Promise<number> {
+    const now = this.clock.now()
+    let sent = 0
+    for (const reminder of this.store.listAll()) {
+      if (reminder.paused || reminder.nextRunMs > now) continue
+      const nextRunMs = nextOccurrence(reminder.schedule, reminder.timeZone, now)
+      if (now - reminder.nextRunMs > this.missedGraceMs) {
+        logger.info({ reminderId: reminder.id, dueAt: reminder.nextRunMs }, '[Reminders] missed occurrence skipped')
+        this.store.update(reminder.entityId, reminder.id, { nextRunMs })
+        continue
+      }
+      try {
+        await this.send(reminder)
+        sent++
+        this.store.update(reminder.entityId, reminder.id, { nextRunMs, lastSentAtMs: now })
+      } catch (error) {
+        logger.error(
+          { reminderId: reminder.id, error: error instanceof Error ? error.message : String(error) },
+          '[Reminders] send failed'
+        )
+        this.store.update(reminder.entityId, reminder.id, { nextRunMs })
+      }
+    }
+    return sent
+  }
+
+  private arm(): void {
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer)
+    this.timer = undefined
+    if (!this.unsubscribe) return
+
+    const next = Math.min(...this.store.listAll().filter((r) => !r.paused).map((r) => r.nextRunMs))
+    if (!Number.isFinite(next)) return
+    const delay = Math.min(Math.max(next - this.clock.now(), 0), this.maxSleepMs)
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined
+      void this.runDue().then(() => this.arm())
+    }, delay)
+  }
+}
@@ -0,0 +1,316 @@
+import crypto from 'node:crypto'
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { extractAmount } from './transfer-parser.ts'
+import { FIAT_CURRENCIES, getPriceOracle, formatFiat, type FiatCurrency, type PriceOracle } from './price-oracle.ts'
+import { formatUnits, tokenRegistry } from './token-registry.ts'
+import { getTokenBalances, telegramStarknetStore, type TokenBalance } from './telegram-starknet.ts'
+
+/** Meta de ahorro: juntar `targetAmount` (en pesos, dólares o un token) antes de `deadlineMs`. */
+export interface SavingsGoal {
+  id: string
+  entityId: string
+  title: string
+  /** Decimal tal como lo dijo el usuario ("5000", "0.5") */
+  targetAmount: string
+  /** 'MXN' | 'USD' o el símbolo de un token ('USDC') */
+  currency: string
+  deadlineMs?: number
+  createdAtMs: number
+  status: 'active' | 'achieved' | 'cancelled'
+  achievedAtMs?: number
+}
+
+export type GoalInput = Pick<SavingsGoal, 'title' | 'targetAmount' | 'currency' | 'deadlineMs'>
+
+export type GoalParseResult = { status: 'complete'; goal: GoalInput } | { status: 'incomplete'; question: string }
+
+// ---- fechas ----
+
+const MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre']
+const MONTH_ALIASES: Record<string, number> = { setiembre: 8 }
+const UNIT_DAYS: Record<string, number> = { dia: 1, dias: 1, semana: 7, semanas: 7 }
+const UNIT_MONTHS: Record<string, number> = { mes: 1, meses: 1, ano: 12, anos: 12 }
+
+const MONTH_RE = `(${[...MONTHS, ...Object.keys(MONTH_ALIASES)].join('|')})`
+const DEADLINE_PATTERNS: Array<{ re: RegExp; resolve: (m: RegExpExecArray, now: Date) => number }> = [
+  {
+    // "para el 15 de marzo", "el 1 de diciembre de 2027"
+    re: new RegExp(`\\b(?:para |antes del? |en |hasta )?(?:el )?(\\d{1,2}) de ${MONTH_RE}(?: (?:de |del )?(\\d{4}))?\\b`),
+    resolve: (m, now) => nextDate(now, monthIndex(m[2]), Number(m[1]), m[3] ? Number(m[3]) : undefined),
+  },
+  {
+    // "para diciembre", "en marzo de 2027"
+    re: new RegExp(`\\b(?:para |antes de |en |hasta )?${MONTH_RE}(?: (?:de |del )?(\\d{4}))?\\b`),
+    resolve: (m, now) => nextDate(now, monthIndex(m[1]), undefined, m[2] ? Number(m[2]) : undefined),
+  },
+  {
+    re: /\b(?:para |antes de |en )?(?:el )?fin de ano\b/,
+    resolve: (_m, now) => nextDate(now, 11, 31),
+  },
+  {
+    re: /\b(?:para |antes de |en )?navidad\b/,
+    resolve: (_m, now) => nextDate(now, 11, 24),
+  },
+  {
+    // "en 3 meses", "en un año", "en dos semanas"
+    re: /\ben (\d+|un|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce) (dias?|semanas?|mes|meses|anos?)\b/,
+    resolve: (m, now) => {
+      const words: Record<string, number> = { un: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12 }
+      const n = /^\d+$/.test(m[1]) ? Number(m[1]) : words[m[1]]
+      if (UNIT_DAYS[m[2]]) return endOfDay(new Date(now.getTime() + n * UNIT_DAYS[m[2]] * 86_400_000))
+      const target = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + n * UNIT_MONTHS[m[2]], now.getUTCDate()))
+      return endOfDay(target)
+    },
+  },
+]
+
+function monthIndex(name: string): number {
+  return MONTH_ALIASES[name] ?? MONTHS.indexOf(name)
+}
+
+function endOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 23, 59, 59, 999)
+}
+
+/** Próxima ocurrencia del mes (y día; sin día, el último del mes) a partir de `now`. */
+function nextDate(now: Date, month: number, day?: number, year?: number): number {
+  const at = (y: number) => endOfDay(new Date(Date.UTC(y, day === undefined ? month + 1 : month, day ?? 0)))
+  if (year !== undefined) return at(year)
+  const thisYear = at(now.getUTCFullYear())
+  return thisYear >= now.getTime() ? thisYear : at(now.getUTCFullYear() + 1)
+}
+
+export function extractDeadline(text: string, now = new Date()): { deadlineMs?: number; rest: string } {
+  for (const { re, resolve } of DEADLINE_PATTERNS) {
+    const match = re.exec(text)
+    if (match) return { deadlineMs: resolve(match, now), rest: text.replace(match[0], ' ') }
+  }
+  return { rest: text }
+}
+
+export function formatGoalDate(ms: number): string {
+  const date = new Date(ms)
+  return `${date.getUTCDate()} de ${MONTHS[date.getUTCMonth()]} de ${date.getUTCFullYear()}`
+}
+
+// ---- lenguaje natural ----
+
+const FILLER_RE = /\b(quiero|quisiera|voy a|vamos a|planeo|pienso|necesito|me gustaria|ayudame a|juntar|ahorrar|crea|crear|creame|nueva|una meta|meta|de ahorro|i want to|save)\b/g
+
+const AMOUNT_WORDS_RE = /\b\d[\d.,]*\s*(mil|k|pesos?|dolares?|mxn|usd|usdc|usdt|eth|strk)?\b/g
+
+/** "quiero ahorrar 5000 pesos para una bici en diciembre" → 5000 MXN, "una bici", 31 dic. */
+export function parseGoalRequest(rawText: string, now = new Date()): GoalParseResult {
+  const text = normalizeIntentText(rawText).replace(/[.,;:](?!\d)/g, ' ')
+  const { deadlineMs, rest } = extractDeadline(text, now)
+  const words = rest.split(/\s+/).filter(Boolean)
+  const amount = extractAmount(words, tokenRegistry.list())
+
+  if (amount.problem) return { status: 'incomplete', question: `${amount.problem} ¿Cuánto quieres ahorrar?` }
+  if (!amount.amountText || Number(amount.amountText) <= 0)
+    return {
+      status: 'incomplete',
+      question: '¿Cuánto quieres ahorrar y para cuándo? Por ejemplo: "quiero ahorrar 5000 pesos para diciembre".',
+    }
+
+  const currency = amount.fiat ?? amount.tokenSymbol ?? 'MXN'
+  const purpose = /\bpara (.+)$/
+    .exec(rest.replace(FILLER_RE, ' ').replace(AMOUNT_WORDS_RE, ' ').replace(/\s+/g, ' ').trim())?.[1]
+    ?.trim()
+  const title = purpose && !/^\d/.test(purpose)
+    ? purpose
+    : deadlineMs !== undefined
+      ? `Ahorro para el ${formatGoalDate(deadlineMs)}`
+      : 'Meta de ahorro'
+  return { status: 'complete', goal: { title, targetAmount: amount.amountText, currency, ...(deadlineMs !== undefined ? { deadlineMs } : {}) } }
+}
+
+// ---- progreso ----
+
+export interface GoalProgress {
+  goal: SavingsGoal
+  /** Lo ahorrado en la moneda de la meta; undefined si no se pudo medir */
+  saved?: number
+  percent?: number
+  remaining?: number
+  daysLeft?: number
+  /** Cuánto hay que apartar por semana para llegar a tiempo */
+  perWeekNeeded?: number
+  overdue: boolean
+}
+
+export function computeGoalProgress(goal: SavingsGoal, saved: number | undefined, now = Date.now()): GoalProgress {
+  const target = Number(goal.targetAmount)
+  const daysLeft = goal.deadlineMs !== undefined ? Math.ceil((goal.deadlineMs - now) / 86_400_000) : undefined
+  const overdue = daysLeft !== undefined && daysLeft < 0
+  if (saved === undefined) return { goal, daysLeft, overdue }
+
+  const remaining = Math.max(0, target - saved)
+  const percent = target > 0 ? Math.min(100, (saved / target) * 100) : 100
+  const weeksLeft = daysLeft !== undefined && daysLeft > 0 ? daysLeft / 7 : undefined
+  const perWeekNeeded = remaining > 0 && weeksLeft !== undefined ? remaining / Math.max(1, weeksLeft) : undefined
+  return { goal, saved, percent, remaining, daysLeft, perWeekNeeded, overdue }
+}
+
+export function formatGoalAmount(amount: number, currency: string): string {
+  if ((FIAT_CURRENCIES as readonly string[]).includes(currency)) return formatFiat(amount, currency as FiatCurrency)
+  return `${Number(amount.toFixed(6))} ${currency}`
+}
+
+/** Una línea en español: "Bici: 1,200 de 5,000 MXN (24%) — faltan 38 días, ~$700 por semana". */
+export function describeGoalProgress(progress: GoalProgress): string {
+  const { goal } = progress
+  const target = formatGoalAmount(Number(goal.targetAmount), goal.currency)
+  const deadline = goal.deadlineMs !== undefined ? ` para el ${formatGoalDate(goal.deadlineMs)}` : ''
+  if (goal.status === 'achieved') return `✅ ${goal.title}: ¡meta de ${target} cumplida!`
+  if (progress.saved === undefined) return `• ${goal.title}: ${target}${deadline} (no pude medir tu avance ahora)`
+
+  const parts = [`• ${goal.title}: ${formatGoalAmount(progress.saved, goal.currency)} de ${target} (${Math.floor(progress.percent ?? 0)}%)`]
+  if (progress.overdue) parts.push(`la fecha (${formatGoalDate(goal.deadlineMs!)}) ya pasó`)
+  else if (progress.daysLeft !== undefined) parts.push(`faltan ${progress.daysLeft} días`)
+  if (progress.perWeekNeeded !== undefined) parts.push(`~${formatGoalAmount(progress.perWeekNeeded, goal.currency)} por semana`)
+  return parts.join(' — ')
+}
+
+// ---- medición contra el saldo on-chain ----
+
+export interface MeasureSavingsDeps {
+  getBalances?: (addressHex: string, entityId: string) => Promise<TokenBalance[]>
+  oracle?: PriceOracle
+}
+
+/**
+ * Cuánto tiene el usuario en la moneda de la meta: el saldo del token si la meta es en tokens,
+ * o el valor total de la alcancía en pesos/dólares (requiere oráculo de precios).
+ */
+export async function measureSavings(entityId: string, currency: string, deps: MeasureSavingsDeps = {}): Promise<number | undefined> {
+  const address = telegramStarknetStore.getAccountByEntityId(entityId)?.accountAddressHex
+  if (!address) return undefined
+  const getBalances =
+    deps.getBalances ?? ((addressHex: string, id: string) => getTokenBalances(addressHex, tokenRegistry.list(id), { entityId: id }))
+  const balances = (await getBalances(address, entityId)).filter((b) => b.balance !== undefined && b.decimals !== undefined)
+  const amounts = balances.map((b) => ({ symbol: b.token.symbol, amount: Number(formatUnits(b.balance!, b.decimals!)) }))
+
+  if (!(FIAT_CURRENCIES as readonly string[]).includes(currency)) {
+    return amounts.find((a) => a.symbol.toUpperCase() === currency.toUpperCase())?.amount
+  }
+  const oracle = deps.oracle ?? getPriceOracle()
+  if (!oracle || amounts.length === 0) return undefined
+  const valuation = await oracle.valuate(amounts, currency as FiatCurrency)
+  return valuation.items.some((item) => item.value !== undefined) ? valuation.total : undefined
+}
+
+// ---- persistencia ----
+
+const GOALS_INDEX_KEY = 'savings-goals:users'
+const goalsKey = (entityId: string) => `savings-goals:user:${entityId}`
+
+/** Metas por usuario, con lecturas síncronas y escritura diferida al cache del agente. */
+export class SavingsGoalStore {
+  private readonly goals = new Map<string, SavingsGoal[]>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(GOALS_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<SavingsGoal[]>(goalsKey(entityId))) ?? []
+      const merged = new Map(stored.map((goal) => [goal.id, goal]))
+      for (const goal of this.goals.get(entityId) ?? []) merged.set(goal.id, goal)
+      this.goals.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    for (const entityId of this.goals.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[Goals] Store attached')
+    return { loaded }
+  }
+
+  /** Metas activas primero; las canceladas no se muestran salvo que se pidan. */
+  list(entityId: string, { includeCancelled = false } = {}): SavingsGoal[] {
+    return (this.goals.get(entityId) ?? []).filter((goal) => includeCancelled || goal.status !== 'cancelled')
+  }
+
+  create(entityId: string, input: GoalInput, now = Date.now()): SavingsGoal {
+    const goal: SavingsGoal = { ...input, id: crypto.randomUUID(), entityId, createdAtMs: now, status: 'active' }
+    this.goals.set(entityId, [...(this.goals.get(entityId) ?? []), goal])
+    this.persist(entityId)
+    return goal
+  }
+
+  markAchieved(entityId: string, goalId: string, now = Date.now()): SavingsGoal | undefined {
+    return this.update(entityId, goalId, { status: 'achieved', achievedAtMs: now })
+  }
+
+  cancel(entityId: string, goalId: string): SavingsGoal | undefined {
+    return this.update(entityId, goalId, { status: 'cancelled' })
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private update(entityId: string, goalId: string, changes: Partial<SavingsGoal>): SavingsGoal | undefined {
+    const goal = this.goals.get(entityId)?.find((g) => g.id === goalId)
+    if (!goal) return undefined
+    Object.assign(goal, changes)
+    this.persist(entityId)
+    return goal
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.goals.get(entityId) ?? []).map((goal) => ({ ...goal }))
+    const users = [...this.goals.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(goalsKey(entityId), snapshot)
+        await backend.setCache(GOALS_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Goals] persist failed')
+      })
+  }
+}
+
+export const savingsGoalStore = new SavingsGoalStore()
+
+// ---- estado para el provider ----
+
+const STATUS_TTL_MS = 2 * 60 * 1000
+const statusCache = new Map<string, { atMs: number; progress: GoalProgress[] }>()
+
+/**
+ * Avance de las metas activas del usuario (marca como cumplidas las que llegaron al 100%).
+ * Se cachea unos minutos porque el provider corre en cada mensaje.
+ */
+export async function getGoalsProgress(
+  entityId: string,
+  { store = savingsGoalStore, now = Date.now(), measure = measureSavings, fresh = false }: {
+    store?: SavingsGoalStore
+    now?: number
+    measure?: (entityId: string, currency: string) => Promise<number | undefined>
+    fresh?: boolean
+  } = {}
+): Promise<GoalProgress[]> {
+  const cached = statusCache.get(entityId)
+  const goals = store.list(entityId)
+  if (!fresh && cached && now - cached.atMs < STATUS_TTL_MS && cached.progress.length === goals.length) return cached.progress
+
+  const savedByCurrency = new Map<string, number | undefined>()
+  for (const currency of new Set(goals.filter((g) => g.status === 'active').map((g) => g.currency))) {
+    savedByCurrency.set(currency, await measure(entityId, currency).catch(() => undefined))
+  }
+  const progress = goals.map((goal) => {
+    const result = computeGoalProgress(goal, goal.status === 'active' ? savedByCurrency.get(goal.currency) : undefined, now)
+    if (goal.status === 'active' && result.percent !== undefined && result.percent >= 100) store.markAchieved(entityId, goal.id, now)
+    return result
+  })
+  statusCache.set(entityId, { atMs: now, progress })
+  return progress
+}
@@ -0,0 +1,287 @@
+import crypto from 'node:crypto'
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { extractAmount } from './transfer-parser.ts'
+import { formatUnits, parseUnits, type TokenInfo } from './token-registry.ts'
+import { extractDeadline, formatGoalDate, savingsGoalStore, type SavingsGoal } from './savings-goals.ts'
+
+/**
+ * "Alcancía de barro": una parte del saldo que no se puede enviar hasta una fecha o hasta cumplir una meta.
+ * Solo se rompe antes con el desbloqueo de emergencia (espera + confirmación).
+ */
+export interface SavingsLock {
+  id: string
+  entityId: string
+  symbol: string
+  decimals: number
+  /** Unidades base como string */
+  amount: string
+  createdAtMs: number
+  /** Se libera sola en esta fecha */
+  unlockAtMs?: number
+  /** O al cumplirse esta meta de ahorro */
+  goalId?: string
+  goalTitle?: string
+  status: 'locked' | 'released' | 'broken'
+  releasedAtMs?: number
+  /** Desbloqueo de emergencia pedido: se puede confirmar entre availableAtMs y expiresAtMs */
+  emergency?: { requestedAtMs: number; availableAtMs: number; expiresAtMs: number }
+}
+
+export type LockInput = Pick<SavingsLock, 'symbol' | 'decimals' | 'amount' | 'unlockAtMs' | 'goalId' | 'goalTitle'>
+
+const DEFAULT_EMERGENCY_DELAY_HOURS = 48
+/** Tras la espera hay este tiempo para confirmar; después hay que volver a pedirlo */
+export const EMERGENCY_CONFIRM_WINDOW_MS = 3 * 24 * 60 * 60 * 1000
+
+/** ALCANCIA_EMERGENCY_UNLOCK_HOURS: espera entre pedir el desbloqueo de emergencia y poder confirmarlo. */
+export function emergencyUnlockDelayMs(): number {
+  const raw = process.env.ALCANCIA_EMERGENCY_UNLOCK_HOURS?.trim()
+  const hours = raw ? Number(raw) : DEFAULT_EMERGENCY_DELAY_HOURS
+  if (!Number.isFinite(hours) || hours < 0) {
+    logger.warn({ raw }, '[Locks] invalid ALCANCIA_EMERGENCY_UNLOCK_HOURS; using default')
+    return DEFAULT_EMERGENCY_DELAY_HOURS * 60 * 60 * 1000
+  }
+  return hours * 60 * 60 * 1000
+}
+
+// ---- lenguaje natural ----
+
+export type LockParseResult = { status: 'complete'; lock: LockInput } | { status: 'incomplete'; question: string }
+
+const GOAL_RE = /\b(meta|metas|cumpla|cumplir|junte|juntar)\b/
+
+/**
+ * "guarda 0.05 ETH hasta diciembre", "bloquea 100 STRK hasta el 15 de marzo",
+ * "aparta 50 USDC hasta que cumpla mi meta de la bici".
+ */
+export function parseLockRequest(rawText: string, tokens: TokenInfo[], goals: SavingsGoal[], now = new Date()): LockParseResult {
+  const text = normalizeIntentText(rawText).replace(/[,;:](?!\d)/g, ' ')
+  const amount = extractAmount(text.split(/\s+/).filter(Boolean), tokens)
+  if (amount.problem) return { status: 'incomplete', question: `${amount.problem} ¿Cuánto quieres guardar?` }
+  if (amount.fiat) return { status: 'incomplete', question: 'Por ahora solo puedo guardar tokens; ¿cuántos ETH, STRK, USDC o USDT?' }
+  const token = tokens.find((t) => t.symbol.toUpperCase() === amount.tokenSymbol)
+  if (!amount.amountText || !token)
+    return { status: 'incomplete', question: '¿Cuánto y de qué token? Por ejemplo: "guarda 100 STRK hasta diciembre".' }
+  if (token.decimals === undefined) return { status: 'incomplete', question: `Todavía no conozco los decimales de ${token.symbol}; intenta en un momento.` }
+
+  let base: bigint
+  try {
+    base = parseUnits(amount.amountText, token.decimals)
+  } catch {
+    return { status: 'incomplete', question: `${token.symbol} acepta máximo ${token.decimals} decimales.` }
+  }
+  if (base === 0n) return { status: 'incomplete', question: 'El monto debe ser mayor a cero.' }
+  const lock: LockInput = { symbol: token.symbol, decimals: token.decimals, amount: base.toString() }
+
+  if (GOAL_RE.test(text)) {
+    const active = goals.filter((goal) => goal.status === 'active')
+    const named = active.find((goal) => text.includes(normalizeIntentText(goal.title)))
+    const goal = named ?? (active.length === 1 ? active[0] : undefined)
+    if (!goal)
+      return {
+        status: 'incomplete',
+        question: active.length === 0 ? 'No tienes metas activas; crea una o dime una fecha ("hasta diciembre").' : '¿Hasta cuál meta? Dime su nombre.',
+      }
+    return { status: 'complete', lock: { ...lock, goalId: goal.id, goalTitle: goal.title } }
+  }
+
+  const { deadlineMs } = extractDeadline(text, now)
+  if (deadlineMs === undefined || deadlineMs <= now.getTime())
+    return { status: 'incomplete', question: '¿Hasta cuándo la guardo? Por ejemplo: "hasta el 15 de marzo" o "hasta que cumpla mi meta".' }
+  return { status: 'complete', lock: { ...lock, unlockAtMs: deadlineMs } }
+}
+
+export type LockCommand =
+  | { kind: 'list' }
+  | { kind: 'emergency'; index?: number }
+  | { kind: 'cancel_emergency' }
+
+/** "mis bloqueos", "rompe mi alcancía de barro", "desbloqueo de emergencia del 2", "cancela el desbloqueo". */
+export function parseLockCommand(rawText: string): LockCommand {
+  const text = normalizeIntentText(rawText)
+  const index = /\b(?:bloqueo|ahorro|alcancia|el|numero|#)\s*(\d{1,2})\b/.exec(text)?.[1]
+  if (/\b(cancela|cancelar|ya no|olvida)\b.*\b(desbloqueo|romper)\b/.test(text)) return { kind: 'cancel_emergency' }
+  if (/\b(rompe|romper|rompela|quiebra|quebrar|desbloquea|desbloquear|desbloqueo|emergencia|libera|liberar)\b/.test(text))
+    return index ? { kind: 'emergency', index: Number(index) } : { kind: 'emergency' }
+  return { kind: 'list' }
+}
+
+// ---- descripción ----
+
+export function formatLockAmount(lock: Pick<SavingsLock, 'amount' | 'decimals' | 'symbol'>): string {
+  return `${formatUnits(BigInt(lock.amount), lock.decimals)} ${lock.symbol}`
+}
+
+function describeCondition(lock: SavingsLock): string {
+  if (lock.goalId) return `hasta cumplir la meta "${lock.goalTitle ?? 'de ahorro'}"`
+  return lock.unlockAtMs !== undefined ? `hasta el ${formatGoalDate(lock.unlockAtMs)}` : ''
+}
+
+function formatWait(ms: number): string {
+  const hours = Math.ceil(ms / (60 * 60 * 1000))
+  return hours >= 48 ? `${Math.ceil(hours / 24)} días` : `${hours} hora${hours === 1 ? '' : 's'}`
+}
+
+export function describeLock(lock: SavingsLock, position: number, nowMs = Date.now()): string {
+  const base = `${position}. ${formatLockAmount(lock)} ${describeCondition(lock)}`
+  const emergency = lock.emergency
+  if (!emergency) return base
+  if (nowMs < emergency.availableAtMs) return `${base} (desbloqueo de emergencia en ${formatWait(emergency.availableAtMs - nowMs)})`
+  return `${base} (desbloqueo de emergencia listo para confirmar)`
+}
+
+// ---- persistencia ----
+
+const LOCKS_INDEX_KEY = 'savings-locks:users'
+const locksKey = (entityId: string) => `savings-locks:user:${entityId}`
+
+export type EmergencyStep =
+  | { status: 'none' }
+  /** Recién pedido o aún en espera */
+  | { status: 'waiting'; locks: SavingsLock[]; availableAtMs: number; requested: boolean }
+  | { status: 'ready'; locks: SavingsLock[] }
+
+/** Ahorro bloqueado por usuario, con escritura diferida al cache del agente. */
+export class SavingsLockStore {
+  private readonly locks = new Map<string, SavingsLock[]>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(
+    /** Si la meta ya se cumplió (por defecto, según savingsGoalStore); cancelar la meta no libera el ahorro */
+    private readonly goalAchieved: (entityId: string, goalId: string) => boolean = (entityId, goalId) =>
+      savingsGoalStore.list(entityId, { includeCancelled: true }).some((goal) => goal.id === goalId && goal.status === 'achieved')
+  ) {}
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(LOCKS_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<SavingsLock[]>(locksKey(entityId))) ?? []
+      const merged = new Map(stored.map((lock) => [lock.id, lock]))
+      for (const lock of this.locks.get(entityId) ?? []) merged.set(lock.id, lock)
+      this.locks.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    for (const entityId of this.locks.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[Locks] Store attached')
+    return { loaded }
+  }
+
+  /** Bloqueos vigentes; los que llegaron a su fecha o meta se liberan aquí. */
+  active(entityId: string, nowMs = Date.now()): SavingsLock[] {
+    const locks = this.locks.get(entityId) ?? []
+    let changed = false
+    for (const lock of locks) {
+      if (lock.status !== 'locked') continue
+      const due = lock.unlockAtMs !== undefined && lock.unlockAtMs <= nowMs
+      const reached = lock.goalId !== undefined && this.goalAchieved(entityId, lock.goalId)
+      if (due || reached) {
+        lock.status = 'released'
+        lock.releasedAtMs = nowMs
+        delete lock.emergency
+        changed = true
+      }
+    }
+    if (changed) this.persist(entityId)
+    return locks.filter((lock) => lock.status === 'locked')
+  }
+
+  /** Cuánto de `symbol` no se puede enviar ahora. */
+  lockedAmount(entityId: string, symbol: string, nowMs = Date.now()): bigint {
+    return this.active(entityId, nowMs)
+      .filter((lock) => lock.symbol.toUpperCase() === symbol.toUpperCase())
+      .reduce((sum, lock) => sum + BigInt(lock.amount), 0n)
+  }
+
+  lock(entityId: string, input: LockInput, nowMs = Date.now()): SavingsLock {
+    const lock: SavingsLock = { ...input, id: crypto.randomUUID(), entityId, createdAtMs: nowMs, status: 'locked' }
+    this.locks.set(entityId, [...(this.locks.get(entityId) ?? []), lock])
+    this.persist(entityId)
+    return lock
+  }
+
+  /**
+   * Primer paso del desbloqueo de emergencia: la primera vez arranca la espera; cuando termina
+   * (y antes de que venza la ventana) devuelve 'ready' para pedir la confirmación explícita.
+   */
+  requestEmergencyUnlock(entityId: string, { index, nowMs = Date.now(), delayMs = emergencyUnlockDelayMs() }: { index?: number; nowMs?: number; delayMs?: number } = {}): EmergencyStep {
+    const active = this.active(entityId, nowMs)
+    const selected = index === undefined ? active : [active[index - 1]].filter(Boolean)
+    if (selected.length === 0) return { status: 'none' }
+
+    let requested = false
+    for (const lock of selected) {
+      if (lock.emergency && nowMs <= lock.emergency.expiresAtMs) continue
+      const availableAtMs = nowMs + delayMs
+      lock.emergency = { requestedAtMs: nowMs, availableAtMs, expiresAtMs: availableAtMs + EMERGENCY_CONFIRM_WINDOW_MS }
+      requested = true
+    }
+    if (requested) this.persist(entityId)
+    const availableAtMs = Math.max(...selected.map((lock) => lock.emergency!.availableAtMs))
+    if (availableAtMs > nowMs) return { status: 'waiting', locks: selected, availableAtMs, requested }
+    return { status: 'ready', locks: selected }
+  }
+
+  /** Rompe los bloqueos cuya espera de emergencia ya terminó; devuelve los que se rompieron. */
+  breakLocks(entityId: string, lockIds: string[], nowMs = Date.now()): SavingsLock[] {
+    const broken = this.active(entityId, nowMs).filter(
+      (lock) => lockIds.includes(lock.id) && lock.emergency && lock.emergency.availableAtMs <= nowMs && nowMs <= lock.emergency.expiresAtMs
+    )
+    for (const lock of broken) {
+      lock.status = 'broken'
+      lock.releasedAtMs = nowMs
+    }
+    if (broken.length > 0) this.persist(entityId)
+    return broken
+  }
+
+  cancelEmergency(entityId: string, nowMs = Date.now()): number {
+    const pending = this.active(entityId, nowMs).filter((lock) => lock.emergency)
+    for (const lock of pending) delete lock.emergency
+    if (pending.length > 0) this.persist(entityId)
+    return pending.length
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.locks.get(entityId) ?? []).map((lock) => ({ ...lock }))
+    const users = [...this.locks.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(locksKey(entityId), snapshot)
+        await backend.setCache(LOCKS_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Locks] persist failed')
+      })
+  }
+}
+
+export const savingsLocks = new SavingsLockStore()
+
+/** Por qué el bloqueo impide el envío; undefined si no estorba. */
+export function describeLockedFunds(
+  locks: SavingsLock[],
+  { symbol, decimals, amount, balance }: { symbol: string; decimals: number; amount: bigint; balance?: bigint }
+): string | undefined {
+  const relevant = locks.filter((lock) => lock.symbol.toUpperCase() === symbol.toUpperCase())
+  const locked = relevant.reduce((sum, lock) => sum + BigInt(lock.amount), 0n)
+  if (locked === 0n) return undefined
+  const fmt = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`
+  const conditions = relevant.map(describeCondition).join(' y ')
+  if (balance === undefined)
+    return `Tienes ${fmt(locked)} guardados en tu alcancía de barro (${conditions}) y no pude revisar tu saldo para saber cuánto queda libre.`
+  if (balance - amount >= locked) return undefined
+  const free = balance > locked ? balance - locked : 0n
+  return `Tienes ${fmt(locked)} guardados en tu alcancía de barro (${conditions}); solo puedes enviar ${fmt(free)}.`
+}
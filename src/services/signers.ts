@@ -0,0 +1,220 @@
+import net from 'node:net'
+import { ec, Signer as StarknetSigner, type ArraySignatureType, type Signature, type SignerInterface } from 'starknet'
+import { logger } from '@elizaos/core'
+
+/**
+ * Firma hashes de Starknet para una cuenta sin exponer la clave privada.
+ * Las acciones y el despliegue solo reciben esto, nunca la clave.
+ */
+export interface Signer {
+  /** Identificador estable de la llave (usamos el entityId del dueño) */
+  readonly keyId: string
+  getPublicKey(): Promise<string>
+  signHash(msgHash: string): Promise<ArraySignatureType>
+}
+
+/** Abre la clave solo durante `use` (ver PersistentTelegramStarknetStore.withPrivateKey). */
+export type KeyUnlocker = <T>(use: (privateKeyHex: string) => T) => T
+
+function withHexPrefix(value: string): string {
+  return value.startsWith('0x') ? value : `0x${value}`
+}
+
+function signWithKey(msgHash: string, privateKeyHex: string): ArraySignatureType {
+  const { r, s } = ec.starkCurve.sign(msgHash, privateKeyHex)
+  return [`0x${r.toString(16)}`, `0x${s.toString(16)}`]
+}
+
+/** Clave local cifrada: se descifra en cada firma y se descarta al terminar. */
+export class LocalKeySigner implements Signer {
+  constructor(
+    readonly keyId: string,
+    private readonly unlock: KeyUnlocker
+  ) {}
+
+  async getPublicKey(): Promise<string> {
+    return this.unlock((privateKeyHex) => withHexPrefix(ec.starkCurve.getStarkKey(privateKeyHex)))
+  }
+
+  async signHash(msgHash: string): Promise<ArraySignatureType> {
+    return this.unlock((privateKeyHex) => signWithKey(msgHash, privateKeyHex))
+  }
+}
+
+/**
+ * Sustituto en proceso de un HSM: las claves se importan una vez y quedan en un campo privado;
+ * hacia afuera solo hay handles (keyId), clave pública y firmas.
+ */
+export class InProcessHsm {
+  #keys = new Map<string, string>()
+
+  hasKey(keyId: string): boolean {
+    return this.#keys.has(keyId)
+  }
+
+  importKey(keyId: string, privateKeyHex: string): void {
+    if (!this.#keys.has(keyId)) this.#keys.set(keyId, withHexPrefix(privateKeyHex))
+  }
+
+  destroyKey(keyId: string): boolean {
+    return this.#keys.delete(keyId)
+  }
+
+  getPublicKey(keyId: string): string {
+    return withHexPrefix(ec.starkCurve.getStarkKey(this.requireKey(keyId)))
+  }
+
+  sign(keyId: string, msgHash: string): ArraySignatureType {
+    return signWithKey(msgHash, this.requireKey(keyId))
+  }
+
+  signer(keyId: string): Signer {
+    this.requireKey(keyId)
+    return {
+      keyId,
+      getPublicKey: async () => this.getPublicKey(keyId),
+      signHash: async (msgHash: string) => this.sign(keyId, msgHash),
+    }
+  }
+
+  private requireKey(keyId: string): string {
+    const key = this.#keys.get(keyId)
+    if (!key) throw new Error(`HSM key not found: ${keyId}`)
+    return key
+  }
+}
+
+// ---- firma remota por Unix socket ----
+// Protocolo: una línea JSON por petición y una por respuesta.
+//   → { id, method: 'getPublicKey' | 'signHash', keyId, msgHash? }
+//   ← { id, result } | { id, error }
+
+interface SigningRequest {
+  id: number
+  method: 'getPublicKey' | 'signHash'
+  keyId: string
+  msgHash?: string
+}
+
+interface SigningResponse {
+  id: number
+  result?: string | ArraySignatureType
+  error?: string
+}
+
+let nextRequestId = 1
+
+/** Cliente de un daemon de firmas; las claves viven solo en el daemon. */
+export class RemoteSigner implements Signer {
+  constructor(
+    readonly keyId: string,
+    private readonly socketPath: string,
+    private readonly timeoutMs = 10000
+  ) {}
+
+  async getPublicKey(): Promise<string> {
+    return (await this.request('getPublicKey')) as string
+  }
+
+  async signHash(msgHash: string): Promise<ArraySignatureType> {
+    return (await this.request('signHash', msgHash)) as ArraySignatureType
+  }
+
+  private request(method: SigningRequest['method'], msgHash?: string): Promise<SigningResponse['result']> {
+    const payload: SigningRequest = { id: nextRequestId++, method, keyId: this.keyId, ...(msgHash ? { msgHash } : {}) }
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath)
+      let buffer = ''
+      let settled = false
+      const settle = (outcome: () => void) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        socket.destroy()
+        outcome()
+      }
+      const fail = (error: Error) => settle(() => reject(error))
+      // Tope para la petición completa, no solo para la inactividad del socket
+      const timer = setTimeout(() => fail(new Error(`Signing daemon timed out after ${this.timeoutMs}ms`)), this.timeoutMs)
+      socket.on('error', fail)
+      socket.on('close', () => fail(new Error('Signing daemon closed the connection without answering')))
+      socket.on('connect', () => socket.write(`${JSON.stringify(payload)}\n`))
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8')
+        const newline = buffer.indexOf('\n')
+        if (newline < 0) return
+        let response: SigningResponse
+        try {
+          response = JSON.parse(buffer.slice(0, newline)) as SigningResponse
+        } catch (error) {
+          return fail(error instanceof Error ? error : new Error(String(error)))
+        }
+        if (response.id !== payload.id) return fail(new Error('Signing daemon answered another request'))
+        if (response.error) return fail(new Error(`Signing daemon error: ${response.error}`))
+        settle(() => resolve(response.result))
+      })
+    })
+  }
+}
+
+/**
+ * Servidor de referencia del protocolo anterior. `resolveSigner` decide qué llaves atiende;
+ * úsalo en un proceso separado del agente (o en pruebas).
+ */
+export function createSigningDaemon(resolveSigner: (keyId: string) => Signer | undefined): net.Server {
+  return net.createServer((socket) => {
+    let buffer = ''
+    socket.on('data', async (chunk) => {
+      buffer += chunk.toString('utf8')
+      let newline: number
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 1)
+        socket.write(`${JSON.stringify(await handleSigningRequest(line, resolveSigner))}\n`)
+      }
+    })
+    socket.on('error', (error) => logger.warn({ error: error.message }, '[Signer] daemon connection error'))
+  })
+}
+
+async function handleSigningRequest(line: string, resolveSigner: (keyId: string) => Signer | undefined): Promise<SigningResponse> {
+  let request: SigningRequest
+  try {
+    request = JSON.parse(line) as SigningRequest
+  } catch {
+    return { id: -1, error: 'invalid request' }
+  }
+  try {
+    const signer = resolveSigner(request.keyId)
+    if (!signer) return { id: request.id, error: 'unknown key' }
+    if (request.method === 'getPublicKey') return { id: request.id, result: await signer.getPublicKey() }
+    if (request.method === 'signHash' && request.msgHash) return { id: request.id, result: await signer.signHash(request.msgHash) }
+    return { id: request.id, error: 'unsupported method' }
+  } catch (error) {
+    return { id: request.id, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+// ---- puente con starknet.js ----
+
+/**
+ * Adapta nuestro Signer al SignerInterface de starknet.js: starknet.js calcula los hashes
+ * de transacción y solo nos pide firmar el hash (signRaw) y la clave pública.
+ */
+class DelegatingStarknetSigner extends StarknetSigner {
+  constructor(private readonly delegate: Signer) {
+    super()
+  }
+
+  async getPubKey(): Promise<string> {
+    return this.delegate.getPublicKey()
+  }
+
+  protected async signRaw(msgHash: string): Promise<Signature> {
+    return this.delegate.signHash(msgHash)
+  }
+}
+
+export function toStarknetSigner(signer: Signer): SignerInterface {
+  return new DelegatingStarknetSigner(signer)
+}
@@ -0,0 +1,509 @@
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { extractAmount } from './transfer-parser.ts'
+import { formatUnits, parseUnits, type TokenInfo } from './token-registry.ts'
+import { describeLockedFunds, savingsLocks, type SavingsLockStore } from './savings-locks.ts'
+
+/** tx: máximo por envío · daily: últimas 24 h · weekly: últimos 7 días (ventanas móviles) */
+export type LimitPeriod = 'tx' | 'daily' | 'weekly'
+
+/** Límites de un token como decimales ("0.05"), tal como los dijo el usuario o el env */
+export type TokenLimits = Partial<Record<LimitPeriod, string>>
+
+export interface SpendingPolicy {
+  /** Por símbolo de token en mayúsculas */
+  limits: Record<string, TokenLimits>
+  /** Direcciones de confianza, normalizadas a 0x + 64 hex */
+  allowlist: string[]
+  /** Solo se puede enviar a la lista de confianza */
+  allowlistOnly: boolean
+  /** Espera antes del primer envío a una dirección nueva (0 = sin espera) */
+  newRecipientCooldownMs: number
+}
+
+/** Lo que se quiere mover; cualquier acción que saque valor de la alcancía pasa por aquí. */
+export interface SpendRequest {
+  entityId: string
+  token: Pick<TokenInfo, 'symbol'> & { decimals: number }
+  amount: bigint
+  recipient: string
+  /** Saldo actual del token; sin él no se puede respetar el ahorro bloqueado */
+  balance?: bigint
+}
+
+export type PolicyViolationCode = 'max_per_tx' | 'daily_cap' | 'weekly_cap' | 'not_allowlisted' | 'cooldown' | 'locked_savings'
+
+export interface PolicyViolation {
+  code: PolicyViolationCode
+  /** Explicación para el usuario */
+  message: string
+}
+
+export type PolicyDecision = { allowed: true } | { allowed: false; violations: PolicyViolation[] }
+
+/** Monto apartado por `reserve` mientras se manda la transacción; `release` lo devuelve si no salió. */
+export interface SpendReservation {
+  entityId: string
+  recipient: string
+  record: SpendRecord
+  previousRecipient?: RecipientRecord
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WINDOW_MS: Record<Exclude<LimitPeriod, 'tx'>, number> = { daily: DAY_MS, weekly: 7 * DAY_MS }
+const PERIODS: LimitPeriod[] = ['tx', 'daily', 'weekly']
+
+export function emptyPolicy(): SpendingPolicy {
+  return { limits: {}, allowlist: [], allowlistOnly: false, newRecipientCooldownMs: 0 }
+}
+
+export function normalizeRecipient(address: string): string {
+  return '0x' + BigInt(address).toString(16).padStart(64, '0')
+}
+
+function shortAddress(address: string): string {
+  const hex = BigInt(address).toString(16)
+  return hex.length > 10 ? `0x${hex.slice(0, 4)}…${hex.slice(-4)}` : `0x${hex}`
+}
+
+// ---- política global (env) ----
+
+/** "ETH:0.05,STRK:200" → { ETH: '0.05', STRK: '200' }; ignora lo que no entiende. */
+function parseLimitList(raw: string | undefined, name: string): Record<string, string> {
+  const limits: Record<string, string> = {}
+  for (const entry of (raw ?? '').split(',').map((item) => item.trim()).filter(Boolean)) {
+    const match = /^([A-Za-z0-9]{2,12})\s*[:=]\s*(\d+(?:\.\d+)?)$/.exec(entry)
+    if (match) limits[match[1].toUpperCase()] = match[2]
+    else logger.warn({ entry, name }, '[Policy] ignoring malformed limit')
+  }
+  return limits
+}
+
+/**
+ * Política para todas las alcancías: ALCANCIA_LIMIT_PER_TX, ALCANCIA_LIMIT_DAILY, ALCANCIA_LIMIT_WEEKLY
+ * ("ETH:0.05,STRK:200"), ALCANCIA_ALLOWLIST (direcciones separadas por coma), ALCANCIA_ALLOWLIST_ONLY
+ * y ALCANCIA_NEW_RECIPIENT_COOLDOWN_MIN. Un usuario puede apretarla por chat, nunca aflojarla.
+ */
+export function globalPolicy(): SpendingPolicy {
+  const policy = emptyPolicy()
+  const lists: Record<LimitPeriod, string> = { tx: 'ALCANCIA_LIMIT_PER_TX', daily: 'ALCANCIA_LIMIT_DAILY', weekly: 'ALCANCIA_LIMIT_WEEKLY' }
+  for (const period of PERIODS) {
+    for (const [symbol, amount] of Object.entries(parseLimitList(process.env[lists[period]], lists[period]))) {
+      policy.limits[symbol] = { ...policy.limits[symbol], [period]: amount }
+    }
+  }
+  for (const entry of (process.env.ALCANCIA_ALLOWLIST ?? '').split(',').map((item) => item.trim()).filter(Boolean)) {
+    try {
+      policy.allowlist.push(normalizeRecipient(entry))
+    } catch {
+      logger.warn({ entry }, '[Policy] ignoring malformed ALCANCIA_ALLOWLIST address')
+    }
+  }
+  policy.allowlistOnly = ['1', 'true'].includes(String(process.env.ALCANCIA_ALLOWLIST_ONLY).toLowerCase())
+  const cooldownMin = Number(process.env.ALCANCIA_NEW_RECIPIENT_COOLDOWN_MIN)
+  if (Number.isFinite(cooldownMin) && cooldownMin > 0) policy.newRecipientCooldownMs = cooldownMin * 60_000
+  return policy
+}
+
+// ---- evaluación ----
+
+interface LimitSource {
+  amount: bigint
+  /** user: lo fijó el usuario · global: configuración del agente */
+  source: 'user' | 'global'
+}
+
+function limitFor(user: SpendingPolicy, global: SpendingPolicy, symbol: string, period: LimitPeriod, decimals: number): LimitSource | undefined {
+  const candidates: LimitSource[] = []
+  for (const [source, policy] of [['user', user], ['global', global]] as const) {
+    const text = policy.limits[symbol]?.[period]
+    if (!text) continue
+    try {
+      candidates.push({ amount: parseUnits(text, decimals), source })
+    } catch {
+      logger.warn({ symbol, period, text }, '[Policy] limit has more decimals than the token')
+    }
+  }
+  // Gana el más estricto
+  return candidates.sort((a, b) => (a.amount < b.amount ? -1 : a.amount > b.amount ? 1 : 0))[0]
+}
+
+export interface SpendRecord {
+  symbol: string
+  /** Unidades base como string */
+  amount: string
+  atMs: number
+}
+
+export interface RecipientRecord {
+  firstSeenMs: number
+  lastSentMs?: number
+}
+
+interface UserPolicyState {
+  policy: SpendingPolicy
+  spends: SpendRecord[]
+  recipients: Record<string, RecipientRecord>
+}
+
+function spentSince(state: UserPolicyState | undefined, symbol: string, sinceMs: number): bigint {
+  return (state?.spends ?? []).filter((spend) => spend.symbol === symbol && spend.atMs > sinceMs).reduce((sum, spend) => sum + BigInt(spend.amount), 0n)
+}
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000)
+  if (minutes < 60) return `${minutes} minuto${minutes === 1 ? '' : 's'}`
+  const hours = Math.round(minutes / 6) / 10
+  return `${hours} hora${hours === 1 ? '' : 's'}`
+}
+
+function checkSpend(state: UserPolicyState | undefined, request: SpendRequest, global: SpendingPolicy, nowMs: number): PolicyViolation[] {
+  const user = state?.policy ?? emptyPolicy()
+  const { symbol, decimals } = request.token
+  const key = symbol.toUpperCase()
+  const fmt = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`
+  const whose = (limit: LimitSource) => (limit.source === 'user' ? 'tu' : 'el')
+  const violations: PolicyViolation[] = []
+
+  const perTx = limitFor(user, global, key, 'tx', decimals)
+  if (perTx && request.amount > perTx.amount)
+    violations.push({
+      code: 'max_per_tx',
+      message: `El envío de ${fmt(request.amount)} pasa ${whose(perTx)} máximo por envío de ${fmt(perTx.amount)}.`,
+    })
+
+  for (const period of ['daily', 'weekly'] as const) {
+    const cap = limitFor(user, global, key, period, decimals)
+    if (!cap) continue
+    const spent = spentSince(state, key, nowMs - WINDOW_MS[period])
+    if (spent + request.amount <= cap.amount) continue
+    const left = cap.amount > spent ? cap.amount - spent : 0n
+    const label = period === 'daily' ? 'diario' : 'semanal'
+    const window = period === 'daily' ? 'las últimas 24 horas' : 'los últimos 7 días'
+    violations.push({
+      code: period === 'daily' ? 'daily_cap' : 'weekly_cap',
+      message: `Con este envío llevarías ${fmt(spent + request.amount)} en ${window} y ${whose(cap)} tope ${label} es ${fmt(cap.amount)}. ${
+        left > 0n ? `Todavía puedes enviar hasta ${fmt(left)}.` : 'Ya no puedes enviar más por ahora.'
+      }`,
+    })
+  }
+
+  const recipient = normalizeRecipient(request.recipient)
+  const trusted = user.allowlist.includes(recipient) || global.allowlist.includes(recipient)
+  if (!trusted && global.allowlistOnly)
+    violations.push({ code: 'not_allowlisted', message: `Este agente solo envía a direcciones autorizadas y ${shortAddress(recipient)} no lo está.` })
+  else if (!trusted && user.allowlistOnly)
+    violations.push({
+      code: 'not_allowlisted',
+      message: `Pediste enviar solo a tu lista de confianza y ${shortAddress(recipient)} no está en ella. Agrégala con "permite ${recipient}".`,
+    })
+
+  const cooldownMs = Math.max(user.newRecipientCooldownMs, global.newRecipientCooldownMs)
+  const seen = state?.recipients[recipient]
+  if (!trusted && cooldownMs > 0 && seen?.lastSentMs === undefined) {
+    const waitMs = (seen?.firstSeenMs ?? nowMs) + cooldownMs - nowMs
+    if (waitMs > 0)
+      violations.push({
+        code: 'cooldown',
+        message: `Es la primera vez que envías a ${shortAddress(recipient)}; por seguridad hay que esperar ${formatMinutes(waitMs)} antes de enviarle. Si la conoces, agrégala a tu lista de confianza.`,
+      })
+  }
+  return violations
+}
+
+/** Texto para el usuario cuando la política bloquea un envío. */
+export function describePolicyViolations(violations: PolicyViolation[]): string {
+  return ['No puedo hacer este envío:', ...violations.map((violation) => `• ${violation.message}`), 'Escribe "mis límites" para ver tus reglas.'].join('\n')
+}
+
+export function describePolicy(user: SpendingPolicy, global: SpendingPolicy = emptyPolicy()): string {
+  const lines: string[] = []
+  const labels: Record<LimitPeriod, string> = { tx: 'por envío', daily: 'diario', weekly: 'semanal' }
+  const symbols = [...new Set([...Object.keys(user.limits), ...Object.keys(global.limits)])].sort()
+  for (const symbol of symbols) {
+    const parts = PERIODS.flatMap((period) => {
+      const mine = user.limits[symbol]?.[period]
+      const theirs = global.limits[symbol]?.[period]
+      if (!mine && !theirs) return []
+      const both = mine && theirs ? ` (tuyo ${mine}, del agente ${theirs}; aplica el menor)` : theirs ? ' (del agente)' : ''
+      return [`${labels[period]} ${mine ?? theirs}${both}`]
+    })
+    if (parts.length > 0) lines.push(`• ${symbol}: ${parts.join(', ')}`)
+  }
+  if (lines.length === 0) lines.push('• Sin límites de monto.')
+  const allowlist = [...new Set([...user.allowlist, ...global.allowlist])]
+  if (user.allowlistOnly || global.allowlistOnly) lines.push('• Solo se envía a tu lista de confianza.')
+  lines.push(allowlist.length > 0 ? `• Lista de confianza: ${allowlist.map(shortAddress).join(', ')}` : '• Lista de confianza vacía.')
+  const cooldownMs = Math.max(user.newRecipientCooldownMs, global.newRecipientCooldownMs)
+  if (cooldownMs > 0) lines.push(`• Espera para direcciones nuevas: ${formatMinutes(cooldownMs)}.`)
+  return ['Tus reglas de envío:', ...lines].join('\n')
+}
+
+/** Texto de confirmación de un cambio ya aplicado. */
+export function describePolicyChange(command: PolicyCommand): string {
+  const labels: Record<LimitPeriod, string> = { tx: 'por envío', daily: 'diario', weekly: 'semanal' }
+  switch (command.kind) {
+    case 'limit':
+      return command.amountText
+        ? `Listo: tu límite ${labels[command.period]} de ${command.symbol} es ${command.amountText}.`
+        : `Listo: quité tu límite ${labels[command.period]} de ${command.symbol}.`
+    case 'allow':
+      return `Listo: ${shortAddress(command.address)} está en tu lista de confianza.`
+    case 'disallow':
+      return `Listo: quité ${shortAddress(command.address)} de tu lista de confianza.`
+    case 'allowlist_only':
+      return command.enabled ? 'Listo: solo enviaré a tu lista de confianza.' : 'Listo: ya puedes enviar a cualquier dirección.'
+    case 'cooldown':
+      return command.minutes > 0
+        ? `Listo: antes del primer envío a una dirección nueva habrá que esperar ${formatMinutes(command.minutes * 60_000)}.`
+        : 'Listo: ya no hay espera para direcciones nuevas.'
+    default:
+      return ''
+  }
+}
+
+// ---- comandos por chat ----
+
+export type PolicyCommand =
+  | { kind: 'show' }
+  /** Sin `amountText` se quita el límite */
+  | { kind: 'limit'; period: LimitPeriod; symbol: string; amountText?: string }
+  | { kind: 'allow' | 'disallow'; address: string }
+  | { kind: 'allowlist_only'; enabled: boolean }
+  | { kind: 'cooldown'; minutes: number }
+  | { kind: 'invalid'; question: string }
+
+const PERIOD_PATTERNS: Array<[LimitPeriod, RegExp]> = [
+  ['tx', /\b(por (envio|transferencia|operacion|transaccion|pago)|maximo por)\b/],
+  ['daily', /\b(diari[oa]s?|al dia|por dia)\b/],
+  ['weekly', /\b(semanal(es)?|a la semana|por semana)\b/],
+]
+const REMOVE_RE = /\b(quita|quitar|quitame|elimina|eliminar|borra|borrar|saca|sacar|bloquea|bloquear|remove)\b/
+
+/**
+ * "límite diario de 0.1 ETH", "quita mi límite por envío de STRK", "permite 0x…",
+ * "solo enviar a mi lista de confianza", "espera de 30 minutos para direcciones nuevas", "mis límites".
+ */
+export function parsePolicyCommand(rawText: string, tokens: TokenInfo[]): PolicyCommand {
+  const text = normalizeIntentText(rawText).replace(/[,;:](?!\d)/g, ' ')
+  const address = /\b0x[0-9a-f]{1,64}\b/.exec(text)?.[0]
+  const removing = REMOVE_RE.test(text) || /\bsin (limite|tope)\b/.test(text)
+
+  if (address) {
+    let normalized: string
+    try {
+      normalized = normalizeRecipient(address)
+    } catch {
+      return { kind: 'invalid', question: `La dirección ${address} no es válida.` }
+    }
+    return { kind: removing ? 'disallow' : 'allow', address: normalized }
+  }
+
+  if (/\bsolo\b.*\b(lista|permitid\w*|autorizad\w*|confianza)\b/.test(text)) return { kind: 'allowlist_only', enabled: true }
+  if (/\b(cualquier direccion|cualquiera)\b/.test(text) || (removing && /\blista\b/.test(text)))
+    return { kind: 'allowlist_only', enabled: false }
+
+  if (/\b(espera|enfriamiento|cool ?down)\b/.test(text)) {
+    if (/\bsin espera\b/.test(text) || removing) return { kind: 'cooldown', minutes: 0 }
+    const match = /\b(\d{1,4})\s*(min|minutos?|h|horas?)\b/.exec(text)
+    if (!match) return { kind: 'invalid', question: '¿Cuánto hay que esperar antes de enviar a una dirección nueva? Por ejemplo: "espera de 30 minutos".' }
+    return { kind: 'cooldown', minutes: Number(match[1]) * (match[2].startsWith('h') ? 60 : 1) }
+  }
+
+  const period = PERIOD_PATTERNS.find(([, re]) => re.test(text))?.[0]
+  if (!period || !/\b(limites?|topes?|maximo)\b/.test(text)) return { kind: 'show' }
+
+  const words = text.split(/\s+/).filter(Boolean)
+  const amount = extractAmount(words, tokens)
+  const symbol = (amount.tokenSymbol ?? words.map((w) => w.toUpperCase()).find((w) => tokens.some((t) => t.symbol.toUpperCase() === w)))?.toUpperCase()
+  if (!symbol) return { kind: 'invalid', question: `¿De qué token? (${tokens.map((token) => token.symbol).join(', ')})` }
+  if (removing) return { kind: 'limit', period, symbol }
+  if (amount.problem) return { kind: 'invalid', question: amount.problem }
+  if (amount.fiat) return { kind: 'invalid', question: `Por ahora los límites van en tokens; ¿cuántos ${symbol}?` }
+  if (!amount.amountText) return { kind: 'invalid', question: `¿De cuánto es el límite en ${symbol}?` }
+  return { kind: 'limit', period, symbol, amountText: amount.amountText }
+}
+
+/** Si aplicar el comando deja al usuario menos protegido (se pide confirmación). */
+export function isLoosening(policy: SpendingPolicy, command: PolicyCommand): boolean {
+  switch (command.kind) {
+    case 'limit': {
+      const current = policy.limits[command.symbol]?.[command.period]
+      if (!current) return false
+      if (!command.amountText) return true
+      const scale = Math.max(current.split('.')[1]?.length ?? 0, command.amountText.split('.')[1]?.length ?? 0)
+      return parseUnits(command.amountText, scale) > parseUnits(current, scale)
+    }
+    case 'allow':
+      return !policy.allowlist.includes(command.address)
+    case 'allowlist_only':
+      return policy.allowlistOnly && !command.enabled
+    case 'cooldown':
+      return command.minutes * 60_000 < policy.newRecipientCooldownMs
+    default:
+      return false
+  }
+}
+
+// ---- persistencia ----
+
+const POLICY_INDEX_KEY = 'spending-policy:users'
+const policyKey = (entityId: string) => `spending-policy:user:${entityId}`
+const MAX_WINDOW_MS = WINDOW_MS.weekly
+
+/** Reglas de cada usuario y lo que ya envió (para los topes), con escritura diferida al cache del agente. */
+export class SpendingPolicyStore {
+  private readonly users = new Map<string, UserPolicyState>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(POLICY_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = await backend.getCache<UserPolicyState>(policyKey(entityId))
+      if (!stored) continue
+      const current = this.users.get(entityId)
+      // Lo de memoria (creado antes de conectar la base) gana en reglas; los envíos se suman
+      this.users.set(entityId, {
+        policy: current?.policy ?? { ...emptyPolicy(), ...stored.policy },
+        spends: [...stored.spends, ...(current?.spends ?? [])],
+        recipients: { ...stored.recipients, ...current?.recipients },
+      })
+      loaded++
+    }
+    for (const entityId of this.users.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[Policy] Store attached')
+    return { loaded }
+  }
+
+  policy(entityId: string): SpendingPolicy {
+    const policy = this.users.get(entityId)?.policy ?? emptyPolicy()
+    return { ...policy, limits: { ...policy.limits }, allowlist: [...policy.allowlist] }
+  }
+
+  /**
+   * Revisa el envío contra las reglas del usuario y las globales. La primera vez que aparece
+   * un destinatario empieza a correr su espera, aunque el envío se bloquee.
+   */
+  evaluate(
+    request: SpendRequest,
+    { nowMs = Date.now(), global = globalPolicy(), locks = savingsLocks }: { nowMs?: number; global?: SpendingPolicy; locks?: SavingsLockStore } = {}
+  ): PolicyDecision {
+    const state = this.state(request.entityId)
+    const recipient = normalizeRecipient(request.recipient)
+    const violations = checkSpend(state, request, global, nowMs)
+    const locked = describeLockedFunds(locks.active(request.entityId, nowMs), { ...request.token, amount: request.amount, balance: request.balance })
+    if (locked) violations.unshift({ code: 'locked_savings', message: locked })
+    if (!state.recipients[recipient]) {
+      state.recipients[recipient] = { firstSeenMs: nowMs }
+      this.persist(request.entityId)
+    }
+    return violations.length === 0 ? { allowed: true } : { allowed: false, violations }
+  }
+
+  /**
+   * Revisa el envío y, si pasa, lo anota en el mismo paso (sin esperas de por medio): dos
+   * confirmaciones simultáneas no pueden usar el mismo tope. Si la transacción no sale, `release`.
+   */
+  reserve(
+    request: SpendRequest,
+    options: { nowMs?: number; global?: SpendingPolicy; locks?: SavingsLockStore } = {}
+  ): { allowed: true; reservation: SpendReservation } | { allowed: false; violations: PolicyViolation[] } {
+    const decision = this.evaluate(request, options)
+    if (!decision.allowed) return decision
+    return { allowed: true, reservation: this.recordSpend(request, options.nowMs) }
+  }
+
+  /** Devuelve un monto apartado cuyo envío no salió. */
+  release(reservation: SpendReservation): void {
+    const state = this.state(reservation.entityId)
+    state.spends = state.spends.filter((spend) => spend !== reservation.record)
+    if (reservation.previousRecipient) state.recipients[reservation.recipient] = reservation.previousRecipient
+    else delete state.recipients[reservation.recipient]
+    this.persist(reservation.entityId)
+  }
+
+  /** Anota un envío: cuenta para los topes y el destinatario deja de ser nuevo. */
+  recordSpend(request: SpendRequest, nowMs = Date.now()): SpendReservation {
+    const state = this.state(request.entityId)
+    const recipient = normalizeRecipient(request.recipient)
+    const previousRecipient = state.recipients[recipient] ? { ...state.recipients[recipient] } : undefined
+    const record: SpendRecord = { symbol: request.token.symbol.toUpperCase(), amount: request.amount.toString(), atMs: nowMs }
+    state.spends = state.spends.filter((spend) => spend.atMs > nowMs - MAX_WINDOW_MS)
+    state.spends.push(record)
+    state.recipients[recipient] = { firstSeenMs: previousRecipient?.firstSeenMs ?? nowMs, lastSentMs: nowMs }
+    this.persist(request.entityId)
+    return { entityId: request.entityId, recipient, record, previousRecipient }
+  }
+
+  spentWithin(entityId: string, symbol: string, period: Exclude<LimitPeriod, 'tx'>, nowMs = Date.now()): bigint {
+    return spentSince(this.users.get(entityId), symbol.toUpperCase(), nowMs - WINDOW_MS[period])
+  }
+
+  /** Aplica un comando ya validado; devuelve la política resultante. */
+  apply(entityId: string, command: PolicyCommand): SpendingPolicy {
+    const { policy } = this.state(entityId)
+    switch (command.kind) {
+      case 'limit': {
+        const limits = { ...policy.limits[command.symbol] }
+        if (command.amountText) limits[command.period] = command.amountText
+        else delete limits[command.period]
+        if (Object.keys(limits).length > 0) policy.limits[command.symbol] = limits
+        else delete policy.limits[command.symbol]
+        break
+      }
+      case 'allow':
+        if (!policy.allowlist.includes(command.address)) policy.allowlist.push(command.address)
+        break
+      case 'disallow':
+        policy.allowlist = policy.allowlist.filter((address) => address !== command.address)
+        break
+      case 'allowlist_only':
+        policy.allowlistOnly = command.enabled
+        break
+      case 'cooldown':
+        policy.newRecipientCooldownMs = command.minutes * 60_000
+        break
+      default:
+        return this.policy(entityId)
+    }
+    this.persist(entityId)
+    return this.policy(entityId)
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private state(entityId: string): UserPolicyState {
+    let state = this.users.get(entityId)
+    if (!state) {
+      state = { policy: emptyPolicy(), spends: [], recipients: {} }
+      this.users.set(entityId, state)
+    }
+    return state
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const state = this.users.get(entityId)
+    if (!state) return
+    const snapshot: UserPolicyState = JSON.parse(JSON.stringify(state))
+    const users = [...this.users.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(policyKey(entityId), snapshot)
+        await backend.setCache(POLICY_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Policy] persist failed')
+      })
+  }
+}
+
+export const spendingPolicies = new SpendingPolicyStore()
@@ -0,0 +1,144 @@
+import { logger } from '@elizaos/core'
+import { CallData, starknetId, type RpcProvider } from 'starknet'
+import { createStarknetProvider } from './telegram-starknet.ts'
+import { normalizeTokenAddress } from './token-registry.ts'
+
+/** Lo que se necesita de la red; en pruebas basta un objeto que simule estas dos llamadas. */
+export type StarknetIdRpc = Pick<RpcProvider, 'callContract' | 'getChainId'>
+
+export type DomainLookup = { status: 'found'; address: string } | { status: 'not_found' } | { status: 'unavailable' }
+
+export interface StarknetIdResolverOptions {
+  /** Contrato de nombres de Starknet ID; por defecto STARKNET_ID_NAMING_CONTRACT o el de la red del proveedor */
+  namingContract?: string
+  /** Cuánto reutilizar un nombre o una dirección ya resueltos */
+  cacheTtlMs?: number
+  /** Un dominio sin dueño se vuelve a consultar antes: lo pueden registrar en cualquier momento */
+  missTtlMs?: number
+  now?: () => number
+}
+
+interface CacheEntry<T> {
+  value: T
+  expiresAtMs: number
+}
+
+const LABEL_RE = /^[a-z0-9-]+$/
+
+/** "Maria.Stark" → "maria.stark"; undefined si no es un dominio .stark bien formado. */
+export function normalizeStarkDomain(raw: string): string | undefined {
+  const domain = raw.trim().toLowerCase()
+  if (!domain.endsWith('.stark')) return undefined
+  const labels = domain.slice(0, -'.stark'.length).split('.')
+  return labels.every((label) => LABEL_RE.test(label)) ? domain : undefined
+}
+
+/**
+ * Dominios .stark ↔ direcciones con el contrato de nombres de Starknet ID, con cache.
+ * El nombre de una dirección solo se usa si al resolverlo de vuelta da la misma dirección
+ * (un dominio vendido o vencido puede seguir apuntando a su antiguo dueño).
+ */
+export class StarknetIdResolver {
+  private readonly domains = new Map<string, CacheEntry<DomainLookup>>()
+  private readonly names = new Map<string, CacheEntry<string | undefined>>()
+  private readonly cacheTtlMs: number
+  private readonly missTtlMs: number
+  private readonly now: () => number
+  private contract?: Promise<string>
+
+  constructor(
+    private readonly provider: StarknetIdRpc | undefined,
+    private readonly options: StarknetIdResolverOptions = {}
+  ) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000
+    this.missTtlMs = options.missTtlMs ?? 60 * 1000
+    this.now = options.now ?? Date.now
+  }
+
+  async resolveDomain(raw: string): Promise<DomainLookup> {
+    const domain = normalizeStarkDomain(raw)
+    if (!domain) return { status: 'not_found' }
+    const cached = this.fresh(this.domains, domain)
+    if (cached) return cached.value
+    if (!this.provider) return { status: 'unavailable' }
+    try {
+      const encoded = domain
+        .slice(0, -'.stark'.length)
+        .split('.')
+        .map((label) => starknetId.useEncoded(label).toString(10))
+      const [address] = await this.provider.callContract({
+        contractAddress: await this.namingContract(),
+        entrypoint: 'domain_to_address',
+        calldata: CallData.compile({ domain: encoded, hint: [] }),
+      })
+      const lookup: DomainLookup =
+        address && BigInt(address) !== 0n ? { status: 'found', address: normalizeTokenAddress(address) } : { status: 'not_found' }
+      this.domains.set(domain, { value: lookup, expiresAtMs: this.now() + (lookup.status === 'found' ? this.cacheTtlMs : this.missTtlMs) })
+      return lookup
+    } catch (error) {
+      logger.warn({ domain, error: error instanceof Error ? error.message : String(error) }, '[StarknetID] domain lookup failed')
+      return { status: 'unavailable' }
+    }
+  }
+
+  /** Dominio principal de `address` ("maria.stark"), o undefined si no tiene o no se pudo consultar. */
+  async nameOf(address: string): Promise<string | undefined> {
+    if (!this.provider) return undefined
+    const key = normalizeTokenAddress(address)
+    const cached = this.fresh(this.names, key)
+    if (cached) return cached.value
+    try {
+      const result = await this.provider.callContract({
+        contractAddress: await this.namingContract(),
+        entrypoint: 'address_to_domain',
+        calldata: CallData.compile({ address: key, hint: [] }),
+      })
+      // [longitud, ...etiquetas codificadas]
+      const decoded = result.length > 1 ? starknetId.useDecoded(result.slice(1).map((felt) => BigInt(felt))) : ''
+      const forward = decoded ? await this.resolveDomain(decoded) : undefined
+      const name = forward?.status === 'found' && forward.address === key ? decoded : undefined
+      // Sin poder verificarlo no se guarda: se reintenta en la próxima consulta
+      if (forward?.status !== 'unavailable') this.names.set(key, { value: name, expiresAtMs: this.now() + (name ? this.cacheTtlMs : this.missTtlMs) })
+      return name
+    } catch (error) {
+      logger.warn({ address: key, error: error instanceof Error ? error.message : String(error) }, '[StarknetID] reverse lookup failed')
+      return undefined
+    }
+  }
+
+  /** Dominio de cada dirección que tenga uno, con la dirección normalizada como llave. */
+  async namesOf(addresses: string[]): Promise<Map<string, string>> {
+    const unique = [...new Set(addresses.map(normalizeTokenAddress))]
+    const names = await Promise.all(unique.map(async (address) => [address, await this.nameOf(address)] as const))
+    return new Map(names.filter((entry): entry is readonly [string, string] => Boolean(entry[1])))
+  }
+
+  private fresh<T>(cache: Map<string, CacheEntry<T>>, key: string): CacheEntry<T> | undefined {
+    const entry = cache.get(key)
+    return entry && entry.expiresAtMs > this.now() ? entry : undefined
+  }
+
+  private namingContract(): Promise<string> {
+    const configured = this.options.namingContract ?? process.env.STARKNET_ID_NAMING_CONTRACT?.trim()
+    if (configured) return Promise.resolve(configured)
+    if (!this.contract) {
+      this.contract = this.provider!.getChainId().then((chainId) => starknetId.getStarknetIdContract(chainId))
+      // Si falla (p. ej. una red sin Starknet ID) se vuelve a intentar en la siguiente consulta
+      this.contract.catch(() => (this.contract = undefined))
+    }
+    return this.contract
+  }
+}
+
+let envResolver: StarknetIdResolver | null = null
+
+/** Resolvedor con el proveedor de STARKNET_RPC_URL; sin él, los dominios quedan "no disponibles". */
+export function getStarknetIdResolver(): StarknetIdResolver {
+  if (envResolver === null) envResolver = new StarknetIdResolver(createStarknetProvider())
+  return envResolver
+}
+
+/** Solo para pruebas: reemplaza el resolvedor global (null lo recrea del entorno). */
+export function setStarknetIdResolver(resolver: StarknetIdResolver | null): void {
+  envResolver = resolver
+}
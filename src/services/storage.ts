@@ -0,0 +1,27 @@
+import type { IAgentRuntime } from '@elizaos/core'
+
+/**
+ * Subconjunto del adaptador de base de datos que usamos para persistir estado propio.
+ * El runtime (respaldado por @elizaos/plugin-sql) lo implementa directamente.
+ */
+export type CacheBackend = Pick<IAgentRuntime, 'getCache' | 'setCache' | 'deleteCache'>
+
+/**
+ * Backend en memoria con la misma forma que el cache del runtime.
+ * Útil para pruebas y como respaldo cuando no hay base de datos.
+ */
+export function createMemoryCacheBackend(initial?: Record<string, unknown>): CacheBackend {
+  const entries = new Map<string, unknown>(Object.entries(initial ?? {}))
+  return {
+    async getCache<T>(key: string): Promise<T | undefined> {
+      return entries.has(key) ? (structuredClone(entries.get(key)) as T) : undefined
+    },
+    async setCache<T>(key: string, value: T): Promise<boolean> {
+      entries.set(key, structuredClone(value))
+      return true
+    },
+    async deleteCache(key: string): Promise<boolean> {
+      return entries.delete(key)
+    },
+  }
+}
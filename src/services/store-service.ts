@@ -0,0 +1,64 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core'
+import { telegramStarknetStore } from './telegram-starknet.ts'
+import { tokenRegistry } from './token-registry.ts'
+import { savingsGoalStore } from './savings-goals.ts'
+import { transactionHistoryStore } from './transaction-history.ts'
+import { notificationTargets } from './notification-targets.ts'
+import { sponsorBudget } from './account-deployment.ts'
+import { spendingPolicies } from './spending-policy.ts'
+import { savingsLocks } from './savings-locks.ts'
+import { contactStore, usernameDirectory } from './contacts.ts'
+import { tokenLaunches } from './token-launcher.ts'
+
+/**
+ * Conecta los stores persistentes a la base de datos del agente (@elizaos/plugin-sql) al arrancar,
+ * migrando lo creado en memoria antes de ese momento.
+ */
+export class TelegramStarknetStoreService extends Service {
+  static serviceType = 'telegram-starknet-store'
+  capabilityDescription = 'Persiste las alcancías digitales (claves cifradas), los tokens, las metas de ahorro y el historial de movimientos en la base de datos del agente.'
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime)
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting telegram-starknet store service ***')
+    const service = new TelegramStarknetStoreService(runtime)
+    await telegramStarknetStore.attach(runtime)
+    await tokenRegistry.attach(runtime)
+    await savingsGoalStore.attach(runtime)
+    await transactionHistoryStore.attach(runtime)
+    await notificationTargets.attach(runtime)
+    await sponsorBudget.attach(runtime)
+    await spendingPolicies.attach(runtime)
+    await savingsLocks.attach(runtime)
+    await contactStore.attach(runtime)
+    await usernameDirectory.attach(runtime)
+    await tokenLaunches.attach(runtime)
+    return service
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    const service = runtime.getService(TelegramStarknetStoreService.serviceType)
+    if (!service) {
+      throw new Error('Telegram-starknet store service not found')
+    }
+    await service.stop()
+  }
+
+  async stop() {
+    await telegramStarknetStore.flush()
+    await tokenRegistry.flush()
+    await savingsGoalStore.flush()
+    await transactionHistoryStore.flush()
+    await notificationTargets.flush()
+    await sponsorBudget.flush()
+    await spendingPolicies.flush()
+    await savingsLocks.flush()
+    await contactStore.flush()
+    await usernameDirectory.flush()
+    await tokenLaunches.flush()
+    logger.info('*** Stopped telegram-starknet store service ***')
+  }
+}
@@ -0,0 +1,48 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core'
+import { TandaTracker } from './tanda-tracker.ts'
+import { tandaStore } from './tandas.ts'
+import { sendNotification } from './notification-targets.ts'
+import { createStarknetProvider } from './telegram-starknet.ts'
+
+/**
+ * Persiste las tandas y corre su seguimiento: pagos detectados en la red, cierre de rondas y
+ * anuncio de a quién le toca, todo en el grupo donde se armó. Sin STARKNET_RPC_URL el calendario
+ * avanza igual, pero los pagos no se reconocen.
+ */
+export class TandaService extends Service {
+  static serviceType = 'tandas'
+  capabilityDescription = 'Tandas (ahorro grupal rotativo) en grupos de Telegram: aportaciones, rondas y anuncios.'
+
+  private tracker?: TandaTracker
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime)
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting tanda service ***')
+    const service = new TandaService(runtime)
+    await tandaStore.attach(runtime)
+    const provider = createStarknetProvider()
+    if (!provider) logger.warn('[Tandas] STARKNET_RPC_URL not set; payments will not be detected')
+    service.tracker = new TandaTracker(provider, (tanda, text) => sendNotification(runtime, tanda.organizerId, tanda.target, text))
+    await service.tracker.attach(runtime)
+    service.tracker.start()
+    return service
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    const service = runtime.getService(TandaService.serviceType)
+    if (!service) {
+      throw new Error('Tanda service not found')
+    }
+    await service.stop()
+  }
+
+  async stop() {
+    this.tracker?.stop()
+    await this.tracker?.idle()
+    await tandaStore.flush()
+    logger.info('*** Stopped tanda service ***')
+  }
+}
@@ -0,0 +1,257 @@
+import { logger } from '@elizaos/core'
+import type { RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+import { systemClock, type SchedulerClock } from './reminders.ts'
+import { normalizeTokenAddress } from './token-registry.ts'
+import { fetchDepositEvents, readBlockTimestampMs, type TransferEvent } from './transaction-history.ts'
+import {
+  amountDue,
+  currentRound,
+  describeRoundStart,
+  formatTandaAmount,
+  isPaid,
+  memberOf,
+  roundPayers,
+  roundPot,
+  tandaStore,
+  type PaymentUpdate,
+  type RoundChange,
+  type Tanda,
+  type TandaStore,
+} from './tandas.ts'
+
+/** Publica `text` en el grupo de la tanda. */
+export type TandaAnnouncer = (tanda: Tanda, text: string) => Promise<void>
+
+export interface TandaTrackerOptions {
+  clock?: SchedulerClock
+  /** Cada cuánto revisar pagos y rondas vencidas (ALCANCIA_TANDA_POLL_MS) */
+  pollIntervalMs?: number
+  /** Tope de bloques por consulta; si quedó atrás se pone al corriente en varias */
+  maxBlocksPerPoll?: number
+  store?: TandaStore
+}
+
+interface TrackerState {
+  /** Último bloque revisado (inclusive) */
+  cursor?: number
+}
+
+const STATE_KEY = 'tanda-tracker:state'
+
+export function tandaPollIntervalMs(): number {
+  const raw = process.env.ALCANCIA_TANDA_POLL_MS?.trim()
+  const configured = raw ? Number(raw) : Number.NaN
+  // 0 apaga el seguimiento
+  return Number.isFinite(configured) && configured >= 0 ? configured : 60_000
+}
+
+/** "✅ @ana pagó su parte de la ronda 2 (2 de 3)." y, si ya pagaron todos, quién cobró. */
+export function describePayment({ tanda, round, member, completed, roundComplete }: PaymentUpdate): string {
+  const recipient = memberOf(tanda, round.recipientId)?.name ?? 'quien cobra'
+  const payers = roundPayers(tanda, round)
+  const paid = payers.filter((payer) => isPaid(tanda, round, payer.entityId)).length
+  const lines = completed
+    ? [`✅ ${member.name} pagó su parte de la ronda ${round.number} (${paid} de ${payers.length}).`]
+    : [`${member.name} mandó un pago a ${recipient}; le faltan ${formatTandaAmount(tanda, amountDue(tanda, round, member.entityId))} para completar su parte.`]
+  if (completed && roundComplete) lines.push(`🎉 Ya pagaron todos: ${recipient} recibió ${formatTandaAmount(tanda, roundPot(tanda))}.`)
+  return lines.join('\n')
+}
+
+/** Cierre de una ronda (con quién quedó debiendo) y arranque de la siguiente o fin de la tanda. */
+export function describeRoundChange({ tanda, closed, next }: RoundChange): string {
+  const missing = roundPayers(tanda, closed).filter((payer) => !isPaid(tanda, closed, payer.entityId))
+  const lines = [
+    missing.length > 0
+      ? `⏰ Cerró la ronda ${closed.number}. No completaron su parte: ${missing.map((member) => member.name).join(', ')}.`
+      : `⏰ Cerró la ronda ${closed.number}; todos pagaron.`,
+  ]
+  if (next) lines.push(describeRoundStart(tanda, next))
+  else lines.push(`🏁 Terminó la tanda "${tanda.name}": todos tuvieron su turno. ¡Gracias por ahorrar juntos!`)
+  return lines.join('\n')
+}
+
+/**
+ * Sigue las tandas activas: reconoce en la red los pagos de cada participante a quien cobra
+ * y, al vencer una ronda, la cierra y anuncia la siguiente en el grupo. Con proveedor el calendario
+ * avanza con la hora de los bloques ya revisados, no con el reloj del agente: un pago cuenta para la
+ * ronda en la que se incluyó aunque la red vaya atrasada. Sin proveedor solo avanza el calendario.
+ * El cursor se guarda; un evento ya contado no se cuenta dos veces.
+ */
+export class TandaTracker {
+  private readonly clock: SchedulerClock
+  private readonly pollIntervalMs: number
+  private readonly maxBlocksPerPoll: number
+  private readonly store: TandaStore
+  private state: TrackerState = {}
+  private backend?: CacheBackend
+  private timer?: unknown
+  private running = false
+  private polling: Promise<number> = Promise.resolve(0)
+
+  constructor(
+    private readonly provider: RpcProvider | undefined,
+    private readonly announce: TandaAnnouncer,
+    options: TandaTrackerOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.pollIntervalMs = options.pollIntervalMs ?? tandaPollIntervalMs()
+    this.maxBlocksPerPoll = options.maxBlocksPerPoll ?? 500
+    this.store = options.store ?? tandaStore
+  }
+
+  async attach(backend: CacheBackend): Promise<void> {
+    this.backend = backend
+    const stored = await backend.getCache<TrackerState>(STATE_KEY)
+    if (stored) this.state = { cursor: stored.cursor }
+    logger.info({ cursor: this.state.cursor }, '[Tandas] Tracker state loaded')
+  }
+
+  get cursor(): number | undefined {
+    return this.state.cursor
+  }
+
+  start(): void {
+    if (this.running || this.pollIntervalMs <= 0) return
+    this.running = true
+    this.schedule(0)
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  idle(): Promise<number> {
+    return this.polling
+  }
+
+  /** Una pasada: devuelve cuántos anuncios se publicaron. */
+  poll(): Promise<number> {
+    this.polling = this.polling.then(() =>
+      this.pollOnce().catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Tandas] poll failed')
+        return 0
+      })
+    )
+    return this.polling
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined
+      void this.poll().then(() => this.schedule(this.pollIntervalMs))
+    }, delayMs)
+  }
+
+  private async pollOnce(): Promise<number> {
+    let sent = this.provider ? await this.scanPayments(this.provider) : 0
+    // Solo hasta el último bloque revisado: lo que venga después todavía puede ser un pago de esta ronda
+    const asOfMs = this.provider ? await this.cursorTimeMs(this.provider) : this.clock.now()
+    if (asOfMs !== undefined) sent += await this.advance(asOfMs)
+    return sent
+  }
+
+  private async cursorTimeMs(provider: RpcProvider): Promise<number | undefined> {
+    return this.state.cursor === undefined ? undefined : readBlockTimestampMs(provider, this.state.cursor)
+  }
+
+  private async advance(nowMs: number, ids?: string[]): Promise<number> {
+    let sent = 0
+    for (const change of this.store.advance(nowMs, ids)) {
+      if (await this.publish(change.tanda, describeRoundChange(change))) sent++
+    }
+    return sent
+  }
+
+  private async scanPayments(provider: RpcProvider): Promise<number> {
+    const latest = await provider.getBlockNumber()
+    const active = this.store.list().filter((tanda) => currentRound(tanda))
+    // Sin tandas corriendo no hay nada que buscar: el cursor solo se pone al día
+    if (this.state.cursor === undefined || active.length === 0) {
+      if (this.state.cursor !== latest) await this.save({ cursor: latest })
+      return 0
+    }
+    const fromBlock = this.state.cursor + 1
+    if (fromBlock > latest) return 0
+    const toBlock = Math.min(latest, fromBlock + this.maxBlocksPerPoll - 1)
+
+    // Una consulta por token con las alcancías de todos: la ronda puede cambiar dentro del rango
+    const byToken = new Map<string, Tanda[]>()
+    for (const tanda of active) byToken.set(tanda.token.address, [...(byToken.get(tanda.token.address) ?? []), tanda])
+
+    let complete = true
+    let sent = 0
+    const blockTimes = new Map<number, number | undefined>()
+    for (const tandas of byToken.values()) {
+      const recipients = [...new Set(tandas.flatMap((tanda) => tanda.members.map((member) => member.address)))]
+      let events: TransferEvent[]
+      try {
+        events = await fetchDepositEvents(provider, tandas[0].token, recipients, fromBlock, toBlock)
+      } catch (error) {
+        complete = false
+        logger.error({ token: tandas[0].token.symbol, error: error instanceof Error ? error.message : String(error) }, '[Tandas] events query failed')
+        continue
+      }
+      for (const event of [...events].sort((a, b) => a.blockNumber - b.blockNumber)) {
+        if (!blockTimes.has(event.blockNumber)) blockTimes.set(event.blockNumber, await readBlockTimestampMs(provider, event.blockNumber))
+        const atMs = blockTimes.get(event.blockNumber)
+        if (atMs === undefined) {
+          // Sin la hora del bloque no se sabe a qué ronda va; se reintenta desde el mismo cursor
+          complete = false
+          logger.error({ token: tandas[0].token.symbol, blockNumber: event.blockNumber }, '[Tandas] block timestamp unavailable')
+          break
+        }
+        for (const tanda of tandas) {
+          // Las rondas que vencieron antes de este pago se cierran primero
+          sent += await this.advance(atMs, [tanda.id])
+          const update = this.matchPayment(tanda, event, atMs)
+          if (update && (await this.publish(tanda, describePayment(update)))) sent++
+        }
+      }
+    }
+
+    await this.save({ cursor: complete ? toBlock : this.state.cursor })
+    return sent
+  }
+
+  /**
+   * El Transfer cuenta si sale de la alcancía de un participante hacia la de quien cobra la ronda
+   * y su bloque (`atMs`) cae dentro de ella.
+   */
+  private matchPayment(tanda: Tanda, event: TransferEvent, atMs: number): PaymentUpdate | undefined {
+    const round = currentRound(tanda)
+    const recipient = round && memberOf(tanda, round.recipientId)
+    if (!round || !recipient || atMs < round.startsAtMs || normalizeTokenAddress(recipient.address) !== event.to) return undefined
+    const payer = tanda.members.find((member) => normalizeTokenAddress(member.address) === event.from)
+    if (!payer) return undefined
+    return this.store.recordPayment(
+      tanda.id,
+      { entityId: payer.entityId, eventKey: event.eventKey, txHash: event.txHash, amount: BigInt(event.amount) },
+      atMs
+    )
+  }
+
+  private async publish(tanda: Tanda, text: string): Promise<boolean> {
+    try {
+      await this.announce(tanda, text)
+      return true
+    } catch (error) {
+      // El pago ya quedó contado; solo se pierde el anuncio
+      logger.error({ tandaId: tanda.id, error: error instanceof Error ? error.message : String(error) }, '[Tandas] announce failed')
+      return false
+    }
+  }
+
+  private async save(state: TrackerState): Promise<void> {
+    this.state = state
+    if (!this.backend) return
+    try {
+      await this.backend.setCache(STATE_KEY, state)
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Tandas] state persist failed')
+    }
+  }
+}
@@ -0,0 +1,444 @@
+import crypto from 'node:crypto'
+import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import type { NotificationTarget } from './notification-targets.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { extractAmount } from './transfer-parser.ts'
+import { formatUnits, normalizeTokenAddress, parseUnits, type TokenInfo } from './token-registry.ts'
+import { formatGoalDate } from './savings-goals.ts'
+
+/**
+ * Tanda: ahorro grupal rotativo. En cada ronda todos aportan lo mismo a quien le toca,
+ * hasta que cada participante cobró una vez. Vive en un grupo de Telegram y los pagos
+ * se reconocen en la red (Transfer desde la alcancía del participante a la de quien cobra).
+ */
+export type TandaCadence = 'weekly' | 'biweekly' | 'monthly'
+
+export type TandaStatus = 'forming' | 'active' | 'finished' | 'cancelled'
+
+export interface TandaMember {
+  entityId: string
+  /** Cómo se le nombra en el grupo ("@ana" o su nombre) */
+  name: string
+  /** Su alcancía: de aquí salen sus pagos y aquí cobra */
+  address: string
+  joinedAtMs: number
+}
+
+export interface TandaPayment {
+  /** Lo que lleva pagado en la ronda, unidades base */
+  amount: string
+  /** eventKey de los Transfer ya contados (un reinicio no los cuenta dos veces) */
+  eventKeys: string[]
+  txHashes: string[]
+  /** Cuando completó su aportación */
+  paidAtMs?: number
+}
+
+export interface TandaRound {
+  /** 1, 2, … en el orden de cobro */
+  number: number
+  recipientId: string
+  startsAtMs: number
+  dueAtMs: number
+  payments: Record<string, TandaPayment>
+  closedAtMs?: number
+}
+
+export interface Tanda {
+  id: string
+  name: string
+  /** Sala del grupo donde se armó; ahí se anuncia todo */
+  roomId: string
+  target: NotificationTarget
+  organizerId: string
+  token: TokenInfo & { decimals: number }
+  /** Aportación de cada participante por ronda, unidades base */
+  contribution: string
+  cadence: TandaCadence
+  status: TandaStatus
+  /** En orden de llegada, que también es el orden de cobro */
+  members: TandaMember[]
+  /** @usuarios invitados por el organizador */
+  invited: string[]
+  createdAtMs: number
+  startedAtMs?: number
+  endedAtMs?: number
+  rounds: TandaRound[]
+}
+
+export type TandaInput = Pick<Tanda, 'name' | 'roomId' | 'target' | 'organizerId' | 'token' | 'contribution' | 'cadence'>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function describeCadence(cadence: TandaCadence): string {
+  return { weekly: 'cada semana', biweekly: 'cada quincena', monthly: 'cada mes' }[cadence]
+}
+
+/** Nombre cuando el organizador no da uno: "STRK semanal". */
+export function defaultTandaName(symbol: string, cadence: TandaCadence): string {
+  return `${symbol} ${{ weekly: 'semanal', biweekly: 'quincenal', monthly: 'mensual' }[cadence]}`
+}
+
+/** `times` periodos después de `ms`; el mensual respeta el calendario. */
+export function addCadence(ms: number, cadence: TandaCadence, times = 1): number {
+  if (cadence === 'weekly') return ms + times * 7 * DAY_MS
+  if (cadence === 'biweekly') return ms + times * 14 * DAY_MS
+  const date = new Date(ms)
+  date.setUTCMonth(date.getUTCMonth() + times)
+  return date.getTime()
+}
+
+// ---- lenguaje natural ----
+
+export type TandaCommand =
+  | { kind: 'create'; name?: string; amountText: string; symbol: string; cadence: TandaCadence }
+  | { kind: 'invite'; usernames: string[] }
+  | { kind: 'join' }
+  | { kind: 'leave' }
+  | { kind: 'start' }
+  | { kind: 'pay' }
+  | { kind: 'cancel' }
+  | { kind: 'status' }
+  | { kind: 'invalid'; question: string }
+
+const CREATE_RE = /\b(crea|crear|creame|arma|armar|armemos|nueva|organiza|organizar|organicemos|hagamos|abre|abrir)\b/
+const START_RE = /\b(inicia|iniciar|iniciemos|arranca|arrancar|arranquemos|empieza|empezar|empecemos|comienza|comenzar)\b/
+
+function extractCadence(text: string): TandaCadence | undefined {
+  if (/\b(quincena\w*|quincenal\w*|cada (dos|2) semanas|cada (quince|15) dias)\b/.test(text)) return 'biweekly'
+  if (/\b(semana\w*|semanal\w*|weekly)\b/.test(text)) return 'weekly'
+  if (/\b(mes|mensual\w*|monthly)\b/.test(text)) return 'monthly'
+  return undefined
+}
+
+function parseCreate(rawText: string, text: string, tokens: TokenInfo[]): TandaCommand {
+  const amount = extractAmount(text.replace(/[,;:](?!\d)/g, ' ').split(/\s+/).filter(Boolean), tokens)
+  if (amount.problem) return { kind: 'invalid', question: `${amount.problem} ¿Cuánto aporta cada quien?` }
+  if (amount.fiat) return { kind: 'invalid', question: 'Las tandas se hacen en tokens; ¿cuántos ETH, STRK, USDC o USDT aporta cada quien?' }
+  if (!amount.amountText || !amount.tokenSymbol)
+    return { kind: 'invalid', question: '¿Cuánto aporta cada quien y cada cuándo? Por ejemplo: "crear tanda de 100 STRK cada semana".' }
+  const cadence = extractCadence(text)
+  if (!cadence) return { kind: 'invalid', question: '¿Cada cuándo se paga? Puede ser cada semana, cada quincena o cada mes.' }
+  // El nombre va entre comillas: crear tanda "Los primos" de 100 STRK semanal
+  const name = /["“«]([^"”»]{1,40})["”»]/.exec(rawText)?.[1]?.trim()
+  return { kind: 'create', ...(name ? { name } : {}), amountText: amount.amountText, symbol: amount.tokenSymbol, cadence }
+}
+
+/**
+ * "crear tanda de 100 STRK cada semana", "invita a @ana y @luis a la tanda", "me uno a la tanda",
+ * "iniciar tanda", "pagar mi tanda", "estado de la tanda", "cancelar la tanda".
+ */
+export function parseTandaCommand(rawText: string, tokens: TokenInfo[]): TandaCommand {
+  const text = normalizeIntentText(rawText)
+  if (CREATE_RE.test(text)) return parseCreate(rawText, text, tokens)
+  if (/\binvit\w*\b/.test(text)) {
+    const usernames = [...new Set((rawText.match(/@[A-Za-z0-9_]{3,32}\b/g) ?? []).map((u) => u.toLowerCase()))]
+    if (usernames.length === 0) return { kind: 'invalid', question: '¿A quién invito? Menciónalos así: "invita a @ana y @luis a la tanda".' }
+    return { kind: 'invite', usernames }
+  }
+  if (/\b(me uno|unirme|me apunto|apuntame|me anoto|anotame|me sumo|sumame|quiero entrar|entro|join)\b/.test(text)) return { kind: 'join' }
+  if (/\b(me salgo|salirme|salir|me bajo|bajarme|leave)\b/.test(text)) return { kind: 'leave' }
+  if (/\b(cancela|cancelar|cancelemos|disuelve|disolver|deshacer)\b/.test(text)) return { kind: 'cancel' }
+  if (/\b(paga|pagar|pago|pagarle|aporta|aportar|aporto|cuota|mi parte|pay)\b/.test(text)) return { kind: 'pay' }
+  if (START_RE.test(text)) return /\d/.test(text) ? parseCreate(rawText, text, tokens) : { kind: 'start' }
+  return { kind: 'status' }
+}
+
+/** Aportación en unidades base; undefined si es cero o trae más decimales de los que acepta el token. */
+export function parseContribution(amountText: string, token: TokenInfo & { decimals: number }): bigint | undefined {
+  try {
+    const base = parseUnits(amountText, token.decimals)
+    return base > 0n ? base : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ---- lectura ----
+
+export function formatTandaAmount(tanda: Pick<Tanda, 'token'>, amount: bigint): string {
+  return `${formatUnits(amount, tanda.token.decimals)} ${tanda.token.symbol}`
+}
+
+/** La ronda que corre ahora (undefined si la tanda no está activa). */
+export function currentRound(tanda: Tanda): TandaRound | undefined {
+  if (tanda.status !== 'active') return undefined
+  return tanda.rounds.find((round) => round.closedAtMs === undefined)
+}
+
+/** Quienes aportan en la ronda: todos menos quien cobra. */
+export function roundPayers(tanda: Tanda, round: TandaRound): TandaMember[] {
+  return tanda.members.filter((member) => member.entityId !== round.recipientId)
+}
+
+export function isPaid(tanda: Tanda, round: TandaRound, entityId: string): boolean {
+  return round.payments[entityId]?.paidAtMs !== undefined
+}
+
+/** Lo que le falta aportar a `entityId` en la ronda. */
+export function amountDue(tanda: Tanda, round: TandaRound, entityId: string): bigint {
+  const paid = BigInt(round.payments[entityId]?.amount ?? '0')
+  const due = BigInt(tanda.contribution) - paid
+  return due > 0n ? due : 0n
+}
+
+export function memberOf(tanda: Tanda, entityId: string): TandaMember | undefined {
+  return tanda.members.find((member) => member.entityId === entityId)
+}
+
+function memberName(tanda: Tanda, entityId: string): string {
+  return memberOf(tanda, entityId)?.name ?? 'alguien'
+}
+
+/** Lo que cobra quien recibe si todos pagan. */
+export function roundPot(tanda: Tanda): bigint {
+  return BigInt(tanda.contribution) * BigInt(Math.max(tanda.members.length - 1, 0))
+}
+
+/** Anuncio de una ronda nueva, con la dirección completa para poder pagar. */
+export function describeRoundStart(tanda: Tanda, round: TandaRound): string {
+  const recipient = memberOf(tanda, round.recipientId)
+  return [
+    `🔄 Ronda ${round.number} de ${tanda.rounds.length} de la tanda "${tanda.name}": le toca cobrar a ${recipient?.name ?? 'alguien'}.`,
+    `Cada quien aporta ${formatTandaAmount(tanda, BigInt(tanda.contribution))} a ${recipient?.address ?? '(sin dirección)'} antes del ${formatGoalDate(round.dueAtMs)}.`,
+    'Escribe "pagar tanda" y te preparo el envío.',
+  ].join('\n')
+}
+
+export function describeTanda(tanda: Tanda): string {
+  const lines = [`Tanda "${tanda.name}": ${formatTandaAmount(tanda, BigInt(tanda.contribution))} ${describeCadence(tanda.cadence)}.`]
+  lines.push(`Participantes (orden de cobro): ${tanda.members.map((member, i) => `${i + 1}. ${member.name}`).join(', ')}`)
+  if (tanda.status === 'forming') {
+    if (tanda.invited.length > 0) lines.push(`Invitados: ${tanda.invited.join(', ')}`)
+    lines.push('Para entrar escriban "me uno a la tanda". Cuando estén todos, quien la organiza escribe "iniciar tanda".')
+    return lines.join('\n')
+  }
+  if (tanda.status === 'finished') return [...lines, 'Ya terminó: todos cobraron su turno.'].join('\n')
+  if (tanda.status === 'cancelled') return [...lines, 'Se canceló.'].join('\n')
+
+  const round = currentRound(tanda)
+  if (!round) return lines.join('\n')
+  lines.push(
+    `Ronda ${round.number} de ${tanda.rounds.length}: cobra ${memberName(tanda, round.recipientId)}, cierra el ${formatGoalDate(round.dueAtMs)}.`
+  )
+  const payers = roundPayers(tanda, round)
+  const paid = payers.filter((member) => isPaid(tanda, round, member.entityId))
+  const pending = payers.filter((member) => !isPaid(tanda, round, member.entityId))
+  if (paid.length > 0) lines.push(`Ya pagaron: ${paid.map((member) => member.name).join(', ')}.`)
+  if (pending.length > 0) lines.push(`Faltan: ${pending.map((member) => member.name).join(', ')}.`)
+  return lines.join('\n')
+}
+
+// ---- persistencia ----
+
+const TANDAS_INDEX_KEY = 'tandas:index'
+const tandaKey = (id: string) => `tandas:tanda:${id}`
+
+export type JoinResult = 'joined' | 'already_member' | 'closed'
+
+export type StartResult = { status: 'started'; round: TandaRound } | { status: 'not_forming' } | { status: 'too_few' }
+
+export interface PaymentUpdate {
+  tanda: Tanda
+  round: TandaRound
+  member: TandaMember
+  /** Completó su aportación con este pago */
+  completed: boolean
+  /** Ya pagaron todos los de la ronda */
+  roundComplete: boolean
+}
+
+export interface RoundChange {
+  tanda: Tanda
+  closed: TandaRound
+  /** undefined si era la última ronda (la tanda terminó) */
+  next?: TandaRound
+}
+
+/** Tandas de todos los grupos, con escritura diferida al cache del agente. */
+export class TandaStore {
+  private readonly tandas = new Map<string, Tanda>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const ids = (await backend.getCache<string[]>(TANDAS_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const id of ids) {
+      const stored = await backend.getCache<Tanda>(tandaKey(id))
+      if (!stored) continue
+      if (!this.tandas.has(id)) this.tandas.set(id, stored)
+      loaded++
+    }
+    for (const id of this.tandas.keys()) this.persist(id)
+    await this.flush()
+    logger.info({ tandas: ids.length, loaded }, '[Tandas] Store attached')
+    return { loaded }
+  }
+
+  get(id: string): Tanda | undefined {
+    return this.tandas.get(id)
+  }
+
+  list(): Tanda[] {
+    return [...this.tandas.values()]
+  }
+
+  /** La tanda que se arma o corre en esta sala (una a la vez por grupo). */
+  forRoom(roomId: string): Tanda | undefined {
+    return this.list().find((tanda) => tanda.roomId === roomId && (tanda.status === 'forming' || tanda.status === 'active'))
+  }
+
+  /** Crea la tanda con el organizador como primer participante. */
+  create(input: TandaInput, organizer: Omit<TandaMember, 'joinedAtMs'>, nowMs = Date.now()): Tanda {
+    const tanda: Tanda = {
+      ...input,
+      id: crypto.randomUUID(),
+      status: 'forming',
+      members: [{ ...organizer, address: normalizeTokenAddress(organizer.address), joinedAtMs: nowMs }],
+      invited: [],
+      createdAtMs: nowMs,
+      rounds: [],
+    }
+    this.tandas.set(tanda.id, tanda)
+    this.persist(tanda.id)
+    return tanda
+  }
+
+  invite(id: string, usernames: string[]): string[] {
+    const tanda = this.tandas.get(id)
+    if (!tanda || tanda.status !== 'forming') return []
+    const added = usernames.filter((username) => !tanda.invited.includes(username))
+    if (added.length === 0) return []
+    tanda.invited.push(...added)
+    this.persist(id)
+    return added
+  }
+
+  join(id: string, member: Omit<TandaMember, 'joinedAtMs'>, nowMs = Date.now()): JoinResult {
+    const tanda = this.tandas.get(id)
+    if (!tanda || tanda.status !== 'forming') return 'closed'
+    if (memberOf(tanda, member.entityId)) return 'already_member'
+    tanda.members.push({ ...member, address: normalizeTokenAddress(member.address), joinedAtMs: nowMs })
+    this.persist(id)
+    return 'joined'
+  }
+
+  /** Solo mientras se arma; quien organiza no se sale, la cancela. */
+  leave(id: string, entityId: string): boolean {
+    const tanda = this.tandas.get(id)
+    if (!tanda || tanda.status !== 'forming' || entityId === tanda.organizerId) return false
+    const before = tanda.members.length
+    tanda.members = tanda.members.filter((member) => member.entityId !== entityId)
+    if (tanda.members.length === before) return false
+    this.persist(id)
+    return true
+  }
+
+  /** Fija el calendario: una ronda por participante, en orden de llegada, la primera desde ya. */
+  start(id: string, nowMs = Date.now()): StartResult {
+    const tanda = this.tandas.get(id)
+    if (!tanda || tanda.status !== 'forming') return { status: 'not_forming' }
+    if (tanda.members.length < 2) return { status: 'too_few' }
+    tanda.status = 'active'
+    tanda.startedAtMs = nowMs
+    tanda.rounds = tanda.members.map((member, i) => ({
+      number: i + 1,
+      recipientId: member.entityId,
+      startsAtMs: addCadence(nowMs, tanda.cadence, i),
+      dueAtMs: addCadence(nowMs, tanda.cadence, i + 1),
+      payments: {},
+    }))
+    this.persist(id)
+    return { status: 'started', round: tanda.rounds[0] }
+  }
+
+  cancel(id: string, nowMs = Date.now()): boolean {
+    const tanda = this.tandas.get(id)
+    if (!tanda || (tanda.status !== 'forming' && tanda.status !== 'active')) return false
+    tanda.status = 'cancelled'
+    tanda.endedAtMs = nowMs
+    this.persist(id)
+    return true
+  }
+
+  /**
+   * Cuenta un Transfer de un participante hacia quien cobra la ronda actual.
+   * Se acumula (puede pagar en partes); un eventKey ya contado se ignora.
+   */
+  recordPayment(
+    id: string,
+    { entityId, eventKey, txHash, amount }: { entityId: string; eventKey: string; txHash: string; amount: bigint },
+    nowMs = Date.now()
+  ): PaymentUpdate | undefined {
+    const tanda = this.tandas.get(id)
+    const round = tanda && currentRound(tanda)
+    const member = tanda && memberOf(tanda, entityId)
+    if (!tanda || !round || !member || entityId === round.recipientId) return undefined
+    const payment = round.payments[entityId] ?? { amount: '0', eventKeys: [], txHashes: [] }
+    if (payment.eventKeys.includes(eventKey)) return undefined
+
+    const wasPaid = payment.paidAtMs !== undefined
+    payment.amount = (BigInt(payment.amount) + amount).toString()
+    payment.eventKeys.push(eventKey)
+    if (!payment.txHashes.includes(txHash)) payment.txHashes.push(txHash)
+    if (!wasPaid && BigInt(payment.amount) >= BigInt(tanda.contribution)) payment.paidAtMs = nowMs
+    round.payments[entityId] = payment
+    this.persist(id)
+    return {
+      tanda,
+      round,
+      member,
+      completed: !wasPaid && payment.paidAtMs !== undefined,
+      roundComplete: roundPayers(tanda, round).every((payer) => isPaid(tanda, round, payer.entityId)),
+    }
+  }
+
+  /** Cierra las rondas vencidas y abre la siguiente; tras la última, la tanda termina. `ids` limita a esas tandas. */
+  advance(nowMs = Date.now(), ids?: string[]): RoundChange[] {
+    const changes: RoundChange[] = []
+    for (const tanda of this.list()) {
+      if (ids && !ids.includes(tanda.id)) continue
+      let round = currentRound(tanda)
+      let changed = false
+      while (round && round.dueAtMs <= nowMs) {
+        round.closedAtMs = nowMs
+        const next = currentRound(tanda)
+        if (!next) {
+          tanda.status = 'finished'
+          tanda.endedAtMs = nowMs
+        }
+        changes.push({ tanda, closed: round, next })
+        changed = true
+        round = next
+      }
+      if (changed) this.persist(tanda.id)
+    }
+    return changes
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(id: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const tanda = this.tandas.get(id)
+    if (!tanda) return
+    const snapshot = structuredClone(tanda)
+    const ids = [...this.tandas.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(tandaKey(id), snapshot)
+        await backend.setCache(TANDAS_INDEX_KEY, ids)
+      })
+      .catch((error) => {
+        logger.error({ tandaId: id, error: error instanceof Error ? error.message : String(error) }, '[Tandas] persist failed')
+      })
+  }
+}
+
+export const tandaStore = new TandaStore()
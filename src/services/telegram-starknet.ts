@@ -1,18 +1,58 @@
 import crypto from 'node:crypto'
-import { ec, hash, CallData, RpcProvider, Account } from 'starknet'
+import { ec, RpcProvider, Account, type Call } from 'starknet'
 import { logger } from '@elizaos/core'
+import type { CacheBackend } from './storage.ts'
+import {
+  createEphemeralKeyring,
+  createKeyring,
+  decryptSecret,
+  loadKeyringFromEnv,
+  openSecret,
+  rewrapSecret,
+  sealSecret,
+  type EncryptedSecret,
+  type MasterKeyring,
+  type SealedSecret,
+} from './key-encryption.ts'
+import { InProcessHsm, LocalKeySigner, RemoteSigner, toStarknetSigner, type Signer } from './signers.ts'
+import { builtinTokens, readTokenBalance, tokenRegistry, type TokenInfo, type TokenRegistry } from './token-registry.ts'
+import {
+  initialLifecycle,
+  transitionLifecycle,
+  canStartDeploy,
+  type AccountLifecycle,
+  type AccountLifecycleState,
+  type LifecycleChange,
+} from './account-lifecycle.ts'
+import {
+  deployAccountWithFunding,
+  sponsorConfig,
+  type AccountDeployState,
+  type DeploymentDriver,
+  type DeploymentResult,
+  type SponsorConfig,
+  type SponsorTreasury,
+} from './account-deployment.ts'
+import { ACCOUNT_FACTORIES, deriveAccount, findAccountDerivation, type AccountVariant, type PinnedDerivation } from './account-factory.ts'
+import { isContractNotFound } from './address-validation.ts'
 
 export interface InvisibleAccount {
   userEntityId: string
-  privateKeyHex: string
+  /** Clave privada cifrada (envelope); para firmar usar getAccountSigner */
+  sealedPrivateKey: SealedSecret
   createdAtMs: number
   accountAddressHex?: string
+  /** Solo en alcancías cuya dirección salió de una derivación anterior; el despliegue la respeta */
+  derivation?: PinnedDerivation
+  /** Estado del despliegue; solo cambia con transitionAccount */
+  lifecycle: AccountLifecycle
 }
 
 export interface TelegramStarknetStore {
   getAccountByEntityId: (entityId: string) => InvisibleAccount | undefined
   ensureAccountForEntityId: (entityId: string) => InvisibleAccount
   setAccountAddress: (entityId: string, accountAddressHex: string) => void
+  transitionAccount: (entityId: string, to: AccountLifecycleState, change?: LifecycleChange) => InvisibleAccount
 }
 
 function generatePrivateKeyHex(): string {
@@ -34,58 +74,75 @@ function deriveDeterministicPrivateKeyHex(secretSalt: string, entityId: string):
   return '0x' + k.toString(16)
 }
 
-function deriveProvisionalAddressFromPrivateKey(privateKeyHex: string): string | undefined {
+function publicKeyFromPrivateKey(privateKeyHex: string): string {
+  const cleaned = privateKeyHex.startsWith('0x') ? privateKeyHex : `0x${privateKeyHex}`
+  const publicKey = ec.starkCurve.getStarkKey(cleaned)
+  return publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`
+}
+
+/**
+ * Dirección contrafactual de la cuenta (la misma que se despliega después, ver computeSmartAccountDetails).
+ * Nunca la clave pública: eso no es una dirección y lo que se deposite ahí se pierde.
+ */
+function counterfactualAddressFromPrivateKey(privateKeyHex: string): string | undefined {
   try {
-    const cleaned = privateKeyHex.startsWith('0x') ? privateKeyHex : `0x${privateKeyHex}`
-    // Derivar clave pública (no es una address on-chain, pero sirve como identificador provisional)
-    const publicKey = ec.starkCurve.getStarkKey(cleaned)
-    const withPrefix = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`
-    return withPrefix
+    return computeSmartAccountDetails(publicKeyFromPrivateKey(privateKeyHex))?.precalculatedAddress
   } catch {
     return undefined
   }
 }
 
-function deriveSmartAccountAddressFromPrivateKey(privateKeyHex: string): string | undefined {
+function sameFelt(a: string, b: string): boolean {
   try {
-    const cleaned = privateKeyHex.startsWith('0x') ? privateKeyHex : `0x${privateKeyHex}`
-    const publicKey = ec.starkCurve.getStarkKey(cleaned)
-    const pubKeyHex = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`
-
-    const classHash = process.env.STARKNET_ACCOUNT_CLASS_HASH?.trim()
-    if (!classHash) return undefined
-
-    // Variante de cuenta: 'oz' (por defecto) o 'argent'
-    const variant = (process.env.STARKNET_ACCOUNT_VARIANT || 'oz').toLowerCase()
-
-    // Constructor calldata: la mayoría de cuentas (OZ/Argent) requieren al menos publicKey
-    // Para guardian se puede omitir/0 en pruebas
-    let constructorCalldata: string[]
-    if (variant === 'oz') {
-      // Cairo 1 OpenZeppelin Account suele aceptar { publicKey }
-      constructorCalldata = CallData.compile({ publicKey: pubKeyHex })
-    } else {
-      // ArgentX también inicializa con publicKey habitualmente
-      constructorCalldata = CallData.compile({ publicKey: pubKeyHex })
-    }
-
-    // Salt: usamos el publicKey para direcciones determinísticas reproducibles
-    const salt = pubKeyHex
-    const deployerAddress = '0x0'
-    const accountAddress = hash.calculateContractAddressFromHash(salt, classHash, constructorCalldata, deployerAddress)
-    return accountAddress
+    return BigInt(a) === BigInt(b)
   } catch {
-    return undefined
+    return false
   }
 }
 
-class InMemoryTelegramStarknetStore implements TelegramStarknetStore {
+interface StoredInvisibleAccount {
+  userEntityId: string
+  sealedPrivateKey?: SealedSecret
+  /** Formato anterior (cifrado directo con la master key); se re-sella al cargar */
+  encryptedPrivateKey?: EncryptedSecret
+  createdAtMs: number
+  accountAddressHex?: string
+  derivation?: PinnedDerivation
+  /** Registros anteriores no lo tienen: se cargan como 'derived' */
+  lifecycle?: AccountLifecycle
+}
+
+const ACCOUNT_INDEX_KEY = 'telegram-starknet:accounts'
+const accountKey = (entityId: string) => `telegram-starknet:account:${entityId}`
+
+/**
+ * Store con lecturas síncronas desde memoria y escritura diferida a la base de datos
+ * (cache de @elizaos/plugin-sql). Ni en memoria ni en disco hay claves en claro: cada clave
+ * se cifra con su propia DEK y la DEK se envuelve con la master key (ver key-encryption.ts).
+ * Mientras no haya backend conectado funciona solo en memoria; al conectarlo se migran
+ * las cuentas creadas antes del arranque.
+ */
+export class PersistentTelegramStarknetStore implements TelegramStarknetStore {
   private entityIdToAccount = new Map<string, InvisibleAccount>()
+  private backend?: CacheBackend
+  private keyring: MasterKeyring
+  // Incluye registros guardados que no pudimos descifrar, para no perderlos del índice
+  private indexedIds = new Set<string>()
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(keyring: MasterKeyring = loadKeyringFromEnv() ?? createEphemeralKeyring()) {
+    this.keyring = keyring
+  }
 
   getAccountByEntityId(entityId: string): InvisibleAccount | undefined {
     return this.entityIdToAccount.get(entityId)
   }
 
+  /** Todas las alcancías cargadas (para procesos en segundo plano como el watcher de depósitos). */
+  listAccounts(): InvisibleAccount[] {
+    return [...this.entityIdToAccount.values()]
+  }
+
   ensureAccountForEntityId(entityId: string): InvisibleAccount {
     const existing = this.entityIdToAccount.get(entityId)
     if (existing) return existing
@@ -97,18 +154,16 @@ class InMemoryTelegramStarknetStore implements TelegramStarknetStore {
 
     const account: InvisibleAccount = {
       userEntityId: entityId,
-      privateKeyHex,
+      sealedPrivateKey: sealSecret(this.keyring, privateKeyHex, entityId),
       createdAtMs: Date.now(),
+      lifecycle: initialLifecycle(),
     }
-    // Intentar derivar dirección de cuenta SMART si hay class hash configurado; si no, usar pública provisional
-    const smart = deriveSmartAccountAddressFromPrivateKey(account.privateKeyHex)
-    if (smart) account.accountAddressHex = smart
-    else {
-      const provisional = deriveProvisionalAddressFromPrivateKey(account.privateKeyHex)
-      if (provisional) account.accountAddressHex = provisional
-    }
+    // Con firma remota la dirección sale de la clave del daemon (ver deployInvisibleAccount), no de esta
+    const address = remoteSigning() ? undefined : counterfactualAddressFromPrivateKey(privateKeyHex)
+    if (address) account.accountAddressHex = address
     this.entityIdToAccount.set(entityId, account)
-    logger.info({ entityId, hasSmart: Boolean(smart), address: account.accountAddressHex, deterministic: Boolean(secretSalt) }, '[Starknet] ensureAccountForEntityId created')
+    logger.info({ entityId, address: account.accountAddressHex, deterministic: Boolean(secretSalt) }, '[Starknet] ensureAccountForEntityId created')
+    this.persist(account, true)
     return account
   }
 
@@ -118,10 +173,244 @@ class InMemoryTelegramStarknetStore implements TelegramStarknetStore {
     acc.accountAddressHex = accountAddressHex
     this.entityIdToAccount.set(entityId, acc)
     logger.info({ entityId, accountAddressHex }, '[Starknet] setAccountAddress updated')
+    this.persist(acc, false)
+  }
+
+  /** Cambia el estado del despliegue; lanza si no existe la cuenta o la transición no es válida. */
+  transitionAccount(entityId: string, to: AccountLifecycleState, change: LifecycleChange = {}): InvisibleAccount {
+    const acc = this.entityIdToAccount.get(entityId)
+    if (!acc) throw new Error(`No invisible account for ${entityId}`)
+    const from = acc.lifecycle.state
+    acc.lifecycle = transitionLifecycle(acc.lifecycle, to, change)
+    logger.info({ entityId, from, to, lastError: acc.lifecycle.lastError }, '[Starknet] account lifecycle changed')
+    this.persist(acc, false)
+    return acc
+  }
+
+  /**
+   * Descifra la clave solo durante `use`. Reservado para los firmantes (getAccountSigner);
+   * no la guardes ni la registres en logs fuera del callback.
+   */
+  withPrivateKey<T>(entityId: string, use: (privateKeyHex: string) => T): T {
+    const acc = this.entityIdToAccount.get(entityId)
+    if (!acc) throw new Error(`No invisible account for ${entityId}`)
+    return use(openSecret(this.keyring, acc.sealedPrivateKey, entityId))
+  }
+
+  /**
+   * Conecta el backend durable: carga las cuentas guardadas, migra las que solo existen en memoria
+   * y re-envuelve con la master key vigente lo que esté bajo llaves anteriores.
+   * Sin master key configurada no se persiste nada.
+   */
+  async attach(
+    backend: CacheBackend,
+    keyring: MasterKeyring | undefined = loadKeyringFromEnv()
+  ): Promise<{ loaded: number; migrated: number; rewrapped: number; readdressed: number }> {
+    if (!keyring || keyring.ephemeral) {
+      logger.error({}, '[Starknet] STARKNET_MASTER_KEY not set; accounts stay in memory only')
+      return { loaded: 0, migrated: 0, rewrapped: 0, readdressed: 0 }
+    }
+    // Lo creado antes de conectar quedó bajo la llave anterior del store (posiblemente efímera)
+    const previous = this.keyring.current.id === keyring.current.id ? [] : [this.keyring.current, ...this.keyring.previous]
+    this.keyring = { ...keyring, previous: [...keyring.previous, ...previous] }
+    this.backend = backend
+
+    const storedIds = (await backend.getCache<string[]>(ACCOUNT_INDEX_KEY)) ?? []
+    let loaded = 0
+    let rewrapped = 0
+    let readdressed = 0
+    for (const entityId of storedIds) {
+      this.indexedIds.add(entityId)
+      const stored = await backend.getCache<StoredInvisibleAccount>(accountKey(entityId))
+      if (!stored) continue
+      let account: InvisibleAccount
+      try {
+        account = this.decode(stored)
+      } catch (error) {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Starknet] attach: cannot decrypt stored account')
+        continue
+      }
+      if (this.entityIdToAccount.has(entityId))
+        logger.warn({ entityId }, '[Starknet] attach: stored account replaces in-memory account')
+      this.entityIdToAccount.set(entityId, account)
+      loaded++
+      const fixedAddress = this.readdress(account)
+      const pinned = this.pinDerivation(account)
+      const needsRewrap = !stored.sealedPrivateKey || stored.sealedPrivateKey.kekId !== account.sealedPrivateKey.kekId
+      if (fixedAddress) readdressed++
+      if (needsRewrap) rewrapped++
+      if (fixedAddress || pinned || needsRewrap) await this.write(account)
+    }
+
+    const pending = [...this.entityIdToAccount.values()].filter((acc) => !this.indexedIds.has(acc.userEntityId))
+    for (const account of pending) {
+      account.sealedPrivateKey = rewrapSecret(this.keyring, account.sealedPrivateKey, account.userEntityId)
+      await this.write(account)
+    }
+    if (pending.length > 0) await this.writeIndex()
+
+    logger.info({ loaded, migrated: pending.length, rewrapped, readdressed }, '[Starknet] Account store attached')
+    return { loaded, migrated: pending.length, rewrapped, readdressed }
+  }
+
+  /**
+   * Rotación: la llave nueva pasa a ser la vigente y todas las DEK se vuelven a envolver con ella.
+   * Las claves privadas (y por tanto las direcciones) no cambian.
+   */
+  async rotateMasterKey(newMasterKey: Buffer): Promise<number> {
+    const next = createKeyring(newMasterKey)
+    this.keyring = { current: next.current, previous: [this.keyring.current, ...this.keyring.previous], ephemeral: false }
+    let rotated = 0
+    for (const account of this.entityIdToAccount.values()) {
+      account.sealedPrivateKey = rewrapSecret(this.keyring, account.sealedPrivateKey, account.userEntityId)
+      this.persist(account, false)
+      rotated++
+    }
+    await this.flush()
+    logger.info({ rotated, kekId: this.keyring.current.id }, '[Starknet] Master key rotated')
+    return rotated
+  }
+
+  /** Espera a que terminen las escrituras pendientes. */
+  flush(): Promise<void> {
+    return this.writes
   }
+
+  private persist(account: InvisibleAccount, isNew: boolean): void {
+    if (!this.backend) return
+    const snapshot = { ...account }
+    this.writes = this.writes
+      .then(async () => {
+        await this.write(snapshot)
+        if (isNew) await this.writeIndex()
+      })
+      .catch((error) => {
+        logger.error({ entityId: snapshot.userEntityId, error: error instanceof Error ? error.message : String(error) }, '[Starknet] persist account failed')
+      })
+  }
+
+  private async write(account: InvisibleAccount): Promise<void> {
+    if (!this.backend) return
+    const stored: StoredInvisibleAccount = {
+      userEntityId: account.userEntityId,
+      sealedPrivateKey: account.sealedPrivateKey,
+      createdAtMs: account.createdAtMs,
+      ...(account.accountAddressHex ? { accountAddressHex: account.accountAddressHex } : {}),
+      ...(account.derivation ? { derivation: account.derivation } : {}),
+      lifecycle: account.lifecycle,
+    }
+    await this.backend.setCache(accountKey(account.userEntityId), stored)
+  }
+
+  private async writeIndex(): Promise<void> {
+    if (!this.backend) return
+    for (const entityId of this.entityIdToAccount.keys()) this.indexedIds.add(entityId)
+    await this.backend.setCache(ACCOUNT_INDEX_KEY, [...this.indexedIds])
+  }
+
+  private decode(stored: StoredInvisibleAccount): InvisibleAccount {
+    let sealedPrivateKey: SealedSecret
+    if (stored.sealedPrivateKey) {
+      sealedPrivateKey = rewrapSecret(this.keyring, stored.sealedPrivateKey, stored.userEntityId)
+    } else if (stored.encryptedPrivateKey) {
+      sealedPrivateKey = this.sealLegacy(stored.encryptedPrivateKey, stored.userEntityId)
+    } else {
+      throw new Error('Stored account has no private key')
+    }
+    return {
+      userEntityId: stored.userEntityId,
+      sealedPrivateKey,
+      createdAtMs: stored.createdAtMs,
+      ...(stored.accountAddressHex ? { accountAddressHex: stored.accountAddressHex } : {}),
+      ...(stored.derivation ? { derivation: stored.derivation } : {}),
+      lifecycle: stored.lifecycle ?? initialLifecycle(stored.createdAtMs),
+    }
+  }
+
+  /**
+   * Versiones anteriores guardaban la clave pública como dirección cuando no había class hash configurado.
+   * Se reemplaza por la dirección contrafactual real; devuelve true si cambió algo.
+   */
+  private readdress(account: InvisibleAccount): boolean {
+    const current = account.accountAddressHex
+    const { publicKey, address } = this.withPrivateKey(account.userEntityId, (key) => ({
+      publicKey: publicKeyFromPrivateKey(key),
+      address: counterfactualAddressFromPrivateKey(key),
+    }))
+    if (current && !sameFelt(current, publicKey)) return false
+    if (!address) {
+      // Sin dirección real es mejor no mostrar nada que mostrar la clave pública
+      if (current) delete account.accountAddressHex
+      return Boolean(current)
+    }
+    logger.warn({ entityId: account.userEntityId, previous: current, address }, '[Starknet] replaced public key stored as address')
+    account.accountAddressHex = address
+    return true
+  }
+
+  /**
+   * Una alcancía creada con una calldata anterior (p. ej. Argent sin guardián) tiene otra dirección
+   * que la que deriva la fábrica hoy, y puede tener fondos. Se guarda la derivación que la produjo
+   * para desplegar ahí mismo; devuelve true si se fijó una.
+   */
+  private pinDerivation(account: InvisibleAccount): boolean {
+    const address = account.accountAddressHex
+    if (!address || account.derivation) return false
+    const publicKey = this.withPrivateKey(account.userEntityId, publicKeyFromPrivateKey)
+    const derivation = findAccountDerivation(publicKey, address)
+    if (!derivation) {
+      logger.warn({ entityId: account.userEntityId, address }, '[Starknet] stored address does not match any known account derivation')
+      return false
+    }
+    if (derivation.address === deriveAccount(publicKey).address) return false
+    const { variant, classHash, constructorCalldata } = derivation
+    account.derivation = { variant, classHash, publicKey: derivation.publicKey, constructorCalldata }
+    logger.warn({ entityId: account.userEntityId, address, variant, classHash }, '[Starknet] pinned legacy account derivation')
+    return true
+  }
+
+  private sealLegacy(encrypted: EncryptedSecret, entityId: string): SealedSecret {
+    for (const { key } of [this.keyring.current, ...this.keyring.previous]) {
+      try {
+        return sealSecret(this.keyring, decryptSecret(key, encrypted, entityId), entityId)
+      } catch {
+        // probar con la siguiente llave
+      }
+    }
+    throw new Error('No master key can decrypt legacy record')
+  }
+}
+
+export const telegramStarknetStore = new PersistentTelegramStarknetStore()
+
+// ---- firmantes ----
+
+const processHsm = new InProcessHsm()
+
+function remoteSigning(): boolean {
+  return (process.env.STARKNET_SIGNER || 'local').toLowerCase() === 'remote'
 }
 
-export const telegramStarknetStore: TelegramStarknetStore = new InMemoryTelegramStarknetStore()
+/**
+ * Firmante para la alcancía de `entityId` según STARKNET_SIGNER:
+ * - 'local' (por defecto): descifra la clave del store en cada firma
+ * - 'hsm': importa la clave una vez a un HSM en proceso y firma por handle
+ * - 'remote': delega en un daemon por Unix socket (STARKNET_SIGNER_SOCKET) que custodia las claves
+ */
+export function getAccountSigner(entityId: string, store: PersistentTelegramStarknetStore = telegramStarknetStore): Signer {
+  const mode = (process.env.STARKNET_SIGNER || 'local').toLowerCase()
+  if (mode === 'remote') {
+    const socketPath = process.env.STARKNET_SIGNER_SOCKET?.trim()
+    if (!socketPath) throw new Error('STARKNET_SIGNER_SOCKET is required for remote signing')
+    return new RemoteSigner(entityId, socketPath)
+  }
+  if (!store.getAccountByEntityId(entityId)) throw new Error(`No invisible account for ${entityId}`)
+  if (mode === 'hsm') {
+    if (!processHsm.hasKey(entityId)) store.withPrivateKey(entityId, (privateKeyHex) => processHsm.importKey(entityId, privateKeyHex))
+    return processHsm.signer(entityId)
+  }
+  return new LocalKeySigner(entityId, (use) => store.withPrivateKey(entityId, use))
+}
 
 // ---- starknet.js helpers (provider, compute, deploy) ----
 
@@ -133,6 +422,7 @@ export function createStarknetProvider(): RpcProvider | undefined {
 }
 
 export interface SmartAccountDetails {
+  variant: AccountVariant
   classHash: string
   publicKey: string
   constructorCalldata: string[]
@@ -140,93 +430,324 @@ export interface SmartAccountDetails {
   precalculatedAddress: string
 }
 
-export function computeSmartAccountDetails(privateKeyHex: string): SmartAccountDetails | undefined {
+/**
+ * Datos de despliegue de la variante configurada; ver account-factory.ts. Con `pinned` (alcancías
+ * creadas con una derivación anterior) se usa esa en lugar de la actual.
+ */
+export function computeSmartAccountDetails(publicKeyHex: string, pinned?: PinnedDerivation): SmartAccountDetails | undefined {
   try {
-    const cleaned = privateKeyHex.startsWith('0x') ? privateKeyHex : `0x${privateKeyHex}`
-    const publicKey = ec.starkCurve.getStarkKey(cleaned)
-    const pubKeyHex = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`
-
-    const variant = (process.env.STARKNET_ACCOUNT_VARIANT || 'oz').toLowerCase()
-    const defaultOzClassHash = '0x061dac032f228abef9c6626f995015233097ae253a7f72d68552db02f2971b8f'
-    const defaultArgentClassHash = '0x1a736d6ed154502257f02b1ccdf4d9d1089f80811cd6acad48e6b6a9d1f2003'
-    const classHash = (process.env.STARKNET_ACCOUNT_CLASS_HASH?.trim() || (variant === 'argent' ? defaultArgentClassHash : defaultOzClassHash))
-
-    let constructorCalldata: string[]
-    if (variant === 'argent') constructorCalldata = CallData.compile({ owner: pubKeyHex, guardian: '0' })
-    else constructorCalldata = CallData.compile({ publicKey: pubKeyHex })
-
-    const addressSalt = pubKeyHex
-    const precalculatedAddress = hash.calculateContractAddressFromHash(addressSalt, classHash, constructorCalldata, 0)
-
-    logger.info({ variant, classHash, pubKeyHex, addressSalt, precalculatedAddress }, '[Starknet] Computed smart account details')
-
-    return { classHash, publicKey: pubKeyHex, constructorCalldata, addressSalt, precalculatedAddress }
+    const { address: precalculatedAddress, ...derivation } = pinned ? deriveAccount(pinned.publicKey, pinned) : deriveAccount(publicKeyHex)
+    logger.info(
+      { variant: derivation.variant, classHash: derivation.classHash, pubKeyHex: derivation.publicKey, precalculatedAddress },
+      '[Starknet] Computed smart account details'
+    )
+    return { ...derivation, precalculatedAddress }
   } catch (e) {
     logger.error({ error: e instanceof Error ? e.message : String(e) }, '[Starknet] computeSmartAccountDetails failed')
     return undefined
   }
 }
 
-export async function deploySmartAccountIfPossible(privateKeyHex: string): Promise<{ address?: string; txHash?: string; error?: Error }>
-{
+function ethToken(): TokenInfo {
+  const eth = builtinTokens().find((token) => token.symbol === 'ETH')
+  if (!eth) throw new Error('ETH token not configured')
+  return eth
+}
+
+/** DeploymentDriver con starknet.js: la cuenta se despliega a sí misma con su propio firmante. */
+function createDeploymentDriver(provider: RpcProvider, details: SmartAccountDetails, signer: Signer): DeploymentDriver {
+  const account = new Account(provider, details.precalculatedAddress, toStarknetSigner(signer))
+  const payload = { classHash: details.classHash, constructorCalldata: details.constructorCalldata, addressSalt: details.addressSalt }
+  return {
+    address: details.precalculatedAddress,
+    isDeployed: () =>
+      provider.getClassHashAt(details.precalculatedAddress).then(
+        () => true,
+        (error) => {
+          if (isContractNotFound(error)) return false
+          throw error
+        }
+      ),
+    balanceWei: () => readTokenBalance(provider, ethToken(), details.precalculatedAddress),
+    estimateDeployFeeWei: async () => BigInt((await account.estimateAccountDeployFee(payload)).suggestedMaxFee),
+    deploy: async (maxFeeWei) => (await account.deployAccount(payload, { maxFee: maxFeeWei })).transaction_hash,
+    waitForTransaction: async (txHash) => {
+      await provider.waitForTransaction(txHash)
+    },
+  }
+}
+
+/** Tesorería (STARKNET_ADDRESS / STARKNET_PRIVATE_KEY) que patrocina despliegues; undefined si no está configurada. */
+function createSponsorTreasury(provider: RpcProvider, details: SmartAccountDetails): SponsorTreasury | undefined {
+  const address = process.env.STARKNET_ADDRESS?.trim()
+  const privateKey = process.env.STARKNET_PRIVATE_KEY?.trim()
+  if (!address || !privateKey) return undefined
+  const treasury = new Account(provider, address, privateKey)
+  // unique: false → el UDC despliega con deployer 0, la misma dirección precalculada de la alcancía
+  const udcPayload = { classHash: details.classHash, constructorCalldata: details.constructorCalldata, salt: details.addressSalt, unique: false }
+  return {
+    fund: async (to, amountWei) =>
+      (
+        await treasury.execute(tokenTransferCall({ token: ethToken(), recipient: to, amount: amountWei }))
+      ).transaction_hash,
+    estimateDeployForFeeWei: async () => BigInt((await treasury.estimateDeployFee(udcPayload)).suggestedMaxFee),
+    deployFor: async (maxFeeWei) => (await treasury.deploy(udcPayload, { maxFee: maxFeeWei })).transaction_hash,
+  }
+}
+
+/**
+ * Despliega la alcancía solo si puede pagarse: estima la comisión, revisa el saldo en ETH y,
+ * si no alcanza, usa la tesorería patrocinadora (ALCANCIA_DEPLOY_SPONSOR) dentro del presupuesto del usuario.
+ * `address` es siempre la dirección precalculada (la que recibe depósitos), esté o no desplegada.
+ */
+export async function deploySmartAccountIfPossible(
+  signer: Signer,
+  {
+    onSubmitted,
+    entityId,
+    provider = createStarknetProvider(),
+    sponsor = sponsorConfig(),
+    derivation,
+  }: {
+    onSubmitted?: (txHash: string) => void
+    entityId?: string
+    provider?: RpcProvider
+    sponsor?: SponsorConfig
+    derivation?: PinnedDerivation
+  } = {}
+): Promise<{ address?: string; txHash?: string; state?: AccountDeployState; deployment?: DeploymentResult; error?: Error }> {
+  let address: string | undefined
   try {
-    const provider = createStarknetProvider()
     if (!provider) return { error: new Error('Missing STARKNET_RPC_URL') }
 
-    const details = computeSmartAccountDetails(privateKeyHex)
+    const details = computeSmartAccountDetails(await signer.getPublicKey(), derivation)
     if (!details) return { error: new Error('Cannot compute smart account details') }
-
-    logger.info({ precalculatedAddress: details.precalculatedAddress }, '[Starknet] Deploy attempt')
-    const account = new Account(provider, details.precalculatedAddress, privateKeyHex)
-    const deployPayload = {
-      classHash: details.classHash,
-      constructorCalldata: details.constructorCalldata,
-      addressSalt: details.addressSalt,
-    }
-
-    // Optional estimation step (can throw if not funded); we can skip to direct deploy
-    // const { suggestedMaxFee } = await account.estimateAccountDeployFee(deployPayload)
-    const { transaction_hash, contract_address } = await account.deployAccount(deployPayload)
-    logger.info({ transaction_hash, contract_address }, '[Starknet] Deploy submitted')
-    await provider.waitForTransaction(transaction_hash)
-    logger.info({ transaction_hash }, '[Starknet] Deploy confirmed')
-    return { address: contract_address, txHash: transaction_hash }
+    // Sin dirección: no se le muestra al usuario una cuenta que el agente no puede desplegar
+    if (!ACCOUNT_FACTORIES[details.variant].deployable) return { error: new Error(`${details.variant} accounts cannot be deployed by the agent`) }
+    address = details.precalculatedAddress
+
+    logger.info({ precalculatedAddress: address, keyId: signer.keyId, sponsor: sponsor.mode }, '[Starknet] Deploy attempt')
+    const deployment = await deployAccountWithFunding(createDeploymentDriver(provider, details, signer), {
+      entityId,
+      sponsor,
+      treasury: sponsor.mode === 'off' ? undefined : createSponsorTreasury(provider, details),
+      onSubmitted: (txHash) => {
+        logger.info({ transaction_hash: txHash, contract_address: address }, '[Starknet] Deploy submitted')
+        onSubmitted?.(txHash)
+      },
+    })
+    logger.info(
+      { address, state: deployment.state, feeWei: deployment.feeWei?.toString(), txHash: 'txHash' in deployment ? deployment.txHash : undefined },
+      '[Starknet] Deploy result'
+    )
+    const error = 'error' in deployment ? deployment.error : deployment.state === 'deployed' ? undefined : new Error('Account not funded')
+    return { address, txHash: deployment.state === 'deployed' ? deployment.txHash : undefined, state: deployment.state, deployment, error }
   } catch (error) {
     logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Starknet] Deploy failed')
-    return { error: error instanceof Error ? error : new Error(String(error)) }
+    return { address, error: error instanceof Error ? error : new Error(String(error)) }
   }
 }
 
-// ---- balances ----
+export type AccountDeployAttempt =
+  | { status: 'skipped'; reason: 'no_account' | 'deployed' | 'in_progress'; account?: InvisibleAccount }
+  | { status: 'attempted'; account: InvisibleAccount; deployment?: DeploymentResult; error?: Error }
+
+/**
+ * Intenta (o reanuda) el despliegue de la alcancía a partir de su estado guardado y registra
+ * cada transición en el store. Sin STARKNET_RPC_URL no hay intento y el estado no cambia.
+ */
+export async function deployInvisibleAccount(
+  entityId: string,
+  {
+    store = telegramStarknetStore,
+    deploy = deploySmartAccountIfPossible,
+    onSubmitted,
+  }: {
+    store?: PersistentTelegramStarknetStore
+    deploy?: typeof deploySmartAccountIfPossible
+    onSubmitted?: (txHash: string) => void
+  } = {}
+): Promise<AccountDeployAttempt> {
+  const account = store.getAccountByEntityId(entityId)
+  if (!account) return { status: 'skipped', reason: 'no_account' }
+  const allowed = canStartDeploy(account.lifecycle)
+  if (!allowed.ok) return { status: 'skipped', reason: allowed.reason, account }
+
+  const signer = getAccountSigner(entityId, store)
+  // Una dirección de una derivación anterior ya está fijada y puede tener fondos: no se recalcula
+  if (!account.derivation) await syncAccountAddress(entityId, signer, store)
+  const result = await deploy(signer, {
+    entityId,
+    derivation: account.derivation,
+    onSubmitted: (txHash) => {
+      store.transitionAccount(entityId, 'deploying', { txHash })
+      onSubmitted?.(txHash)
+    },
+  })
+  // La dirección calculada de la clave es la que recibe depósitos y la que se despliega
+  if (result.address && result.address !== account.accountAddressHex) {
+    logger.warn({ entityId, previous: account.accountAddressHex, address: result.address }, '[Starknet] account address recomputed')
+    store.setAccountAddress(entityId, result.address)
+  }
+
+  const deployment = result.deployment
+  if (deployment?.state === 'deployed') store.transitionAccount(entityId, 'deployed', { txHash: deployment.txHash })
+  else if (deployment?.state === 'counterfactual') store.transitionAccount(entityId, 'awaiting_funds', { missingFeeWei: deployment.missingWei ?? deployment.feeWei })
+  // Sin `address` no hubo intento (falta RPC o no se pudo calcular la cuenta): el estado no cambia
+  else if (result.error && result.address)
+    store.transitionAccount(entityId, 'failed', { error: result.error.message.split('\n')[0].slice(0, 160) })
+
+  return { status: 'attempted', account: store.getAccountByEntityId(entityId) ?? account, deployment, error: result.error }
+}
+
+/**
+ * Guarda la dirección que corresponde a la clave pública del firmante. En modo remoto esa clave
+ * vive en el daemon y puede no ser la del store; es la que firma el despliegue, así que manda.
+ */
+async function syncAccountAddress(entityId: string, signer: Signer, store: PersistentTelegramStarknetStore): Promise<void> {
+  try {
+    const address = computeSmartAccountDetails(await toStarknetSigner(signer).getPubKey())?.precalculatedAddress
+    const current = store.getAccountByEntityId(entityId)?.accountAddressHex
+    if (!address || (current && sameFelt(current, address))) return
+    logger.warn({ entityId, previous: current, address, keyId: signer.keyId }, '[Starknet] account address taken from signer public key')
+    store.setAccountAddress(entityId, address)
+  } catch (error) {
+    logger.warn({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Starknet] cannot read signer public key')
+  }
+}
 
-export async function getEthBalanceWei(addressHex: string): Promise<bigint | undefined> {
+/** Comisión máxima sugerida (wei) para ejecutar `calls`; undefined si no hay RPC o la cuenta aún no existe. */
+export async function estimateInvokeFeeWei(signer: Signer, accountAddressHex: string, calls: Call[]): Promise<bigint | undefined> {
   try {
     const provider = createStarknetProvider()
-    if (!provider) {
-      logger.error({}, '[Starknet] getEthBalanceWei missing provider')
-      return undefined
-    }
+    if (!provider) return undefined
+    const account = new Account(provider, accountAddressHex, toStarknetSigner(signer))
+    const { suggestedMaxFee } = await account.estimateInvokeFee(calls)
+    return BigInt(suggestedMaxFee)
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, '[Starknet] Fee estimation failed')
+    return undefined
+  }
+}
 
-    const tokenAddress = process.env.STARKNET_ETH_TOKEN_ADDRESS?.trim()
-    if (!tokenAddress) {
-      logger.error({}, '[Starknet] STARKNET_ETH_TOKEN_ADDRESS not set')
-      return undefined
-    }
+// ---- envíos de tokens ----
 
-    const res = await provider.callContract({
-      contractAddress: tokenAddress,
-      entrypoint: 'balanceOf',
-      calldata: [addressHex],
-    })
-    const raw = (Array.isArray(res) ? res[0] : (res as any)?.result?.[0]) as string | undefined
-    if (!raw) return 0n
-    // raw is decimal string; convert to bigint safely
-    const value = BigInt(raw)
-    return value
+export interface TokenTransfer {
+  token: Pick<TokenInfo, 'address' | 'symbol'>
+  recipient: string
+  /** Unidades base */
+  amount: bigint
+}
+
+const U128_MASK = (1n << 128n) - 1n
+
+/** Un u256 de Cairo va en la calldata como dos felts: primero los 128 bits bajos y luego los altos. */
+export function uint256Calldata(amount: bigint): [low: string, high: string] {
+  if (amount < 0n || amount >> 256n > 0n) throw new Error(`Amount does not fit in a u256: ${amount}`)
+  return [(amount & U128_MASK).toString(), (amount >> 128n).toString()]
+}
+
+/** Llamada ERC-20 `transfer(recipient, amount: u256)`. */
+export function tokenTransferCall({ token, recipient, amount }: TokenTransfer): Call {
+  return { contractAddress: token.address, entrypoint: 'transfer', calldata: [BigInt(recipient).toString(), ...uint256Calldata(amount)] }
+}
+
+/** Lo que el envío usa de una cuenta de starknet.js; en pruebas basta un objeto con `execute`. */
+export type TransferAccount = Pick<Account, 'execute'>
+
+export type TransferAccountFactory = (signer: Signer, accountAddressHex: string) => TransferAccount | undefined
+
+const rpcTransferAccount: TransferAccountFactory = (signer, accountAddressHex) => {
+  const provider = createStarknetProvider()
+  return provider ? new Account(provider, accountAddressHex, toStarknetSigner(signer)) : undefined
+}
+
+let transferAccountFactory: TransferAccountFactory = rpcTransferAccount
+
+/** Solo para pruebas: reemplaza la cuenta que firma los envíos (null vuelve a la de STARKNET_RPC_URL). */
+export function setTransferAccountFactory(factory: TransferAccountFactory | null): void {
+  transferAccountFactory = factory ?? rpcTransferAccount
+}
+
+/** Firma `calls` con la alcancía y los manda en una sola transacción; devuelve el hash en cuanto la red la recibe. */
+export async function executeAccountCalls(
+  signer: Signer,
+  accountAddressHex: string,
+  calls: Call[],
+  { account }: { account?: TransferAccount } = {}
+): Promise<{ txHash?: string; error?: Error }> {
+  try {
+    const sender = account ?? transferAccountFactory(signer, accountAddressHex)
+    if (!sender) return { error: new Error('Missing STARKNET_RPC_URL') }
+    const { transaction_hash } = await sender.execute(calls)
+    logger.info(
+      { transaction_hash, from: accountAddressHex, keyId: signer.keyId, entrypoints: calls.map((call) => call.entrypoint) },
+      '[Starknet] Invoke submitted'
+    )
+    return { txHash: transaction_hash }
   } catch (error) {
-    logger.error({ error: error instanceof Error ? error.message : String(error) }, '[Starknet] getEthBalanceWei failed')
-    return undefined
+    logger.error({ from: accountAddressHex, error: error instanceof Error ? error.message : String(error) }, '[Starknet] Invoke failed')
+    return { error: error instanceof Error ? error : new Error(String(error)) }
+  }
+}
+
+/**
+ * Manda `transfers` desde la alcancía en una sola transacción (multicall): salen todos o ninguno.
+ * Devuelve el hash en cuanto la red la recibe; la confirmación la sigue tx-tracker.
+ */
+export async function executeTokenTransfers(
+  signer: Signer,
+  accountAddressHex: string,
+  transfers: TokenTransfer[],
+  options: { account?: TransferAccount } = {}
+): Promise<{ txHash?: string; error?: Error }> {
+  if (transfers.length === 0) return { error: new Error('No transfers to execute') }
+  if (transfers.some((transfer) => transfer.amount <= 0n)) return { error: new Error('Transfer amount must be positive') }
+  let calls: Call[]
+  try {
+    calls = transfers.map(tokenTransferCall)
+  } catch (error) {
+    return { error: error instanceof Error ? error : new Error(String(error)) }
   }
+  return executeAccountCalls(signer, accountAddressHex, calls, options)
+}
+
+// ---- balances ----
+
+export interface TokenBalance {
+  token: TokenInfo
+  /** Unidades base; undefined si no se pudo consultar */
+  balance?: bigint
+  decimals?: number
+}
+
+/**
+ * Saldos de `tokens` para una dirección. Cada token se consulta por separado para que
+ * un contrato que falla no oculte los demás; los decimales desconocidos se leen del contrato.
+ */
+export async function getTokenBalances(
+  addressHex: string,
+  tokens: TokenInfo[],
+  { entityId, provider = createStarknetProvider(), registry = tokenRegistry }: { entityId?: string; provider?: RpcProvider; registry?: TokenRegistry } = {}
+): Promise<TokenBalance[]> {
+  if (!provider) {
+    logger.error({}, '[Starknet] getTokenBalances missing provider')
+    return tokens.map((token) => ({ token, decimals: token.decimals }))
+  }
+  return Promise.all(
+    tokens.map(async (token): Promise<TokenBalance> => {
+      try {
+        const [balance, decimals] = await Promise.all([
+          readTokenBalance(provider, token, addressHex),
+          registry.resolveDecimals(token, provider, entityId),
+        ])
+        return { token, balance, decimals }
+      } catch (error) {
+        logger.error({ token: token.symbol, error: error instanceof Error ? error.message : String(error) }, '[Starknet] token balance failed')
+        return { token, decimals: token.decimals }
+      }
+    })
+  )
 }
 
 export function formatWeiToEth(wei?: bigint): string {
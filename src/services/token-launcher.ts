@@ -0,0 +1,411 @@
+import crypto from 'node:crypto'
+import { logger } from '@elizaos/core'
+import { hash, shortString, type Call, type RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+import { normalizeIntentText } from './intent-classifier.ts'
+import { findTypedAddress, validateStarknetAddress } from './address-validation.ts'
+import { formatUnits, normalizeTokenAddress, parseUnits, tokenRegistry, type TokenInfo, type TokenRegistry } from './token-registry.ts'
+import { uint256Calldata } from './telegram-starknet.ts'
+import { parseNumberWords } from './transfer-parser.ts'
+
+/** Los tokens lanzados usan los decimales de siempre en Starknet */
+export const LAUNCH_DECIMALS = 18
+
+/** Lo que se manda a la fábrica: suministro en unidades base y quién lo recibe. */
+export interface TokenLaunchSpec {
+  name: string
+  symbol: string
+  supply: bigint
+  recipient: string
+  /** true si el suministro va a la alcancía de quien lo lanza */
+  toSelf: boolean
+}
+
+/** Lo que llevamos entendido de un lanzamiento a medio pedir. */
+export interface TokenLaunchDraft {
+  name?: string
+  symbol?: string
+  /** Unidades base, como texto para poder guardarlo */
+  supply?: string
+  recipient?: string
+  toSelf?: boolean
+  /** Lo último que preguntamos: una respuesta suelta ("PEPE", "1 millón") se toma como ese dato */
+  asked?: TokenLaunchSlot
+}
+
+export type TokenLaunchSlot = 'name' | 'symbol' | 'supply' | 'recipient'
+
+export type TokenLaunchParseResult =
+  | { status: 'complete'; spec: TokenLaunchSpec; draft: TokenLaunchDraft }
+  | { status: 'incomplete'; draft: TokenLaunchDraft; missing: TokenLaunchSlot[]; problems: string[]; question: string }
+  | { status: 'cancelled' }
+
+// ---- diálogo ----
+
+const CANCEL_RE = /^(cancela|cancelar|cancel|olvidalo|olvida|ya no|nada|no)$/
+const ADDRESS_RE = /\b0x[0-9a-f]+\b/
+// "para mí" al final o antes de otra instrucción; "para mi grupo" no es la alcancía propia
+const SELF_RE = /\b(?:(?:para|a) mi(?: mism[oa]| alcancia| cuenta)?(?=\s*(?:$|[,.;]|y\b|con\b))|mi alcancia|to me|for me|myself)/
+const SELF_ANSWER_RE = /^(yo|a mi|para mi|mi|mia|mio|a mi alcancia|mi alcancia|me|to me|myself|la mia)$/
+
+// Se busca en el texto tal como se escribió: el nombre y el símbolo conservan sus mayúsculas
+const QUOTED_NAME_RE = /["“«']([^"”»']{1,40})["”»']/
+const NAMED_RE =
+  /\b(?:llamad[oa]|que se llame|se llama|de nombre|con (?:el )?nombre|named|called)\s+(.+?)(?=\s+(?:con|y|para|s[ií]mbolo|ticker|symbol|and|with|for)\b|\s+de\s+\d|[,;.!?]|$)/i
+const SYMBOL_RE = /(?:\$([A-Za-z][A-Za-z0-9]{1,10})\b|\b(?:s[ií]mbolo|ticker|symbol|siglas?)\s*(?::|es|de)?\s*\$?([A-Za-z0-9]{2,11})\b)/i
+const SYMBOL_ANSWER_RE = /^\$?([A-Za-z0-9]{2,11})$/
+
+const SUPPLY_NUMBER = '(\\d+(?:[.,]\\d+)*|[a-z]+)'
+const SUPPLY_UNIT = '(mil millones|millones|millon|mil|k|m)?'
+const SUPPLY_RE = new RegExp(`(?:^|\\s)${SUPPLY_NUMBER}\\s*${SUPPLY_UNIT}\\s+(?:de\\s+)?(?:tokens|unidades|monedas|piezas)\\b`)
+const SUPPLY_LABEL_RE = new RegExp(`\\b(?:suministro|supply|emision|cantidad)\\s*(?:total\\s*)?(?:de|:|es)?\\s*${SUPPLY_NUMBER}\\s*${SUPPLY_UNIT}(?=\\s|$)`)
+const SUPPLY_ANSWER_RE = new RegExp(`^${SUPPLY_NUMBER}\\s*${SUPPLY_UNIT}(?:\\s+(?:de\\s+)?(?:tokens?|unidades|monedas|piezas))?$`)
+
+const SUPPLY_MULTIPLIERS: Record<string, bigint> = { k: 1000n, mil: 1000n, m: 1_000_000n, millon: 1_000_000n, millones: 1_000_000n, 'mil millones': 1_000_000_000n }
+
+/** "1,000,000" / "1.5" / "un" + unidad → suministro en unidades base; undefined si no es un número. */
+function supplyFromMatch(numberText: string, unit?: string): bigint | undefined {
+  let decimal: string | undefined
+  if (/^\d/.test(numberText)) {
+    // "1,000,000" y "1.000.000" agrupan miles; "1,5" o "1.5" es decimal
+    decimal = /^\d{1,3}([.,]\d{3})+$/.test(numberText) ? numberText.replace(/[.,]/g, '') : numberText.replace(',', '.')
+    if (!/^\d+(\.\d+)?$/.test(decimal)) return undefined
+  } else {
+    const value = parseNumberWords([numberText])
+    if (value === undefined) return undefined
+    decimal = String(value)
+  }
+  const multiplier = unit ? SUPPLY_MULTIPLIERS[unit] : 1n
+  return parseUnits(decimal, LAUNCH_DECIMALS) * multiplier
+}
+
+function nameProblem(name: string): string | undefined {
+  if (!shortString.isASCII(name) || name.length > 31)
+    return 'El nombre del token puede tener hasta 31 letras, números o signos sin acentos (por ejemplo: "Pepe Coin").'
+  return undefined
+}
+
+function symbolProblem(symbol: string, tokens: TokenInfo[]): string | undefined {
+  if (!/^[A-Z][A-Z0-9]{1,10}$/.test(symbol)) return 'El símbolo debe empezar con una letra y tener de 2 a 11 letras o números, como PEPE.'
+  if (tokens.some((token) => token.symbol.toUpperCase() === symbol)) return `Ya conozco un token ${symbol}; elige otro símbolo para no confundirlos.`
+  return undefined
+}
+
+/**
+ * Interpreta un mensaje (o la respuesta a la pregunta anterior) y lo combina con lo que ya
+ * sabíamos. Solo devuelve 'complete' con nombre, símbolo, suministro y destino válidos.
+ * `tokens` son los que el usuario ya conoce (tokenRegistry.list(entityId)): el símbolo no puede repetirse.
+ */
+export function parseTokenLaunchRequest(
+  rawText: string,
+  previous: TokenLaunchDraft = {},
+  { ownAddress, tokens }: { ownAddress?: string; tokens: TokenInfo[] }
+): TokenLaunchParseResult {
+  const text = normalizeIntentText(rawText)
+  if (CANCEL_RE.test(text)) return { status: 'cancelled' }
+
+  const self = ownAddress ? normalizeTokenAddress(ownAddress) : undefined
+  const problems: string[] = []
+  const draft: TokenLaunchDraft = { ...previous }
+  const { asked } = previous
+  delete draft.asked
+
+  const named = QUOTED_NAME_RE.exec(rawText)?.[1] ?? NAMED_RE.exec(rawText)?.[1]
+  const symbolMatch = SYMBOL_RE.exec(rawText)
+  const symbol = symbolMatch?.[1] ?? symbolMatch?.[2]
+  const supplyMatch = SUPPLY_RE.exec(text) ?? SUPPLY_LABEL_RE.exec(text)
+  const address = ADDRESS_RE.exec(text)
+  const toSelf = SELF_RE.test(text)
+
+  if (named) draft.name = named.trim()
+  if (symbol) draft.symbol = symbol.toUpperCase()
+  const supply = supplyMatch ? supplyFromMatch(supplyMatch[1], supplyMatch[2]) : undefined
+  if (supply !== undefined) draft.supply = supply.toString()
+  if (address) {
+    // Se valida como se escribió: las mayúsculas pueden ser el checksum
+    const validation = validateStarknetAddress(findTypedAddress(rawText) ?? address[0])
+    if (validation.valid) Object.assign(draft, { recipient: validation.address, toSelf: validation.address === self })
+    else problems.push(validation.reason)
+  } else if (toSelf && self) Object.assign(draft, { recipient: self, toSelf: true })
+  const understood = Boolean(named || symbol || supply !== undefined || address || toSelf)
+
+  // Respuesta suelta a lo que preguntamos ("Pepe Coin", "PEPE", "1 millón", "a mí")
+  if (!understood && asked) {
+    const answer = rawText.trim().replace(/^["“«']|["”»']$/g, '')
+    if (asked === 'name') draft.name = answer
+    else if (asked === 'symbol') {
+      const match = SYMBOL_ANSWER_RE.exec(answer)
+      if (match) draft.symbol = match[1].toUpperCase()
+      else problems.push('No entendí el símbolo.')
+    } else if (asked === 'supply') {
+      const match = SUPPLY_ANSWER_RE.exec(text)
+      const answered = match ? supplyFromMatch(match[1], match[2]) : undefined
+      if (answered !== undefined) draft.supply = answered.toString()
+      else problems.push(`No entendí la cantidad "${answer}".`)
+    } else if (asked === 'recipient') {
+      if (SELF_ANSWER_RE.test(text) && self) Object.assign(draft, { recipient: self, toSelf: true })
+      else problems.push('No entendí a quién se los doy.')
+    }
+  }
+
+  return resolveLaunchDraft(draft, problems, tokens)
+}
+
+function resolveLaunchDraft(draft: TokenLaunchDraft, problems: string[], tokens: TokenInfo[]): TokenLaunchParseResult {
+  const check = (slot: 'name' | 'symbol', problem: string | undefined) => {
+    if (!problem) return
+    problems.push(problem)
+    delete draft[slot]
+  }
+  if (draft.name) check('name', nameProblem(draft.name))
+  if (draft.symbol) check('symbol', symbolProblem(draft.symbol, tokens))
+  if (draft.supply && BigInt(draft.supply) < 10n ** BigInt(LAUNCH_DECIMALS)) {
+    problems.push('El suministro debe ser de al menos 1 token.')
+    delete draft.supply
+  }
+
+  const missing = (['name', 'symbol', 'supply', 'recipient'] as const).filter((slot) => !draft[slot])
+  if (missing.length === 0 && draft.name && draft.symbol && draft.supply && draft.recipient)
+    return {
+      status: 'complete',
+      spec: { name: draft.name, symbol: draft.symbol, supply: BigInt(draft.supply), recipient: draft.recipient, toSelf: draft.toSelf === true },
+      draft,
+    }
+
+  draft.asked = missing[0]
+  return {
+    status: 'incomplete',
+    draft,
+    missing,
+    problems,
+    question: [...problems, QUESTIONS[missing[0]], '(Escribe "cancelar" para no lanzar nada.)'].join(' '),
+  }
+}
+
+const QUESTIONS: Record<TokenLaunchSlot, string> = {
+  name: '¿Cómo se va a llamar tu token? (por ejemplo: "Pepe Coin")',
+  symbol: '¿Qué símbolo le pongo? De 2 a 11 letras o números, como PEPE.',
+  supply: '¿Cuántos tokens quieres crear en total? (por ejemplo: 1 millón)',
+  recipient: '¿Quién recibe los tokens recién creados? Responde "a mí" para tu alcancía o compárteme una dirección 0x….',
+}
+
+export function formatLaunchSupply(spec: Pick<TokenLaunchSpec, 'supply' | 'symbol'>): string {
+  return `${formatUnits(spec.supply, LAUNCH_DECIMALS)} ${spec.symbol}`
+}
+
+/** Resumen que se confirma antes de lanzar. */
+export function describeTokenLaunch(spec: TokenLaunchSpec): string[] {
+  return [
+    `• Nombre: ${spec.name}`,
+    `• Símbolo: ${spec.symbol}`,
+    `• Suministro: ${formatLaunchSupply(spec)}`,
+    `• Los recibe: ${spec.toSelf ? `tu alcancía (${spec.recipient})` : spec.recipient}, que queda como dueña del token`,
+  ]
+}
+
+// ---- fábrica ----
+
+export interface TokenFactoryConfig {
+  address: string
+  /** Función de la fábrica; recibe (owner, name, symbol, initial_supply: u256, salt) como la de Unruggable */
+  entrypoint: string
+}
+
+/** Fábrica de MEME_TOKEN_FACTORY_ADDRESS (y MEME_TOKEN_FACTORY_ENTRYPOINT); undefined si no está configurada. */
+export function tokenFactoryConfig(): TokenFactoryConfig | undefined {
+  const address = process.env.MEME_TOKEN_FACTORY_ADDRESS?.trim()
+  if (!address) return undefined
+  return { address: normalizeTokenAddress(address), entrypoint: process.env.MEME_TOKEN_FACTORY_ENTRYPOINT?.trim() || 'create_memecoin' }
+}
+
+/** Salt para la dirección del contrato: se fija al proponer para que la comisión estimada sea la del envío. */
+export function randomLaunchSalt(): string {
+  return '0x' + crypto.randomBytes(31).toString('hex')
+}
+
+export function tokenLaunchCall(spec: TokenLaunchSpec, factory: TokenFactoryConfig, salt: string): Call {
+  return {
+    contractAddress: factory.address,
+    entrypoint: factory.entrypoint,
+    calldata: [
+      BigInt(spec.recipient).toString(),
+      BigInt(shortString.encodeShortString(spec.name)).toString(),
+      BigInt(shortString.encodeShortString(spec.symbol)).toString(),
+      ...uint256Calldata(spec.supply),
+      BigInt(salt).toString(),
+    ],
+  }
+}
+
+const TRANSFER_SELECTOR = BigInt(hash.getSelectorFromName('Transfer'))
+
+interface ReceiptEvent {
+  from_address: string
+  keys: string[]
+  data: string[]
+}
+
+/**
+ * Dirección del token recién creado: el contrato que emite el `Transfer` de acuñación (desde 0x0).
+ * Sirve con eventos Cairo 1 (from en las keys) y Cairo 0 (from en los datos). La fábrica se ignora.
+ */
+export function findLaunchedTokenAddress(events: ReceiptEvent[], factoryAddress: string): string | undefined {
+  const factory = BigInt(factoryAddress)
+  const mint = events.find((event) => {
+    if (!event.keys.length || BigInt(event.keys[0]) !== TRANSFER_SELECTOR || BigInt(event.from_address) === factory) return false
+    const from = event.keys.length >= 3 ? event.keys[1] : event.data[0]
+    return from !== undefined && BigInt(from) === 0n
+  })
+  return mint ? normalizeTokenAddress(mint.from_address) : undefined
+}
+
+// ---- registro por usuario ----
+
+export type TokenLaunchStatus = 'pending' | 'deployed' | 'failed'
+
+export interface TokenLaunch {
+  txHash: string
+  name: string
+  symbol: string
+  /** Unidades base */
+  supply: string
+  recipient: string
+  factory: string
+  status: TokenLaunchStatus
+  /** Dirección del contrato del token, cuando se confirma (nunca la de la alcancía) */
+  tokenAddress?: string
+  launchedAtMs: number
+  settledAtMs?: number
+}
+
+const LAUNCHES_INDEX_KEY = 'token-launches:users'
+const launchesKey = (entityId: string) => `token-launches:user:${entityId}`
+
+/** Tokens que lanzó cada usuario, con escritura diferida al cache del agente. */
+export class TokenLaunchStore {
+  private readonly launches = new Map<string, TokenLaunch[]>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(LAUNCHES_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<TokenLaunch[]>(launchesKey(entityId))) ?? []
+      const merged = new Map(stored.map((launch) => [launch.txHash, launch]))
+      for (const launch of this.launches.get(entityId) ?? []) merged.set(launch.txHash, launch)
+      this.launches.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    for (const entityId of this.launches.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[TokenLauncher] Store attached')
+    return { loaded }
+  }
+
+  /** Del más reciente al más antiguo. */
+  list(entityId: string): TokenLaunch[] {
+    return [...(this.launches.get(entityId) ?? [])].sort((a, b) => b.launchedAtMs - a.launchedAtMs)
+  }
+
+  findByTx(txHash: string): { entityId: string; launch: TokenLaunch } | undefined {
+    const wanted = BigInt(txHash)
+    for (const [entityId, launches] of this.launches) {
+      const launch = launches.find((l) => BigInt(l.txHash) === wanted)
+      if (launch) return { entityId, launch }
+    }
+    return undefined
+  }
+
+  record(entityId: string, launch: Omit<TokenLaunch, 'status' | 'launchedAtMs'>, now = Date.now()): TokenLaunch {
+    const recorded: TokenLaunch = { ...launch, status: 'pending', launchedAtMs: now }
+    this.launches.set(entityId, [...(this.launches.get(entityId) ?? []), recorded])
+    this.persist(entityId)
+    return recorded
+  }
+
+  settle(txHash: string, result: { status: 'deployed'; tokenAddress: string } | { status: 'failed' }, now = Date.now()): TokenLaunch | undefined {
+    const found = this.findByTx(txHash)
+    if (!found) return undefined
+    Object.assign(found.launch, result, { settledAtMs: now })
+    this.persist(found.entityId)
+    return found.launch
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.launches.get(entityId) ?? []).map((launch) => ({ ...launch }))
+    const users = [...this.launches.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(launchesKey(entityId), snapshot)
+        await backend.setCache(LAUNCHES_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[TokenLauncher] persist failed')
+      })
+  }
+}
+
+export const tokenLaunches = new TokenLaunchStore()
+
+/**
+ * Cierra un lanzamiento cuando su transacción termina: si se confirmó, lee la dirección del token
+ * del recibo y lo agrega a los tokens del usuario (así aparece en su saldo y puede enviarlo).
+ * Si el recibo no trae la acuñación no hay dirección que registrar: el lanzamiento se marca fallido
+ * (un recibo confirmado ya no cambia) y se avisa sin dirección.
+ */
+export async function settleTokenLaunch(
+  txHash: string,
+  outcome: 'confirmed' | 'failed',
+  provider: Pick<RpcProvider, 'getTransactionReceipt'>,
+  { launches = tokenLaunches, registry = tokenRegistry }: { launches?: TokenLaunchStore; registry?: TokenRegistry } = {}
+): Promise<TokenLaunch | undefined> {
+  const found = launches.findByTx(txHash)
+  if (!found || found.launch.status !== 'pending') return found?.launch
+  if (outcome === 'failed') return launches.settle(txHash, { status: 'failed' })
+
+  const receipt = (await provider.getTransactionReceipt(txHash)) as { events?: ReceiptEvent[] }
+  const tokenAddress = findLaunchedTokenAddress(receipt.events ?? [], found.launch.factory)
+  if (!tokenAddress) {
+    logger.warn({ txHash, factory: found.launch.factory }, '[TokenLauncher] no mint event in receipt')
+    return launches.settle(txHash, { status: 'failed' })
+  }
+  registry.registerUserToken(found.entityId, { symbol: found.launch.symbol, name: found.launch.name, address: tokenAddress, decimals: LAUNCH_DECIMALS })
+  logger.info({ entityId: found.entityId, symbol: found.launch.symbol, tokenAddress }, '[TokenLauncher] token deployed')
+  return launches.settle(txHash, { status: 'deployed', tokenAddress })
+}
+
+// ---- diálogo pendiente por usuario y sala ----
+
+const DRAFT_TTL_MS = 10 * 60 * 1000
+
+const pendingDrafts = new Map<string, { draft: TokenLaunchDraft; expiresAt: number }>()
+
+export function tokenLaunchDraftKey(roomId: string | undefined, entityId: string): string {
+  return `${roomId ?? 'dm'}:${entityId}`
+}
+
+export function getTokenLaunchDraft(key: string, now = Date.now()): TokenLaunchDraft | undefined {
+  const pending = pendingDrafts.get(key)
+  if (!pending) return undefined
+  if (pending.expiresAt <= now) {
+    pendingDrafts.delete(key)
+    return undefined
+  }
+  return pending.draft
+}
+
+export function saveTokenLaunchDraft(key: string, draft: TokenLaunchDraft, now = Date.now()): void {
+  pendingDrafts.set(key, { draft, expiresAt: now + DRAFT_TTL_MS })
+}
+
+export function clearTokenLaunchDraft(key: string): void {
+  pendingDrafts.delete(key)
+}
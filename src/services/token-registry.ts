@@ -0,0 +1,175 @@
+import { logger } from '@elizaos/core'
+import type { RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+
+/** Un ERC-20 que la alcancía sabe mostrar y enviar. */
+export interface TokenInfo {
+  symbol: string
+  /** Nombre para mostrar ("Ether", "USD Coin") */
+  name: string
+  /** Dirección del contrato, normalizada a 0x + 64 hex */
+  address: string
+  /** Si no se conoce, se lee del contrato (ver resolveTokenDecimals) */
+  decimals?: number
+  /** builtin: tokens conocidos; user: meme tokens que desplegó el usuario */
+  source: 'builtin' | 'user'
+}
+
+export function normalizeTokenAddress(address: string): string {
+  return '0x' + BigInt(address).toString(16).padStart(64, '0')
+}
+
+// Mismas direcciones en mainnet y Sepolia para ETH/STRK; USDC/USDT son las de mainnet
+export const BUILTIN_TOKENS: readonly TokenInfo[] = [
+  { symbol: 'ETH', name: 'Ether', address: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7', decimals: 18, source: 'builtin' },
+  { symbol: 'STRK', name: 'Starknet Token', address: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d', decimals: 18, source: 'builtin' },
+  { symbol: 'USDC', name: 'USD Coin', address: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8', decimals: 6, source: 'builtin' },
+  { symbol: 'USDT', name: 'Tether USD', address: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8', decimals: 6, source: 'builtin' },
+]
+
+/** Los tokens conocidos, con `STARKNET_<SYMBOL>_TOKEN_ADDRESS` como override (p. ej. en devnet). */
+export function builtinTokens(): TokenInfo[] {
+  return BUILTIN_TOKENS.map((token) => {
+    const override = process.env[`STARKNET_${token.symbol}_TOKEN_ADDRESS`]?.trim()
+    return override ? { ...token, address: normalizeTokenAddress(override) } : { ...token }
+  })
+}
+
+// ---- montos ----
+
+/** Convierte un decimal a unidades base ("0.01", 18) → 10000000000000000n */
+export function parseUnits(decimal: string, decimals: number): bigint {
+  const [whole, frac = ''] = decimal.split('.')
+  if (frac.length > decimals) throw new Error(`Too many decimals: ${decimals} max`)
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(frac.padEnd(decimals, '0') || '0')
+}
+
+export function formatUnits(value: bigint, decimals: number): string {
+  const denom = 10n ** BigInt(decimals)
+  const whole = value / denom
+  const frac = value % denom
+  const fracStr = frac.toString().padStart(decimals, '0').replace(/0+$/, '')
+  return fracStr ? `${whole.toString()}.${fracStr}` : whole.toString()
+}
+
+// ---- lecturas on-chain ----
+
+/** Las respuestas de callContract cambian de forma entre versiones de starknet.js */
+function callResult(res: unknown): string[] {
+  if (Array.isArray(res)) return res as string[]
+  return ((res as { result?: string[] })?.result ?? []) as string[]
+}
+
+/** `balanceOf` como u256 (low, high); contratos viejos devuelven un solo felt. */
+export async function readTokenBalance(provider: RpcProvider, token: TokenInfo, holderAddress: string): Promise<bigint> {
+  const [low = '0', high = '0'] = callResult(
+    await provider.callContract({ contractAddress: token.address, entrypoint: 'balanceOf', calldata: [holderAddress] })
+  )
+  return BigInt(low) + (BigInt(high) << 128n)
+}
+
+export async function readTokenDecimals(provider: RpcProvider, tokenAddress: string): Promise<number> {
+  const [raw] = callResult(await provider.callContract({ contractAddress: tokenAddress, entrypoint: 'decimals', calldata: [] }))
+  if (raw === undefined) throw new Error('Token did not return decimals')
+  const decimals = Number(BigInt(raw))
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 77) throw new Error(`Invalid token decimals: ${decimals}`)
+  return decimals
+}
+
+// ---- registro por usuario ----
+
+const USER_TOKEN_INDEX_KEY = 'token-registry:users'
+const userTokensKey = (entityId: string) => `token-registry:user:${entityId}`
+
+export type UserTokenInput = Pick<TokenInfo, 'symbol' | 'name' | 'address'> & { decimals?: number }
+
+/**
+ * Tokens conocidos + meme tokens de cada usuario. Lecturas síncronas desde memoria y
+ * escritura diferida al cache del agente, igual que el store de cuentas.
+ */
+export class TokenRegistry {
+  private readonly userTokens = new Map<string, TokenInfo[]>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(USER_TOKEN_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = (await backend.getCache<TokenInfo[]>(userTokensKey(entityId))) ?? []
+      const merged = new Map(stored.map((token) => [token.address, token]))
+      for (const token of this.userTokens.get(entityId) ?? []) merged.set(token.address, token)
+      this.userTokens.set(entityId, [...merged.values()])
+      loaded += stored.length
+    }
+    // Lo registrado antes de conectar la base de datos también se guarda
+    for (const entityId of this.userTokens.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[Tokens] Registry attached')
+    return { loaded }
+  }
+
+  /** Tokens visibles para un usuario: los conocidos y los que él desplegó. */
+  list(entityId?: string): TokenInfo[] {
+    return [...builtinTokens(), ...(entityId ? (this.userTokens.get(entityId) ?? []) : [])]
+  }
+
+  findBySymbol(symbol: string, entityId?: string): TokenInfo | undefined {
+    const wanted = symbol.toUpperCase()
+    return this.list(entityId).find((token) => token.symbol.toUpperCase() === wanted)
+  }
+
+  findByAddress(address: string, entityId?: string): TokenInfo | undefined {
+    const wanted = normalizeTokenAddress(address)
+    return this.list(entityId).find((token) => token.address === wanted)
+  }
+
+  registerUserToken(entityId: string, input: UserTokenInput): TokenInfo {
+    const token: TokenInfo = {
+      symbol: input.symbol.toUpperCase(),
+      name: input.name,
+      address: normalizeTokenAddress(input.address),
+      ...(input.decimals !== undefined ? { decimals: input.decimals } : {}),
+      source: 'user',
+    }
+    const tokens = (this.userTokens.get(entityId) ?? []).filter((existing) => existing.address !== token.address)
+    this.userTokens.set(entityId, [...tokens, token])
+    this.persist(entityId)
+    return token
+  }
+
+  /** Decimales del token; si no los conocemos se leen del contrato una vez y se guardan. */
+  async resolveDecimals(token: TokenInfo, provider: RpcProvider, entityId?: string): Promise<number> {
+    if (token.decimals !== undefined) return token.decimals
+    const decimals = await readTokenDecimals(provider, token.address)
+    token.decimals = decimals
+    const owned = entityId ? this.userTokens.get(entityId)?.find((t) => t.address === token.address) : undefined
+    if (owned && entityId) {
+      owned.decimals = decimals
+      this.persist(entityId)
+    }
+    return decimals
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = (this.userTokens.get(entityId) ?? []).map((token) => ({ ...token }))
+    const users = [...this.userTokens.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(userTokensKey(entityId), snapshot)
+        await backend.setCache(USER_TOKEN_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[Tokens] persist failed')
+      })
+  }
+}
+
+export const tokenRegistry = new TokenRegistry()
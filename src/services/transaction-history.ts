@@ -0,0 +1,349 @@
+import { logger } from '@elizaos/core'
+import { hash, type RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+import { formatUnits, normalizeTokenAddress, type TokenInfo } from './token-registry.ts'
+
+export const TRANSFER_EVENT_KEY = hash.getSelectorFromName('Transfer')
+
+export type TransferDirection = 'in' | 'out' | 'self'
+
+/** Un evento Transfer de un token que involucra a la alcancía. */
+export interface TransferEvent {
+  /** Identidad estable: tx + token + sentido + índice del evento dentro de la tx para esta alcancía */
+  eventKey: string
+  txHash: string
+  blockNumber: number
+  tokenAddress: string
+  from: string
+  to: string
+  /** Unidades base, en decimal */
+  amount: string
+  direction: TransferDirection
+}
+
+/** Movimiento guardado en el historial local. */
+export interface HistoryEntry extends TransferEvent {
+  tokenSymbol: string
+  decimals?: number
+  timestampMs?: number
+}
+
+const EVENTS_CHUNK_SIZE = 100
+const MAX_EVENT_PAGES = 20
+
+/**
+ * Transfer(from, to, value) con from/to como keys, que es como los emiten los ERC-20 de Cairo 1
+ * (StarkGate, OpenZeppelin). Solo se soportan esos tokens: los de Cairo 0 ponen from/to en data y
+ * el filtro por key de las consultas nunca los encuentra.
+ */
+function decodeTransfer(keys: string[], data: string[]): { from: string; to: string; amount: bigint } | undefined {
+  try {
+    if (keys.length >= 3 && data.length >= 2)
+      return { from: normalizeTokenAddress(keys[1]), to: normalizeTokenAddress(keys[2]), amount: BigInt(data[0]) + (BigInt(data[1]) << 128n) }
+  } catch {
+    // felts mal formados: se ignora el evento
+  }
+  return undefined
+}
+
+interface DecodedTransfer {
+  txHash: string
+  blockNumber: number
+  from: string
+  to: string
+  amount: bigint
+}
+
+/**
+ * Todas las páginas de starknet_getEvents para un filtro de keys sobre el contrato del token.
+ * Si no alcanzan MAX_EVENT_PAGES falla en vez de devolver una lista parcial: así quien llama no mueve su cursor.
+ */
+async function queryTransfers(
+  provider: RpcProvider,
+  token: TokenInfo,
+  keys: string[][],
+  fromBlock: number,
+  toBlock: number
+): Promise<DecodedTransfer[]> {
+  const transfers: DecodedTransfer[] = []
+  let continuationToken: string | undefined
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const chunk = await provider.getEvents({
+      address: token.address,
+      from_block: { block_number: fromBlock },
+      to_block: { block_number: toBlock },
+      keys,
+      chunk_size: EVENTS_CHUNK_SIZE,
+      ...(continuationToken ? { continuation_token: continuationToken } : {}),
+    })
+    for (const event of chunk.events) {
+      const transfer = decodeTransfer(event.keys, event.data)
+      // Los eventos de bloques pendientes no traen número y se toman en la siguiente pasada
+      if (!transfer || event.block_number === undefined) continue
+      transfers.push({ ...transfer, txHash: event.transaction_hash, blockNumber: event.block_number })
+    }
+    continuationToken = chunk.continuation_token
+    if (!continuationToken) return transfers
+  }
+  throw new Error(`More than ${MAX_EVENT_PAGES * EVENTS_CHUNK_SIZE} ${token.symbol} transfers between blocks ${fromBlock} and ${toBlock}`)
+}
+
+/** Índice de cada transfer entre los de su misma tx y `party` (from o to), en orden de emisión. */
+function withEventIndex(transfers: DecodedTransfer[], party: (t: DecodedTransfer) => string) {
+  const counters = new Map<string, number>()
+  return transfers.map((transfer) => {
+    const key = `${transfer.txHash}:${party(transfer)}`
+    const index = counters.get(key) ?? 0
+    counters.set(key, index + 1)
+    return { transfer, index }
+  })
+}
+
+function toTransferEvent(token: TokenInfo, transfer: DecodedTransfer, query: 'in' | 'out', index: number, holder: string): TransferEvent {
+  const isFrom = transfer.from === holder
+  const isTo = transfer.to === holder
+  return {
+    eventKey: `${transfer.txHash}:${token.address}:${query}:${index}`,
+    txHash: transfer.txHash,
+    blockNumber: transfer.blockNumber,
+    tokenAddress: token.address,
+    from: transfer.from,
+    to: transfer.to,
+    amount: transfer.amount.toString(),
+    direction: isFrom && isTo ? 'self' : isFrom ? 'out' : 'in',
+  }
+}
+
+/**
+ * Transfers de `token` hacia o desde `holder` entre dos bloques (inclusive).
+ * Se filtra por key en el nodo (una consulta por dirección) para no bajar todos los Transfer del token.
+ */
+export async function fetchTransferEvents(
+  provider: RpcProvider,
+  token: TokenInfo,
+  holder: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<TransferEvent[]> {
+  const address = normalizeTokenAddress(holder)
+  const outgoing = await queryTransfers(provider, token, [[TRANSFER_EVENT_KEY], [address]], fromBlock, toBlock)
+  const incoming = await queryTransfers(provider, token, [[TRANSFER_EVENT_KEY], [], [address]], fromBlock, toBlock)
+  return [
+    ...withEventIndex(outgoing, (t) => t.from).map(({ transfer, index }) => toTransferEvent(token, transfer, 'out', index, address)),
+    // Un envío a uno mismo aparece en ambas consultas; se queda el de salida
+    ...withEventIndex(incoming, (t) => t.to)
+      .filter(({ transfer }) => transfer.from !== address)
+      .map(({ transfer, index }) => toTransferEvent(token, transfer, 'in', index, address)),
+  ]
+}
+
+/**
+ * Depósitos de `token` a cualquiera de `recipients` en una sola consulta (la key "to" acepta varias direcciones).
+ * El eventKey coincide con el de fetchTransferEvents, así que historial y avisos deduplican igual.
+ */
+export async function fetchDepositEvents(
+  provider: RpcProvider,
+  token: TokenInfo,
+  recipients: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<TransferEvent[]> {
+  if (recipients.length === 0) return []
+  const addresses = recipients.map(normalizeTokenAddress)
+  const incoming = await queryTransfers(provider, token, [[TRANSFER_EVENT_KEY], [], addresses], fromBlock, toBlock)
+  return withEventIndex(incoming, (t) => t.to)
+    .filter(({ transfer }) => transfer.from !== transfer.to)
+    .map(({ transfer, index }) => toTransferEvent(token, transfer, 'in', index, transfer.to))
+}
+
+// ---- tabla local ----
+
+interface UserHistory {
+  entries: HistoryEntry[]
+  /** Último bloque ya indexado (inclusive) */
+  lastIndexedBlock?: number
+}
+
+const HISTORY_INDEX_KEY = 'tx-history:users'
+const historyKey = (entityId: string) => `tx-history:user:${entityId}`
+/** Se guardan los más recientes; lo más viejo se puede consultar en un explorador */
+export const MAX_HISTORY_ENTRIES = 500
+
+/** Historial por usuario, ordenado del más reciente al más antiguo, con escritura diferida al cache del agente. */
+export class TransactionHistoryStore {
+  private readonly histories = new Map<string, UserHistory>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const users = (await backend.getCache<string[]>(HISTORY_INDEX_KEY)) ?? []
+    let loaded = 0
+    for (const entityId of users) {
+      const stored = await backend.getCache<UserHistory>(historyKey(entityId))
+      if (!stored) continue
+      const current = this.histories.get(entityId)
+      this.histories.set(entityId, { entries: stored.entries, lastIndexedBlock: stored.lastIndexedBlock })
+      if (current) this.append(entityId, current.entries, current.lastIndexedBlock)
+      loaded += stored.entries.length
+    }
+    for (const entityId of this.histories.keys()) this.persist(entityId)
+    await this.flush()
+    logger.info({ users: users.length, loaded }, '[History] Store attached')
+    return { loaded }
+  }
+
+  list(entityId: string): HistoryEntry[] {
+    return [...(this.histories.get(entityId)?.entries ?? [])]
+  }
+
+  lastIndexedBlock(entityId: string): number | undefined {
+    return this.histories.get(entityId)?.lastIndexedBlock
+  }
+
+  /** Agrega movimientos nuevos (ignora los ya vistos por eventKey) y avanza el cursor. Devuelve los agregados. */
+  append(entityId: string, entries: HistoryEntry[], lastIndexedBlock?: number): HistoryEntry[] {
+    const history = this.histories.get(entityId) ?? { entries: [] }
+    const seen = new Set(history.entries.map((e) => e.eventKey))
+    const added = entries.filter((e) => !seen.has(e.eventKey) && seen.add(e.eventKey))
+    history.entries = [...history.entries, ...added]
+      .sort((a, b) => b.blockNumber - a.blockNumber || a.eventKey.localeCompare(b.eventKey))
+      .slice(0, MAX_HISTORY_ENTRIES)
+    if (lastIndexedBlock !== undefined) history.lastIndexedBlock = Math.max(history.lastIndexedBlock ?? lastIndexedBlock, lastIndexedBlock)
+    this.histories.set(entityId, history)
+    this.persist(entityId)
+    return added
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private persist(entityId: string): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const history = this.histories.get(entityId)
+    if (!history) return
+    const snapshot: UserHistory = { entries: history.entries.map((e) => ({ ...e })), lastIndexedBlock: history.lastIndexedBlock }
+    const users = [...this.histories.keys()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(historyKey(entityId), snapshot)
+        await backend.setCache(HISTORY_INDEX_KEY, users)
+      })
+      .catch((error) => {
+        logger.error({ entityId, error: error instanceof Error ? error.message : String(error) }, '[History] persist failed')
+      })
+  }
+}
+
+export const transactionHistoryStore = new TransactionHistoryStore()
+
+// ---- indexador ----
+
+/** Cuántos bloques hacia atrás se revisan la primera vez (ALCANCIA_HISTORY_LOOKBACK_BLOCKS). */
+export function historyLookbackBlocks(): number {
+  const configured = Number(process.env.ALCANCIA_HISTORY_LOOKBACK_BLOCKS)
+  return Number.isInteger(configured) && configured > 0 ? configured : 100_000
+}
+
+export interface IndexHistoryOptions {
+  provider: RpcProvider
+  tokens: TokenInfo[]
+  store?: TransactionHistoryStore
+  /** Rango máximo por corrida para no bloquear la respuesta en cuentas con mucha actividad */
+  maxBlocks?: number
+}
+
+/**
+ * Trae los Transfer nuevos desde el último bloque indexado hacia el último aceptado.
+ * Un token que falla no detiene a los demás, pero entonces el cursor no avanza (se reintenta la próxima vez).
+ */
+export async function indexTransfers(
+  entityId: string,
+  holder: string,
+  { provider, tokens, store = transactionHistoryStore, maxBlocks = historyLookbackBlocks() }: IndexHistoryOptions
+): Promise<HistoryEntry[]> {
+  const latest = await provider.getBlockNumber()
+  const last = store.lastIndexedBlock(entityId)
+  const fromBlock = last !== undefined ? last + 1 : Math.max(0, latest - historyLookbackBlocks() + 1)
+  if (fromBlock > latest) return []
+  // Si quedó muy atrás se pone al corriente en varias corridas
+  const toBlock = Math.min(latest, fromBlock + maxBlocks - 1)
+
+  const entries: HistoryEntry[] = []
+  let complete = true
+  for (const token of tokens) {
+    try {
+      const events = await fetchTransferEvents(provider, token, holder, fromBlock, toBlock)
+      entries.push(...events.map((event) => ({ ...event, tokenSymbol: token.symbol, decimals: token.decimals })))
+    } catch (error) {
+      complete = false
+      logger.error({ token: token.symbol, error: error instanceof Error ? error.message : String(error) }, '[History] indexing failed')
+    }
+  }
+
+  const timestamps = new Map<number, number | undefined>()
+  for (const blockNumber of new Set(entries.map((e) => e.blockNumber))) {
+    timestamps.set(blockNumber, await readBlockTimestampMs(provider, blockNumber))
+  }
+  for (const entry of entries) entry.timestampMs = timestamps.get(entry.blockNumber)
+
+  return store.append(entityId, entries, complete ? toBlock : undefined)
+}
+
+export async function readBlockTimestampMs(provider: RpcProvider, blockNumber: number): Promise<number | undefined> {
+  try {
+    const block = await provider.getBlockWithTxHashes(blockNumber)
+    return typeof block.timestamp === 'number' ? block.timestamp * 1000 : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ---- presentación ----
+
+export const HISTORY_PAGE_SIZE = 10
+
+export interface HistoryPage {
+  entries: HistoryEntry[]
+  page: number
+  totalPages: number
+}
+
+/** Páginas de 1 en adelante; una página fuera de rango regresa la última. */
+export function paginateHistory(entries: HistoryEntry[], page: number, pageSize = HISTORY_PAGE_SIZE): HistoryPage {
+  const totalPages = Math.max(1, Math.ceil(entries.length / pageSize))
+  const current = Math.min(Math.max(1, page), totalPages)
+  return { entries: entries.slice((current - 1) * pageSize, current * pageSize), page: current, totalPages }
+}
+
+export function shortAddress(address: string): string {
+  const hex = BigInt(address).toString(16)
+  return hex.length <= 10 ? `0x${hex}` : `0x${hex.slice(0, 4)}…${hex.slice(-4)}`
+}
+
+/** "Recibiste 5 USDC de 0x53c9…68a8" (o "de maria.stark" si `names` tiene su dominio). */
+export function describeHistoryEntry(entry: HistoryEntry, names: Map<string, string> = new Map()): string {
+  const amount = entry.decimals !== undefined ? formatUnits(BigInt(entry.amount), entry.decimals) : `${entry.amount} (unidades base)`
+  const counterpart = (address: string) => names.get(address) ?? shortAddress(address)
+  switch (entry.direction) {
+    case 'in':
+      return `Recibiste ${amount} ${entry.tokenSymbol} de ${counterpart(entry.from)}`
+    case 'out':
+      return `Enviaste ${amount} ${entry.tokenSymbol} a ${counterpart(entry.to)}`
+    case 'self':
+      return `Te enviaste ${amount} ${entry.tokenSymbol} a ti mismo`
+  }
+}
+
+const HISTORY_PAGE_RE = /\bpagina (\d{1,3})\b/
+const HISTORY_MORE_RE = /\b(mas|siguientes?|anteriores|older|more|next)\b/
+
+/** Página que pide el mensaje: "página 2" explícita, "más movimientos" la siguiente a la última vista, o la primera. */
+export function requestedHistoryPage(normalizedText: string, lastShownPage?: number): number {
+  const explicit = HISTORY_PAGE_RE.exec(normalizedText)
+  if (explicit) return Number(explicit[1])
+  if (HISTORY_MORE_RE.test(normalizedText) && lastShownPage !== undefined) return lastShownPage + 1
+  return 1
+}
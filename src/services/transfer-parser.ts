@@ -0,0 +1,384 @@
+import { normalizeIntentText } from './intent-classifier.ts'
+import { findTypedAddress, validateStarknetAddress } from './address-validation.ts'
+import { builtinTokens, formatUnits, parseUnits, type TokenInfo } from './token-registry.ts'
+import type { FiatCurrency, OracleQuote } from './price-oracle.ts'
+
+export type TransferRecipient =
+  /** `label` es cómo lo nombró el usuario (@usuario o contacto) si no escribió la dirección */
+  | { kind: 'address'; address: string; label?: string }
+  | { kind: 'username'; username: string }
+  | { kind: 'domain'; domain: string }
+  | { kind: 'contact'; name: string }
+
+/** Convierte @usuario, contacto o dominio en dirección; si no puede, explica por qué. */
+export interface RecipientResolver {
+  /** Nombres de los contactos del usuario, normalizados ("mama", "tio juan") */
+  contactNames: string[]
+  resolve(recipient: Exclude<TransferRecipient, { kind: 'address' }>): { address: string; label: string } | { problem: string }
+}
+
+/** Transferencia lista para ejecutarse: monto en unidades base del token. */
+export interface TransferIntent {
+  amount: bigint
+  token: TokenInfo & { decimals: number }
+  recipient: TransferRecipient & { kind: 'address' }
+  /** Si se pidió en pesos/dólares: lo que dijo el usuario y el precio con que se convirtió */
+  fiat?: { amountText: string; quote: OracleQuote }
+}
+
+/** Lo que llevamos entendido de una transferencia a medio pedir. */
+export interface TransferDraft {
+  /** Monto decimal tal como lo dijo el usuario ("0.01", "100") */
+  amountText?: string
+  /** Si el usuario habló en dinero ("cien pesos"), el monto está en esta moneda y no en tokens */
+  fiat?: FiatCurrency
+  tokenSymbol?: string
+  recipient?: TransferRecipient
+}
+
+export type TransferSlot = 'amount' | 'token' | 'recipient'
+
+export type TransferParseResult =
+  | { status: 'complete'; intent: TransferIntent; draft: TransferDraft }
+  | { status: 'incomplete'; draft: TransferDraft; missing: TransferSlot[]; problems: string[]; question: string }
+  | { status: 'cancelled' }
+
+// ---- números ----
+
+const NUMBER_WORDS: Record<string, number> = {
+  cero: 0, un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+  diez: 10, once: 11, doce: 12, trece: 13, catorce: 14, quince: 15, dieciseis: 16, diecisiete: 17, dieciocho: 18, diecinueve: 19,
+  veinte: 20, veintiun: 21, veintiuno: 21, veintidos: 22, veintitres: 23, veinticuatro: 24, veinticinco: 25,
+  veintiseis: 26, veintisiete: 27, veintiocho: 28, veintinueve: 29,
+  treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60, setenta: 70, ochenta: 80, noventa: 90,
+  cien: 100, ciento: 100, doscientos: 200, doscientas: 200, trescientos: 300, trescientas: 300,
+  cuatrocientos: 400, cuatrocientas: 400, quinientos: 500, quinientas: 500, seiscientos: 600, seiscientas: 600,
+  setecientos: 700, setecientas: 700, ochocientos: 800, ochocientas: 800, novecientos: 900, novecientas: 900,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twenty: 20, fifty: 50, hundred: 100,
+}
+
+/** "doscientos cincuenta" → 250, "dos mil" → 2000, "treinta y cinco" → 35 */
+export function parseNumberWords(words: string[]): number | undefined {
+  let total = 0
+  let current = 0
+  let seen = false
+  for (const word of words) {
+    if (word === 'y' || word === 'and') continue
+    if (word === 'mil' || word === 'thousand') {
+      total += (current || 1) * 1000
+      current = 0
+      seen = true
+      continue
+    }
+    if (word === 'hundred' && current > 0) {
+      current *= 100
+      continue
+    }
+    const value = NUMBER_WORDS[word]
+    if (value === undefined) return seen ? total + current : undefined
+    current += value
+    seen = true
+  }
+  return seen ? total + current : undefined
+}
+
+/**
+ * Acepta "0.01", "0,01", "5,000", "1,000.50" y "1 000". Devuelve el decimal normalizado con punto,
+ * o `ambiguous` cuando la coma puede ser de miles o decimal ("1,234") y hay que preguntar.
+ */
+function normalizeDecimal(raw: string): { value?: string; ambiguous?: boolean } {
+  let value = raw.replace(/\s/g, '')
+  if (value.includes('.') && value.includes(',')) value = value.replace(/,/g, '')
+  // "0,010" y "0,5" son decimales: nadie escribe miles después de un cero
+  else if (/^0,\d+$/.test(value)) value = value.replace(',', '.')
+  // En México la coma separa miles ("5,000", "1,250,000")
+  else if (/^\d{1,3}(,\d{3}){2,}$/.test(value) || /^\d{1,3},000$/.test(value)) value = value.replace(/,/g, '')
+  else if (/^\d{1,3},\d{3}$/.test(value)) return { ambiguous: true }
+  else if (value.includes(',')) value = value.replace(',', '.')
+  return /^\d+(\.\d+)?$/.test(value) ? { value } : {}
+}
+
+// ---- slots ----
+
+const FIAT_WORDS: Record<string, FiatCurrency> = {
+  peso: 'MXN', pesos: 'MXN', mxn: 'MXN', varos: 'MXN', baros: 'MXN',
+  dolar: 'USD', dolares: 'USD', usd: 'USD', dollar: 'USD', dollars: 'USD',
+}
+
+const ADDRESS_RE = /\b0x[0-9a-f]+\b/
+const USERNAME_RE = /@([a-z0-9_]{3,32})\b/
+const DOMAIN_RE = /\b([a-z0-9-]+(?:\.[a-z0-9-]+)*\.stark)\b/
+
+const CANCEL_RE = /^(cancela|cancelar|cancel|olvidalo|olvida|ya no|nada|no)$/
+const VERB_RE = /\b(envia|enviar|enviale|envie|manda|mandar|mandale|transfiere|transferir|transfer|send|paga|pagar|pagale|pay)\b/g
+
+/** Dominio .stark del mensaje ("maria.stark"), para resolverlo antes de interpretar el envío. */
+export function findStarkDomain(rawText: string): string | undefined {
+  return DOMAIN_RE.exec(normalizeIntentText(rawText))?.[1]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function extractRecipient(
+  text: string,
+  rawText: string,
+  contactNames: string[] = []
+): { recipient?: TransferRecipient; problem?: string; rest: string } {
+  const address = ADDRESS_RE.exec(text)
+  if (address) {
+    const rest = text.replace(address[0], ' ')
+    // Se valida como se escribió: las mayúsculas pueden ser el checksum
+    const validation = validateStarknetAddress(findTypedAddress(rawText) ?? address[0])
+    if (!validation.valid) return { problem: validation.reason, rest }
+    return { recipient: { kind: 'address', address: validation.address }, rest }
+  }
+  const username = USERNAME_RE.exec(text)
+  if (username) return { recipient: { kind: 'username', username: username[1] }, rest: text.replace(username[0], ' ') }
+  const domain = DOMAIN_RE.exec(text)
+  if (domain) return { recipient: { kind: 'domain', domain: domain[1] }, rest: text.replace(domain[0], ' ') }
+  const contact = findContactName(text, contactNames)
+  if (contact) return { recipient: { kind: 'contact', name: contact.name }, rest: text.replace(contact.match, ' ') }
+  return { rest: text }
+}
+
+/** Primer nombre de `names` (ya normalizados) que aparece como palabra(s) completa(s) en `text`. */
+export function findContactName(text: string, names: string[]): { name: string; match: string } | undefined {
+  // El nombre más largo primero: "tio juan" antes que "juan"
+  for (const name of [...names].sort((a, b) => b.length - a.length)) {
+    const match = new RegExp(`(^|\\s)${escapeRegExp(name)}(?=\\s|$)`).exec(text)
+    if (match) return { name, match: match[0] }
+  }
+  return undefined
+}
+
+export interface AmountSlot {
+  amountText?: string
+  fiat?: FiatCurrency
+  tokenSymbol?: string
+  problem?: string
+}
+
+/** Primer monto de la frase ("0.5 ETH", "cien pesos", "5 mil") y la moneda o token que lo sigue. */
+export function extractAmount(words: string[], tokens: TokenInfo[] = builtinTokens()): AmountSlot {
+  for (let i = 0; i < words.length; i++) {
+    let amountText: string | undefined
+    let consumed = 1
+    if (/^\d/.test(words[i])) {
+      const normalized = normalizeDecimal(words[i])
+      if (normalized.ambiguous) {
+        const [whole, fraction] = words[i].split(',')
+        return { problem: `No sé si "${words[i]}" es ${whole}${fraction} o ${whole}.${fraction}; escríbelo sin coma o con punto decimal.` }
+      }
+      amountText = normalized.value
+      if (!amountText) return { problem: `No entendí el monto "${words[i]}".` }
+      if (words[i + 1] === 'mil' || words[i + 1] === 'k') {
+        amountText = formatUnits(parseUnits(amountText, 18) * 1000n, 18)
+        consumed = 2
+      }
+    } else if (words[i] === 'medio') {
+      amountText = '0.5'
+    } else {
+      let j = i
+      while (j < words.length && (NUMBER_WORDS[words[j]] !== undefined || ['mil', 'thousand', 'hundred', 'y', 'and'].includes(words[j]))) j++
+      const value = j > i ? parseNumberWords(words.slice(i, j)) : undefined
+      if (value === undefined) continue
+      amountText = String(value)
+      consumed = j - i
+    }
+
+    const next = words[i + consumed]
+    // "un"/"una" sueltos son artículos ("para un viaje"), no montos, salvo "un ETH", "un peso"
+    const isArticle = consumed === 1 && ['un', 'una'].includes(words[i])
+    if (isArticle && !(next && (FIAT_WORDS[next] || findToken(tokens, next)))) continue
+    const result: AmountSlot = { amountText }
+    if (next && FIAT_WORDS[next]) result.fiat = FIAT_WORDS[next]
+    else if (next && findToken(tokens, next)) result.tokenSymbol = next.toUpperCase()
+    return result
+  }
+  return {}
+}
+
+function findToken(tokens: TokenInfo[], symbol: string): TokenInfo | undefined {
+  const wanted = symbol.toUpperCase()
+  return tokens.find((token) => token.symbol.toUpperCase() === wanted)
+}
+
+function extractToken(words: string[], tokens: TokenInfo[]): string | undefined {
+  return words.map((w) => w.toUpperCase()).find((w) => findToken(tokens, w))
+}
+
+/**
+ * Interpreta un mensaje (o la respuesta a una pregunta de seguimiento) y lo combina con lo que
+ * ya sabíamos. Solo devuelve 'complete' cuando monto, token y destinatario son válidos.
+ * `tokens` es lo que el usuario puede enviar (tokenRegistry.list(entityId)); sin `resolver`
+ * solo se aceptan direcciones 0x…. Un monto en pesos/dólares solo se convierte con `fiatQuote`
+ * del token y la moneda pedidos, y solo si el precio no está desactualizado.
+ */
+export function parseTransferRequest(
+  rawText: string,
+  previous: TransferDraft = {},
+  tokens: TokenInfo[] = builtinTokens(),
+  resolver?: RecipientResolver,
+  fiatQuote?: OracleQuote
+): TransferParseResult {
+  const text = normalizeIntentText(rawText)
+  if (CANCEL_RE.test(text)) return { status: 'cancelled' }
+
+  const problems: string[] = []
+  const draft: TransferDraft = { ...previous }
+
+  const { recipient, problem: recipientProblem, rest } = extractRecipient(text, rawText, resolver?.contactNames)
+  if (recipient) draft.recipient = recipient
+  if (recipientProblem) {
+    problems.push(recipientProblem)
+    delete draft.recipient
+  }
+
+  const words = rest.replace(VERB_RE, ' ').split(/[\s]+/).filter(Boolean)
+  const amount = extractAmount(words, tokens)
+  if (amount.problem) problems.push(amount.problem)
+  if (amount.amountText) {
+    draft.amountText = amount.amountText
+    if (amount.fiat) draft.fiat = amount.fiat
+    else delete draft.fiat
+  }
+  const tokenSymbol = amount.tokenSymbol ?? extractToken(words, tokens)
+  if (tokenSymbol) draft.tokenSymbol = tokenSymbol
+
+  return resolveDraft(draft, problems, tokens, resolver, fiatQuote)
+}
+
+function recipientName(recipient: Exclude<TransferRecipient, { kind: 'address' }>): string {
+  if (recipient.kind === 'username') return `@${recipient.username}`
+  return recipient.kind === 'domain' ? recipient.domain : recipient.name
+}
+
+/** Unidades base que valen `amountText` (en la moneda de `price`) a ese precio por token, redondeando hacia abajo. */
+function fiatToUnits(amountText: string, price: number, decimals: number): bigint {
+  const scaledPrice = BigInt(Math.round(price * 1e8))
+  if (scaledPrice <= 0n) return 0n
+  return (parseUnits(amountText, 18) * 10n ** BigInt(decimals) * 10n ** 8n) / (scaledPrice * 10n ** 18n)
+}
+
+function resolveDraft(
+  draft: TransferDraft,
+  problems: string[],
+  tokens: TokenInfo[],
+  resolver?: RecipientResolver,
+  fiatQuote?: OracleQuote
+): TransferParseResult {
+  const missing: TransferSlot[] = []
+  const found = draft.tokenSymbol ? findToken(tokens, draft.tokenSymbol) : undefined
+  // Sin decimales conocidos no podemos convertir el monto a unidades base
+  const token = found?.decimals !== undefined ? { ...found, decimals: found.decimals } : undefined
+  if (found && !token) problems.push(`Todavía no conozco los decimales de ${found.symbol}; intenta de nuevo en un momento.`)
+  if (!token) missing.push('token')
+
+  let amount: bigint | undefined
+  let fiat: TransferIntent['fiat']
+  if (!draft.amountText) missing.push('amount')
+  else if (draft.fiat && token) {
+    const quote =
+      fiatQuote && !fiatQuote.stale && fiatQuote.symbol === token.symbol.toUpperCase() && fiatQuote.currency === draft.fiat ? fiatQuote : undefined
+    if (!quote) {
+      // Sin un precio reciente no adivinamos: se pide el monto en tokens
+      problems.push(`No tengo un precio reciente de ${token.symbol} en ${draft.fiat} para convertir ${draft.amountText} ${draft.fiat}.`)
+      missing.push('amount')
+    } else {
+      amount = fiatToUnits(draft.amountText, quote.price, token.decimals)
+      fiat = { amountText: draft.amountText, quote }
+      if (amount === 0n) {
+        problems.push(`${draft.amountText} ${draft.fiat} es muy poco para enviar en ${token.symbol}.`)
+        delete draft.amountText
+        delete draft.fiat
+        missing.push('amount')
+      }
+    }
+  } else if (token) {
+    try {
+      amount = parseUnits(draft.amountText, token.decimals)
+    } catch {
+      problems.push(`${token.symbol} acepta máximo ${token.decimals} decimales.`)
+    }
+    if (amount === 0n) problems.push('El monto debe ser mayor a cero.')
+    if (amount === undefined || amount === 0n) {
+      delete draft.amountText
+      missing.push('amount')
+    }
+  }
+
+  if (draft.recipient && draft.recipient.kind !== 'address') {
+    const resolved = resolver?.resolve(draft.recipient) ?? { problem: `Todavía no puedo encontrar la alcancía de ${recipientName(draft.recipient)}.` }
+    if ('address' in resolved) draft.recipient = { kind: 'address', address: resolved.address, label: resolved.label }
+    else {
+      problems.push(resolved.problem)
+      delete draft.recipient
+    }
+  }
+  if (!draft.recipient) missing.push('recipient')
+
+  if (missing.length === 0 && token && amount && draft.recipient?.kind === 'address')
+    return { status: 'complete', intent: { amount, token, recipient: draft.recipient, ...(fiat ? { fiat } : {}) }, draft }
+
+  return { status: 'incomplete', draft, missing, problems, question: buildFollowUpQuestion(draft, missing, problems, tokens) }
+}
+
+const QUESTIONS: Record<Exclude<TransferSlot, 'token'>, string> = {
+  amount: '¿Cuánto quieres enviar?',
+  recipient: '¿A quién se lo envío? Compárteme la dirección 0x… de la alcancía destino, su @usuario o el nombre de un contacto.',
+}
+
+function buildFollowUpQuestion(draft: TransferDraft, missing: TransferSlot[], problems: string[], tokens: TokenInfo[]): string {
+  const parts = [...problems]
+  const first = missing[0]
+  if (first === 'token') parts.push(`¿Qué token quieres enviar? (${tokens.map((token) => token.symbol).join(', ')})`)
+  else if (first === 'amount' && draft.fiat && draft.tokenSymbol) parts.push(`¿Cuántos ${draft.tokenSymbol} quieres enviar?`)
+  else if (first) parts.push(QUESTIONS[first])
+  parts.push('(Escribe "cancelar" para no enviar nada.)')
+  return parts.join(' ')
+}
+
+/** "mamá (0x…)" si el destino tiene nombre; si no, la dirección. */
+export function describeRecipient(recipient: TransferIntent['recipient']): string {
+  return recipient.label ? `${recipient.label} (${recipient.address})` : recipient.address
+}
+
+export function describeTransfer(intent: TransferIntent): string {
+  return `${formatUnits(intent.amount, intent.token.decimals)} ${intent.token.symbol} a ${describeRecipient(intent.recipient)}`
+}
+
+// ---- diálogo pendiente por usuario y sala ----
+
+const DRAFT_TTL_MS = 5 * 60 * 1000
+
+interface PendingDraft {
+  draft: TransferDraft
+  expiresAt: number
+}
+
+const pendingDrafts = new Map<string, PendingDraft>()
+
+export function transferDraftKey(roomId: string | undefined, entityId: string): string {
+  return `${roomId ?? 'dm'}:${entityId}`
+}
+
+export function getTransferDraft(key: string, now = Date.now()): TransferDraft | undefined {
+  const pending = pendingDrafts.get(key)
+  if (!pending) return undefined
+  if (pending.expiresAt <= now) {
+    pendingDrafts.delete(key)
+    return undefined
+  }
+  return pending.draft
+}
+
+export function saveTransferDraft(key: string, draft: TransferDraft, now = Date.now()): void {
+  pendingDrafts.set(key, { draft, expiresAt: now + DRAFT_TTL_MS })
+}
+
+export function clearTransferDraft(key: string): void {
+  pendingDrafts.delete(key)
+}
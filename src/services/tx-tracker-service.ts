@@ -0,0 +1,62 @@
+import { type IAgentRuntime, Service, logger } from '@elizaos/core'
+import { TxTracker, describeTxOutcome, trackedTransactions } from './tx-tracker.ts'
+import { sendNotification } from './notification-targets.ts'
+import { createStarknetProvider } from './telegram-starknet.ts'
+import { settleTokenLaunch } from './token-launcher.ts'
+
+/**
+ * Sigue las transacciones que envía el agente (transferencias y despliegues) y avisa en el chat
+ * donde se pidieron cuando se confirman o fallan. Sin STARKNET_RPC_URL solo se guardan los hashes.
+ */
+export class TxTrackerService extends Service {
+  static serviceType = 'tx-tracker'
+  capabilityDescription = 'Da seguimiento a las transacciones enviadas y avisa al usuario si se confirmaron o revirtieron.'
+
+  private tracker?: TxTracker
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime)
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting transaction tracker service ***')
+    const service = new TxTrackerService(runtime)
+    await trackedTransactions.attach(runtime)
+    const provider = createStarknetProvider()
+    if (!provider) {
+      logger.warn('[TxTracker] STARKNET_RPC_URL not set; transaction follow-up disabled')
+      return service
+    }
+    service.tracker = new TxTracker(provider, async (tx) => {
+      // Un token lanzado se registra al confirmarse; su dirección va en el mismo aviso
+      const launch =
+        tx.action === 'deploy_token'
+          ? await settleTokenLaunch(tx.txHash, tx.status === 'reverted' || tx.status === 'rejected' ? 'failed' : 'confirmed', provider)
+          : undefined
+      const text = describeTxOutcome(tx)
+      if (!text) return
+      let launchLine = ''
+      if (launch?.tokenAddress) launchLine = `\nDirección del token ${launch.symbol}: ${launch.tokenAddress}`
+      else if (launch?.status === 'failed' && tx.status.startsWith('accepted'))
+        launchLine = `\nNo encontré el token ${launch.symbol} en la transacción; revisa el hash en un explorador.`
+      await sendNotification(runtime, tx.entityId, tx.target, `${text}${launchLine}`)
+    })
+    service.tracker.start()
+    return service
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    const service = runtime.getService(TxTrackerService.serviceType)
+    if (!service) {
+      throw new Error('Transaction tracker service not found')
+    }
+    await service.stop()
+  }
+
+  async stop() {
+    this.tracker?.stop()
+    await this.tracker?.idle()
+    await trackedTransactions.flush()
+    logger.info('*** Stopped transaction tracker service ***')
+  }
+}
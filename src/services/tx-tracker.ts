@@ -0,0 +1,361 @@
+import { logger } from '@elizaos/core'
+import { RpcError, type RpcProvider } from 'starknet'
+import type { CacheBackend } from './storage.ts'
+import type { NotificationTarget } from './notification-targets.ts'
+import { systemClock, type SchedulerClock } from './reminders.ts'
+
+/**
+ * pending: enviada, aún sin bloque · accepted_l2: incluida en un bloque de Starknet ·
+ * accepted_l1: el bloque ya se probó en Ethereum · reverted: se incluyó pero falló (cobra comisión) ·
+ * rejected: la red nunca la aceptó (no cobra nada)
+ */
+export type TrackedTxStatus = 'pending' | 'accepted_l2' | 'accepted_l1' | 'reverted' | 'rejected'
+
+export type TrackedTxAction = 'transfer' | 'deploy_account' | 'deploy_token'
+
+export interface TrackedTx {
+  txHash: string
+  entityId: string
+  action: TrackedTxAction
+  /** "0.01 ETH a 0x…"; se usa en el aviso */
+  description?: string
+  /** Chat donde se pidió la operación; ahí llega el aviso */
+  target: NotificationTarget
+  status: TrackedTxStatus
+  revertReason?: string
+  submittedAtMs: number
+  updatedAtMs: number
+  lastCheckedMs?: number
+  /** true cuando ya se avisó el resultado */
+  notified?: boolean
+}
+
+export type TxStatusNotifier = (tx: TrackedTx) => Promise<void>
+
+const TRACKED_KEY = 'tx-tracker:txs'
+/** Se conservan las terminadas más recientes para poder consultarlas; las pendientes nunca se descartan */
+const MAX_FINISHED_TXS = 200
+
+const FINAL_STATUSES: TrackedTxStatus[] = ['accepted_l1', 'reverted', 'rejected']
+
+export function isFinalTxStatus(status: TrackedTxStatus): boolean {
+  return FINAL_STATUSES.includes(status)
+}
+
+export function normalizeTxHash(txHash: string): string {
+  return '0x' + BigInt(txHash).toString(16)
+}
+
+/** Transacciones enviadas por el agente, con escritura diferida al cache del agente. */
+export class TrackedTxStore {
+  private readonly txs = new Map<string, TrackedTx>()
+  private backend?: CacheBackend
+  private writes: Promise<void> = Promise.resolve()
+  private readonly listeners = new Set<() => void>()
+
+  async attach(backend: CacheBackend): Promise<{ loaded: number }> {
+    this.backend = backend
+    const stored = (await backend.getCache<TrackedTx[]>(TRACKED_KEY)) ?? []
+    for (const tx of stored) {
+      if (!this.txs.has(tx.txHash)) this.txs.set(tx.txHash, tx)
+    }
+    this.persist()
+    await this.flush()
+    logger.info({ loaded: stored.length, pending: this.unsettled().length }, '[TxTracker] Store attached')
+    return { loaded: stored.length }
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  get(txHash: string): TrackedTx | undefined {
+    const tx = this.txs.get(normalizeTxHash(txHash))
+    return tx ? { ...tx } : undefined
+  }
+
+  /** Las del usuario, de la más reciente a la más antigua. */
+  list(entityId: string): TrackedTx[] {
+    return [...this.txs.values()].filter((tx) => tx.entityId === entityId).sort((a, b) => b.submittedAtMs - a.submittedAtMs)
+  }
+
+  /** Las que todavía pueden cambiar de estado. */
+  unsettled(): TrackedTx[] {
+    return [...this.txs.values()].filter((tx) => !isFinalTxStatus(tx.status))
+  }
+
+  /** Lo que falta por revisar o avisar: las que pueden cambiar y las terminadas sin aviso enviado. */
+  awaitingFollowUp(): TrackedTx[] {
+    return [...this.txs.values()].filter((tx) => !isFinalTxStatus(tx.status) || tx.notified !== true)
+  }
+
+  /** Registra un hash recién enviado; si ya se seguía, lo deja como estaba. */
+  track(
+    input: { txHash: string; entityId: string; action: TrackedTxAction; description?: string; target: NotificationTarget },
+    nowMs = Date.now()
+  ): TrackedTx {
+    const txHash = normalizeTxHash(input.txHash)
+    const existing = this.txs.get(txHash)
+    if (existing) return { ...existing }
+    const tx: TrackedTx = { ...input, txHash, status: 'pending', submittedAtMs: nowMs, updatedAtMs: nowMs }
+    this.txs.set(txHash, tx)
+    this.prune()
+    this.persist()
+    this.emit()
+    return { ...tx }
+  }
+
+  update(txHash: string, changes: Partial<Omit<TrackedTx, 'txHash' | 'entityId'>>): TrackedTx | undefined {
+    const current = this.txs.get(normalizeTxHash(txHash))
+    if (!current) return undefined
+    const updated = { ...current, ...changes }
+    this.txs.set(current.txHash, updated)
+    this.persist()
+    return { ...updated }
+  }
+
+  flush(): Promise<void> {
+    return this.writes
+  }
+
+  private prune(): void {
+    const finished = [...this.txs.values()].filter((tx) => isFinalTxStatus(tx.status)).sort((a, b) => b.updatedAtMs - a.updatedAtMs)
+    for (const tx of finished.slice(MAX_FINISHED_TXS)) this.txs.delete(tx.txHash)
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) listener()
+  }
+
+  private persist(): void {
+    if (!this.backend) return
+    const backend = this.backend
+    const snapshot = [...this.txs.values()]
+    this.writes = this.writes
+      .then(async () => {
+        await backend.setCache(TRACKED_KEY, snapshot)
+      })
+      .catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[TxTracker] persist failed')
+      })
+  }
+}
+
+export const trackedTransactions = new TrackedTxStore()
+
+// ---- consulta a la red ----
+
+export interface ObservedTxStatus {
+  /** undefined: el nodo aún no la conoce */
+  status?: TrackedTxStatus
+  revertReason?: string
+}
+
+const TXN_HASH_NOT_FOUND_CODE = 29
+
+/** Si el nodo respondió que no conoce el hash; igual que isContractNotFound, por código y no por texto. */
+function isNotFound(error: unknown): boolean {
+  if (error instanceof RpcError) return error.isType('TXN_HASH_NOT_FOUND')
+  if (typeof error !== 'object' || error === null) return false
+  const { code, baseError } = error as { code?: unknown; baseError?: { code?: unknown } }
+  return code === TXN_HASH_NOT_FOUND_CODE || baseError?.code === TXN_HASH_NOT_FOUND_CODE
+}
+
+/** Estado actual según starknet_getTransactionStatus (lo mismo que consulta waitForTransaction). */
+export async function readTxStatus(provider: RpcProvider, txHash: string): Promise<ObservedTxStatus> {
+  let result: { finality_status?: string; execution_status?: string }
+  try {
+    result = await provider.getTransactionStatus(txHash)
+  } catch (error) {
+    if (isNotFound(error)) return {}
+    throw error
+  }
+  const finality = result.finality_status
+  if (finality === 'REJECTED') return { status: 'rejected' }
+  if (finality !== 'ACCEPTED_ON_L2' && finality !== 'ACCEPTED_ON_L1') return finality === 'NOT_RECEIVED' ? {} : { status: 'pending' }
+  if (result.execution_status === 'REVERTED') {
+    const receipt = (await provider.getTransactionReceipt(txHash).catch(() => undefined)) as { revert_reason?: string } | undefined
+    return { status: 'reverted', revertReason: receipt?.revert_reason }
+  }
+  return { status: finality === 'ACCEPTED_ON_L1' ? 'accepted_l1' : 'accepted_l2' }
+}
+
+// ---- avisos ----
+
+const ACTION_LABELS: Record<TrackedTxAction, string> = {
+  transfer: 'La transferencia',
+  deploy_account: 'El despliegue de tu alcancía',
+  deploy_token: 'El despliegue de tu token',
+}
+
+/** El motivo que devuelve el nodo es largo y técnico; se deja la parte legible. */
+export function summarizeRevertReason(reason?: string): string {
+  if (!reason) return 'la red no dio el motivo'
+  const readable = /Failure reason: (?:0x[0-9a-f]+ )?\('([^']+)'\)/i.exec(reason)?.[1] ?? /'([^']{4,})'/.exec(reason)?.[1]
+  if (readable) return readable
+  const firstLine = reason.split('\n').find((line) => line.trim()) ?? reason
+  return firstLine.length > 160 ? `${firstLine.slice(0, 157)}…` : firstLine
+}
+
+/** Texto del aviso para el estado actual; undefined si ese estado no se avisa. */
+export function describeTxOutcome(tx: TrackedTx): string | undefined {
+  const what = tx.description ? `${ACTION_LABELS[tx.action]} de ${tx.description}` : ACTION_LABELS[tx.action]
+  const hashLine = `Tx: ${tx.txHash}`
+  switch (tx.status) {
+    case 'accepted_l2':
+    case 'accepted_l1':
+      return `${what} se confirmó en Starknet.\n${hashLine}`
+    case 'reverted':
+      return `${what} falló en la red: ${summarizeRevertReason(tx.revertReason)}. No se movieron tus fondos, pero sí se cobró la comisión.\n${hashLine}`
+    case 'rejected':
+      return `${what} no entró a la red (no se cobró nada). Puedes intentarlo de nuevo.\n${hashLine}`
+    default:
+      return undefined
+  }
+}
+
+// ---- seguimiento en segundo plano ----
+
+export interface TxTrackerOptions {
+  clock?: SchedulerClock
+  store?: TrackedTxStore
+  /** Cada cuánto revisar las pendientes (ALCANCIA_TX_POLL_MS) */
+  pollIntervalMs?: number
+  /** Las ya confirmadas en L2 se revisan con menos frecuencia hasta llegar a L1 */
+  l1PollIntervalMs?: number
+  /** Si el nodo no conoce el hash tras este tiempo, se da por rechazada */
+  maxUnseenMs?: number
+  /** Tras este tiempo se deja de esperar la prueba en L1 (el aviso ya se mandó) */
+  maxL1WaitMs?: number
+}
+
+export function txPollIntervalMs(): number {
+  const raw = process.env.ALCANCIA_TX_POLL_MS?.trim()
+  const configured = raw ? Number(raw) : Number.NaN
+  return Number.isFinite(configured) && configured > 0 ? configured : 10_000
+}
+
+/**
+ * Revisa las transacciones pendientes y avisa una sola vez: al confirmarse en L2 (para el usuario ya es
+ * definitiva; la prueba en L1 tarda horas y solo actualiza el estado) o al revertir/rechazarse.
+ * Si el aviso falla se reintenta en la siguiente pasada.
+ */
+export class TxTracker {
+  private readonly clock: SchedulerClock
+  private readonly store: TrackedTxStore
+  private readonly pollIntervalMs: number
+  private readonly l1PollIntervalMs: number
+  private readonly maxUnseenMs: number
+  private readonly maxL1WaitMs: number
+  private timer?: unknown
+  private unsubscribe?: () => void
+  private running = false
+  private polling: Promise<number> = Promise.resolve(0)
+
+  constructor(
+    private readonly provider: RpcProvider,
+    private readonly notify: TxStatusNotifier,
+    options: TxTrackerOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.store = options.store ?? trackedTransactions
+    this.pollIntervalMs = options.pollIntervalMs ?? txPollIntervalMs()
+    this.l1PollIntervalMs = options.l1PollIntervalMs ?? 10 * 60_000
+    this.maxUnseenMs = options.maxUnseenMs ?? 30 * 60_000
+    this.maxL1WaitMs = options.maxL1WaitMs ?? 24 * 60 * 60_000
+  }
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    // Una transacción nueva se revisa en la próxima vuelta; si no había timer, se arma
+    this.unsubscribe ??= this.store.onChange(() => {
+      if (this.timer === undefined && this.running) this.schedule(this.pollIntervalMs)
+    })
+    this.schedule(0)
+  }
+
+  stop(): void {
+    this.running = false
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+    if (this.timer !== undefined) this.clock.clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  idle(): Promise<number> {
+    return this.polling
+  }
+
+  /** Una pasada: devuelve cuántos avisos se mandaron. */
+  poll(): Promise<number> {
+    this.polling = this.polling.then(() =>
+      this.pollOnce().catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, '[TxTracker] poll failed')
+        return 0
+      })
+    )
+    return this.polling
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined
+      void this.poll().then(() => {
+        // Sin nada pendiente el timer queda apagado hasta que llegue otra transacción
+        if (this.timer === undefined && this.store.awaitingFollowUp().length > 0) this.schedule(this.pollIntervalMs)
+      })
+    }, delayMs)
+  }
+
+  private async pollOnce(): Promise<number> {
+    let sent = 0
+    for (const tx of this.store.awaitingFollowUp()) {
+      if (isFinalTxStatus(tx.status)) {
+        // Ya no cambia de estado; solo falta el aviso que falló en una pasada anterior
+        if (await this.deliver(tx)) sent++
+        continue
+      }
+      const now = this.clock.now()
+      const waitingL1 = tx.status === 'accepted_l2'
+      if (waitingL1 && tx.notified && now - tx.updatedAtMs > this.maxL1WaitMs) continue
+      if (waitingL1 && tx.notified && tx.lastCheckedMs !== undefined && now - tx.lastCheckedMs < this.l1PollIntervalMs) continue
+
+      let current = tx
+      try {
+        const observed = await readTxStatus(this.provider, tx.txHash)
+        const status = observed.status ?? (now - tx.submittedAtMs > this.maxUnseenMs ? 'rejected' : 'pending')
+        const changed = status !== tx.status
+        current =
+          this.store.update(tx.txHash, {
+            status,
+            revertReason: observed.revertReason ?? tx.revertReason,
+            lastCheckedMs: now,
+            ...(changed ? { updatedAtMs: now } : {}),
+          }) ?? tx
+        if (changed) logger.info({ txHash: tx.txHash, from: tx.status, to: status }, '[TxTracker] status changed')
+      } catch (error) {
+        logger.warn({ txHash: tx.txHash, error: error instanceof Error ? error.message : String(error) }, '[TxTracker] status query failed')
+        continue
+      }
+
+      if (current.notified || current.status === 'pending') continue
+      if (await this.deliver(current)) sent++
+    }
+    return sent
+  }
+
+  private async deliver(tx: TrackedTx): Promise<boolean> {
+    if (!describeTxOutcome(tx)) return false
+    try {
+      await this.notify(tx)
+      this.store.update(tx.txHash, { notified: true })
+      return true
+    } catch (error) {
+      logger.error({ txHash: tx.txHash, error: error instanceof Error ? error.message : String(error) }, '[TxTracker] notify failed')
+      return false
+    }
+  }
+}